@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireKycAuth } from '../../../../src/middleware/auth.middleware.js';
+import { withRateLimit } from '../../../../src/middleware/ratelimit.middleware.js';
+import { withBodyValidation } from '../../../../src/middleware/validation.middleware.js';
+import { withErrorHandling } from '../../../../src/middleware/error.middleware.js';
+import { KycService } from '../../../../src/services/kyc.service.js';
+import { IfscService } from '../../../../src/services/ifsc.service.js';
+
+/**
+ * Bank Account Verification API Route
+ * GET /api/bank/verify?ifsc=HDFC0000001 - Bank and branch for an IFSC
+ * POST /api/bank/verify - Penny-drop the applicant's account and match the holder name
+ */
+
+// HTTP status for failed verifications, by error code
+const ERROR_STATUS: Record<string, number> = {
+  APPLICATION_NOT_FOUND: 404,
+  PROVIDER_NOT_CONFIGURED: 500,
+  TIMEOUT: 504,
+  RATE_LIMITED: 429,
+  UPSTREAM_UNAVAILABLE: 503
+};
+
+async function handleGet(request: NextRequest) {
+  const url = new URL(request.url);
+  const ifsc = url.searchParams.get('ifsc') || '';
+
+  if (!IfscService.isValidFormat(ifsc)) {
+    return NextResponse.json(
+      { success: false, error: 'A valid 11-character IFSC is required', code: 'INVALID_IFSC' },
+      { status: 400 }
+    );
+  }
+
+  if (!IfscService.isAvailable()) {
+    return NextResponse.json(
+      { success: false, error: 'IFSC directory is not available', code: 'IFSC_DIRECTORY_UNAVAILABLE' },
+      { status: 503 }
+    );
+  }
+
+  const branch = IfscService.lookup(ifsc);
+  if (!branch) {
+    return NextResponse.json(
+      { success: false, error: 'IFSC code not found', code: 'IFSC_NOT_FOUND' },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({ success: true, branch });
+}
+
+async function handlePost(request: NextRequest & { user: any; validatedBody: any }) {
+  const { applicationId, accountNumber, ifsc } = request.validatedBody;
+
+  const result = await KycService.verifyBankAccount(request.user.id, applicationId, { accountNumber, ifsc });
+
+  if (!result.success || !('bankAccount' in result)) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: result.error,
+        code: result.code || 'BANK_VERIFICATION_FAILED',
+        retryable: result.retryable
+      },
+      { status: ERROR_STATUS[result.code] || 400 }
+    );
+  }
+
+  return NextResponse.json({
+    success: true,
+    ...(result.sandbox && { sandbox: true }),
+    verified: result.verified,
+    bankAccount: result.bankAccount,
+    branch: result.branch,
+    error: result.error,
+    timestamp: new Date().toISOString()
+  });
+}
+
+export const GET = withErrorHandling(
+  withRateLimit(handleGet, { window: 60, max: 30 })
+);
+
+export const POST = withErrorHandling(
+  requireKycAuth(
+    withBodyValidation(
+      withRateLimit(handlePost, { window: 300, max: 5 }),
+      'bankVerification'
+    )
+  )
+);
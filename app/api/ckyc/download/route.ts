@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireKycAuth } from '../../../../src/middleware/auth.middleware.js';
+import { withRateLimit } from '../../../../src/middleware/ratelimit.middleware.js';
+import { withBodyValidation } from '../../../../src/middleware/validation.middleware.js';
+import { withErrorHandling } from '../../../../src/middleware/error.middleware.js';
+import { KycService } from '../../../../src/services/kyc.service.js';
+
+/**
+ * CKYC Download API Route
+ * POST /api/ckyc/download - Download a CKYC record and pre-fill the application's personal information
+ */
+
+// HTTP status for failed downloads, by error code
+const ERROR_STATUS: Record<string, number> = {
+  APPLICATION_NOT_FOUND: 404,
+  PROVIDER_NOT_CONFIGURED: 500,
+  TIMEOUT: 504,
+  RATE_LIMITED: 429,
+  UPSTREAM_UNAVAILABLE: 503
+};
+
+async function handlePost(request: NextRequest & { user: any; validatedBody: any }) {
+  const { applicationId, ckycNumber, dateOfBirth } = request.validatedBody;
+
+  const result = await KycService.downloadCkycRecord(request.user.id, applicationId, { ckycNumber, dateOfBirth });
+
+  if (!result.success || !('personalInfo' in result)) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: result.error,
+        code: result.code || 'CKYC_DOWNLOAD_FAILED',
+        retryable: result.retryable
+      },
+      { status: ERROR_STATUS[result.code] || 400 }
+    );
+  }
+
+  return NextResponse.json({
+    success: true,
+    ...(result.sandbox && { sandbox: true }),
+    ckycNumber: result.ckycNumber,
+    personalInfo: result.personalInfo,
+    timestamp: new Date().toISOString()
+  });
+}
+
+export const POST = withErrorHandling(
+  requireKycAuth(
+    withBodyValidation(
+      withRateLimit(handlePost, { window: 300, max: 5 }),
+      'ckycDownload'
+    )
+  )
+);
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireKycAuth } from '../../../../src/middleware/auth.middleware.js';
+import { withRateLimit } from '../../../../src/middleware/ratelimit.middleware.js';
+import { withBodyValidation } from '../../../../src/middleware/validation.middleware.js';
+import { withErrorHandling } from '../../../../src/middleware/error.middleware.js';
+import { KycService } from '../../../../src/services/kyc.service.js';
+
+/**
+ * CKYC Search API Route
+ * POST /api/ckyc/search - Look for an existing Central KYC record by PAN or Aadhaar
+ */
+
+// HTTP status for failed searches, by error code
+const ERROR_STATUS: Record<string, number> = {
+  APPLICATION_NOT_FOUND: 404,
+  PROVIDER_NOT_CONFIGURED: 500,
+  TIMEOUT: 504,
+  RATE_LIMITED: 429,
+  UPSTREAM_UNAVAILABLE: 503
+};
+
+async function handlePost(request: NextRequest & { user: any; validatedBody: any }) {
+  const { applicationId, idType, idNumber } = request.validatedBody;
+
+  const result = await KycService.searchCkyc(request.user.id, applicationId, { idType, idNumber });
+
+  if (!result.success || !('found' in result)) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: result.error,
+        code: result.code || 'CKYC_SEARCH_FAILED',
+        retryable: result.retryable
+      },
+      { status: ERROR_STATUS[result.code] || 400 }
+    );
+  }
+
+  return NextResponse.json({
+    success: true,
+    ...(result.sandbox && { sandbox: true }),
+    found: result.found,
+    ckycNumber: result.ckycNumber,
+    name: result.name,
+    fatherName: result.fatherName,
+    kycDate: result.kycDate,
+    nextStep: result.nextStep,
+    timestamp: new Date().toISOString()
+  });
+}
+
+export const POST = withErrorHandling(
+  requireKycAuth(
+    withBodyValidation(
+      withRateLimit(handlePost, { window: 300, max: 10 }),
+      'ckycSearch'
+    )
+  )
+);
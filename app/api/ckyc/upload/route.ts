@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdminAuth } from '../../../../src/middleware/auth.middleware.js';
+import { withBodyValidation } from '../../../../src/middleware/validation.middleware.js';
+import { withErrorHandling } from '../../../../src/middleware/error.middleware.js';
+import { KycService } from '../../../../src/services/kyc.service.js';
+
+/**
+ * CKYC Upload API Route (admin)
+ * POST /api/ckyc/upload - Generate the CKYC bulk upload file for approved applications
+ */
+
+async function handlePost(request: NextRequest & { user: any; validatedBody: any }) {
+  const { applicationIds, batchNumber, regionCode, branchCode } = request.validatedBody;
+  const fiCode = request.validatedBody.fiCode || process.env.CKYC_FI_CODE;
+
+  if (!fiCode) {
+    return NextResponse.json(
+      { success: false, error: 'CKYC FI code is not configured', code: 'CKYC_FI_CODE_MISSING' },
+      { status: 500 }
+    );
+  }
+
+  const result = await KycService.generateCkycUpload(applicationIds, {
+    fiCode,
+    regionCode,
+    branchCode,
+    batchNumber,
+    generatedBy: request.user.id
+  });
+
+  if (!result.success || !('content' in result)) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: result.error,
+        code: result.code || 'CKYC_UPLOAD_FAILED'
+      },
+      { status: result.code === 'APPLICATION_NOT_APPROVED' ? 409 : 500 }
+    );
+  }
+
+  return new NextResponse(result.content, {
+    headers: {
+      'Content-Type': 'text/plain; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${result.fileName}"`,
+      'X-Record-Count': String(result.recordCount)
+    }
+  });
+}
+
+export const POST = withErrorHandling(
+  requireAdminAuth(
+    withBodyValidation(handlePost, 'ckycUpload')
+  )
+);
@@ -1,4 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { ImageQualityService } from '../../../../src/services/image-quality.service.js';
+import { ImagePreprocessService } from '../../../../src/services/image-preprocess.service.js';
+import { AadhaarQrService } from '../../../../src/services/aadhaar-qr.service.js';
+import { OcrService } from '../../../../src/services/ocr.service.js';
+import { TransliterationService } from '../../../../src/services/transliteration.service.js';
+import type { DocumentValidationResult, ValidationIssue } from '@/types/kyc';
 
 // Document upload API route with comprehensive error handling
 export async function POST(request: NextRequest) {
@@ -93,6 +99,11 @@ export async function POST(request: NextRequest) {
       'driving_license_back',
       'voter_id_front',
       'voter_id_back',
+      // Business KYC documents
+      'gst_certificate',
+      'udyam_certificate',
+      'incorporation_certificate',
+      'partnership_deed',
       'other'
     ];
 
@@ -128,8 +139,61 @@ export async function POST(request: NextRequest) {
       type: file.type
     });
     
+    // Image quality gate: ask for a retake before any verification call is made
+    let validationResult: DocumentValidationResult | null = null;
+    if (file.type.startsWith('image/')) {
+      const quality = await ImageQualityService.analyze(buffer);
+      validationResult = {
+        isValid: !ImageQualityService.requiresRetake(quality),
+        isAuthentic: false, // not established until extraction and verification
+        qualityScore: quality.qualityScore,
+        issues: quality.issues as ValidationIssue[],
+        confidence: quality.qualityScore
+      };
+
+      console.log('🖼️ Image quality:', quality.qualityScore, quality.metrics);
+
+      if (!validationResult.isValid) {
+        return NextResponse.json({
+          success: false,
+          error: 'Image quality is too low. Please retake the photo.',
+          code: 'IMAGE_QUALITY_TOO_LOW',
+          validationResult
+        }, { status: 422 });
+      }
+    }
+    
+    // Cleaned crop (perspective, orientation, contrast) shown on the review page
+    let processedImage: string | null = null;
+    let correctedBuffer: Buffer | null = null;
+    if (file.type.startsWith('image/')) {
+      const corrected = await ImagePreprocessService.correctDocument(buffer, {
+        documentType: documentType.replace(/_(front|back)$/, '').replace(/_card$/, '')
+      });
+      correctedBuffer = corrected.buffer;
+      processedImage = `data:image/jpeg;base64,${corrected.buffer.toString('base64')}`;
+    }
+
+    // The photo in a signed Aadhaar Secure QR. An unsigned QR could carry
+    // anyone's photo, so it is only returned once verified.
+    let portraitImage: string | null = null;
+    if (file.type.startsWith('image/') && documentType.startsWith('aadhaar')) {
+      try {
+        const secureQr = await AadhaarQrService.decodeImage(buffer);
+        const portrait = secureQr?.isAuthentic ? await AadhaarQrService.photoToJpeg(secureQr.photo) : null;
+        portraitImage = portrait ? `data:image/jpeg;base64,${portrait.toString('base64')}` : null;
+      } catch (error) {
+        console.warn('Secure QR photo unavailable:', error);
+      }
+    }
+
     // Mock extracted data (in production, use OCR services like Tesseract.js or Google Vision)
-    const extractedData = generateMockExtractedData(documentType, file.name);
+    const extractedData = {
+      ...generateMockExtractedData(documentType, file.name),
+      ...(correctedBuffer && REGIONAL_DOCUMENT_TYPES.includes(documentType)
+        ? await extractRegionalFields(correctedBuffer, (formData.get('language') as string | null) || undefined)
+        : {})
+    };
     
     // Simulate processing time
     await new Promise(resolve => setTimeout(resolve, 500));
@@ -150,6 +214,9 @@ export async function POST(request: NextRequest) {
         // Note: In serverless environment, use cloud storage URLs instead of local paths
         tempData: `data:${file.type};base64,${base64Data.substring(0, 100)}...`, // Truncated for demo
         extractedData,
+        validationResult,
+        processedImage,
+        portraitImage,
         processing: {
           status: 'completed',
           confidence: 0.95,
@@ -230,6 +297,31 @@ export async function GET(request: NextRequest) {
   }
 }
 
+// Card sides that print the name and address in the state language as well
+const REGIONAL_DOCUMENT_TYPES = ['aadhaar_front', 'voter_id_front'];
+
+// Regional-script name and address read from the cleaned crop, with the name
+// transliterated for the reviewer; empty when the card has no regional text
+async function extractRegionalFields(imageBuffer: Buffer, language?: string) {
+  try {
+    const regionalResult = await OcrService.recognizeRegional(imageBuffer, language);
+    const reconciliation = regionalResult && TransliterationService.reconcile(regionalResult.lines);
+    if (!reconciliation) return {};
+
+    return {
+      regionalLanguage: reconciliation.language,
+      ...(reconciliation.name ? {
+        nameRegional: reconciliation.name.regional,
+        nameTransliterated: reconciliation.name.transliterated
+      } : {}),
+      ...(reconciliation.address ? { addressRegional: reconciliation.address.regional } : {})
+    };
+  } catch (error) {
+    console.warn('Regional text unavailable:', error);
+    return {};
+  }
+}
+
 // Helper function to generate mock extracted data
 function generateMockExtractedData(documentType: string, fileName: string) {
   const baseData = {
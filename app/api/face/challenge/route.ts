@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { LivenessChallengeService } from '../../../../src/services/liveness-challenge.service.js';
+
+// Mock auth for now - replace with actual Clerk auth when available
+function auth() {
+  return { userId: 'test-user-id' };
+}
+
+/**
+ * Issue a liveness challenge session: a random ordered sequence of challenges
+ * and the signed token /api/face/verify expects back with the evidence
+ */
+export async function POST() {
+  try {
+    const { userId: clerkId } = auth();
+    if (!clerkId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const session = LivenessChallengeService.issue(clerkId);
+
+    return NextResponse.json({
+      success: true,
+      data: session
+    });
+
+  } catch (error: any) {
+    console.error('Liveness challenge error:', error);
+    return NextResponse.json(
+      {
+        error: 'Could not start the liveness check',
+        details: process.env.NODE_ENV === 'development' ? error.message : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
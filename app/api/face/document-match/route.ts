@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/database';
+import User from '@/src/models/User';
+import { FaceRecognitionService } from '../../../../src/services/face.service.js';
+import { FaceIndexService } from '../../../../src/services/face-index.service.js';
+import { DocumentFaceMatchService } from '../../../../src/services/document-face-match.service.js';
+import type { DocumentFaceMatch, FaceMatchSummary } from '@/types/kyc';
+
+/**
+ * Document Face Match API Route
+ * POST /api/face/document-match - Match the user's live selfie with the photos on their uploaded IDs
+ *
+ * Multipart form: `documents`, a JSON [{ id, type }] of the uploads, with an
+ * `image:<id>` file (cleaned card crop) for each. The selfie is the one
+ * enrolled by the user's latest passed liveness check, and an Aadhaar Secure
+ * QR photo is decoded from the card image here, so neither can be swapped
+ * for another photo. Each document's result is saved as a DOCUMENT_FACE_MATCH
+ * FaceVerification for the reviewers.
+ */
+
+const MAX_DOCUMENTS = 10;
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+
+const faceService = new FaceRecognitionService();
+
+// Mock auth for now - replace with actual Clerk auth when available
+function auth() {
+  return { userId: 'test-user-id' };
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { userId: clerkId } = auth();
+    if (!clerkId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const formData = await request.formData();
+    const uploads = await parseUploads(formData);
+    if (!uploads) {
+      return NextResponse.json(
+        { error: 'Documents and their images are required', code: 'INVALID_DOCUMENTS' },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+    const user = await User.findOne({ clerkId });
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const selfie = await FaceIndexService.latestSelfie(user._id);
+    if (!selfie) {
+      return NextResponse.json(
+        { error: 'Complete the face verification before matching documents', code: 'SELFIE_NOT_ENROLLED' },
+        { status: 409 }
+      );
+    }
+
+    // One document at a time: the nets run on the CPU
+    const matches: DocumentFaceMatch[] = [];
+    for (const upload of DocumentFaceMatchService.photoIds(uploads)) {
+      const match = await faceService.matchDocumentFace(selfie, upload, user._id);
+      // The JS service's document types infer as plain strings
+      if (match) matches.push(match as DocumentFaceMatch);
+    }
+
+    const summary: FaceMatchSummary = DocumentFaceMatchService.summarize(matches);
+
+    console.log('Document face match result:', {
+      selfieVerificationId: selfie.verificationId,
+      isMatch: summary.isMatch,
+      matchScore: summary.matchScore,
+      documents: matches.map(match => `${match.documentType}/${match.source}=${match.isMatch}`)
+    });
+
+    return NextResponse.json({ success: true, data: summary });
+
+  } catch (error: any) {
+    console.error('Document face match error:', error);
+    return NextResponse.json(
+      {
+        error: 'Document face match failed',
+        details: process.env.NODE_ENV === 'development' ? error.message : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// The uploads named in `documents` with their image Buffers. Null when missing,
+// oversized or malformed.
+async function parseUploads(formData: FormData) {
+  let documents: { id?: unknown; type?: unknown }[];
+  try {
+    documents = JSON.parse(String(formData.get('documents') || ''));
+  } catch {
+    return null;
+  }
+  if (!Array.isArray(documents) || documents.length === 0 || documents.length > MAX_DOCUMENTS) return null;
+
+  const readFile = async (name: string) => {
+    const value = formData.get(name);
+    if (!value || typeof value === 'string') return undefined;
+    if (value.size > MAX_IMAGE_BYTES) throw new RangeError(`${name} is too large`);
+    return Buffer.from(await value.arrayBuffer());
+  };
+
+  const uploads = [];
+  for (const { id, type } of documents) {
+    if (typeof id !== 'string' || typeof type !== 'string') return null;
+    try {
+      uploads.push({ id, type, image: await readFile(`image:${id}`) });
+    } catch {
+      return null;
+    }
+  }
+  return uploads;
+}
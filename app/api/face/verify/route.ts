@@ -1,4 +1,26 @@
 import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/database';
+import User from '@/src/models/User';
+import { FaceRecognitionService } from '../../../../src/services/face.service.js';
+import { SandboxService } from '../../../../src/services/sandbox.service.js';
+import { LivenessChallengeService, LivenessChallengeError } from '../../../../src/services/liveness-challenge.service.js';
+import { MultiFrameLivenessService } from '../../../../src/services/multi-frame-liveness.service.js';
+import type { LivenessChallenge, LivenessFrameMeta } from '@/types/kyc';
+
+const CHALLENGE_ERROR_STATUS: Record<string, number> = {
+  INVALID_TOKEN: 401,
+  CHALLENGE_EXPIRED: 410,
+  CHALLENGE_REUSED: 409
+};
+
+// HTTP status when the selfie could not be analysed, by code
+const ANALYSIS_ERROR_STATUS: Record<string, number> = {
+  NO_FACE_DETECTED: 422,
+  MULTIPLE_FACES: 422,
+  PROCESSING_ERROR: 500
+};
+
+const faceService = new FaceRecognitionService();
 
 // Mock auth for now - replace with actual Clerk auth when available
 function auth() {
@@ -21,6 +43,7 @@ export async function POST(request: NextRequest) {
     const imageFile = formData.get('image') as File;
     const verificationType = formData.get('verificationType') as string || 'liveness_detection';
     const sessionId = formData.get('sessionId') as string;
+    const challenges = parseChallenges(formData.get('challenges'));
 
     if (!imageFile) {
       return NextResponse.json(
@@ -37,47 +60,101 @@ export async function POST(request: NextRequest) {
       fileSize: imageFile.size,
       fileType: imageFile.type,
       verificationType,
-      sessionId
+      sessionId,
+      frames: formData.getAll('frames').length,
+      challenges: challenges.map(challenge => `${challenge.type}${challenge.direction ? `:${challenge.direction}` : ''}=${challenge.completed}`)
     });
 
-    // Mock face verification result for now (replace with actual face-api.js processing)
-    const mockResult = {
-      isLive: Math.random() > 0.3, // 70% success rate for demo
-      confidence: 0.85 + Math.random() * 0.1, // 85-95% confidence
-      livenessScore: 0.80 + Math.random() * 0.15, // 80-95% liveness
-      antiSpoofing: {
-        detected: Math.random() > 0.9, // 10% chance of spoofing detection
-        confidence: 0.75 + Math.random() * 0.2
-      },
-      environmentalFactors: {
-        lighting: 'good',
-        facePosition: 'centered',
-        imageQuality: 'high'
-      },
-      faceDetection: {
-        facesDetected: 1,
-        landmarks: 68,
-        faceArea: 0.25
+    // Sandbox mode: fixed result for the scenario named by sessionId
+    if (SandboxService.isEnabled()) {
+      const sandboxResult = SandboxService.verifyFace(sessionId);
+      return NextResponse.json({
+        success: true,
+        sandbox: true,
+        data: {
+          verificationId: `face_sandbox_${sandboxResult.scenario}`,
+          ...sandboxResult,
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+
+    // A single still can be replayed; the frames recorded during the challenges cannot.
+    // Checked before the challenge token is used up, so a malformed upload can be retried.
+    const frames = await parseFrames(formData);
+    if (!frames) {
+      return NextResponse.json(
+        { error: 'Frames recorded during the liveness challenges are required', code: 'INVALID_FRAME_BUNDLE' },
+        { status: 400 }
+      );
+    }
+
+    // The evidence must answer, in order, the session issued by /api/face/challenge
+    let challengeSession;
+    try {
+      challengeSession = await LivenessChallengeService.verify(formData.get('challengeToken'), challenges, clerkId);
+    } catch (error) {
+      if (error instanceof LivenessChallengeError) {
+        return NextResponse.json(
+          { error: error.message, code: error.code },
+          { status: CHALLENGE_ERROR_STATUS[error.code] || 400 }
+        );
       }
-    };
+      throw error;
+    }
+
+    await connectDB();
+    const user = await User.findOne({ clerkId });
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
 
-    const verificationId = `face_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    // Detection, landmarks, quality and anti-spoofing on the server; saved as a FaceVerification
+    const analysis = await faceService.detectLiveness(imageBuffer, user._id, null, {
+      sessionId: challengeSession.sessionId,
+      captureMethod: 'camera',
+      deviceInfo: { userAgent: request.headers.get('user-agent') || undefined },
+      challenges,
+      frames,
+      maxSpanMs: LivenessChallengeService.TTL_SECONDS * 1000
+    });
 
     console.log('Face verification result:', {
-      verificationId,
-      isLive: mockResult.isLive,
-      confidence: mockResult.confidence
+      verificationId: analysis.verificationId,
+      isLive: analysis.success,
+      confidence: analysis.confidence,
+      code: analysis.code
     });
 
+    const { details } = analysis;
+    if (analysis.code || !details) {
+      return NextResponse.json(
+        { error: analysis.error, code: analysis.code, verificationId: analysis.verificationId, facesDetected: details?.facesDetected },
+        { status: ANALYSIS_ERROR_STATUS[analysis.code || 'PROCESSING_ERROR'] }
+      );
+    }
+
     return NextResponse.json({
       success: true,
       data: {
-        verificationId,
-        isLive: mockResult.isLive,
-        confidence: mockResult.confidence,
-        livenessScore: mockResult.livenessScore,
-        antiSpoofing: mockResult.antiSpoofing,
-        environmentalFactors: mockResult.environmentalFactors,
+        verificationId: analysis.verificationId,
+        isLive: analysis.success,
+        confidence: analysis.confidence,
+        faceDetection: {
+          facesDetected: details.facesDetected,
+          confidence: details.faceQuality,
+          landmarks: details.landmarks,
+          faceArea: details.faceArea
+        },
+        pose: details.pose,
+        imageQuality: details.imageQuality,
+        antiSpoofing: details.antiSpoofing,
+        temporalConsistency: details.temporalConsistency,
+        livenessChecks: details.livenessChecks,
+        failureReasons: details.failureReasons,
+        recommendations: details.recommendations,
+        challengeSessionId: challengeSession.sessionId,
+        challenges,
         timestamp: new Date().toISOString()
       }
     });
@@ -94,6 +171,48 @@ export async function POST(request: NextRequest) {
   }
 }
 
+// Challenge results the page recorded, as a JSON LivenessChallenge[] form field
+function parseChallenges(value: FormDataEntryValue | null): LivenessChallenge[] {
+  if (typeof value !== 'string') return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed)
+      ? parsed.filter(challenge => challenge && typeof challenge.type === 'string' && typeof challenge.completed === 'boolean')
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+// Frames recorded during the challenges: `frames` files with a JSON `frameManifest`
+// (LivenessFrameMeta[]) in the same order. Null when missing, oversized or malformed.
+async function parseFrames(formData: FormData) {
+  const files = formData.getAll('frames').filter((value): value is File => typeof value !== 'string');
+  let manifest: Partial<LivenessFrameMeta>[];
+  try {
+    manifest = JSON.parse(String(formData.get('frameManifest') || ''));
+  } catch {
+    return null;
+  }
+
+  if (!Array.isArray(manifest) || files.length === 0 || manifest.length !== files.length) return null;
+  if (files.length > MultiFrameLivenessService.MAX_FRAMES) return null;
+  if (files.some(file => file.size > MultiFrameLivenessService.MAX_FRAME_BYTES)) return null;
+
+  const perChallenge = new Map<string, number>();
+  const frames = [];
+  for (let index = 0; index < files.length; index++) {
+    const { challengeId, timestamp } = manifest[index] || {};
+    if (typeof challengeId !== 'string' || typeof timestamp !== 'number' || !Number.isFinite(timestamp)) return null;
+
+    perChallenge.set(challengeId, (perChallenge.get(challengeId) || 0) + 1);
+    if (perChallenge.get(challengeId)! > MultiFrameLivenessService.MAX_FRAMES_PER_CHALLENGE) return null;
+
+    frames.push({ buffer: Buffer.from(await files[index].arrayBuffer()), challengeId, timestamp });
+  }
+  return frames;
+}
+
 export async function GET(request: NextRequest) {
   try {
     // Authenticate user
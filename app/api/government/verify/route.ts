@@ -1,6 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 
-// Mock government verification APIs (in production, these would call real government APIs)
+import {
+  VerificationProviderService,
+  VerificationProviderError
+} from '../../../../src/services/verification-provider.service.js';
+import { SandboxService } from '../../../../src/services/sandbox.service.js';
+import { PincodeService } from '../../../../src/services/pincode.service.js';
+import type { GovernmentDocumentType, VerificationErrorCode } from '@/types/kyc';
 
 interface VerificationResult {
   isValid: boolean;
@@ -9,196 +15,47 @@ interface VerificationResult {
   timestamp: string;
   details?: any;
   errors?: string[];
+  requiresReview?: boolean;
 }
 
-// Mock Aadhaar verification (UIDAI eKYC simulation)
-const verifyAadhaar = async (aadhaarNumber: string, name: string, dob: string): Promise<VerificationResult> => {
-  // Simulate API call delay
-  await new Promise(resolve => setTimeout(resolve, 1500));
-
-  // Basic Aadhaar number validation
-  const cleanAadhaar = aadhaarNumber.replace(/\s|-/g, '');
-  
-  if (!/^\d{12}$/.test(cleanAadhaar)) {
-    return {
-      isValid: false,
-      confidence: 0,
-      verificationSource: 'UIDAI eKYC',
-      timestamp: new Date().toISOString(),
-      errors: ['Invalid Aadhaar number format']
-    };
-  }
-
-  // Mock verification with high success rate for demo
-  const isValid = Math.random() > 0.1; // 90% success rate
-  
-  return {
-    isValid,
-    confidence: isValid ? 0.95 + (Math.random() * 0.05) : 0.1 + (Math.random() * 0.2),
-    verificationSource: 'UIDAI eKYC API',
-    timestamp: new Date().toISOString(),
-    details: isValid ? {
-      name: name.toUpperCase(),
-      dateOfBirth: dob,
-      gender: 'M',
-      address: 'Address verified against UIDAI database',
-      mobileVerified: true,
-      emailVerified: false
-    } : undefined,
-    errors: isValid ? undefined : ['Name or date of birth mismatch']
-  };
+const SUPPORTED_DOCUMENTS: GovernmentDocumentType[] = ['aadhaar', 'pan', 'passport', 'license', 'voter_id'];
+
+// HTTP status returned when a provider fails after retries
+const PROVIDER_ERROR_STATUS: Record<VerificationErrorCode, number> = {
+  PROVIDER_NOT_CONFIGURED: 500,
+  UNSUPPORTED_DOCUMENT: 400,
+  TIMEOUT: 504,
+  RATE_LIMITED: 429,
+  UPSTREAM_UNAVAILABLE: 503,
+  AUTHENTICATION_FAILED: 502,
+  INVALID_RESPONSE: 502
 };
 
-// Mock PAN verification (Income Tax Department simulation)
-const verifyPAN = async (panNumber: string, name: string, dob: string): Promise<VerificationResult> => {
-  await new Promise(resolve => setTimeout(resolve, 1200));
-
-  if (!/^[A-Z]{5}\d{4}[A-Z]$/.test(panNumber)) {
-    return {
-      isValid: false,
-      confidence: 0,
-      verificationSource: 'Income Tax Department',
-      timestamp: new Date().toISOString(),
-      errors: ['Invalid PAN number format']
-    };
-  }
-
-  const isValid = Math.random() > 0.15; // 85% success rate
-  
-  return {
-    isValid,
-    confidence: isValid ? 0.92 + (Math.random() * 0.08) : 0.05 + (Math.random() * 0.15),
-    verificationSource: 'Income Tax Department API',
-    timestamp: new Date().toISOString(),
-    details: isValid ? {
-      panNumber,
-      name: name.toUpperCase(),
-      dateOfBirth: dob,
-      status: 'ACTIVE',
-      aadhaarLinked: true,
-      lastFiledYear: '2023-24'
-    } : undefined,
-    errors: isValid ? undefined : ['PAN details do not match records']
-  };
-};
-
-// Mock Passport verification (Passport Seva simulation)
-const verifyPassport = async (passportNumber: string, name: string, dob: string): Promise<VerificationResult> => {
-  await new Promise(resolve => setTimeout(resolve, 2000));
-
-  if (!/^[A-Z]\d{7}$/.test(passportNumber)) {
-    return {
-      isValid: false,
-      confidence: 0,
-      verificationSource: 'Passport Seva',
-      timestamp: new Date().toISOString(),
-      errors: ['Invalid passport number format']
-    };
-  }
-
-  const isValid = Math.random() > 0.2; // 80% success rate
-  
-  return {
-    isValid,
-    confidence: isValid ? 0.88 + (Math.random() * 0.12) : 0.1 + (Math.random() * 0.25),
-    verificationSource: 'Passport Seva Kendra API',
-    timestamp: new Date().toISOString(),
-    details: isValid ? {
-      passportNumber,
-      name: name.toUpperCase(),
-      dateOfBirth: dob,
-      placeOfBirth: 'DELHI, INDIA',
-      nationality: 'INDIAN',
-      issueDate: '15/01/2020',
-      expiryDate: '14/01/2030',
-      status: 'VALID'
-    } : undefined,
-    errors: isValid ? undefined : ['Passport details verification failed']
-  };
-};
-
-// Mock License verification (State RTO simulation)
-const verifyLicense = async (licenseNumber: string, name: string, dob: string): Promise<VerificationResult> => {
-  await new Promise(resolve => setTimeout(resolve, 1000));
-
-  if (!/^[A-Z]{2}-\d{13}$/.test(licenseNumber)) {
-    return {
-      isValid: false,
-      confidence: 0,
-      verificationSource: 'State RTO',
-      timestamp: new Date().toISOString(),
-      errors: ['Invalid driving license number format']
-    };
-  }
-
-  const isValid = Math.random() > 0.25; // 75% success rate
-  
-  return {
-    isValid,
-    confidence: isValid ? 0.85 + (Math.random() * 0.15) : 0.05 + (Math.random() * 0.2),
-    verificationSource: 'State RTO Database',
-    timestamp: new Date().toISOString(),
-    details: isValid ? {
-      licenseNumber,
-      name: name.toUpperCase(),
-      dateOfBirth: dob,
-      issueDate: '15/01/2020',
-      validTill: '14/01/2040',
-      licenseClass: 'LMV',
-      status: 'ACTIVE',
-      endorsements: [],
-      violations: 0
-    } : undefined,
-    errors: isValid ? undefined : ['License details not found or expired']
-  };
-};
-
-// Address verification using PIN code API
-const verifyAddress = async (address: string, pinCode: string): Promise<VerificationResult> => {
-  await new Promise(resolve => setTimeout(resolve, 800));
+// Address verification against the India Post PIN code directory
+const verifyAddress = (address: string, pinCode: string, city?: string, state?: string): VerificationResult & { mismatches?: string[] } => {
+  const timestamp = new Date().toISOString();
 
   if (!/^\d{6}$/.test(pinCode)) {
     return {
       isValid: false,
       confidence: 0,
       verificationSource: 'Postal Department',
-      timestamp: new Date().toISOString(),
+      timestamp,
       errors: ['Invalid PIN code format']
     };
   }
 
-  // Mock PIN code database
-  const validPinCodes: { [key: string]: { city: string; state: string; district: string } } = {
-    '122001': { city: 'Gurgaon', state: 'Haryana', district: 'Gurgaon' },
-    '110001': { city: 'New Delhi', state: 'Delhi', district: 'Central Delhi' },
-    '400001': { city: 'Mumbai', state: 'Maharashtra', district: 'Mumbai City' },
-    '560001': { city: 'Bangalore', state: 'Karnataka', district: 'Bangalore Urban' },
-    '600001': { city: 'Chennai', state: 'Tamil Nadu', district: 'Chennai' }
-  };
-
-  const pinInfo = validPinCodes[pinCode];
-  const isValid = !!pinInfo;
-  
   return {
-    isValid,
-    confidence: isValid ? 0.98 : 0.1,
-    verificationSource: 'India Post PIN Code Database',
-    timestamp: new Date().toISOString(),
-    details: isValid ? {
-      pinCode,
-      city: pinInfo.city,
-      state: pinInfo.state,
-      district: pinInfo.district,
-      addressMatch: address.toLowerCase().includes(pinInfo.city.toLowerCase())
-    } : undefined,
-    errors: isValid ? undefined : ['PIN code not found in database']
+    ...PincodeService.verifyAddress(address, pinCode, { city, state }),
+    verificationSource: 'India Post PIN Code Directory',
+    timestamp
   };
 };
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { documentType, documentNumber, name, dateOfBirth, address, pinCode } = body;
+    const { documentType, documentNumber, name, dateOfBirth, relativeName, address, pinCode, city, state } = body;
 
     console.log('🔍 Government verification API called');
     console.log('📋 Verification request:', {
@@ -214,37 +71,51 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    let verificationResult: VerificationResult;
+    const normalizedType = documentType.toLowerCase() as GovernmentDocumentType;
+    if (!SUPPORTED_DOCUMENTS.includes(normalizedType)) {
+      return NextResponse.json(
+        { error: 'Unsupported document type. Supported: aadhaar, pan, passport, license, voter_id' },
+        { status: 400 }
+      );
+    }
 
-    // Perform verification based on document type
-    switch (documentType.toLowerCase()) {
-      case 'aadhaar':
-        verificationResult = await verifyAadhaar(documentNumber, name, dateOfBirth);
-        break;
-        
-      case 'pan':
-        verificationResult = await verifyPAN(documentNumber, name, dateOfBirth);
-        break;
-        
-      case 'passport':
-        verificationResult = await verifyPassport(documentNumber, name, dateOfBirth);
-        break;
-        
-      case 'license':
-        verificationResult = await verifyLicense(documentNumber, name, dateOfBirth);
-        break;
-        
-      default:
-        return NextResponse.json(
-          { error: 'Unsupported document type. Supported: aadhaar, pan, passport, license' },
-          { status: 400 }
+    // Perform verification with the configured provider; sandbox mode answers
+    // magic numbers itself and never calls a real vendor
+    const sandbox = SandboxService.isEnabled();
+    const verificationRequest = {
+      documentType: normalizedType,
+      documentNumber,
+      name,
+      dateOfBirth,
+      relativeName
+    };
+    let verificationResult: VerificationResult;
+    try {
+      verificationResult = (sandbox && SandboxService.verifyDocument(verificationRequest)) ||
+        await VerificationProviderService.verify(
+          verificationRequest,
+          sandbox ? { provider: VerificationProviderService.DEFAULT_PROVIDER } : {}
         );
+    } catch (error) {
+      if (!(error instanceof VerificationProviderError)) throw error;
+
+      const code = error.code as VerificationErrorCode;
+      console.error('❌ Verification provider error:', code, error.message);
+      return NextResponse.json(
+        {
+          error: 'Government verification is temporarily unavailable. Please try again.',
+          code,
+          provider: error.provider,
+          retryable: error.retryable
+        },
+        { status: PROVIDER_ERROR_STATUS[code] || 502 }
+      );
     }
 
     // Additional address verification if provided
     let addressVerification: VerificationResult | null = null;
     if (address && pinCode) {
-      addressVerification = await verifyAddress(address, pinCode);
+      addressVerification = verifyAddress(address, pinCode, city, state);
     }
 
     console.log('✅ Verification completed');
@@ -257,6 +128,7 @@ export async function POST(request: NextRequest) {
 
     const response = {
       success: true,
+      ...(sandbox && { sandbox: true }),
       documentType,
       verification: verificationResult,
       addressVerification,
@@ -279,9 +151,22 @@ export async function POST(request: NextRequest) {
   }
 }
 
+// Configured provider for the service description; a misconfiguration is
+// reported rather than failing the whole description
+const describeProvider = () => {
+  try {
+    return { provider: VerificationProviderService.getProvider().name };
+  } catch (error) {
+    if (!(error instanceof VerificationProviderError)) throw error;
+    return { provider: null, providerError: { code: error.code, message: error.message } };
+  }
+};
+
 export async function GET() {
   return NextResponse.json({
     message: 'Government Verification API',
+    ...describeProvider(),
+    sandbox: SandboxService.isEnabled() ? { enabled: true, identities: SandboxService.describeIdentities() } : { enabled: false },
     supportedDocuments: {
       aadhaar: {
         source: 'UIDAI eKYC API',
@@ -302,13 +187,20 @@ export async function GET() {
         source: 'State RTO Database',
         validationPattern: 'AA-9999999999999 format',
         verificationFields: ['name', 'dateOfBirth', 'address', 'licenseClass']
+      },
+      voter_id: {
+        source: 'ECI Electoral Roll',
+        validationPattern: 'AAA9999999 format (EPIC number)',
+        verificationFields: ['name', 'relativeName', 'age', 'gender', 'constituency']
       }
     },
     additionalServices: {
       addressVerification: {
-        source: 'India Post PIN Code Database',
+        source: 'India Post PIN Code Directory',
+        available: PincodeService.isAvailable(),
         validationPattern: '6-digit PIN code',
-        verificationFields: ['pinCode', 'city', 'state', 'district']
+        verificationFields: ['pinCode', 'city', 'state', 'district'],
+        optionalFields: ['city', 'state']
       }
     },
     features: [
@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import connectDatabase from '../../../lib/database.js';
 import { redis } from '../../../lib/redis.js';
+import { checkFaceModelFiles } from '../../../src/lib/face-models.js';
+import { PincodeService } from '../../../src/services/pincode.service.js';
+import { IfscService } from '../../../src/services/ifsc.service.js';
+import { AadhaarQrService } from '../../../src/services/aadhaar-qr.service.js';
 
 /**
  * Health Check API Route
@@ -194,6 +198,58 @@ async function checkExternalServices(): Promise<HealthCheckResult[]> {
   return services;
 }
 
+// Face verification cannot run at all without complete weights for every net
+function checkFaceModels(): HealthCheckResult {
+  try {
+    const models = checkFaceModelFiles();
+    const incomplete = models.filter(model => !model.complete);
+
+    return {
+      service: 'face_models',
+      status: incomplete.length === 0 ? 'healthy' : 'unhealthy',
+      ...(incomplete.length > 0 && { error: `Incomplete weights: ${incomplete.map(model => model.model).join(', ')}` }),
+      details: { models }
+    };
+  } catch (error: any) {
+    return {
+      service: 'face_models',
+      status: 'unhealthy',
+      error: error.message
+    };
+  }
+}
+
+// Without the India Post directory every address fails PIN code verification
+function checkPincodeDirectory(): HealthCheckResult {
+  const available = PincodeService.isAvailable();
+  return {
+    service: 'pincode_directory',
+    status: available ? 'healthy' : 'unhealthy',
+    ...(!available && { error: `PIN code directory missing at ${PincodeService.DATA_PATH}` })
+  };
+}
+
+// Without the IFSC directory bank accounts are penny-dropped on format checks alone
+function checkIfscDirectory(): HealthCheckResult {
+  const available = IfscService.isAvailable();
+  return {
+    service: 'ifsc_directory',
+    status: available ? 'healthy' : 'unhealthy',
+    ...(!available && { error: `IFSC directory missing at ${IfscService.DATA_PATH}` })
+  };
+}
+
+// Without UIDAI's certificate no Aadhaar Secure QR is authentic and its portrait
+// is never used, but the rest of KYC still works
+function checkUidaiCertificate(): HealthCheckResult {
+  const available = AadhaarQrService.isCertificateAvailable();
+  return {
+    service: 'uidai_certificate',
+    status: available ? 'healthy' : 'degraded',
+    ...(!available && { error: `UIDAI Secure QR certificate missing at ${AadhaarQrService.CERTIFICATE_PATH}` })
+  };
+}
+
 async function checkSystemResources(): Promise<HealthCheckResult> {
   try {
     const memoryUsage = process.memoryUsage();
@@ -253,6 +309,10 @@ export async function GET(request: NextRequest): Promise<NextResponse<HealthResp
       databaseHealth,
       redisHealth,
       systemHealth,
+      checkFaceModels(),
+      checkPincodeDirectory(),
+      checkIfscDirectory(),
+      checkUidaiCertificate(),
       ...externalServicesHealth
     ];
 
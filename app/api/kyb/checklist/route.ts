@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdminAuth } from '../../../../src/middleware/auth.middleware.js';
+import { withErrorHandling } from '../../../../src/middleware/error.middleware.js';
+import { KycService } from '../../../../src/services/kyc.service.js';
+
+/**
+ * KYB Review Checklist API Route (admin)
+ * GET /api/kyb/checklist?applicationId=... - Build the review checklist for a business application
+ */
+
+async function handleGet(request: NextRequest & { user: any }) {
+  const url = new URL(request.url);
+  const applicationId = url.searchParams.get('applicationId');
+
+  if (!applicationId) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Application ID is required',
+        code: 'MISSING_APPLICATION_ID'
+      },
+      { status: 400 }
+    );
+  }
+
+  const result = await KycService.getBusinessReviewChecklist(applicationId);
+
+  if (!result.success || !('checklist' in result)) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: result.error,
+        code: result.code || 'CHECKLIST_FAILED'
+      },
+      { status: result.code === 'APPLICATION_NOT_FOUND' ? 404 : 500 }
+    );
+  }
+
+  return NextResponse.json({
+    success: true,
+    applicationId: result.applicationId,
+    businessName: result.businessName,
+    checklist: result.checklist,
+    generatedAt: result.generatedAt
+  });
+}
+
+export const GET = withErrorHandling(
+  requireAdminAuth(handleGet)
+);
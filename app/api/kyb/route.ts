@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireKycAuth } from '../../../src/middleware/auth.middleware.js';
+import { withRateLimit } from '../../../src/middleware/ratelimit.middleware.js';
+import { withBodyValidation } from '../../../src/middleware/validation.middleware.js';
+import { withErrorHandling } from '../../../src/middleware/error.middleware.js';
+import { KycService } from '../../../src/services/kyc.service.js';
+
+/**
+ * Business KYC (KYB) API Route
+ * POST /api/kyb - Start a business KYC application with its authorised signatories
+ */
+
+async function handlePost(request: NextRequest & { user: any; validatedBody: any }) {
+  const result = await KycService.initiateBusinessKyc(request.user.id, {
+    ...request.validatedBody,
+    ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip'),
+    userAgent: request.headers.get('user-agent')
+  });
+
+  if (!result.success || !('requiredDocuments' in result)) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: result.error,
+        code: result.code || 'BUSINESS_KYC_INITIATION_FAILED',
+        applicationId: 'applicationId' in result ? result.applicationId : undefined
+      },
+      { status: result.code === 'EXISTING_APPLICATION' ? 409 : 400 }
+    );
+  }
+
+  return NextResponse.json({
+    success: true,
+    applicationId: result.applicationId,
+    status: result.status,
+    requiredDocuments: result.requiredDocuments,
+    nextStep: result.nextStep,
+    timestamp: new Date().toISOString()
+  }, { status: 201 });
+}
+
+export const POST = withErrorHandling(
+  requireKycAuth(
+    withBodyValidation(
+      withRateLimit(handlePost, { window: 3600, max: 3 }),
+      'businessKyc'
+    )
+  )
+);
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireKycAuth } from '../../../../src/middleware/auth.middleware.js';
+import { withRateLimit } from '../../../../src/middleware/ratelimit.middleware.js';
+import { withBodyValidation } from '../../../../src/middleware/validation.middleware.js';
+import { withErrorHandling } from '../../../../src/middleware/error.middleware.js';
+import { KycService } from '../../../../src/services/kyc.service.js';
+
+/**
+ * Authorised Signatory API Route
+ * POST /api/kyb/signatories - Link an authorised signatory to their individual KYC application
+ */
+
+// HTTP status for failed links, by error code
+const ERROR_STATUS: Record<string, number> = {
+  APPLICATION_NOT_FOUND: 404,
+  SIGNATORY_NOT_FOUND: 404,
+  SIGNATORY_KYC_NOT_FOUND: 404,
+  SIGNATORY_PAN_MISMATCH: 422
+};
+
+async function handlePost(request: NextRequest & { user: any; validatedBody: any }) {
+  const { applicationId, signatoryIndex, kycApplicationId } = request.validatedBody;
+
+  const result = await KycService.linkAuthorizedSignatory(request.user.id, applicationId, { signatoryIndex, kycApplicationId });
+
+  if (!result.success || !('signatory' in result)) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: result.error,
+        code: result.code || 'SIGNATORY_LINK_FAILED'
+      },
+      { status: (result.code && ERROR_STATUS[result.code]) || 400 }
+    );
+  }
+
+  return NextResponse.json({
+    success: true,
+    signatory: result.signatory,
+    timestamp: new Date().toISOString()
+  });
+}
+
+export const POST = withErrorHandling(
+  requireKycAuth(
+    withBodyValidation(
+      withRateLimit(handlePost, { window: 300, max: 20 }),
+      'signatoryLink'
+    )
+  )
+);
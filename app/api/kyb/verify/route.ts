@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireKycAuth } from '../../../../src/middleware/auth.middleware.js';
+import { withRateLimit } from '../../../../src/middleware/ratelimit.middleware.js';
+import { withBodyValidation } from '../../../../src/middleware/validation.middleware.js';
+import { withErrorHandling } from '../../../../src/middleware/error.middleware.js';
+import { KycService } from '../../../../src/services/kyc.service.js';
+
+/**
+ * Business Registration Verification API Route
+ * POST /api/kyb/verify - Verify the business's GSTIN and Udyam registration
+ */
+
+// HTTP status for failed verifications, by error code
+const ERROR_STATUS: Record<string, number> = {
+  APPLICATION_NOT_FOUND: 404,
+  PROVIDER_NOT_CONFIGURED: 500,
+  TIMEOUT: 504,
+  RATE_LIMITED: 429,
+  UPSTREAM_UNAVAILABLE: 503
+};
+
+async function handlePost(request: NextRequest & { user: any; validatedBody: any }) {
+  const { applicationId, gstin, udyamNumber } = request.validatedBody;
+
+  const result = await KycService.verifyBusinessRegistration(request.user.id, applicationId, { gstin, udyamNumber });
+
+  if (!result.success || !('requiredDocuments' in result)) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: result.error,
+        code: result.code || 'BUSINESS_VERIFICATION_FAILED',
+        retryable: 'retryable' in result ? result.retryable : undefined
+      },
+      { status: ERROR_STATUS[result.code] || 400 }
+    );
+  }
+
+  return NextResponse.json({
+    success: true,
+    ...(result.sandbox && { sandbox: true }),
+    gstin: result.gstin,
+    udyam: result.udyam,
+    requiredDocuments: result.requiredDocuments,
+    timestamp: new Date().toISOString()
+  });
+}
+
+export const POST = withErrorHandling(
+  requireKycAuth(
+    withBodyValidation(
+      withRateLimit(handlePost, { window: 300, max: 10 }),
+      'businessRegistrationVerification'
+    )
+  )
+);
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdminAuth } from '../../../../src/middleware/auth.middleware.js';
+import { withErrorHandling } from '../../../../src/middleware/error.middleware.js';
+import { KycService } from '../../../../src/services/kyc.service.js';
+
+/**
+ * KYC Review Data API Route (admin)
+ * GET /api/kyc/review?applicationId=... - Risk assessment and review data, including duplicate-face
+ * matches and the selfie-to-document photo matches
+ */
+
+async function handleGet(request: NextRequest & { user: any }) {
+  const url = new URL(request.url);
+  const applicationId = url.searchParams.get('applicationId');
+
+  if (!applicationId) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Application ID is required',
+        code: 'MISSING_APPLICATION_ID'
+      },
+      { status: 400 }
+    );
+  }
+
+  const result = await KycService.getReviewData(applicationId);
+
+  if (!result.success || !('review' in result)) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: result.error,
+        code: result.code || 'REVIEW_DATA_FAILED'
+      },
+      { status: result.code === 'APPLICATION_NOT_FOUND' ? 404 : 500 }
+    );
+  }
+
+  return NextResponse.json({
+    success: true,
+    applicationId: result.applicationId,
+    status: result.status,
+    riskLevel: result.riskLevel,
+    riskFactors: result.riskFactors,
+    review: result.review,
+    documentFaceMatches: result.documentFaceMatches
+  });
+}
+
+export const GET = withErrorHandling(
+  requireAdminAuth(handleGet)
+);
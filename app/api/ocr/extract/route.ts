@@ -1,8 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { promises as fs } from 'fs';
 import path from 'path';
-
-// Mock OCR extraction functions (in production, these would call real OCR APIs)
+import { OcrService } from '../../../../src/services/ocr.service.js';
+import { AadhaarQrService } from '../../../../src/services/aadhaar-qr.service.js';
+import { MrzService } from '../../../../src/services/mrz.service.js';
+import { DocumentClassifierService } from '../../../../src/services/document-classifier.service.js';
+import { ImageQualityService } from '../../../../src/services/image-quality.service.js';
+import { ImagePreprocessService } from '../../../../src/services/image-preprocess.service.js';
+import { PdfService } from '../../../../src/services/pdf.service.js';
+import { TransliterationService } from '../../../../src/services/transliteration.service.js';
+import { SandboxService } from '../../../../src/services/sandbox.service.js';
+import type { DocumentValidationResult, ValidationIssue } from '@/types/kyc';
+
+// OCR extraction types
 interface ExtractedField {
   value: string;
   confidence: number;
@@ -15,199 +25,220 @@ interface ExtractedField {
 }
 
 interface DocumentExtraction {
-  documentType: 'aadhaar' | 'pan' | 'passport' | 'license';
+  documentType: 'aadhaar' | 'pan' | 'passport' | 'license' | 'voter_id';
   fields: {
     [key: string]: ExtractedField;
   };
   processingTime: number;
   overallConfidence: number;
+  source: 'ocr' | 'pdf_text' | 'secure_qr';
+  isAuthentic?: boolean;
+  issues?: ValidationIssue[];
+  regionalLanguage?: 'hi' | 'bn' | 'ta';
 }
 
-// Aadhaar card extraction patterns and validation
-const extractAadhaarData = async (imageBuffer: Buffer): Promise<DocumentExtraction> => {
-  // Simulate OCR processing time
-  await new Promise(resolve => setTimeout(resolve, 2000));
-
-  // Mock extraction results based on common Aadhaar patterns
-  const mockExtraction: DocumentExtraction = {
-    documentType: 'aadhaar',
-    fields: {
-      fullName: {
-        value: 'Rajesh Kumar Sharma',
-        confidence: 0.96,
-        boundingBox: { x: 120, y: 180, width: 200, height: 25 }
-      },
-      fatherName: {
-        value: 'Mohan Lal Sharma',
-        confidence: 0.94,
-        boundingBox: { x: 120, y: 210, width: 180, height: 22 }
-      },
-      dateOfBirth: {
-        value: '15/08/1985',
-        confidence: 0.98,
-        boundingBox: { x: 120, y: 240, width: 100, height: 20 }
-      },
-      gender: {
-        value: 'MALE',
-        confidence: 0.99,
-        boundingBox: { x: 120, y: 270, width: 60, height: 20 }
-      },
-      aadhaarNumber: {
-        value: '1234 5678 9012',
-        confidence: 0.99,
-        boundingBox: { x: 120, y: 300, width: 150, height: 25 }
-      },
-      address: {
-        value: '304, Lotus Apartments, Sector 15, Gurgaon, Haryana - 122001',
-        confidence: 0.92,
-        boundingBox: { x: 120, y: 330, width: 300, height: 60 }
-      }
-    },
-    processingTime: 2000,
-    overallConfidence: 0.955
+type OcrResult = Awaited<ReturnType<typeof OcrService.recognize>>;
+type OcrLine = OcrResult['lines'][number];
+
+interface DocumentClassification {
+  type: DocumentExtraction['documentType'] | 'unknown';
+  confidence: number;
+  ocrResult: OcrResult;
+}
+
+// What the extractors read: recognized text lines plus the image or PDF they came from
+interface ExtractionInput {
+  imageBuffer: Buffer | null;
+  ocrResult: OcrResult;
+  textSource: 'ocr' | 'pdf_text';
+  pdf?: {
+    buffer: Buffer;
+    password?: string;
   };
+}
 
-  return mockExtraction;
+// Locate fields with the document's layout rules
+const runExtraction = async (
+  input: ExtractionInput,
+  documentType: DocumentExtraction['documentType'],
+  locateFields: (lines: OcrLine[]) => object
+): Promise<DocumentExtraction> => {
+  const startTime = Date.now();
+  const fields = locateFields(input.ocrResult.lines) as DocumentExtraction['fields'];
+
+  return {
+    documentType,
+    fields,
+    processingTime: Date.now() - startTime,
+    overallConfidence: OcrService.calculateOverallConfidence(fields),
+    source: input.textSource
+  };
 };
 
-// PAN card extraction patterns and validation
-const extractPANData = async (imageBuffer: Buffer): Promise<DocumentExtraction> => {
-  await new Promise(resolve => setTimeout(resolve, 1500));
-
-  const mockExtraction: DocumentExtraction = {
-    documentType: 'pan',
-    fields: {
-      fullName: {
-        value: 'RAJESH KUMAR SHARMA',
-        confidence: 0.97,
-        boundingBox: { x: 80, y: 140, width: 220, height: 25 }
-      },
-      fatherName: {
-        value: 'MOHAN LAL SHARMA',
-        confidence: 0.95,
-        boundingBox: { x: 80, y: 170, width: 200, height: 22 }
-      },
-      dateOfBirth: {
-        value: '15/08/1985',
-        confidence: 0.98,
-        boundingBox: { x: 80, y: 200, width: 100, height: 20 }
-      },
-      panNumber: {
-        value: 'ABCDE1234F',
-        confidence: 0.99,
-        boundingBox: { x: 80, y: 230, width: 120, height: 25 }
-      }
-    },
-    processingTime: 1500,
-    overallConfidence: 0.975
-  };
+// Aadhaar card extraction: prefer the signed Secure QR, fall back to OCR
+const extractAadhaarData = async (input: ExtractionInput): Promise<DocumentExtraction> => {
+  const startTime = Date.now();
+  const secureQr = input.pdf
+    ? await AadhaarQrService.decodePdf(input.pdf.buffer, { password: input.pdf.password })
+    : input.imageBuffer && await AadhaarQrService.decodeImage(input.imageBuffer);
+
+  if (secureQr) {
+    const qrFields: { [key: string]: string | undefined } = {
+      fullName: secureQr.data.name,
+      fatherName: secureQr.data.fatherName,
+      dateOfBirth: secureQr.data.dateOfBirth,
+      gender: secureQr.data.gender,
+      aadhaarNumber: secureQr.data.idNumber,
+      address: secureQr.data.address
+    };
+    const fields: DocumentExtraction['fields'] = {};
+    Object.entries(qrFields).forEach(([key, value]) => {
+      if (value) fields[key] = { value, confidence: 1 };
+    });
+
+    return {
+      documentType: 'aadhaar',
+      fields,
+      processingTime: Date.now() - startTime,
+      overallConfidence: 1,
+      source: 'secure_qr',
+      isAuthentic: secureQr.isAuthentic
+    };
+  }
+
+  return runExtraction(input, 'aadhaar', lines => OcrService.extractAadhaarFields(lines));
+};
 
-  return mockExtraction;
+// PAN card extraction patterns and validation
+const extractPANData = async (input: ExtractionInput): Promise<DocumentExtraction> => {
+  return runExtraction(input, 'pan', lines => OcrService.extractPanFields(lines));
 };
 
-// Passport extraction patterns and validation
-const extractPassportData = async (imageBuffer: Buffer): Promise<DocumentExtraction> => {
-  await new Promise(resolve => setTimeout(resolve, 2500));
+// Passport extraction: visual zone fields cross-checked against the MRZ
+const extractPassportData = async (input: ExtractionInput): Promise<DocumentExtraction> => {
+  const startTime = Date.now();
+  const { ocrResult } = input;
+  const passportFields: object = OcrService.extractPassportFields(ocrResult.lines);
+  const fields = passportFields as DocumentExtraction['fields'];
+  const mrzLines = MrzService.findTd3Lines(ocrResult.lines);
+
+  if (!mrzLines) {
+    return {
+      documentType: 'passport',
+      fields,
+      processingTime: Date.now() - startTime,
+      overallConfidence: OcrService.calculateOverallConfidence(fields),
+      source: input.textSource,
+      isAuthentic: false,
+      issues: [{ type: 'suspicious_patterns', severity: 'medium', message: 'Machine-readable zone not found' }]
+    };
+  }
 
-  const mockExtraction: DocumentExtraction = {
+  const mrz = MrzService.parseTd3(mrzLines[0], mrzLines[1]);
+  const visual = Object.fromEntries(Object.entries(fields).map(([key, field]) => [key, field.value]));
+  const mismatches = MrzService.compareWithVisualZone(mrz, visual);
+
+  // Fill fields the visual zone OCR missed from check-digit-verified MRZ values
+  const mrzFields: { [key: string]: string | null } = {
+    passportNumber: mrz.checks.documentNumber ? mrz.documentNumber : null,
+    fullName: `${mrz.givenNames} ${mrz.surname}`.trim(),
+    dateOfBirth: mrz.checks.dateOfBirth ? mrz.dateOfBirth : null,
+    expiryDate: mrz.checks.expiryDate ? mrz.expiryDate : null,
+    nationality: mrz.nationality === 'IND' ? 'INDIAN' : mrz.nationality,
+    gender: mrz.sex
+  };
+  Object.entries(mrzFields).forEach(([key, value]) => {
+    if (value && !fields[key]) fields[key] = { value, confidence: mrz.valid ? 0.95 : 0.5 };
+  });
+  fields.mrzLine1 = { value: mrzLines[0], confidence: ocrResult.confidence };
+  fields.mrzLine2 = { value: mrzLines[1], confidence: ocrResult.confidence };
+
+  const issues: ValidationIssue[] = [
+    ...(MrzService.toValidationIssues(mrz) as ValidationIssue[]),
+    ...mismatches.map((field: string): ValidationIssue => ({
+      type: 'suspicious_patterns',
+      severity: 'high',
+      message: `Visual zone ${field} does not match the MRZ`
+    }))
+  ];
+
+  return {
     documentType: 'passport',
-    fields: {
-      fullName: {
-        value: 'RAJESH KUMAR SHARMA',
-        confidence: 0.96,
-        boundingBox: { x: 100, y: 200, width: 250, height: 25 }
-      },
-      dateOfBirth: {
-        value: '15AUG1985',
-        confidence: 0.98,
-        boundingBox: { x: 100, y: 280, width: 100, height: 20 }
-      },
-      placeOfBirth: {
-        value: 'DELHI, INDIA',
-        confidence: 0.94,
-        boundingBox: { x: 100, y: 310, width: 120, height: 20 }
-      },
-      passportNumber: {
-        value: 'A1234567',
-        confidence: 0.99,
-        boundingBox: { x: 100, y: 340, width: 100, height: 25 }
-      },
-      issueDate: {
-        value: '15JAN2020',
-        confidence: 0.97,
-        boundingBox: { x: 100, y: 370, width: 100, height: 20 }
-      },
-      expiryDate: {
-        value: '14JAN2030',
-        confidence: 0.97,
-        boundingBox: { x: 100, y: 400, width: 100, height: 20 }
-      },
-      nationality: {
-        value: 'INDIAN',
-        confidence: 0.99,
-        boundingBox: { x: 100, y: 430, width: 80, height: 20 }
-      }
-    },
-    processingTime: 2500,
-    overallConfidence: 0.970
+    fields,
+    processingTime: Date.now() - startTime,
+    overallConfidence: OcrService.calculateOverallConfidence(fields),
+    source: input.textSource,
+    isAuthentic: mrz.valid && mismatches.length === 0,
+    issues
   };
-
-  return mockExtraction;
 };
 
 // License extraction patterns and validation
-const extractLicenseData = async (imageBuffer: Buffer): Promise<DocumentExtraction> => {
-  await new Promise(resolve => setTimeout(resolve, 1800));
-
-  const mockExtraction: DocumentExtraction = {
-    documentType: 'license',
-    fields: {
-      fullName: {
-        value: 'RAJESH KUMAR SHARMA',
-        confidence: 0.95,
-        boundingBox: { x: 90, y: 150, width: 200, height: 25 }
-      },
-      dateOfBirth: {
-        value: '15-08-1985',
-        confidence: 0.96,
-        boundingBox: { x: 90, y: 180, width: 100, height: 20 }
-      },
-      address: {
-        value: '304, LOTUS APARTMENTS, SECTOR 15, GURGAON, HARYANA - 122001',
-        confidence: 0.90,
-        boundingBox: { x: 90, y: 210, width: 280, height: 40 }
-      },
-      licenseNumber: {
-        value: 'HR-0619850123456',
-        confidence: 0.98,
-        boundingBox: { x: 90, y: 260, width: 180, height: 25 }
-      },
-      issueDate: {
-        value: '15-01-2020',
-        confidence: 0.97,
-        boundingBox: { x: 90, y: 290, width: 100, height: 20 }
-      },
-      validTill: {
-        value: '14-01-2040',
-        confidence: 0.97,
-        boundingBox: { x: 90, y: 320, width: 100, height: 20 }
-      },
-      vehicleClass: {
-        value: 'LMV',
-        confidence: 0.99,
-        boundingBox: { x: 90, y: 350, width: 60, height: 20 }
-      },
-      bloodGroup: {
-        value: 'B+',
-        confidence: 0.85,
-        boundingBox: { x: 90, y: 380, width: 30, height: 20 }
-      }
-    },
-    processingTime: 1800,
-    overallConfidence: 0.945
-  };
+const extractLicenseData = async (input: ExtractionInput): Promise<DocumentExtraction> => {
+  return runExtraction(input, 'license', lines => OcrService.extractLicenseFields(lines));
+};
+
+// Voter ID (EPIC) extraction: elector and relative names, age or DOB, constituency
+const extractVoterIdData = async (input: ExtractionInput): Promise<DocumentExtraction> => {
+  return runExtraction(input, 'voter_id', lines => OcrService.extractVoterIdFields(lines));
+};
+
+// Bilingual cards: pair the regional-script name and address with the English
+// fields, fill a missing English name by transliteration, and flag disagreements
+const addRegionalFields = async (
+  extraction: DocumentExtraction,
+  input: ExtractionInput,
+  language?: string
+): Promise<DocumentExtraction> => {
+  const regionalResult = input.textSource === 'pdf_text'
+    ? input.ocrResult
+    : input.imageBuffer && await OcrService.recognizeRegional(input.imageBuffer, language);
+  if (!regionalResult) return extraction;
+
+  const reconciliation = TransliterationService.reconcile(regionalResult.lines, {
+    name: extraction.fields.fullName?.value
+  });
+  if (!reconciliation) return extraction;
+
+  const fields = { ...extraction.fields };
+  const issues = [...(extraction.issues || [])];
+  const regionalLanguage = reconciliation.language as NonNullable<DocumentExtraction['regionalLanguage']>;
+  const scriptName = TransliterationService.SCRIPTS[regionalLanguage].name;
+
+  if (reconciliation.name) {
+    fields.fullNameRegional = {
+      value: reconciliation.name.regional,
+      confidence: reconciliation.name.confidence,
+      boundingBox: reconciliation.name.boundingBox
+    };
+
+    if (!fields.fullName) {
+      fields.fullName = {
+        value: reconciliation.name.transliterated,
+        confidence: Math.round(reconciliation.name.confidence * 0.6 * 100) / 100
+      };
+    } else if (reconciliation.name.matches === false) {
+      issues.push({
+        type: 'suspicious_patterns',
+        severity: 'medium',
+        message: `Name in ${scriptName} (${reconciliation.name.transliterated}) does not match the English name`
+      });
+    }
+  }
 
-  return mockExtraction;
+  if (reconciliation.address) {
+    fields.addressRegional = {
+      value: reconciliation.address.regional,
+      confidence: reconciliation.address.confidence
+    };
+  }
+
+  return {
+    ...extraction,
+    fields,
+    issues,
+    regionalLanguage
+  };
 };
 
 // Validate extracted data using government patterns
@@ -215,7 +246,9 @@ const validateExtractedData = (extraction: DocumentExtraction): boolean => {
   switch (extraction.documentType) {
     case 'aadhaar':
       const aadhaarNumber = extraction.fields.aadhaarNumber?.value.replace(/\s/g, '');
-      return aadhaarNumber ? /^\d{12}$/.test(aadhaarNumber) : false;
+      // Secure QR only carries the last four digits
+      const aadhaarPattern = extraction.source === 'secure_qr' ? /^X{8}\d{4}$/ : /^\d{12}$/;
+      return aadhaarNumber ? aadhaarPattern.test(aadhaarNumber) : false;
       
     case 'pan':
       const panNumber = extraction.fields.panNumber?.value;
@@ -228,32 +261,117 @@ const validateExtractedData = (extraction: DocumentExtraction): boolean => {
     case 'license':
       const licenseNumber = extraction.fields.licenseNumber?.value;
       return licenseNumber ? /^[A-Z]{2}-\d{13}$/.test(licenseNumber) : false;
+
+    case 'voter_id':
+      const voterIdNumber = extraction.fields.voterIdNumber?.value;
+      return voterIdNumber ? /^[A-Z]{3}\d{7}$/.test(voterIdNumber) : false;
       
     default:
       return false;
   }
 };
 
-// Enhanced data extraction with preprocessing
-const preprocessImage = async (buffer: Buffer): Promise<Buffer> => {
-  // In production, this would use image processing libraries like Sharp
-  // to enhance image quality, correct rotation, remove noise, etc.
-  
-  // Mock preprocessing - return original buffer
-  return buffer;
+// Crop the card, correct perspective and orientation, and normalize contrast
+const preprocessImage = async (buffer: Buffer): Promise<{
+  buffer: Buffer;
+  cropped: boolean;
+  rotation: number;
+}> => {
+  const corrected = await ImagePreprocessService.correctDocument(buffer);
+
+  return {
+    buffer: corrected.buffer,
+    cropped: corrected.cropped,
+    rotation: corrected.rotation
+  };
+};
+
+// e-Aadhaar PDFs are locked with a password the user types in, or that we
+// derive from the name and birth year they enter
+const resolvePdfPassword = (formData: FormData): string | undefined => {
+  const password = formData.get('password') as string | null;
+  if (password) return password;
+
+  const name = formData.get('name') as string | null;
+  const birthYear = formData.get('birthYear') as string | null;
+  return name && birthYear ? PdfService.deriveEAadhaarPassword(name, birthYear) : undefined;
+};
+
+// Read a PDF's text layer; scanned PDFs come back as a page image for OCR instead
+const readPdf = async (buffer: Buffer, password?: string): Promise<{
+  ocrResult: OcrResult | null;
+  pageImage: Buffer | null;
+}> => {
+  const textLayer = await PdfService.extractText(buffer, { password });
+  if (textLayer.hasTextLayer) {
+    return {
+      ocrResult: { text: textLayer.text, confidence: 1, lines: textLayer.lines },
+      pageImage: null
+    };
+  }
+
+  const [pageImage] = await PdfService.rasterizePages(buffer, { password, maxPages: 1 });
+  return { ocrResult: null, pageImage: pageImage || null };
+};
+
+// Detect document type from OCR keywords, MRZ, aspect ratio and colours
+const detectDocumentType = async (buffer: Buffer | null, ocrResult?: OcrResult): Promise<DocumentClassification> => {
+  const classification = await DocumentClassifierService.classify(buffer, { ocrResult });
+  const type = classification.type === 'driving_license' ? 'license' : classification.type;
+
+  return {
+    type: type as DocumentClassification['type'],
+    confidence: classification.confidence,
+    ocrResult: classification.ocrResult
+  };
 };
 
-// Detect document type from image
-const detectDocumentType = async (buffer: Buffer): Promise<'aadhaar' | 'pan' | 'passport' | 'license' | 'unknown'> => {
-  // In production, this would use ML models to detect document type
-  // based on visual patterns, logos, layouts, etc.
-  
-  // Mock detection based on common scenarios
-  const random = Math.random();
-  if (random < 0.4) return 'aadhaar';
-  if (random < 0.7) return 'pan';
-  if (random < 0.9) return 'passport';
-  return 'license';
+// Sandbox: fixed extraction for a magic document number, standing in for OCR of the upload
+const sandboxExtraction = (documentNumber: string) => {
+  const sandbox = SandboxService.extractDocument(documentNumber);
+  if (!sandbox) {
+    return NextResponse.json(
+      { error: 'Unknown sandbox document number', code: 'SANDBOX_IDENTITY_NOT_FOUND', sandbox: true },
+      { status: 400 }
+    );
+  }
+
+  const fields: DocumentExtraction['fields'] = {};
+  Object.entries(sandbox.fields).forEach(([key, value]) => {
+    fields[key] = { value: String(value), confidence: 0.99 };
+  });
+
+  const extraction: DocumentExtraction = {
+    documentType: sandbox.documentType as DocumentExtraction['documentType'],
+    fields,
+    processingTime: 0,
+    overallConfidence: 0.99,
+    source: 'ocr'
+  };
+  const validationResult: DocumentValidationResult = {
+    isValid: true,
+    isAuthentic: true,
+    qualityScore: 1,
+    issues: [],
+    confidence: extraction.overallConfidence
+  };
+
+  return NextResponse.json({
+    success: true,
+    sandbox: true,
+    sandboxOutcome: sandbox.outcome,
+    extractionId: `sandbox_extract_${sandbox.documentType}_${sandbox.outcome}`,
+    documentType: extraction.documentType,
+    classificationConfidence: 1,
+    extraction,
+    validationResult,
+    correctedImage: null,
+    preprocessing: null,
+    timestamp: new Date().toISOString(),
+    processingTime: 0,
+    confidence: extraction.overallConfidence,
+    fieldsExtracted: Object.keys(fields).length
+  });
 };
 
 export async function POST(request: NextRequest) {
@@ -269,10 +387,10 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate file type
-    const allowedTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp'];
+    const allowedTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp', 'application/pdf'];
     if (!allowedTypes.includes(file.type)) {
       return NextResponse.json(
-        { error: 'Invalid file type. Please upload JPEG, PNG, or WebP images.' },
+        { error: 'Invalid file type. Please upload JPEG, PNG, or WebP images, or a PDF.' },
         { status: 400 }
       );
     }
@@ -285,6 +403,11 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const sandboxNumber = formData.get('sandboxDocumentNumber') as string | null;
+    if (sandboxNumber && SandboxService.isEnabled()) {
+      return sandboxExtraction(sandboxNumber);
+    }
+
     console.log('🔍 OCR Extraction API called');
     console.log('📄 File info:', {
       name: file.name,
@@ -296,36 +419,115 @@ export async function POST(request: NextRequest) {
     const bytes = await file.arrayBuffer();
     const buffer = Buffer.from(bytes);
 
-    // Preprocess image
-    const preprocessedBuffer = await preprocessImage(buffer);
+    // PDFs: use the text layer when there is one, otherwise OCR the scanned page
+    const isPdf = file.type === 'application/pdf';
+    const password = isPdf ? resolvePdfPassword(formData) : undefined;
+    let imageBuffer: Buffer | null = buffer;
+    let textLayerResult: OcrResult | null = null;
+
+    if (isPdf) {
+      try {
+        const pdf = await readPdf(buffer, password);
+        textLayerResult = pdf.ocrResult;
+        imageBuffer = pdf.pageImage;
+      } catch (error: any) {
+        if (error.code === 'PDF_PASSWORD_REQUIRED' || error.code === 'PDF_PASSWORD_INCORRECT') {
+          return NextResponse.json(
+            { error: error.message, code: error.code },
+            { status: 422 }
+          );
+        }
+        throw error;
+      }
+
+      if (!textLayerResult && !imageBuffer) {
+        return NextResponse.json(
+          { error: 'The PDF has no readable text or scanned pages.', code: 'PDF_UNREADABLE' },
+          { status: 422 }
+        );
+      }
+    }
+
+    let quality: { qualityScore: number; issues: ValidationIssue[]; metrics?: object } = { qualityScore: 1, issues: [] };
+    let preprocessed: { buffer: Buffer; cropped: boolean; rotation: number } | null = null;
+
+    if (imageBuffer && !textLayerResult) {
+      // Check photo quality before spending time on OCR; the service reports
+      // only the issue types ValidationIssue lists
+      const analysis = await ImageQualityService.analyze(imageBuffer);
+      quality = { ...analysis, issues: analysis.issues as ValidationIssue[] };
+      console.log('🖼️ Image quality:', quality.qualityScore, quality.metrics);
+
+      if (ImageQualityService.requiresRetake(quality)) {
+        const validationResult: DocumentValidationResult = {
+          isValid: false,
+          isAuthentic: false,
+          qualityScore: quality.qualityScore,
+          issues: quality.issues,
+          confidence: 0
+        };
+
+        return NextResponse.json(
+          {
+            error: 'Image quality is too low. Please retake the photo.',
+            code: 'IMAGE_QUALITY_TOO_LOW',
+            validationResult
+          },
+          { status: 422 }
+        );
+      }
+
+      // Preprocess image
+      preprocessed = await preprocessImage(imageBuffer);
+      console.log('✂️ Preprocessing:', { cropped: preprocessed.cropped, rotation: preprocessed.rotation });
+    }
 
     // Detect document type
-    const documentType = await detectDocumentType(preprocessedBuffer);
+    const classification = await detectDocumentType(preprocessed?.buffer || null, textLayerResult || undefined);
+    const { type: documentType, ocrResult } = classification;
     
     if (documentType === 'unknown') {
       return NextResponse.json(
-        { error: 'Could not detect document type. Please upload a clear image of Aadhaar, PAN, Passport, or License.' },
+        { error: 'Could not detect document type. Please upload a clear image of Aadhaar, PAN, Passport, License, or Voter ID.' },
         { status: 400 }
       );
     }
 
-    console.log('🎯 Detected document type:', documentType);
+    console.log('🎯 Detected document type:', documentType, 'confidence:', classification.confidence);
 
     // Extract data based on document type
+    const input: ExtractionInput = {
+      imageBuffer: preprocessed?.buffer || null,
+      ocrResult,
+      textSource: textLayerResult ? 'pdf_text' : 'ocr',
+      pdf: isPdf ? { buffer, password } : undefined
+    };
     let extraction: DocumentExtraction;
     
     switch (documentType) {
       case 'aadhaar':
-        extraction = await extractAadhaarData(preprocessedBuffer);
+        extraction = await addRegionalFields(
+          await extractAadhaarData(input),
+          input,
+          (formData.get('language') as string | null) || undefined
+        );
         break;
       case 'pan':
-        extraction = await extractPANData(preprocessedBuffer);
+        extraction = await extractPANData(input);
         break;
       case 'passport':
-        extraction = await extractPassportData(preprocessedBuffer);
+        extraction = await extractPassportData(input);
         break;
       case 'license':
-        extraction = await extractLicenseData(preprocessedBuffer);
+        extraction = await extractLicenseData(input);
+        break;
+      case 'voter_id':
+        // EPIC cards print the elector's name in the state language as well
+        extraction = await addRegionalFields(
+          await extractVoterIdData(input),
+          input,
+          (formData.get('language') as string | null) || undefined
+        );
         break;
       default:
         throw new Error('Unsupported document type');
@@ -333,12 +535,22 @@ export async function POST(request: NextRequest) {
 
     // Validate extracted data
     const isValid = validateExtractedData(extraction);
+    const extractionIssues = extraction.issues || [];
+    const validationResult: DocumentValidationResult = {
+      isValid,
+      isAuthentic: extraction.isAuthentic !== false &&
+        !extractionIssues.some(issue => issue.type === 'suspicious_patterns' && issue.severity === 'high'),
+      qualityScore: quality.qualityScore,
+      issues: [...quality.issues, ...extractionIssues],
+      confidence: extraction.overallConfidence
+    };
     
     if (!isValid) {
       return NextResponse.json(
         { 
           error: 'Extracted data validation failed. Please upload a clearer image.',
           extraction: extraction,
+          validationResult,
           confidence: extraction.overallConfidence 
         },
         { status: 422 }
@@ -355,7 +567,15 @@ export async function POST(request: NextRequest) {
       success: true,
       extractionId,
       documentType,
+      classificationConfidence: classification.confidence,
       extraction,
+      validationResult,
+      // Cleaned crop for the review page
+      correctedImage: preprocessed ? `data:image/jpeg;base64,${preprocessed.buffer.toString('base64')}` : null,
+      preprocessing: preprocessed ? {
+        cropped: preprocessed.cropped,
+        rotation: preprocessed.rotation
+      } : null,
       timestamp: new Date().toISOString(),
       processingTime: extraction.processingTime,
       confidence: extraction.overallConfidence,
@@ -378,17 +598,30 @@ export async function POST(request: NextRequest) {
 }
 
 export async function GET() {
+  const qrSignatures = AadhaarQrService.isCertificateAvailable();
+
   return NextResponse.json({
     message: 'OCR Extraction API',
-    supportedDocuments: ['aadhaar', 'pan', 'passport', 'license'],
+    supportedDocuments: ['aadhaar', 'pan', 'passport', 'license', 'voter_id'],
     maxFileSize: '10MB',
-    supportedFormats: ['JPEG', 'PNG', 'WebP'],
+    supportedFormats: ['JPEG', 'PNG', 'WebP', 'PDF'],
+    secureQrSignatureVerification: qrSignatures
+      ? { available: true }
+      : { available: false, error: 'UIDAI certificate is not installed; Secure QR data is returned unverified' },
     features: [
       'Automatic document type detection',
+      qrSignatures
+        ? 'Aadhaar Secure QR decoding with UIDAI signature verification'
+        : 'Aadhaar Secure QR decoding (signature verification unavailable)',
+      'Passport MRZ parsing with ICAO 9303 check digit validation',
+      'Image quality checks for blur, glare, framing and resolution',
       'High-accuracy OCR extraction',
       'Government format validation',
       'Confidence scoring',
-      'Data preprocessing and enhancement'
+      'Card cropping, perspective and orientation correction',
+      'PDF text layer reading, scanned PDF OCR and password-protected e-Aadhaar',
+      'Hindi, Bengali and Tamil name and address reconciliation',
+      'Voter ID (EPIC) extraction with age, relative name and constituency'
     ]
   });
 }
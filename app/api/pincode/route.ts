@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PincodeService } from '../../../src/services/pincode.service.js';
+
+/**
+ * PIN Code Lookup API Route
+ * GET /api/pincode?pin=110001 - Post offices, district and state for a PIN code
+ * GET /api/pincode?pin=110001&city=...&state=... - Also checks city/state text against the PIN
+ */
+
+export async function GET(request: NextRequest) {
+  const url = new URL(request.url);
+  const pin = (url.searchParams.get('pin') || '').trim();
+  const city = url.searchParams.get('city') || undefined;
+  const state = url.searchParams.get('state') || undefined;
+
+  if (!/^\d{6}$/.test(pin)) {
+    return NextResponse.json(
+      { success: false, error: 'A 6-digit PIN code is required', code: 'INVALID_PIN_CODE' },
+      { status: 400 }
+    );
+  }
+
+  if (!PincodeService.isAvailable()) {
+    return NextResponse.json(
+      { success: false, error: 'PIN code directory is not available', code: 'PINCODE_DIRECTORY_UNAVAILABLE' },
+      { status: 503 }
+    );
+  }
+
+  const entry = PincodeService.lookup(pin);
+  if (!entry) {
+    return NextResponse.json(
+      { success: false, error: 'PIN code not found', code: 'PIN_CODE_NOT_FOUND' },
+      { status: 404 }
+    );
+  }
+
+  const mismatches = city || state
+    ? PincodeService.verifyAddress('', pin, { city, state }).mismatches
+    : [];
+
+  return NextResponse.json({
+    success: true,
+    ...entry,
+    mismatches,
+    timestamp: new Date().toISOString()
+  });
+}
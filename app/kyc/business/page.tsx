@@ -0,0 +1,542 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  ArrowLeft,
+  Briefcase,
+  CheckCircle,
+  AlertTriangle,
+  FileText,
+  Link2,
+  Plus,
+  Upload,
+  Users
+} from 'lucide-react';
+import type {
+  AuthorizedSignatory,
+  BusinessDocumentType,
+  BusinessRegistrationCheck,
+  BusinessType
+} from '@/types/kyc';
+
+const BUSINESS_TYPES: { value: BusinessType; label: string }[] = [
+  { value: 'private_limited', label: 'Private Limited Company' },
+  { value: 'public_limited', label: 'Public Limited Company' },
+  { value: 'llp', label: 'Limited Liability Partnership' },
+  { value: 'partnership', label: 'Partnership Firm' },
+  { value: 'sole_proprietorship', label: 'Sole Proprietorship' }
+];
+
+const DOCUMENT_LABELS: Record<BusinessDocumentType, string> = {
+  gst_certificate: 'GST Registration Certificate',
+  udyam_certificate: 'Udyam Registration Certificate',
+  incorporation_certificate: 'Certificate of Incorporation',
+  partnership_deed: 'Partnership Deed'
+};
+
+const emptySignatory = (): AuthorizedSignatory => ({
+  name: '',
+  designation: '',
+  panNumber: '',
+  phone: '',
+  email: '',
+  isDirector: false
+});
+
+export default function BusinessKYCPage() {
+  const router = useRouter();
+  const [applicationId, setApplicationId] = useState<string | null>(null);
+  const [business, setBusiness] = useState({
+    businessName: '',
+    businessType: 'private_limited' as BusinessType,
+    registrationNumber: '',
+    panNumber: '',
+    incorporationDate: '',
+    gstinNumber: '',
+    udyamNumber: ''
+  });
+  const [address, setAddress] = useState({ addressLine1: '', city: '', state: '', pincode: '' });
+  const [signatories, setSignatories] = useState<AuthorizedSignatory[]>([emptySignatory()]);
+  const [linkIds, setLinkIds] = useState<string[]>(['']);
+  const [requiredDocuments, setRequiredDocuments] = useState<BusinessDocumentType[]>([]);
+  const [uploadedDocuments, setUploadedDocuments] = useState<BusinessDocumentType[]>([]);
+  const [registrations, setRegistrations] = useState<{ gstin?: BusinessRegistrationCheck; udyam?: BusinessRegistrationCheck }>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setApplicationId(sessionStorage.getItem('kybApplicationId'));
+  }, []);
+
+  const updateSignatory = (index: number, changes: Partial<AuthorizedSignatory>) => {
+    setSignatories(prev => prev.map((signatory, i) => i === index ? { ...signatory, ...changes } : signatory));
+  };
+
+  const addSignatory = () => {
+    setSignatories(prev => [...prev, emptySignatory()]);
+    setLinkIds(prev => [...prev, '']);
+  };
+
+  const handleStartApplication = async () => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/kyb', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          businessInfo: {
+            ...business,
+            panNumber: business.panNumber.toUpperCase(),
+            gstinNumber: business.gstinNumber || undefined,
+            udyamNumber: business.udyamNumber || undefined
+          },
+          businessAddress: { registeredAddress: address },
+          authorizedPersons: signatories.map(person => ({
+            ...person,
+            panNumber: person.panNumber.toUpperCase()
+          }))
+        })
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        setError(result.details?.[0]?.message || result.error || 'Could not start your business KYC. Please try again.');
+        return;
+      }
+
+      sessionStorage.setItem('kybApplicationId', result.applicationId);
+      setApplicationId(result.applicationId);
+      setRequiredDocuments(result.requiredDocuments);
+    } catch (error) {
+      console.error('Error starting business KYC:', error);
+      setError('Could not start your business KYC. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleVerifyRegistrations = async () => {
+    setIsVerifying(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/kyb/verify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ applicationId })
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        setError(result.error || 'Registration verification failed. Please try again.');
+        return;
+      }
+
+      setRegistrations({ gstin: result.gstin, udyam: result.udyam });
+      setRequiredDocuments(result.requiredDocuments);
+    } catch (error) {
+      console.error('Error verifying business registration:', error);
+      setError('Failed to verify your business registration. Please try again.');
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const handleLinkSignatory = async (index: number) => {
+    setError(null);
+
+    try {
+      const response = await fetch('/api/kyb/signatories', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ applicationId, signatoryIndex: index, kycApplicationId: linkIds[index] })
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        setError(result.error || 'Could not link the signatory. Please check the KYC application ID.');
+        return;
+      }
+
+      updateSignatory(index, {
+        kycApplicationId: result.signatory.kycApplicationId,
+        kycStatus: result.signatory.kycStatus
+      });
+    } catch (error) {
+      console.error('Error linking signatory:', error);
+      setError('Could not link the signatory. Please try again.');
+    }
+  };
+
+  const handleDocumentUpload = async (event: React.ChangeEvent<HTMLInputElement>, documentType: BusinessDocumentType) => {
+    const file = event.target.files?.[0];
+    if (!file || !applicationId) return;
+
+    setError(null);
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('documentType', documentType);
+    formData.append('applicationId', applicationId);
+
+    try {
+      const response = await fetch('/api/documents/upload', { method: 'POST', body: formData });
+      const result = await response.json();
+
+      if (!result.success) {
+        setError(result.error || 'Upload failed');
+        return;
+      }
+
+      setUploadedDocuments(prev => [...prev.filter(type => type !== documentType), documentType]);
+    } catch (error) {
+      console.error('Business document upload error:', error);
+      setError('Failed to upload document. Please try again.');
+    }
+  };
+
+  const registrationBadge = (check?: BusinessRegistrationCheck) => {
+    if (!check) return null;
+    return check.verified
+      ? <Badge className="bg-green-500 text-white"><CheckCircle className="w-3 h-3 mr-1" />Verified</Badge>
+      : <Badge className="bg-red-500 text-white"><AlertTriangle className="w-3 h-3 mr-1" />Failed</Badge>;
+  };
+
+  const canStart = business.businessName && business.panNumber && business.registrationNumber &&
+    business.incorporationDate && address.addressLine1 && address.city && address.state && address.pincode &&
+    signatories.every(signatory => signatory.name && signatory.designation && signatory.panNumber &&
+      signatory.phone && signatory.email);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100">
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <div className="flex items-center mb-6">
+          <Button variant="ghost" size="sm" onClick={() => router.push('/kyc')} className="mr-4">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Business KYC</h1>
+            <p className="text-gray-600">Verify your business, its registrations and authorised signatories</p>
+          </div>
+        </div>
+
+        {error && (
+          <Alert variant="destructive" className="mb-6">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="space-y-6">
+          {/* Business Details */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center text-xl">
+                <Briefcase className="w-5 h-5 text-blue-600 mr-2" />
+                Business Details
+              </CardTitle>
+              <CardDescription>As registered with the Ministry of Corporate Affairs or your registrar</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid md:grid-cols-2 gap-4">
+                <div className="space-y-2 md:col-span-2">
+                  <Label htmlFor="businessName">Legal Name</Label>
+                  <Input
+                    id="businessName"
+                    value={business.businessName}
+                    disabled={!!applicationId}
+                    onChange={(e) => setBusiness(prev => ({ ...prev, businessName: e.target.value }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="businessType">Constitution</Label>
+                  <select
+                    id="businessType"
+                    className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                    value={business.businessType}
+                    disabled={!!applicationId}
+                    onChange={(e) => setBusiness(prev => ({ ...prev, businessType: e.target.value as BusinessType }))}
+                  >
+                    {BUSINESS_TYPES.map(type => (
+                      <option key={type.value} value={type.value}>{type.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="registrationNumber">Registration Number (CIN / LLPIN / Firm No.)</Label>
+                  <Input
+                    id="registrationNumber"
+                    value={business.registrationNumber}
+                    disabled={!!applicationId}
+                    onChange={(e) => setBusiness(prev => ({ ...prev, registrationNumber: e.target.value.toUpperCase() }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="businessPan">Business PAN</Label>
+                  <Input
+                    id="businessPan"
+                    value={business.panNumber}
+                    disabled={!!applicationId}
+                    onChange={(e) => setBusiness(prev => ({ ...prev, panNumber: e.target.value.toUpperCase() }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="incorporationDate">Date of Incorporation</Label>
+                  <Input
+                    id="incorporationDate"
+                    type="date"
+                    value={business.incorporationDate}
+                    disabled={!!applicationId}
+                    onChange={(e) => setBusiness(prev => ({ ...prev, incorporationDate: e.target.value }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="gstin">GSTIN (optional)</Label>
+                  <Input
+                    id="gstin"
+                    value={business.gstinNumber}
+                    disabled={!!applicationId}
+                    onChange={(e) => setBusiness(prev => ({ ...prev, gstinNumber: e.target.value.toUpperCase() }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="udyamNumber">Udyam Registration Number (optional)</Label>
+                  <Input
+                    id="udyamNumber"
+                    placeholder="UDYAM-MH-01-0001234"
+                    value={business.udyamNumber}
+                    disabled={!!applicationId}
+                    onChange={(e) => setBusiness(prev => ({ ...prev, udyamNumber: e.target.value.toUpperCase() }))}
+                  />
+                </div>
+                <div className="space-y-2 md:col-span-2">
+                  <Label htmlFor="addressLine1">Registered Address</Label>
+                  <Input
+                    id="addressLine1"
+                    value={address.addressLine1}
+                    disabled={!!applicationId}
+                    onChange={(e) => setAddress(prev => ({ ...prev, addressLine1: e.target.value }))}
+                  />
+                </div>
+                <div className="grid grid-cols-3 gap-4 md:col-span-2">
+                  <Input
+                    placeholder="City"
+                    value={address.city}
+                    disabled={!!applicationId}
+                    onChange={(e) => setAddress(prev => ({ ...prev, city: e.target.value }))}
+                  />
+                  <Input
+                    placeholder="State"
+                    value={address.state}
+                    disabled={!!applicationId}
+                    onChange={(e) => setAddress(prev => ({ ...prev, state: e.target.value }))}
+                  />
+                  <Input
+                    placeholder="PIN Code"
+                    inputMode="numeric"
+                    value={address.pincode}
+                    disabled={!!applicationId}
+                    onChange={(e) => setAddress(prev => ({ ...prev, pincode: e.target.value }))}
+                  />
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Authorised Signatories */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center text-xl">
+                <Users className="w-5 h-5 text-purple-600 mr-2" />
+                Authorised Signatories
+              </CardTitle>
+              <CardDescription>
+                Each signatory completes their own individual KYC, which is then linked to this application
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {signatories.map((signatory, index) => (
+                <div key={index} className="p-4 border rounded-lg space-y-4">
+                  <div className="grid md:grid-cols-3 gap-4">
+                    <Input
+                      placeholder="Full Name"
+                      value={signatory.name}
+                      disabled={!!applicationId}
+                      onChange={(e) => updateSignatory(index, { name: e.target.value })}
+                    />
+                    <Input
+                      placeholder="Designation"
+                      value={signatory.designation}
+                      disabled={!!applicationId}
+                      onChange={(e) => updateSignatory(index, { designation: e.target.value })}
+                    />
+                    <Input
+                      placeholder="PAN"
+                      value={signatory.panNumber}
+                      disabled={!!applicationId}
+                      onChange={(e) => updateSignatory(index, { panNumber: e.target.value.toUpperCase() })}
+                    />
+                    <Input
+                      placeholder="Mobile"
+                      inputMode="tel"
+                      value={signatory.phone}
+                      disabled={!!applicationId}
+                      onChange={(e) => updateSignatory(index, { phone: e.target.value })}
+                    />
+                    <Input
+                      placeholder="Email"
+                      type="email"
+                      value={signatory.email}
+                      disabled={!!applicationId}
+                      onChange={(e) => updateSignatory(index, { email: e.target.value })}
+                    />
+                    <Input
+                      placeholder="Shareholding %"
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={signatory.shareholding ?? ''}
+                      disabled={!!applicationId}
+                      onChange={(e) => updateSignatory(index, {
+                        shareholding: e.target.value === '' ? undefined : Number(e.target.value)
+                      })}
+                    />
+                  </div>
+
+                  {applicationId && (
+                    signatory.kycApplicationId ? (
+                      <p className="text-sm text-green-700 flex items-center">
+                        <CheckCircle className="w-4 h-4 mr-1" />
+                        Linked to KYC {signatory.kycApplicationId} ({signatory.kycStatus})
+                      </p>
+                    ) : (
+                      <div className="flex gap-2">
+                        <Input
+                          placeholder="Signatory's KYC application ID"
+                          value={linkIds[index]}
+                          onChange={(e) => setLinkIds(prev => prev.map((id, i) => i === index ? e.target.value : id))}
+                        />
+                        <Button variant="outline" onClick={() => handleLinkSignatory(index)} disabled={!linkIds[index]}>
+                          <Link2 className="w-4 h-4 mr-2" />
+                          Link KYC
+                        </Button>
+                      </div>
+                    )
+                  )}
+                </div>
+              ))}
+
+              {!applicationId && signatories.length < 10 && (
+                <Button variant="outline" onClick={addSignatory}>
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Signatory
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+
+          {!applicationId ? (
+            <Button size="lg" className="w-full" onClick={handleStartApplication} disabled={!canStart || isSubmitting}>
+              {isSubmitting ? 'Starting...' : 'Start Business KYC'}
+            </Button>
+          ) : (
+            <>
+              {/* Registry Verification */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-xl">GST &amp; Udyam Verification</CardTitle>
+                  <CardDescription>We check your registrations against the GST and Udyam registries</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {registrations.gstin && (
+                    <div className="flex items-start justify-between">
+                      <div>
+                        <p className="font-medium text-gray-900">GSTIN {business.gstinNumber}</p>
+                        <p className="text-sm text-gray-600">
+                          {[registrations.gstin.legalName, registrations.gstin.registrationStatus].filter(Boolean).join(' • ')}
+                        </p>
+                        {registrations.gstin.errors?.map(message => (
+                          <p key={message} className="text-sm text-red-600">{message}</p>
+                        ))}
+                      </div>
+                      {registrationBadge(registrations.gstin)}
+                    </div>
+                  )}
+                  {registrations.udyam && (
+                    <div className="flex items-start justify-between">
+                      <div>
+                        <p className="font-medium text-gray-900">Udyam {business.udyamNumber}</p>
+                        <p className="text-sm text-gray-600">
+                          {[registrations.udyam.enterpriseName, registrations.udyam.registrationStatus].filter(Boolean).join(' • ')}
+                        </p>
+                        {registrations.udyam.errors?.map(message => (
+                          <p key={message} className="text-sm text-red-600">{message}</p>
+                        ))}
+                      </div>
+                      {registrationBadge(registrations.udyam)}
+                    </div>
+                  )}
+                  <Button variant="outline" onClick={handleVerifyRegistrations} disabled={isVerifying}>
+                    {isVerifying ? 'Verifying...' : 'Verify Registrations'}
+                  </Button>
+                </CardContent>
+              </Card>
+
+              {/* Business Documents */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center text-xl">
+                    <FileText className="w-5 h-5 text-orange-600 mr-2" />
+                    Business Documents
+                  </CardTitle>
+                  <CardDescription>PDF or clear photos of the original documents</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {requiredDocuments.length === 0 && (
+                    <p className="text-sm text-gray-600">
+                      Verify your registrations to see which documents are needed.
+                    </p>
+                  )}
+                  {requiredDocuments.map(documentType => (
+                    <div key={documentType} className="flex items-center justify-between p-3 border rounded-lg">
+                      <span className="font-medium text-gray-900">{DOCUMENT_LABELS[documentType]}</span>
+                      {uploadedDocuments.includes(documentType) ? (
+                        <Badge className="bg-green-600 text-white">
+                          <CheckCircle className="w-3 h-3 mr-1" />
+                          Uploaded
+                        </Badge>
+                      ) : (
+                        <div className="relative">
+                          <input
+                            type="file"
+                            accept="image/*,.pdf"
+                            onChange={(e) => handleDocumentUpload(e, documentType)}
+                            className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+                          />
+                          <Button variant="outline" size="sm">
+                            <Upload className="w-4 h-4 mr-2" />
+                            Upload
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -16,11 +16,13 @@ import {
   Shield
 } from 'lucide-react';
 import { useRouter } from 'next/navigation';
+import { matchDocuments, saveFaceMatch } from '@/lib/face-match';
 
 export default function DocumentsPage() {
   const router = useRouter();
   const [uploadedDocs, setUploadedDocs] = useState<any[]>([]);
   const [isUploading, setIsUploading] = useState(false);
+  const [isMatchingFace, setIsMatchingFace] = useState(false);
   const [error, setError] = useState('');
 
   // Handle file upload
@@ -55,9 +57,16 @@ export default function DocumentsPage() {
           status: result.data.status,
           uploadedAt: result.data.uploadedAt,
           fileSize: result.data.fileSizeFormatted,
+          fileSizeBytes: result.data.fileSize,
+          processedImage: result.data.processedImage,
           extractedData: result.data.extractedData,
+          validationResult: result.data.validationResult,
           processing: result.data.processing
         }]);
+      } else if (result.code === 'IMAGE_QUALITY_TOO_LOW') {
+        // Tell the user exactly what to fix before retaking
+        const tips = result.validationResult?.issues?.map((issue: any) => issue.message).join(' ');
+        throw new Error(tips ? `${result.error} ${tips}` : result.error);
       } else {
         // Show specific API error with code if available
         const errorMessage = result.details 
@@ -84,8 +93,48 @@ export default function DocumentsPage() {
     router.push('/kyc/digilocker');
   };
 
+  // The cleaned crops can outgrow the storage quota; the metadata alone still
+  // lets the review page list the documents, without previews
+  const storeUploadedDocuments = (documents: { url?: string | null }[]) => {
+    try {
+      localStorage.setItem('uploadedDocuments', JSON.stringify(documents));
+    } catch (err) {
+      console.warn('Document images do not fit in browser storage, keeping their details only:', err);
+      try {
+        localStorage.setItem('uploadedDocuments', JSON.stringify(documents.map(doc => ({ ...doc, url: null }))));
+      } catch (metadataErr) {
+        console.error('Uploaded documents could not be saved:', metadataErr);
+        localStorage.removeItem('uploadedDocuments');
+      }
+    }
+  };
+
   // Continue to next step
-  const continueToNext = () => {
+  const continueToNext = async () => {
+    // The review page reads documents (with their cleaned crops) from localStorage
+    const documents = uploadedDocs.map(doc => ({
+      id: doc.id,
+      name: doc.filename,
+      type: doc.type,
+      uploadedAt: doc.uploadedAt,
+      size: doc.fileSizeBytes,
+      url: doc.processedImage,
+      extractedData: doc.extractedData
+    }));
+    storeUploadedDocuments(documents);
+    sessionStorage.removeItem('kycData');
+
+    // With a selfie already taken, the server compares it with the photos on the IDs now
+    setIsMatchingFace(true);
+    try {
+      const summary = await matchDocuments(documents);
+      if (summary) saveFaceMatch(summary);
+    } catch (err) {
+      console.error('Document photo match failed:', err);
+    } finally {
+      setIsMatchingFace(false);
+    }
+
     router.push('/kyc/review');
   };
 
@@ -318,8 +367,8 @@ export default function DocumentsPage() {
         {/* Continue Button */}
         <div className="text-center">
           {isRequiredDocumentsUploaded ? (
-            <Button onClick={continueToNext} size="lg" className="px-8">
-              Continue to Review
+            <Button onClick={continueToNext} size="lg" className="px-8" disabled={isMatchingFace}>
+              {isMatchingFace ? 'Matching your photo...' : 'Continue to Review'}
             </Button>
           ) : (
             <p className="text-gray-500">
@@ -2,8 +2,12 @@
 
 import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
-import { Camera, Shield, CheckCircle, AlertCircle, Eye, RotateCcw, Loader2, X } from 'lucide-react';
+import { Camera, Shield, CheckCircle, AlertCircle, Eye, RotateCcw, Loader2, X, Smile, MoveVertical } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { createDetector, runChallenge, type FaceFrame } from '@/lib/liveness';
+import { createFrameRecorder } from '@/lib/liveness-frames';
+import { matchDocuments, saveFaceMatch, type StoredDocument } from '@/lib/face-match';
+import type { LivenessChallenge } from '@/types/kyc';
 
 // Dynamic import for face-api.js to avoid SSR issues
 
@@ -18,8 +22,16 @@ type VerificationState =
   | 'VERIFICATION_SUCCESS'
   | 'VERIFICATION_FAILED';
 
+type ChallengeSession = {
+  sessionId: string;
+  token: string;
+  challenges: Pick<LivenessChallenge, 'id' | 'type' | 'direction'>[];
+  expiresAt: string;
+};
+
 type LivenessAction = {
   id: string;
+  challenge: Pick<LivenessChallenge, 'id' | 'type' | 'direction'>;
   instruction: string;
   icon: React.ReactNode;
   completed: boolean;
@@ -27,35 +39,30 @@ type LivenessAction = {
   isActive?: boolean;
 };
 
+// Instruction and icon for each challenge the server can issue
+const toLivenessAction = (challenge: Pick<LivenessChallenge, 'id' | 'type' | 'direction'>, index: number): LivenessAction => {
+  const base = { id: `${challenge.type}-${index}`, challenge, completed: false, isActive: false };
+  switch (challenge.type) {
+    case 'blink':
+      return { ...base, instruction: 'Please blink naturally', icon: <Eye className="w-6 h-6" /> };
+    case 'smile':
+      return { ...base, instruction: 'Give us a smile', icon: <Smile className="w-6 h-6" /> };
+    case 'nod':
+      return { ...base, instruction: 'Nod your head slowly', icon: <MoveVertical className="w-6 h-6" /> };
+    case 'turn_head':
+      return challenge.direction === 'right'
+        ? { ...base, instruction: 'Turn your head slightly right', icon: <RotateCcw className="w-6 h-6 scale-x-[-1]" /> }
+        : { ...base, instruction: 'Turn your head slightly left', icon: <RotateCcw className="w-6 h-6" /> };
+  }
+};
+
 export default function FaceVerificationPage() {
   const router = useRouter();
   const [verificationState, setVerificationState] = useState<VerificationState>('INITIALIZING');
   const [currentStep, setCurrentStep] = useState(1);
   const [faceDetected, setFaceDetected] = useState(false);
   const [faceQuality, setFaceQuality] = useState(0);
-  const [livenessActions, setLivenessActions] = useState<LivenessAction[]>([
-    {
-      id: 'blink',
-      instruction: 'Please blink naturally',
-      icon: <Eye className="w-6 h-6" />,
-      completed: false,
-      isActive: false
-    },
-    {
-      id: 'turn-left',
-      instruction: 'Turn your head slightly left',
-      icon: <RotateCcw className="w-6 h-6" />,
-      completed: false,
-      isActive: false
-    },
-    {
-      id: 'turn-right', 
-      instruction: 'Turn your head slightly right',
-      icon: <RotateCcw className="w-6 h-6 scale-x-[-1]" />,
-      completed: false,
-      isActive: false
-    }
-  ]);
+  const [livenessActions, setLivenessActions] = useState<LivenessAction[]>([]);
   const [captureCountdown, setCaptureCountdown] = useState(0);
   const [verificationScore, setVerificationScore] = useState(0);
   const [errorMessage, setErrorMessage] = useState('');
@@ -77,6 +84,9 @@ export default function FaceVerificationPage() {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const detectionIntervalRef = useRef<number | null>(null);
+  const livenessResultsRef = useRef<LivenessChallenge[]>([]);
+  const challengeSessionRef = useRef<ChallengeSession | null>(null);
+  const frameRecorderRef = useRef(createFrameRecorder());
 
   // Load face-api.js models
   const loadModels = async () => {
@@ -642,13 +652,37 @@ export default function FaceVerificationPage() {
     ctx.clearRect(0, 0, canvas.width, canvas.height);
   };
 
-  const startLivenessCheck = () => {
+  // The server picks the challenges and their order, so a recording cannot anticipate them
+  const startLivenessCheck = async () => {
     setCurrentLivenessIndex(0);
-    performLivenessActions();
+    frameRecorderRef.current.reset();
+    try {
+      const response = await fetch('/api/face/challenge', { method: 'POST' });
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error);
+
+      challengeSessionRef.current = result.data;
+      const actions = result.data.challenges.map(toLivenessAction);
+      setLivenessActions(actions);
+      performLivenessActions(actions);
+    } catch (error) {
+      console.error('Liveness challenge request failed:', error);
+      setVerificationState('VERIFICATION_FAILED');
+      setErrorMessage('Could not start the liveness check. Please check your connection and try again.');
+    }
   };
 
-  const performLivenessActions = async () => {
-    for (let i = 0; i < livenessActions.length; i++) {
+  const performLivenessActions = async (actions: LivenessAction[]) => {
+    livenessResultsRef.current = [];
+
+    // Challenges are judged from facial landmarks, which the basic fallback detector cannot provide
+    if (!faceapi) {
+      setVerificationState('VERIFICATION_FAILED');
+      setErrorMessage('Liveness checks need the face recognition models. Please refresh the page and try again.');
+      return;
+    }
+
+    for (let i = 0; i < actions.length; i++) {
       setCurrentLivenessIndex(i);
       
       // Set current action as active
@@ -660,23 +694,28 @@ export default function FaceVerificationPage() {
         }))
       );
       
-      const action = livenessActions[i];
+      const action = actions[i];
       
-      // Wait for user to complete action (simulated)
-      const completed = await waitForLivenessAction(action);
+      // Wait for the user to complete the action, or for it to time out
+      const result = await waitForLivenessAction(action);
+      livenessResultsRef.current.push(result);
       
-      if (completed) {
-        setLivenessActions(prev => 
-          prev.map((a, index) => 
-            index === i
-              ? { ...a, completed: true, feedback: 'Great! Action completed ✓', isActive: false }
-              : a
-          )
-        );
-        
-        // Brief pause between actions
-        await new Promise(resolve => setTimeout(resolve, 800));
+      if (!result.completed) {
+        setVerificationState('VERIFICATION_FAILED');
+        setErrorMessage('We could not confirm the liveness check. Please follow each instruction when it appears.');
+        return;
       }
+
+      setLivenessActions(prev => 
+        prev.map((a, index) => 
+          index === i
+            ? { ...a, completed: true, feedback: 'Great! Action completed ✓', isActive: false }
+            : a
+        )
+      );
+      
+      // Brief pause between actions
+      await new Promise(resolve => setTimeout(resolve, 800));
     }
     
     // All liveness actions completed
@@ -685,14 +724,32 @@ export default function FaceVerificationPage() {
     startFaceCapture();
   };
 
-  const waitForLivenessAction = async (action: LivenessAction): Promise<boolean> => {
-    return new Promise((resolve) => {
-      // Simulate varying completion times for different actions
-      const completionTime = action.id === 'blink' ? 2000 : 3000;
-      
-      setTimeout(() => {
-        resolve(true);
-      }, completionTime);
+  // Landmarks and expressions of the face in the current video frame, or null when no face is found.
+  // During a challenge the frame is recorded for the server, which checks the same motion.
+  const readFrame = async (challengeId?: string): Promise<FaceFrame | null> => {
+    if (!faceapi || !videoRef.current || videoRef.current.readyState < 2) return null;
+
+    const recorder = frameRecorderRef.current;
+    const frame = challengeId ? recorder.grab(videoRef.current) : null;
+
+    const detection = await faceapi
+      .detectSingleFace(frame?.canvas || videoRef.current, new faceapi.TinyFaceDetectorOptions({
+        inputSize: 416,
+        scoreThreshold: 0.5
+      }))
+      .withFaceLandmarks()
+      .withFaceExpressions();
+
+    if (frame && challengeId) await recorder.keep(frame.canvas, challengeId, frame.timestamp);
+
+    return detection ? { landmarks: detection.landmarks.positions, expressions: detection.expressions } : null;
+  };
+
+  const waitForLivenessAction = async (action: LivenessAction): Promise<LivenessChallenge> => {
+    return runChallenge(action.challenge, createDetector(action.challenge), () => readFrame(action.challenge.id), {
+      onHint: hint => setLivenessActions(prev =>
+        prev.map(a => (a.id === action.id && a.feedback !== hint ? { ...a, feedback: hint } : a))
+      )
     });
   };
 
@@ -726,22 +783,20 @@ export default function FaceVerificationPage() {
           canvas.width = video.videoWidth;
           canvas.height = video.videoHeight;
           
-          // Flip the image horizontally to match the mirrored video
-          ctx.scale(-1, 1);
-          ctx.drawImage(video, -canvas.width, 0);
-          ctx.scale(-1, 1);
+          // As the camera sees it, like the challenge frames the server compares it with
+          ctx.drawImage(video, 0, 0);
         }
         
-        // Simulate processing time
-        await new Promise(resolve => setTimeout(resolve, 3000));
-        
         // Convert to blob and send to backend for verification
         canvas.toBlob(async (blob) => {
           if (blob) {
             const formData = new FormData();
             formData.append('image', blob, 'face-verification.jpg');
             formData.append('verificationType', 'liveness_detection');
-            formData.append('sessionId', `session_${Date.now()}`);
+            formData.append('sessionId', challengeSessionRef.current?.sessionId || `session_${Date.now()}`);
+            formData.append('challengeToken', challengeSessionRef.current?.token || '');
+            formData.append('challenges', JSON.stringify(livenessResultsRef.current));
+            frameRecorderRef.current.appendTo(formData);
             
             try {
               const response = await fetch('/api/face/verify', {
@@ -754,6 +809,7 @@ export default function FaceVerificationPage() {
               if (result.success && result.data?.isLive) {
                 const score = Math.round((result.data.confidence || 0.9) * 100);
                 setVerificationScore(score);
+                await matchUploadedDocuments();
                 setVerificationState('VERIFICATION_SUCCESS');
                 
                 // Stop camera after successful verification
@@ -765,7 +821,7 @@ export default function FaceVerificationPage() {
                 }, 4000);
               } else {
                 setVerificationState('VERIFICATION_FAILED');
-                setErrorMessage(result.error || 'Verification failed. Please try again with better lighting.');
+                setErrorMessage(result.error || result.data?.recommendations?.[0] || 'Verification failed. Please try again with better lighting.');
               }
             } catch (fetchError) {
               console.error('Verification request failed:', fetchError);
@@ -782,6 +838,17 @@ export default function FaceVerificationPage() {
     }
   };
 
+  // Documents uploaded before the selfie are matched now; otherwise the documents page does it
+  const matchUploadedDocuments = async () => {
+    try {
+      const documents: StoredDocument[] = JSON.parse(localStorage.getItem('uploadedDocuments') || '[]');
+      const summary = await matchDocuments(documents);
+      if (summary) saveFaceMatch(summary);
+    } catch (error) {
+      console.error('Document photo match failed:', error);
+    }
+  };
+
   const retryVerification = () => {
     setVerificationState('DETECTING_FACE');
     setCurrentStep(2);
@@ -789,14 +856,10 @@ export default function FaceVerificationPage() {
     setFaceDetected(false);
     setFaceQuality(0);
     setCurrentLivenessIndex(0);
-    setLivenessActions(prev => 
-      prev.map(action => ({ 
-        ...action, 
-        completed: false, 
-        feedback: undefined,
-        isActive: false 
-      }))
-    );
+    livenessResultsRef.current = [];
+    challengeSessionRef.current = null;
+    frameRecorderRef.current.reset();
+    setLivenessActions([]);
     startFaceDetection();
   };
 
@@ -995,7 +1058,7 @@ export default function FaceVerificationPage() {
                           <motion.p 
                             initial={{ opacity: 0, height: 0 }}
                             animate={{ opacity: 1, height: 'auto' }}
-                            className="text-sm text-green-600 mt-2 font-medium"
+                            className={`text-sm mt-2 font-medium ${action.completed ? 'text-green-600' : 'text-blue-600'}`}
                           >
                             {action.feedback}
                           </motion.p>
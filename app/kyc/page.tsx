@@ -5,7 +5,7 @@ import { useRouter } from 'next/navigation';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { ArrowLeft, ChevronRight, Building2, Camera, Clock, Zap } from 'lucide-react';
+import { ArrowLeft, ChevronRight, Building2, Briefcase, Camera, Clock, Zap } from 'lucide-react';
 import { useKYCStore, useKYCActions, useLanguage } from '@/lib/store';
 import { getLocalizedText } from '@/lib/i18n';
 
@@ -174,6 +174,27 @@ export default function KYCSelectionPage() {
               <ChevronRight className="w-5 h-5 text-gray-400" />
             </div>
           </Card>
+
+          {/* Business KYC Option */}
+          <Card 
+            className="kyc-card-interactive"
+            onClick={() => router.push('/kyc/business')}
+          >
+            <div className="flex items-start space-x-4">
+              <div className="w-12 h-12 bg-purple-100 rounded-lg flex items-center justify-center flex-shrink-0">
+                <Briefcase className="w-6 h-6 text-purple-600" />
+              </div>
+              <div className="flex-1 min-w-0">
+                <h3 className="text-lg font-semibold text-gray-900 mb-2">
+                  {t('kycSelection.businessTitle')}
+                </h3>
+                <p className="text-gray-600 text-base-readable">
+                  {t('kycSelection.businessSubtitle')}
+                </p>
+              </div>
+              <ChevronRight className="w-5 h-5 text-gray-400" />
+            </div>
+          </Card>
         </div>
 
         {/* Help Section */}
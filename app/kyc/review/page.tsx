@@ -2,11 +2,14 @@
 
 import { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
+import Image from 'next/image';
 import { useRouter } from 'next/navigation';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { Separator } from '@/components/ui/separator';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { 
@@ -21,12 +24,16 @@ import {
   Clock,
   AlertTriangle,
   Download,
-  Eye
+  Eye,
+  Landmark
 } from 'lucide-react';
+import { loadFaceMatch } from '@/lib/face-match';
+import type { DocumentFaceMatch } from '@/types/kyc';
 
 interface KYCData {
   personalInfo: {
     name: string;
+    nameRegional?: string; // name in the card's regional script
     email: string;
     phone: string;
     address?: string;
@@ -36,6 +43,9 @@ interface KYCData {
     confidence: number;
     timestamp: string;
     image?: string;
+    matchScore?: number; // selfie against the ID photos, 0-1
+    isMatch?: boolean;
+    documentMatches?: DocumentFaceMatch[];
   };
   documents: Array<{
     id: string;
@@ -46,6 +56,19 @@ interface KYCData {
     size: number;
     url?: string;
   }>;
+  bankVerification?: {
+    status: 'verified' | 'failed';
+    accountNumberMasked: string;
+    ifsc: string;
+    bankName?: string;
+    branch?: string;
+    accountHolderName?: string;
+    nameMatchStatus?: 'match' | 'partial' | 'mismatch';
+    nameMatchScore?: number;
+    nameMatchExplanation?: string[];
+    error?: string;
+    verifiedAt: string;
+  };
   applicationId?: string;
 }
 
@@ -57,6 +80,8 @@ export default function KYCReviewPage() {
   const [confirmationChecked, setConfirmationChecked] = useState(false);
   const [termsAccepted, setTermsAccepted] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [bankForm, setBankForm] = useState({ accountNumber: '', ifsc: '' });
+  const [isVerifyingBank, setIsVerifyingBank] = useState(false);
 
   useEffect(() => {
     loadKYCData();
@@ -83,19 +108,24 @@ export default function KYCReviewPage() {
       if (uploadedDocs) {
         try {
           const documents = JSON.parse(uploadedDocs);
+          const faceMatch = loadFaceMatch();
           
           // Simulate OCR extraction from documents to get real data
           extractedData = {
             personalInfo: {
               name: 'Rajesh Kumar Sharma', // Extracted from Aadhaar/PAN
+              nameRegional: documents.find((doc: any) => doc.extractedData?.nameRegional)?.extractedData.nameRegional,
               email: sessionStorage.getItem('userEmail') || 'rajesh.sharma@email.com',
               phone: sessionStorage.getItem('userPhone') || '+91 9876543210',
               address: '304, Lotus Apartments, Sector 15, Gurgaon, Haryana - 122001' // Extracted from Aadhaar
             },
             faceVerification: {
-              status: 'verified',
+              status: faceMatch && !faceMatch.isMatch ? 'failed' : 'verified',
               confidence: 95.7,
               timestamp: new Date().toISOString(),
+              matchScore: faceMatch?.matchScore,
+              isMatch: faceMatch?.isMatch,
+              documentMatches: faceMatch?.matches
             },
             documents: documents.map((doc: any, index: number) => ({
               id: doc.id || `doc_${index}`,
@@ -179,6 +209,55 @@ export default function KYCReviewPage() {
     }
   };
 
+  const handleVerifyBankAccount = async () => {
+    const applicationId = kycData?.applicationId || sessionStorage.getItem('kycApplicationId');
+    if (!kycData || !applicationId) {
+      setError('Start your KYC application before verifying a bank account.');
+      return;
+    }
+
+    setIsVerifyingBank(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/bank/verify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ applicationId, ...bankForm })
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        setError(result.details?.[0]?.message || result.error || 'Bank account verification failed. Please try again.');
+        return;
+      }
+
+      const updatedData: KYCData = {
+        ...kycData,
+        bankVerification: {
+          status: result.verified ? 'verified' : 'failed',
+          accountNumberMasked: result.bankAccount.accountNumberMasked,
+          ifsc: result.bankAccount.ifsc,
+          bankName: result.bankAccount.bankName,
+          branch: result.bankAccount.branch,
+          accountHolderName: result.bankAccount.accountHolderName,
+          nameMatchStatus: result.bankAccount.nameMatchStatus,
+          nameMatchScore: result.bankAccount.nameMatchScore,
+          nameMatchExplanation: result.bankAccount.nameMatchExplanation,
+          error: result.error,
+          verifiedAt: result.bankAccount.verifiedAt
+        }
+      };
+      setKycData(updatedData);
+      sessionStorage.setItem('kycData', JSON.stringify(updatedData));
+    } catch (error) {
+      console.error('Error verifying bank account:', error);
+      setError('Failed to verify your bank account. Please try again.');
+    } finally {
+      setIsVerifyingBank(false);
+    }
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'verified': return 'bg-green-500';
@@ -337,6 +416,9 @@ export default function KYCReviewPage() {
                     <div>
                       <label className="text-sm font-medium text-gray-500">Full Name</label>
                       <p className="text-lg font-semibold text-gray-900">{kycData?.personalInfo.name}</p>
+                      {kycData?.personalInfo.nameRegional && (
+                        <p className="text-base text-gray-700">{kycData.personalInfo.nameRegional}</p>
+                      )}
                     </div>
                     <div>
                       <label className="text-sm font-medium text-gray-500">Email Address</label>
@@ -400,6 +482,22 @@ export default function KYCReviewPage() {
                       </p>
                     </div>
                   </div>
+                  {kycData?.faceVerification.documentMatches && (
+                    <div className="mt-4 space-y-2">
+                      <label className="text-sm font-medium text-gray-500">Document Photo Match</label>
+                      {kycData.faceVerification.documentMatches.map(match => (
+                        <div key={match.documentId} className="flex items-center justify-between text-sm">
+                          <span className="capitalize text-gray-700">
+                            {match.documentType.replace('_', ' ')}
+                            {match.source === 'secure_qr' && ' (Secure QR photo)'}
+                          </span>
+                          <span className={`font-semibold ${match.isMatch ? 'text-green-600' : 'text-red-600'}`}>
+                            {match.error || `${(match.matchScore * 100).toFixed(1)}% ${match.isMatch ? 'match' : 'no match'}`}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
                   {kycData?.faceVerification.status !== 'verified' && (
                     <div className="mt-4">
                       <Button 
@@ -446,7 +544,19 @@ export default function KYCReviewPage() {
                         <div key={doc.id} className="border rounded-lg p-4 hover:bg-gray-50 transition-colors">
                           <div className="flex items-center justify-between">
                             <div className="flex items-center space-x-3">
-                              <FileText className="w-8 h-8 text-blue-600" />
+                              {doc.url ? (
+                                // A data URL of the cleaned crop, so there is nothing to optimize
+                                <Image
+                                  src={doc.url}
+                                  alt={doc.name}
+                                  width={64}
+                                  height={40}
+                                  unoptimized
+                                  className="w-16 h-10 object-cover rounded border"
+                                />
+                              ) : (
+                                <FileText className="w-8 h-8 text-blue-600" />
+                              )}
                               <div>
                                 <h4 className="font-semibold text-gray-900">{doc.name}</h4>
                                 <p className="text-sm text-gray-600">
@@ -463,7 +573,7 @@ export default function KYCReviewPage() {
                                 <span className="ml-1 capitalize">{doc.status}</span>
                               </Badge>
                               {doc.url && (
-                                <Button variant="ghost" size="sm">
+                                <Button variant="ghost" size="sm" onClick={() => window.open(doc.url, '_blank')}>
                                   <Eye className="w-4 h-4" />
                                 </Button>
                               )}
@@ -485,6 +595,99 @@ export default function KYCReviewPage() {
               </Card>
             </motion.div>
 
+            {/* Bank Account */}
+            <motion.div
+              initial={{ opacity: 0, x: -20 }}
+              animate={{ opacity: 1, x: 0 }}
+              transition={{ delay: 0.35 }}
+            >
+              <Card>
+                <CardHeader className="pb-4">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center">
+                      <Landmark className="w-5 h-5 text-indigo-600 mr-2" />
+                      <CardTitle className="text-xl">Bank Account</CardTitle>
+                    </div>
+                    {kycData?.bankVerification && (
+                      <Badge className={`${getStatusColor(kycData.bankVerification.status)} text-white`}>
+                        {getStatusIcon(kycData.bankVerification.status)}
+                        <span className="ml-1 capitalize">{kycData.bankVerification.status}</span>
+                      </Badge>
+                    )}
+                  </div>
+                  <CardDescription>
+                    We deposit ₹1 to confirm the account is in your name
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {kycData?.bankVerification && (
+                    <div className="grid md:grid-cols-2 gap-4 mb-4">
+                      <div>
+                        <label className="text-sm font-medium text-gray-500">Account</label>
+                        <p className="text-lg font-semibold text-gray-900">{kycData.bankVerification.accountNumberMasked}</p>
+                        <p className="text-sm text-gray-600">
+                          {[kycData.bankVerification.bankName, kycData.bankVerification.branch, kycData.bankVerification.ifsc]
+                            .filter(Boolean)
+                            .join(' • ')}
+                        </p>
+                      </div>
+                      {kycData.bankVerification.accountHolderName && (
+                        <div>
+                          <label className="text-sm font-medium text-gray-500">Account Holder</label>
+                          <p className="text-lg font-semibold text-gray-900">{kycData.bankVerification.accountHolderName}</p>
+                          <p className={`text-sm capitalize ${
+                            kycData.bankVerification.nameMatchStatus === 'match' ? 'text-green-600' :
+                            kycData.bankVerification.nameMatchStatus === 'partial' ? 'text-yellow-600' : 'text-red-600'
+                          }`}>
+                            Name {kycData.bankVerification.nameMatchStatus}
+                            {kycData.bankVerification.nameMatchScore !== undefined &&
+                              ` (${(kycData.bankVerification.nameMatchScore * 100).toFixed(0)}%)`}
+                          </p>
+                          {kycData.bankVerification.nameMatchStatus !== 'match' &&
+                            kycData.bankVerification.nameMatchExplanation?.length ? (
+                            <p className="text-xs text-gray-500">
+                              {kycData.bankVerification.nameMatchExplanation.join(' • ')}
+                            </p>
+                          ) : null}
+                        </div>
+                      )}
+                      {kycData.bankVerification.error && (
+                        <p className="text-sm text-red-600 md:col-span-2">{kycData.bankVerification.error}</p>
+                      )}
+                    </div>
+                  )}
+                  {kycData?.bankVerification?.status !== 'verified' && (
+                    <div className="grid md:grid-cols-3 gap-4 items-end">
+                      <div className="space-y-2">
+                        <Label htmlFor="accountNumber">Account Number</Label>
+                        <Input
+                          id="accountNumber"
+                          inputMode="numeric"
+                          value={bankForm.accountNumber}
+                          onChange={(e) => setBankForm(prev => ({ ...prev, accountNumber: e.target.value }))}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="ifsc">IFSC</Label>
+                        <Input
+                          id="ifsc"
+                          value={bankForm.ifsc}
+                          onChange={(e) => setBankForm(prev => ({ ...prev, ifsc: e.target.value.toUpperCase() }))}
+                        />
+                      </div>
+                      <Button
+                        variant="outline"
+                        onClick={handleVerifyBankAccount}
+                        disabled={!bankForm.accountNumber || !bankForm.ifsc || isVerifyingBank}
+                      >
+                        {isVerifyingBank ? 'Verifying...' : 'Verify Account'}
+                      </Button>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </motion.div>
+
             {/* Confirmation and Submission */}
             <motion.div
               initial={{ opacity: 0, y: 20 }}
@@ -23,6 +23,7 @@ interface ApplicationDetails {
   submittedAt: string;
   status: 'submitted' | 'in-review' | 'approved' | 'rejected';
   estimatedCompletionTime: string;
+  ckycNumber?: string;
 }
 
 export default function KYCSuccessPage() {
@@ -51,6 +52,7 @@ export default function KYCSuccessPage() {
       };
 
       setApplicationDetails(details);
+      loadCkycNumber(applicationId);
     } catch (error) {
       console.error('Error loading application details:', error);
     } finally {
@@ -58,6 +60,21 @@ export default function KYCSuccessPage() {
     }
   };
 
+  const loadCkycNumber = async (applicationId: string) => {
+    try {
+      const response = await fetch(`/api/kyc/status?applicationId=${encodeURIComponent(applicationId)}`);
+      if (!response.ok) return;
+
+      const result = await response.json();
+      const ckycNumber = result.application?.ckyc?.ckycNumber;
+      if (ckycNumber) {
+        setApplicationDetails(prev => prev ? { ...prev, ckycNumber } : prev);
+      }
+    } catch (error) {
+      console.error('Error loading CKYC number:', error);
+    }
+  };
+
   const handleDownloadReceipt = () => {
     // Generate a simple text receipt
     const receipt = `
@@ -65,7 +82,7 @@ KYC APPLICATION RECEIPT
 ========================
 
 Application ID: ${applicationDetails?.applicationId}
-Submission Date: ${applicationDetails ? new Date(applicationDetails.submittedAt).toLocaleString() : ''}
+${applicationDetails?.ckycNumber ? `CKYC Number: ${applicationDetails.ckycNumber}\n` : ''}Submission Date: ${applicationDetails ? new Date(applicationDetails.submittedAt).toLocaleString() : ''}
 Status: ${applicationDetails?.status.toUpperCase()}
 Estimated Processing Time: ${applicationDetails?.estimatedCompletionTime}
 
@@ -149,6 +166,14 @@ Thank you for choosing our KYC verification service.
                       {applicationDetails?.applicationId}
                     </Badge>
                   </div>
+                  {applicationDetails?.ckycNumber && (
+                    <div className="flex justify-between items-center">
+                      <span className="font-medium text-gray-600">CKYC Number:</span>
+                      <Badge variant="outline" className="font-mono text-sm">
+                        {applicationDetails.ckycNumber}
+                      </Badge>
+                    </div>
+                  )}
                   <div className="flex justify-between items-center">
                     <span className="font-medium text-gray-600">Submitted:</span>
                     <span className="font-semibold text-gray-900">
@@ -62,6 +62,7 @@ interface UserProfile {
   address: {
     street: ProfileField;
     city: ProfileField;
+    district: ProfileField;
     state: ProfileField;
     pinCode: ProfileField;
     country: ProfileField;
@@ -82,6 +83,7 @@ export default function ProfilePage() {
   const [showSensitiveData, setShowSensitiveData] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [editingFields, setEditingFields] = useState<Set<string>>(new Set());
+  const [addressMismatches, setAddressMismatches] = useState<string[]>([]);
 
   useEffect(() => {
     loadProfileData();
@@ -195,6 +197,11 @@ export default function ProfilePage() {
           },
           lastUpdated: new Date().toISOString()
         },
+        district: {
+          value: 'Gurgaon',
+          isVerified: true,
+          lastUpdated: new Date().toISOString()
+        },
         state: {
           value: 'Haryana',
           isVerified: true,
@@ -295,6 +302,7 @@ export default function ProfilePage() {
       address: {
         street: { value: '', isVerified: false, lastUpdated: new Date().toISOString() },
         city: { value: '', isVerified: false, lastUpdated: new Date().toISOString() },
+        district: { value: '', isVerified: false, lastUpdated: new Date().toISOString() },
         state: { value: '', isVerified: false, lastUpdated: new Date().toISOString() },
         pinCode: { value: '', isVerified: false, lastUpdated: new Date().toISOString() },
         country: { value: 'India', isVerified: true, lastUpdated: new Date().toISOString() }
@@ -338,6 +346,10 @@ export default function ProfilePage() {
         
         current[fieldPath[fieldPath.length - 1]].value = value;
         current[fieldPath[fieldPath.length - 1]].lastUpdated = new Date().toISOString();
+
+        if (fieldPath[0] === 'address') {
+          await syncAddressWithPinCode(updatedProfile, fieldName === 'address.pinCode');
+        }
         
         setProfile(updatedProfile);
       }
@@ -354,6 +366,46 @@ export default function ProfilePage() {
     }
   };
 
+  // Fill state and district from the PIN code directory and flag city/state
+  // text that belongs to a different PIN code
+  const syncAddressWithPinCode = async (updatedProfile: UserProfile, autoFill: boolean) => {
+    const { pinCode, city, state, district } = updatedProfile.address;
+    if (!/^\d{6}$/.test(pinCode.value)) {
+      setAddressMismatches([]);
+      return;
+    }
+
+    try {
+      const params = new URLSearchParams({ pin: pinCode.value });
+      if (city.value) params.set('city', city.value);
+      // A fresh PIN code replaces the state, so only check it otherwise
+      if (state.value && !autoFill) params.set('state', state.value);
+
+      const response = await fetch(`/api/pincode?${params}`);
+      const result = await response.json();
+      if (!result.success) {
+        setAddressMismatches(response.status === 404 ? [`PIN code ${pinCode.value} was not found`] : []);
+        return;
+      }
+
+      if (autoFill) {
+        const lastUpdated = new Date().toISOString();
+        state.value = result.state;
+        state.lastUpdated = lastUpdated;
+        district.value = result.district;
+        district.lastUpdated = lastUpdated;
+        if (!city.value) {
+          city.value = result.district;
+          city.lastUpdated = lastUpdated;
+        }
+      }
+
+      setAddressMismatches(result.mismatches);
+    } catch (error) {
+      console.error('PIN code lookup failed:', error);
+    }
+  };
+
   const handleCancel = (fieldName: string) => {
     setEditingFields(prev => {
       const newSet = new Set(prev);
@@ -632,11 +684,22 @@ export default function ProfilePage() {
                   <CardContent>
                     <div className="grid gap-6">
                       {renderField('address.street', profile.address.street, 'Street Address', <MapPin className="w-4 h-4" />)}
-                      <div className="grid md:grid-cols-3 gap-6">
+                      <div className="grid md:grid-cols-2 gap-6">
                         {renderField('address.city', profile.address.city, 'City', <MapPin className="w-4 h-4" />)}
+                        {renderField('address.district', profile.address.district, 'District', <MapPin className="w-4 h-4" />)}
                         {renderField('address.state', profile.address.state, 'State', <MapPin className="w-4 h-4" />)}
                         {renderField('address.pinCode', profile.address.pinCode, 'PIN Code', <MapPin className="w-4 h-4" />)}
                       </div>
+                      {addressMismatches.length > 0 && (
+                        <Alert className="border-yellow-200 bg-yellow-50">
+                          <AlertTriangle className="h-4 w-4 text-yellow-600" />
+                          <AlertDescription className="text-yellow-700">
+                            {addressMismatches.map(mismatch => (
+                              <p key={mismatch}>{mismatch}</p>
+                            ))}
+                          </AlertDescription>
+                        </Alert>
+                      )}
                       {renderField('address.country', profile.address.country, 'Country', <MapPin className="w-4 h-4" />)}
                     </div>
                   </CardContent>
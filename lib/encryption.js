@@ -7,6 +7,10 @@ const IV_LENGTH = 16; // 128 bits
 const SALT_LENGTH = 64; // 512 bits
 const TAG_LENGTH = 16; // 128 bits
 
+// Derived key, kept per ENCRYPTION_KEY value: PBKDF2 is deliberately slow and
+// bulk readers (the face embedding index) decrypt thousands of values at once
+let derivedKey = null;
+
 // Get encryption key from environment
 const getEncryptionKey = () => {
   const envKey = process.env.ENCRYPTION_KEY;
@@ -15,9 +19,14 @@ const getEncryptionKey = () => {
     throw new Error('ENCRYPTION_KEY environment variable is required');
   }
   
+  if (derivedKey?.envKey === envKey) {
+    return derivedKey.key;
+  }
+  
   // Derive key from environment variable using PBKDF2
   const salt = crypto.createHash('sha256').update('sahaj-kyc-salt').digest();
-  return crypto.pbkdf2Sync(envKey, salt, 10000, KEY_LENGTH, 'sha256');
+  derivedKey = { envKey, key: crypto.pbkdf2Sync(envKey, salt, 10000, KEY_LENGTH, 'sha256') };
+  return derivedKey.key;
 };
 
 /**
@@ -0,0 +1,73 @@
+// Geometry of face-api.js 68-point landmarks (detection.landmarks.positions),
+// shared by the browser's liveness challenges (lib/liveness.ts) and the
+// server's checks of the selfie and the frames recorded during them
+// (src/services/face.service.js, multi-frame-liveness.service.js).
+
+export const LEFT_EYE = [36, 37, 38, 39, 40, 41];
+export const RIGHT_EYE = [42, 43, 44, 45, 46, 47];
+export const JAW_LEFT = 0;
+export const JAW_RIGHT = 16;
+export const NOSE_TIP = 30;
+export const CHIN = 8;
+export const MOUTH_LEFT = 48;
+export const MOUTH_RIGHT = 54;
+
+/**
+ * @param {{ x: number, y: number }} a
+ * @param {{ x: number, y: number }} b
+ * @returns {number}
+ */
+export function pointDistance(a, b) {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+/**
+ * Eye aspect ratio (Soukupová & Čech): vertical eyelid openings over eye width.
+ * Around 0.3 for open eyes and close to 0 for closed ones.
+ * @param {{ x: number, y: number }[]} eye the six points of one eye
+ * @returns {number}
+ */
+export function eyeAspectRatio(eye) {
+  const width = pointDistance(eye[0], eye[3]);
+  if (width === 0) return 0;
+  return (pointDistance(eye[1], eye[5]) + pointDistance(eye[2], eye[4])) / (2 * width);
+}
+
+/**
+ * @param {{ x: number, y: number }[]} landmarks
+ * @returns {number}
+ */
+export function averageEyeAspectRatio(landmarks) {
+  const left = eyeAspectRatio(LEFT_EYE.map(index => landmarks[index]));
+  const right = eyeAspectRatio(RIGHT_EYE.map(index => landmarks[index]));
+  return (left + right) / 2;
+}
+
+/**
+ * Head yaw from where the nose tip sits between the jaw edges: 0 facing the
+ * camera, towards +1 as the nose moves to the image's right and -1 to its left.
+ * The camera sees the user mirrored, so turning to the user's left is positive.
+ * @param {{ x: number, y: number }[]} landmarks
+ * @returns {number}
+ */
+export function estimateYaw(landmarks) {
+  const left = landmarks[JAW_LEFT];
+  const right = landmarks[JAW_RIGHT];
+  const width = right.x - left.x;
+  if (width <= 0) return 0;
+  return ((landmarks[NOSE_TIP].x - left.x) / width - 0.5) * 2;
+}
+
+/**
+ * Head pitch as where the nose tip sits between the eye line and the chin:
+ * grows as the head tips down and shrinks as it tips up
+ * @param {{ x: number, y: number }[]} landmarks
+ * @returns {number}
+ */
+export function estimatePitch(landmarks) {
+  const eyes = [...LEFT_EYE, ...RIGHT_EYE];
+  const eyeY = eyes.reduce((sum, index) => sum + landmarks[index].y, 0) / eyes.length;
+  const height = landmarks[CHIN].y - eyeY;
+  if (height <= 0) return 0;
+  return (landmarks[NOSE_TIP].y - eyeY) / height;
+}
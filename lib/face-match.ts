@@ -0,0 +1,52 @@
+import type { FaceMatchSummary } from '@/types/kyc';
+
+// Selfie-to-document photo matching. The match runs on the server against the
+// selfie of the user's latest passed liveness check (/api/face/document-match);
+// the pages only send the uploaded documents and keep the result for review.
+
+// An uploaded document as stored by the documents page
+export interface StoredDocument {
+  id: string;
+  type: string;
+  url?: string | null; // cleaned card crop
+}
+
+const FACE_MATCH_KEY = 'documentFaceMatch';
+
+async function toBlob(url: string): Promise<Blob> {
+  return (await fetch(url)).blob();
+}
+
+/**
+ * Match the live selfie with the photos on the uploaded documents. Null when
+ * there is nothing to match yet: no documents, or no passed liveness check.
+ */
+export async function matchDocuments(documents: StoredDocument[]): Promise<FaceMatchSummary | null> {
+  if (documents.length === 0) return null;
+
+  const formData = new FormData();
+  formData.append('documents', JSON.stringify(documents.map(({ id, type }) => ({ id, type }))));
+  for (const upload of documents) {
+    if (upload.url) formData.append(`image:${upload.id}`, await toBlob(upload.url), `${upload.id}.jpg`);
+  }
+
+  const response = await fetch('/api/face/document-match', { method: 'POST', body: formData });
+  const result = await response.json();
+  if (response.status === 409 && result.code === 'SELFIE_NOT_ENROLLED') return null;
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || 'Document face match failed');
+  }
+  return result.data;
+}
+
+// The match result is read by the review page alongside the uploaded documents;
+// the saved FaceVerification records are what reviewers rely on
+
+export function saveFaceMatch(summary: FaceMatchSummary) {
+  localStorage.setItem(FACE_MATCH_KEY, JSON.stringify(summary));
+}
+
+export function loadFaceMatch(): FaceMatchSummary | null {
+  const stored = localStorage.getItem(FACE_MATCH_KEY);
+  return stored ? JSON.parse(stored) : null;
+}
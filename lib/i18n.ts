@@ -219,6 +219,18 @@ export const LOCALIZED_TEXTS = {
       en: '5 minutes',
       bn: '৫ মিনিট',
       ta: '5 நிமிடங்கள்'
+    } as LocalizedText,
+    businessTitle: {
+      hi: 'व्यवसाय के लिए KYC',
+      en: 'Business KYC',
+      bn: 'ব্যবসার জন্য KYC',
+      ta: 'வணிகத்திற்கான KYC'
+    } as LocalizedText,
+    businessSubtitle: {
+      hi: 'GSTIN, उद्यम और अधिकृत हस्ताक्षरकर्ता',
+      en: 'GSTIN, Udyam and authorised signatories',
+      bn: 'GSTIN, উদ্যম এবং অনুমোদিত স্বাক্ষরকারী',
+      ta: 'GSTIN, உத்யம் மற்றும் அங்கீகரிக்கப்பட்ட கையொப்பமிடுபவர்கள்'
     } as LocalizedText
   },
 
@@ -0,0 +1,66 @@
+import type { LivenessFrameMeta } from '@/types/kyc';
+
+// Frames recorded while the liveness challenges run, uploaded with the selfie so
+// the server can check the same face moved as each challenge asked.
+
+// Matches MultiFrameLivenessService.MAX_FRAMES_PER_CHALLENGE on the server
+export const MAX_FRAMES_PER_CHALLENGE = 8;
+
+// Frames are downscaled to keep the upload small; the server detector works at 416px
+const FRAME_WIDTH = 480;
+const FRAME_QUALITY = 0.85;
+
+export interface RecordedFrame extends LivenessFrameMeta {
+  blob: Blob;
+}
+
+export interface FrameRecorder {
+  // Copy the current video frame; returns the canvas so it can be analysed as recorded
+  grab(video: HTMLVideoElement): { canvas: HTMLCanvasElement; timestamp: number };
+  // Keep a grabbed frame for a challenge; only the latest MAX_FRAMES_PER_CHALLENGE are kept
+  keep(canvas: HTMLCanvasElement, challengeId: string, timestamp: number): Promise<void>;
+  appendTo(formData: FormData): void;
+  reset(): void;
+}
+
+/**
+ * Records frames as the camera sees them (not mirrored like the preview), so
+ * landmark directions match lib/liveness.ts on both sides
+ */
+export function createFrameRecorder(): FrameRecorder {
+  let frames: RecordedFrame[] = [];
+
+  return {
+    grab(video) {
+      const scale = Math.min(1, FRAME_WIDTH / video.videoWidth);
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(video.videoWidth * scale);
+      canvas.height = Math.round(video.videoHeight * scale);
+      canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height);
+      return { canvas, timestamp: Date.now() };
+    },
+
+    async keep(canvas, challengeId, timestamp) {
+      const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', FRAME_QUALITY));
+      if (!blob) return;
+
+      frames.push({ blob, challengeId, timestamp });
+      const forChallenge = frames.filter(frame => frame.challengeId === challengeId);
+      if (forChallenge.length > MAX_FRAMES_PER_CHALLENGE) {
+        frames = frames.filter(frame => frame !== forChallenge[0]);
+      }
+    },
+
+    appendTo(formData) {
+      const ordered = [...frames].sort((a, b) => a.timestamp - b.timestamp);
+      ordered.forEach((frame, index) => formData.append('frames', frame.blob, `frame-${index}.jpg`));
+      formData.append('frameManifest', JSON.stringify(
+        ordered.map(({ challengeId, timestamp }): LivenessFrameMeta => ({ challengeId, timestamp }))
+      ));
+    },
+
+    reset() {
+      frames = [];
+    }
+  };
+}
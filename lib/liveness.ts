@@ -0,0 +1,264 @@
+import type { LivenessChallenge } from '@/types/kyc';
+import {
+  JAW_LEFT,
+  JAW_RIGHT,
+  MOUTH_LEFT,
+  MOUTH_RIGHT,
+  averageEyeAspectRatio,
+  estimatePitch,
+  estimateYaw,
+  pointDistance
+} from './face-landmarks';
+
+// Geometry for liveness challenges, computed from face-api.js 68-point landmarks
+// (detection.landmarks.positions) in un-mirrored video coordinates. The landmark
+// measures themselves are shared with the server (lib/face-landmarks.js).
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface FaceFrame {
+  landmarks: Point[];
+  // face-api.js expression probabilities (happy, neutral, ...), when detected
+  expressions?: Record<string, number>;
+}
+
+export interface ChallengeProgress {
+  passed: boolean;
+  confidence: number;
+  hint?: string;
+}
+
+export interface ChallengeDetector {
+  update(frame: FaceFrame | null): ChallengeProgress;
+}
+
+// How long the user gets for each challenge before it fails
+export const CHALLENGE_TIMEOUT_MS: Record<LivenessChallenge['type'], number> = {
+  blink: 8000,
+  smile: 8000,
+  turn_head: 10000,
+  nod: 10000
+};
+
+// Eyes count as closed once the eye aspect ratio drops below this share of the open-eye baseline
+const BLINK_CLOSED_RATIO = 0.7;
+const BLINK_REOPENED_RATIO = 0.85;
+const BASELINE_FRAMES = 3;
+
+// Yaw (see estimateYaw in lib/face-landmarks.js) needed for a head turn, held for a few frames
+const TURN_YAW = 0.35;
+const TURN_FULL_CONFIDENCE_YAW = 0.6;
+const TURN_HOLD_FRAMES = 2;
+
+// Smiles: face-api.js 'happy' probability, or mouth widening without expressions
+const SMILE_PROBABILITY = 0.7;
+const SMILE_MOUTH_WIDENING = 1.12;
+const SMILE_HOLD_FRAMES = 2;
+
+// Nods: change in pitch (see estimatePitch in lib/face-landmarks.js) from the resting position and back
+const NOD_PITCH_CHANGE = 0.08;
+const NOD_FULL_CONFIDENCE_CHANGE = 0.15;
+const NOD_RETURN = 0.04;
+
+const clamp = (value: number) => Math.max(0, Math.min(1, value));
+
+// Mouth width relative to face width, which grows with a smile
+function mouthWidthRatio(landmarks: Point[]): number {
+  const faceWidth = pointDistance(landmarks[JAW_LEFT], landmarks[JAW_RIGHT]);
+  return faceWidth === 0 ? 0 : pointDistance(landmarks[MOUTH_LEFT], landmarks[MOUTH_RIGHT]) / faceWidth;
+}
+
+const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+const NO_FACE: ChallengeProgress = { passed: false, confidence: 0, hint: 'Keep your face in the frame' };
+
+/**
+ * Passes once the eyes close and open again. The open-eye baseline is taken
+ * from the first frames so narrow eyes are not mistaken for closed ones.
+ */
+export function createBlinkDetector(): ChallengeDetector {
+  const baselineSamples: number[] = [];
+  let baseline = 0;
+  let lowest = Infinity;
+  let closed = false;
+
+  return {
+    update(frame) {
+      if (!frame) return NO_FACE;
+
+      const ear = averageEyeAspectRatio(frame.landmarks);
+      if (baselineSamples.length < BASELINE_FRAMES) {
+        baselineSamples.push(ear);
+        baseline = average(baselineSamples);
+        return { passed: false, confidence: 0 };
+      }
+
+      if (ear < baseline * BLINK_CLOSED_RATIO) {
+        closed = true;
+        lowest = Math.min(lowest, ear);
+      } else if (closed && ear >= baseline * BLINK_REOPENED_RATIO) {
+        // Deeper closures are more convincing: a drop to 40% of the baseline scores 1
+        return { passed: true, confidence: clamp((1 - lowest / baseline) / 0.6) };
+      } else if (!closed) {
+        baseline = baseline * 0.9 + ear * 0.1;
+      }
+
+      return { passed: false, confidence: 0 };
+    }
+  };
+}
+
+/**
+ * Passes once the head is held turned towards the user's left or right
+ */
+export function createTurnDetector(direction: 'left' | 'right'): ChallengeDetector {
+  const sign = direction === 'left' ? 1 : -1;
+  let heldFrames = 0;
+  let strongest = 0;
+
+  return {
+    update(frame) {
+      if (!frame) return NO_FACE;
+
+      const yaw = estimateYaw(frame.landmarks) * sign;
+      strongest = Math.max(strongest, yaw);
+
+      if (yaw >= TURN_YAW) {
+        heldFrames++;
+        if (heldFrames >= TURN_HOLD_FRAMES) {
+          return { passed: true, confidence: clamp(strongest / TURN_FULL_CONFIDENCE_YAW) };
+        }
+      } else {
+        heldFrames = 0;
+      }
+
+      return {
+        passed: false,
+        confidence: 0,
+        hint: yaw > TURN_YAW / 2 ? 'A little further' : undefined
+      };
+    }
+  };
+}
+
+/**
+ * Passes once a smile is held for a few frames
+ */
+export function createSmileDetector(): ChallengeDetector {
+  const baselineSamples: number[] = [];
+  let heldFrames = 0;
+  let scores: number[] = [];
+
+  return {
+    update(frame) {
+      if (!frame) return NO_FACE;
+
+      let score: number;
+      if (frame.expressions) {
+        score = frame.expressions.happy || 0;
+      } else {
+        const ratio = mouthWidthRatio(frame.landmarks);
+        if (baselineSamples.length < BASELINE_FRAMES) {
+          baselineSamples.push(ratio);
+          return { passed: false, confidence: 0 };
+        }
+        // Map the widening onto the same 0-1 scale, reaching the threshold at SMILE_MOUTH_WIDENING
+        score = clamp((ratio / average(baselineSamples) - 1) / (SMILE_MOUTH_WIDENING - 1) * SMILE_PROBABILITY);
+      }
+
+      if (score >= SMILE_PROBABILITY) {
+        heldFrames++;
+        scores.push(score);
+        if (heldFrames >= SMILE_HOLD_FRAMES) {
+          return { passed: true, confidence: clamp(average(scores)) };
+        }
+      } else {
+        heldFrames = 0;
+        scores = [];
+      }
+
+      const growing = score > SMILE_PROBABILITY / 2 && score < SMILE_PROBABILITY;
+      return { passed: false, confidence: 0, hint: growing ? 'A bigger smile' : undefined };
+    }
+  };
+}
+
+/**
+ * Passes once the head tips down (or up) and comes back to rest
+ */
+export function createNodDetector(): ChallengeDetector {
+  const baselineSamples: number[] = [];
+  let baseline = 0;
+  let largestChange = 0;
+
+  return {
+    update(frame) {
+      if (!frame) return NO_FACE;
+
+      const pitch = estimatePitch(frame.landmarks);
+      if (baselineSamples.length < BASELINE_FRAMES) {
+        baselineSamples.push(pitch);
+        baseline = average(baselineSamples);
+        return { passed: false, confidence: 0 };
+      }
+
+      const change = Math.abs(pitch - baseline);
+      largestChange = Math.max(largestChange, change);
+
+      if (largestChange >= NOD_PITCH_CHANGE && change <= NOD_RETURN) {
+        return { passed: true, confidence: clamp(largestChange / NOD_FULL_CONFIDENCE_CHANGE) };
+      }
+
+      return {
+        passed: false,
+        confidence: 0,
+        hint: largestChange >= NOD_PITCH_CHANGE ? 'Now bring your head back up' : undefined
+      };
+    }
+  };
+}
+
+/**
+ * Detector for a challenge issued by /api/face/challenge
+ */
+export function createDetector(challenge: Pick<LivenessChallenge, 'type' | 'direction'>): ChallengeDetector {
+  switch (challenge.type) {
+    case 'blink':
+      return createBlinkDetector();
+    case 'smile':
+      return createSmileDetector();
+    case 'nod':
+      return createNodDetector();
+    case 'turn_head':
+      return createTurnDetector(challenge.direction || 'left');
+  }
+}
+
+/**
+ * Run a detector against successive frames until it passes or times out.
+ * `readFrame` returns the current frame's landmarks, or null without a face.
+ */
+export async function runChallenge(
+  challenge: Pick<LivenessChallenge, 'type' | 'direction'>,
+  detector: ChallengeDetector,
+  readFrame: () => Promise<FaceFrame | null>,
+  options: { intervalMs?: number; onHint?: (hint?: string) => void; isCancelled?: () => boolean } = {}
+): Promise<LivenessChallenge> {
+  const { intervalMs = 100, onHint, isCancelled } = options;
+  const startedAt = Date.now();
+  const timeoutMs = CHALLENGE_TIMEOUT_MS[challenge.type];
+
+  while (Date.now() - startedAt < timeoutMs && !isCancelled?.()) {
+    const progress = detector.update(await readFrame());
+    onHint?.(progress.hint);
+
+    if (progress.passed) {
+      return { ...challenge, completed: true, confidence: progress.confidence, durationMs: Date.now() - startedAt };
+    }
+    await new Promise(resolve => setTimeout(resolve, intervalMs));
+  }
+
+  return { ...challenge, completed: false, confidence: 0, durationMs: Date.now() - startedAt };
+}
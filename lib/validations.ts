@@ -37,11 +37,16 @@ export const extractedDocumentDataSchema = z.object({
   dateOfBirth: z.string()
     .regex(/^\d{2}\/\d{2}\/\d{4}$/, 'Date must be in DD/MM/YYYY format')
     .optional(),
+  gender: z.string().optional(),
   address: z.string().min(10, 'Address must be at least 10 characters').optional(),
   idNumber: z.string().min(4, 'ID number is too short').optional(),
   issueDate: z.string().optional(),
   expiryDate: z.string().optional(),
-  confidence: z.number().min(0).max(1)
+  confidence: z.number().min(0).max(1),
+  isAuthentic: z.boolean().optional(),
+  nameRegional: z.string().optional(),
+  addressRegional: z.string().optional(),
+  regionalLanguage: z.enum(['hi', 'bn', 'ta']).optional()
 });
 
 export const documentSchema = z.object({
@@ -31,7 +31,14 @@ const nextConfig = {
     formats: ['image/webp', 'image/avif']
   },
   experimental: {
-    optimizePackageImports: ['lucide-react']
+    optimizePackageImports: ['lucide-react'],
+    // Loaded from node_modules at runtime so face-api.js detects Node and reads its weights from disk
+    serverComponentsExternalPackages: ['face-api.js'],
+    // Reference directories (data/) and the UIDAI certificate (certs/) are read
+    // from disk at runtime, out of sight of file tracing
+    outputFileTracingIncludes: {
+      '/api/**/*': ['./data/**/*', './certs/**/*']
+    }
   },
   webpack: (config, { isServer }) => {
     // Handle face-api.js compatibility issues
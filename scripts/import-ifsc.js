@@ -0,0 +1,145 @@
+const fs = require('fs');
+const path = require('path');
+const { readSource, parseCsvLine, indexColumns, titleCase } = require('./lib/csv-source');
+
+/**
+ * Builds data/ifsc.json from a bank branch IFSC list: the combined IFSC.csv
+ * published with Razorpay's open IFSC dataset, RBI's NEFT/RTGS branch list
+ * exported to CSV, or the src/ directory of Razorpay's `ifsc` npm release.
+ * The npm release lists every valid IFSC and its bank but no branch details,
+ * so those entries carry only the bank, NEFT and the bank's UPI membership.
+ *
+ * Usage:
+ *   node scripts/import-ifsc.js <path-or-url-to-csv>
+ *   node scripts/import-ifsc.js <path-to-ifsc-package>/src
+ *   IFSC_SOURCE=<path-or-url> npm run ifsc:import
+ */
+
+const source = process.argv[2] || process.env.IFSC_SOURCE;
+const outputPath = path.join(process.cwd(), 'data/ifsc.json');
+
+// Column names differ between the Razorpay and RBI files
+const COLUMNS = {
+  bank: ['bank', 'bankname', 'bank_name'],
+  ifsc: ['ifsc', 'ifsccode', 'ifsc_code'],
+  branch: ['branch', 'branchname', 'branch_name'],
+  city: ['city', 'centre'],
+  district: ['district'],
+  state: ['state'],
+  address: ['address'],
+  micr: ['micr', 'micrcode', 'micr_code'],
+  neft: ['neft'],
+  rtgs: ['rtgs'],
+  imps: ['imps'],
+  upi: ['upi']
+};
+
+// Payment rails, stored as a bitmask in this order
+const SERVICES = ['neft', 'rtgs', 'imps', 'upi'];
+
+function isEnabled(value) {
+  return /^(true|yes|y|1)$/i.test(value || '');
+}
+
+function buildDirectory(csv) {
+  const lines = csv.split(/\r?\n/).filter(line => line.trim());
+  const index = indexColumns(lines[0], COLUMNS, ['bank', 'ifsc', 'branch']);
+
+  const banks = {};
+  const branches = {};
+
+  lines.slice(1).forEach(line => {
+    const row = parseCsvLine(line);
+    const ifsc = (row[index.ifsc] || '').toUpperCase();
+    if (!/^[A-Z]{4}0[A-Z0-9]{6}$/.test(ifsc)) return;
+
+    const bankCode = ifsc.slice(0, 4);
+    banks[bankCode] = banks[bankCode] || row[index.bank];
+
+    // RBI's list has no service columns; every branch on it takes NEFT and RTGS
+    const services = SERVICES.reduce((mask, service, bit) => {
+      const enabled = index[service] === -1 ? service === 'neft' || service === 'rtgs' : isEnabled(row[index[service]]);
+      return enabled ? mask | (1 << bit) : mask;
+    }, 0);
+
+    const column = field => (index[field] === -1 ? '' : row[index[field]] || '');
+    // [branch, city, district, state, address, MICR, services bitmask, sub-member bank code if sublet]
+    branches[ifsc] = [
+      titleCase(column('branch')),
+      titleCase(column('city')),
+      titleCase(column('district')),
+      titleCase(column('state')),
+      column('address'),
+      /^\d{9}$/.test(column('micr')) ? column('micr') : '',
+      services
+    ];
+  });
+
+  return { banks, branches };
+}
+
+function readReleaseVersion(directory) {
+  try {
+    return JSON.parse(fs.readFileSync(path.join(directory, '..', 'package.json'), 'utf8')).version;
+  } catch {
+    return 'unknown';
+  }
+}
+
+// Razorpay's validation release: IFSC.json lists branch codes by bank,
+// sublet.json the IFSCs a bank lends to its sub-members
+function buildDirectoryFromRelease(directory) {
+  const read = file => JSON.parse(fs.readFileSync(path.join(directory, file), 'utf8'));
+  const codes = read('IFSC.json');
+  const names = read('banknames.json');
+  const details = read('banks.json');
+  const sublets = read('sublet.json');
+
+  const banks = {};
+  const branches = {};
+
+  Object.entries(codes).forEach(([bankCode, branchCodes]) => {
+    branchCodes.forEach(branchCode => {
+      const ifsc = `${bankCode}0${String(branchCode).padStart(6, '0')}`;
+      if (!/^[A-Z]{4}0[A-Z0-9]{6}$/.test(ifsc)) return;
+
+      // The account is held at the sub-member when the IFSC is sublet
+      const owner = sublets[ifsc] || bankCode;
+      banks[owner] = banks[owner] || names[owner] || names[bankCode];
+
+      const services = (1 << SERVICES.indexOf('neft')) | (details[owner]?.upi ? 1 << SERVICES.indexOf('upi') : 0);
+      branches[ifsc] = ['', '', '', '', '', '', services, ...(owner === bankCode ? [] : [owner])];
+    });
+  });
+
+  return { banks, branches };
+}
+
+async function importIfsc() {
+  if (!source) {
+    console.error('❌ No source given. Download IFSC.csv from the Razorpay IFSC dataset releases (or export RBI\'s branch list) and run:');
+    console.error('   node scripts/import-ifsc.js <path-or-url-to-csv>');
+    process.exit(1);
+  }
+
+  console.log(`📥 Reading ${source}`);
+  const release = !/^https?:\/\//.test(source) && fs.statSync(source).isDirectory();
+  const { banks, branches } = release ? buildDirectoryFromRelease(source) : buildDirectory(await readSource(source));
+
+  fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+  fs.writeFileSync(outputPath, JSON.stringify({
+    source: release ? `ifsc@${readReleaseVersion(source)}` : /^https?:\/\//.test(source) ? source : path.basename(source),
+    importedAt: new Date().toISOString(),
+    services: SERVICES,
+    banks,
+    branches
+  }));
+
+  console.log(`✅ ${Object.keys(branches).length} branches across ${Object.keys(banks).length} banks`);
+  console.log(`📁 Written to ${path.relative(process.cwd(), outputPath)}`);
+}
+
+importIfsc().catch(error => {
+  console.error('❌ IFSC import failed:', error.message);
+  process.exit(1);
+});
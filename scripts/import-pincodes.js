@@ -0,0 +1,109 @@
+const fs = require('fs');
+const path = require('path');
+const { readSource, parseCsvLine, indexColumns, titleCase } = require('./lib/csv-source');
+
+/**
+ * Builds data/pincodes.json from India Post's All India Pincode Directory
+ * (https://data.gov.in, "All India Pincode Directory" CSV).
+ *
+ * Usage:
+ *   node scripts/import-pincodes.js <path-or-url-to-csv>
+ *   PINCODE_SOURCE=<path-or-url> npm run pincodes:import
+ */
+
+const source = process.argv[2] || process.env.PINCODE_SOURCE;
+const outputPath = path.join(process.cwd(), 'data/pincodes.json');
+
+// Column names differ between directory releases
+const COLUMNS = {
+  officeName: ['officename', 'office_name'],
+  pincode: ['pincode'],
+  officeType: ['officetype', 'office_type'],
+  delivery: ['delivery', 'deliverystatus', 'delivery_status'],
+  district: ['district', 'districtname', 'district_name'],
+  state: ['statename', 'state_name', 'state']
+};
+
+function buildDirectory(csv) {
+  const lines = csv.split(/\r?\n/).filter(line => line.trim());
+  const index = indexColumns(lines[0], COLUMNS, ['officeName', 'pincode', 'district', 'state']);
+
+  const states = [];
+  const districts = [];
+  const stateIds = new Map();
+  const districtIds = new Map();
+  const pincodes = {};
+  let offices = 0;
+  let skipped = 0;
+
+  lines.slice(1).forEach(line => {
+    const row = parseCsvLine(line);
+    const pincode = row[index.pincode];
+    if (!/^[1-9]\d{5}$/.test(pincode)) return;
+
+    // Some offices have "NA" for their district and state; a PIN code left
+    // with only those is better unknown than placed in a state called "Na"
+    if (isMissing(row[index.district]) || isMissing(row[index.state])) {
+      skipped++;
+      return;
+    }
+
+    const state = titleCase(row[index.state]);
+    if (!stateIds.has(state)) {
+      stateIds.set(state, states.length);
+      states.push(state);
+    }
+
+    const district = titleCase(row[index.district]);
+    const districtKey = `${district}|${state}`;
+    if (!districtIds.has(districtKey)) {
+      districtIds.set(districtKey, districts.length);
+      districts.push([district, stateIds.get(state)]);
+    }
+
+    // [districtId, office name, office type, delivers mail]
+    (pincodes[pincode] = pincodes[pincode] || []).push([
+      districtIds.get(districtKey),
+      row[index.officeName],
+      index.officeType === -1 ? '' : row[index.officeType],
+      index.delivery === -1 ? 1 : /^delivery$/i.test(row[index.delivery]) ? 1 : 0
+    ]);
+    offices++;
+  });
+
+  return { states, districts, pincodes, offices, skipped };
+}
+
+function isMissing(value) {
+  return !value || /^n\/?a$/i.test(value.trim());
+}
+
+async function importPincodes() {
+  if (!source) {
+    console.error('❌ No source given. Download the All India Pincode Directory CSV from data.gov.in and run:');
+    console.error('   node scripts/import-pincodes.js <path-or-url-to-csv>');
+    process.exit(1);
+  }
+
+  console.log(`📥 Reading ${source}`);
+  const csv = await readSource(source);
+  const { states, districts, pincodes, offices, skipped } = buildDirectory(csv);
+
+  fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+  fs.writeFileSync(outputPath, JSON.stringify({
+    source: /^https?:\/\//.test(source) ? source : path.basename(source),
+    importedAt: new Date().toISOString(),
+    states,
+    districts,
+    pincodes
+  }));
+
+  console.log(`✅ ${Object.keys(pincodes).length} PIN codes, ${offices} post offices, ${districts.length} districts, ${states.length} states`);
+  if (skipped > 0) console.log(`⚠️  Skipped ${skipped} post offices without a district or state`);
+  console.log(`📁 Written to ${path.relative(process.cwd(), outputPath)}`);
+}
+
+importPincodes().catch(error => {
+  console.error('❌ PIN code import failed:', error.message);
+  process.exit(1);
+});
@@ -0,0 +1,82 @@
+const fs = require('fs');
+const https = require('https');
+
+/**
+ * Helpers shared by the dataset importers: read a CSV from a local path or
+ * an https URL, and split CSV lines
+ */
+
+function readSource(location) {
+  if (!/^https?:\/\//.test(location)) {
+    return Promise.resolve(fs.readFileSync(location, 'utf8'));
+  }
+
+  return new Promise((resolve, reject) => {
+    https.get(location, response => {
+      if (response.statusCode >= 300 && response.statusCode < 400 && response.headers.location) {
+        readSource(response.headers.location).then(resolve, reject);
+        return;
+      }
+      if (response.statusCode !== 200) {
+        reject(new Error(`Download failed with status ${response.statusCode}`));
+        return;
+      }
+      let body = '';
+      response.setEncoding('utf8');
+      response.on('data', chunk => { body += chunk; });
+      response.on('end', () => resolve(body));
+    }).on('error', reject);
+  });
+}
+
+// Minimal CSV parser: quoted fields may contain commas and escaped quotes
+function parseCsvLine(line) {
+  const values = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      values.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  values.push(current);
+  return values.map(value => value.trim());
+}
+
+/**
+ * Header row -> { field: columnIndex } using each field's accepted column names;
+ * required fields that are missing throw
+ */
+function indexColumns(headerLine, columns, required) {
+  const header = parseCsvLine(headerLine).map(name => name.toLowerCase().replace(/\s+/g, ''));
+  const index = {};
+  Object.entries(columns).forEach(([field, names]) => {
+    index[field] = header.findIndex(name => names.includes(name));
+  });
+  required.forEach(field => {
+    if (index[field] === -1) throw new Error(`Column for ${field} not found in header: ${header.join(', ')}`);
+  });
+  return index;
+}
+
+function titleCase(text) {
+  return text.toLowerCase().replace(/(^|[\s(-])([a-z])/g, (match, separator, letter) => separator + letter.toUpperCase());
+}
+
+module.exports = { readSource, parseCsvLine, indexColumns, titleCase };
@@ -1,25 +1,87 @@
 import * as faceapi from 'face-api.js';
+import fs from 'fs';
 import path from 'path';
 
+// Weights shipped for the browser in public/models, read from disk on the server
+const MODEL_PATH = path.join(process.cwd(), 'public', 'models');
+
+// Bytes per value of each stored weight dtype
+const DTYPE_BYTES = { float32: 4, int32: 4, bool: 1, uint8: 1, uint16: 2 };
+
 let modelsLoaded = false;
-const MODEL_PATH = '/models'; // Public folder path
+let loading = null;
 
+/**
+ * Load the face-api.js models once per process on the tfjs CPU backend
+ * (no native TensorFlow or canvas bindings needed). Concurrent callers share
+ * the same load.
+ */
 export async function loadFaceModels() {
   if (modelsLoaded) return;
+  if (!loading) {
+    loading = load().finally(() => {
+      loading = null;
+    });
+  }
+  return loading;
+}
+
+/**
+ * Check that every net in public/models has all the shards its manifest lists,
+ * adding up to the size of its weights. A missing or truncated shard otherwise
+ * only shows as a failed load on the first verification.
+ * Returns [{ model, complete, missing, expectedBytes, actualBytes }].
+ */
+export function checkFaceModelFiles() {
+  return fs.readdirSync(MODEL_PATH)
+    .filter(file => file.endsWith('-weights_manifest.json'))
+    .map(file => {
+      const manifest = JSON.parse(fs.readFileSync(path.join(MODEL_PATH, file), 'utf8'));
+      const paths = manifest.flatMap(group => group.paths);
+      const expectedBytes = manifest
+        .flatMap(group => group.weights)
+        .reduce((sum, weight) => {
+          const dtype = weight.quantization?.dtype || weight.dtype;
+          return sum + weight.shape.reduce((count, size) => count * size, 1) * DTYPE_BYTES[dtype];
+        }, 0);
+
+      const missing = paths.filter(shard => !fs.existsSync(path.join(MODEL_PATH, shard)));
+      const actualBytes = paths
+        .filter(shard => !missing.includes(shard))
+        .reduce((sum, shard) => sum + fs.statSync(path.join(MODEL_PATH, shard)).size, 0);
 
+      return {
+        model: file.replace('-weights_manifest.json', ''),
+        complete: missing.length === 0 && actualBytes === expectedBytes,
+        missing,
+        expectedBytes,
+        actualBytes
+      };
+    });
+}
+
+async function load() {
   try {
     console.log('🔄 Loading face-api.js models...');
-    
-    // Load all required models in parallel for better performance
+
+    const incomplete = checkFaceModelFiles().filter(model => !model.complete);
+    if (incomplete.length > 0) {
+      throw new Error(`incomplete weights for ${incomplete.map(model =>
+        `${model.model} (${model.missing.length > 0 ? `missing ${model.missing.join(', ')}` : `${model.actualBytes} of ${model.expectedBytes} bytes`})`
+      ).join('; ')}`);
+    }
+
+    await faceapi.tf.setBackend('cpu');
+    await faceapi.tf.ready();
+
     await Promise.all([
-      faceapi.nets.tinyFaceDetector.loadFromUri(MODEL_PATH),
-      faceapi.nets.ssdMobilenetv1.loadFromUri(MODEL_PATH),
-      faceapi.nets.faceLandmark68Net.loadFromUri(MODEL_PATH),
-      faceapi.nets.faceRecognitionNet.loadFromUri(MODEL_PATH),
-      faceapi.nets.faceExpressionNet.loadFromUri(MODEL_PATH),
-      faceapi.nets.ageGenderNet.loadFromUri(MODEL_PATH),
+      faceapi.nets.tinyFaceDetector.loadFromDisk(MODEL_PATH),
+      faceapi.nets.faceLandmark68Net.loadFromDisk(MODEL_PATH),
+      faceapi.nets.faceRecognitionNet.loadFromDisk(MODEL_PATH),
+      faceapi.nets.faceExpressionNet.loadFromDisk(MODEL_PATH),
+      faceapi.nets.ageGenderNet.loadFromDisk(MODEL_PATH),
     ]);
-    
+
     modelsLoaded = true;
     console.log('✅ Face-api.js models loaded successfully');
   } catch (error) {
@@ -10,7 +10,8 @@ import { NextResponse } from 'next/server';
 const INDIAN_PHONE_REGEX = /^(\+91|91)?[6-9]\d{9}$/;
 const AADHAAR_REGEX = /^\d{4}\s?\d{4}\s?\d{4}$/;
 const PAN_REGEX = /^[A-Z]{5}\d{4}[A-Z]$/;
-const GSTIN_REGEX = /^\d{2}[A-Z]{5}\d{4}[A-Z]\d[Z][A-Z\d]$/;
+const GSTIN_REGEX = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+const UDYAM_REGEX = /^UDYAM-[A-Z]{2}-\d{2}-\d{7}$/;
 const PINCODE_REGEX = /^[1-9]\d{5}$/;
 
 // Custom Zod validators for Indian data
@@ -123,6 +124,36 @@ export class ValidationMiddleware {
       extractFields: z.array(z.string()).optional()
     }),
 
+    // Bank account verification (penny drop)
+    bankVerification: z.object({
+      applicationId: z.string().min(1),
+      accountNumber: z.string()
+        .transform(account => account.replace(/[\s-]/g, ''))
+        .pipe(z.string().regex(/^\d{9,18}$/, 'Invalid bank account number format')),
+      ifsc: z.string().trim().toUpperCase().regex(/^[A-Z]{4}0[A-Z0-9]{6}$/, 'Invalid IFSC format')
+    }),
+
+    // Central KYC Registry
+    ckycSearch: z.object({
+      applicationId: z.string().min(1),
+      idType: z.enum(['PAN', 'AADHAAR']),
+      idNumber: z.string().trim().min(1)
+    }),
+
+    ckycDownload: z.object({
+      applicationId: z.string().min(1),
+      ckycNumber: z.string().regex(/^\d{14}$/, 'CKYC number must be 14 digits'),
+      dateOfBirth: z.string().regex(/^\d{2}[\/-]\d{2}[\/-]\d{4}$|^\d{4}-\d{2}-\d{2}$/, 'Invalid date of birth')
+    }),
+
+    ckycUpload: z.object({
+      applicationIds: z.array(z.string().min(1)).min(1).max(500),
+      batchNumber: z.string().regex(/^[A-Za-z0-9]{1,20}$/, 'Invalid batch number'),
+      fiCode: z.string().regex(/^[A-Za-z0-9]{1,10}$/).optional(),
+      regionCode: z.string().max(10).optional(),
+      branchCode: z.string().max(10).optional()
+    }),
+
     // Setu DigiLocker
     digiLockerConsent: z.object({
       consentId: z.string().uuid(),
@@ -141,7 +172,8 @@ export class ValidationMiddleware {
         businessName: z.string().min(2).max(200),
         businessType: z.enum(['private_limited', 'public_limited', 'partnership', 'llp', 'sole_proprietorship']),
         registrationNumber: z.string().min(5).max(50),
-        gstinNumber: z.string().regex(GSTIN_REGEX, 'Invalid GSTIN format').optional(),
+        gstinNumber: z.string().toUpperCase().regex(GSTIN_REGEX, 'Invalid GSTIN format').optional(),
+        udyamNumber: z.string().toUpperCase().regex(UDYAM_REGEX, 'Invalid Udyam registration number format').optional(),
         panNumber: panNumber,
         incorporationDate: z.string().date(),
         authorizedCapital: z.number().positive().optional(),
@@ -177,6 +209,18 @@ export class ValidationMiddleware {
       })).min(1).max(10)
     }),
 
+    businessRegistrationVerification: z.object({
+      applicationId: z.string().min(1),
+      gstin: z.string().trim().toUpperCase().regex(GSTIN_REGEX, 'Invalid GSTIN format').optional(),
+      udyamNumber: z.string().trim().toUpperCase().regex(UDYAM_REGEX, 'Invalid Udyam registration number format').optional()
+    }),
+
+    signatoryLink: z.object({
+      applicationId: z.string().min(1),
+      signatoryIndex: z.number().int().min(0).max(9),
+      kycApplicationId: z.string().min(1)
+    }),
+
     // API pagination and filtering
     pagination: z.object({
       page: z.coerce.number().int().min(1).default(1),
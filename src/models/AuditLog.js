@@ -30,12 +30,22 @@ const auditLogSchema = new mongoose.Schema({
       
       // Document actions
       'DOCUMENT_UPLOADED', 'DOCUMENT_VALIDATED', 'DOCUMENT_OCR_PROCESSED',
-      'DOCUMENT_DELETED', 'DOCUMENT_DOWNLOADED',
+      'DOCUMENT_DELETED', 'DOCUMENT_DOWNLOADED', 'DOCUMENT_SIDES_MISMATCH',
       
       // Face recognition actions
       'FACE_DETECTION_PERFORMED', 'FACE_VERIFICATION_PERFORMED', 'FACE_MATCHING_PERFORMED',
       'LIVENESS_CHECK_PERFORMED', 'FACE_VERIFICATION_FAILED',
       
+      // Bank verification actions
+      'BANK_ACCOUNT_VERIFIED', 'BANK_ACCOUNT_VERIFICATION_FAILED',
+      
+      // Business KYC actions
+      'BUSINESS_KYC_INITIATED', 'GSTIN_VERIFIED', 'GSTIN_VERIFICATION_FAILED',
+      'UDYAM_VERIFIED', 'UDYAM_VERIFICATION_FAILED', 'AUTHORIZED_SIGNATORY_LINKED',
+      
+      // Central KYC Registry actions
+      'CKYC_SEARCHED', 'CKYC_RECORD_DOWNLOADED', 'CKYC_UPLOAD_GENERATED',
+      
       // Setu DigiLocker actions
       'SETU_DIGILOCKER_REQUEST_CREATED', 'SETU_DIGILOCKER_CALLBACK_RECEIVED',
       'SETU_AADHAAR_FETCHED', 'SETU_DOCUMENT_FETCHED', 'SETU_ACCESS_REVOKED',
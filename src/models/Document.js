@@ -35,12 +35,29 @@ const documentSchema = new mongoose.Schema({
       'PASSPORT',
       'UTILITY_BILL',
       'BANK_STATEMENT',
+      'GST_CERTIFICATE',
+      'UDYAM_CERTIFICATE',
+      'INCORPORATION_CERTIFICATE',
+      'PARTNERSHIP_DEED',
       'OTHER'
     ],
     required: true,
     index: true
   },
-  
+
+  // Two-sided cards: both sides share one logical document
+  pairing: {
+    logicalDocumentId: { type: String, index: true },
+    side: { type: String, enum: ['front', 'back'] },
+    pairedDocumentId: { type: mongoose.Schema.Types.ObjectId, ref: 'Document' },
+    status: {
+      type: String,
+      enum: ['incomplete', 'complete', 'mismatch']
+    },
+    issues: [String],
+    pairedAt: Date
+  },
+
   // Processing Status
   status: {
     type: String,
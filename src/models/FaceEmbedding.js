@@ -0,0 +1,58 @@
+import mongoose from 'mongoose';
+
+/**
+ * Face Embedding Schema - the selfie descriptor of each passed liveness check,
+ * kept for 1:N duplicate-face search across applicants. The descriptor is
+ * biometric data: stored encrypted and never selected by default.
+ */
+const faceEmbeddingSchema = new mongoose.Schema({
+  // References
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  kycApplicationId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'KycApplication',
+    index: true
+  },
+  faceVerificationId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'FaceVerification',
+    required: true,
+    unique: true
+  },
+  verificationId: String,
+
+  // Encrypted JSON array of the descriptor's values (lib/encryption.js)
+  descriptor: {
+    type: String,
+    required: true,
+    select: false
+  },
+
+  // Descriptors from different models cannot be compared
+  model: {
+    name: { type: String, default: 'face-api-js/faceRecognitionNet' },
+    version: { type: String, default: '0.22.2' },
+    dimensions: { type: Number, default: 128 }
+  },
+
+  // Cleared when the user's biometrics are erased; the index drops it on its next sync
+  isActive: {
+    type: Boolean,
+    default: true,
+    index: true
+  }
+}, {
+  timestamps: true,
+  collection: 'face_embeddings'
+});
+
+// The index syncs by last change
+faceEmbeddingSchema.index({ updatedAt: 1 });
+faceEmbeddingSchema.index({ userId: 1, isActive: 1, createdAt: -1 });
+
+export default mongoose.model('FaceEmbedding', faceEmbeddingSchema);
@@ -163,26 +163,61 @@ const faceVerificationSchema = new mongoose.Schema({
         sharpness: Number,
         uniformLighting: Boolean,
         shadows: Boolean
+      },
+      
+      // Multi-Frame: the same face across the challenge frames, moving as asked
+      temporalConsistency: {
+        passed: Boolean,
+        frameCount: Number,
+        timing: {
+          passed: Boolean,
+          ordered: Boolean,
+          unknownChallenge: Boolean,
+          spanMs: Number
+        },
+        identity: {
+          passed: Boolean,
+          maxDistance: Number,
+          threshold: Number,
+          multipleFaces: Number
+        },
+        motion: {
+          passed: Boolean,
+          maxMotion: Number,
+          duplicateFrames: Number
+        },
+        challenges: [{
+          challengeId: String,
+          type: { type: String }, // 'blink', 'smile', 'turn_head', 'nod'
+          direction: String,
+          frames: Number,
+          passed: Boolean,
+          measure: Number,
+          detail: String,
+          _id: false
+        }],
+        failureReasons: [String]
       }
     },
     
     // Anti-Spoofing Detection
     antiSpoofing: {
       overall: Boolean,
+      requiresReview: Boolean, // a lone signal just over its threshold
       confidence: Number,
       
       // Screen Detection
       screenDetection: {
         detected: Boolean,
         confidence: Number,
-        indicators: [String] // 'pixel-pattern', 'refresh-rate', 'moire'
+        indicators: [String] // 'pixel-pattern', 'refresh-rate', 'moire', 'bezel'
       },
       
       // Mask/Photo Detection
       maskDetection: {
         detected: Boolean,
         confidence: Number,
-        type: String // 'photo', 'video', '3d-mask', 'silicone'
+        type: { type: String } // 'photo', 'video', '3d-mask', 'silicone'
       },
       
       // Deepfake Detection
@@ -240,6 +275,17 @@ const faceVerificationSchema = new mongoose.Schema({
       similarity: Number
     },
     
+    // Photo ID the enrolled selfie was matched with (DOCUMENT_FACE_MATCH);
+    // similarity is then calibrated to 0.5 at the source's distance threshold
+    document: {
+      documentId: String,
+      documentType: String,
+      portraitSource: String, // 'secure_qr', or the card the photo is printed on
+      distance: Number,
+      distanceThreshold: Number,
+      selfieVerificationId: String // liveness check the selfie came from
+    },
+    
     // Processing Info
     algorithm: String,
     processingTime: Number,
@@ -269,7 +315,17 @@ const faceVerificationSchema = new mongoose.Schema({
       enum: ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'],
       default: 'MEDIUM'
     },
-    riskFactors: [String]
+    riskFactors: [String],
+    
+    // Presentation-attack signals behind the decision (0-1, higher is more suspicious)
+    riskSignals: [{
+      signal: String, // 'moire', 'specular', 'texture', 'bezel'
+      score: Number,
+      threshold: Number,
+      flagged: Boolean,
+      detail: String,
+      _id: false
+    }]
   },
   
   // Processing Metadata
@@ -461,6 +517,8 @@ faceVerificationSchema.statics.getVerificationStats = function(timeframe = '24h'
 
 // Pre-save middleware
 faceVerificationSchema.pre('save', function(next) {
+  // A document match is decided on its distance threshold, not the blended score
+  if (this.type === 'DOCUMENT_FACE_MATCH') return next();
   if (this.isModified('liveness') || this.isModified('faceMatch')) {
     this.calculateOverallScore();
   }
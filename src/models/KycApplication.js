@@ -35,6 +35,14 @@ const kycApplicationSchema = new mongoose.Schema({
     index: true
   },
   
+  // Individual KYC or business KYC (KYB)
+  applicationType: {
+    type: String,
+    enum: ['individual', 'business'],
+    default: 'individual',
+    index: true
+  },
+  
   // Method Used
   method: {
     type: String,
@@ -108,12 +116,99 @@ const kycApplicationSchema = new mongoose.Schema({
     // Metadata
     extractedFrom: {
       type: String,
-      enum: ['DIGILOCKER', 'OCR_AADHAAR', 'OCR_PAN', 'MANUAL', 'MIXED']
+      enum: ['DIGILOCKER', 'OCR_AADHAAR', 'OCR_PAN', 'CKYC', 'MANUAL', 'MIXED']
     },
     extractedAt: Date,
     confidence: { type: Number, min: 0, max: 1 }
   },
   
+  // Business Information (KYB applications)
+  business: {
+    businessName: String,
+    businessType: {
+      type: String,
+      enum: ['private_limited', 'public_limited', 'partnership', 'llp', 'sole_proprietorship']
+    },
+    registrationNumber: String,
+    panNumber: String, // Encrypted
+    gstin: { type: String, match: /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/ },
+    udyamNumber: { type: String, match: /^UDYAM-[A-Z]{2}-\d{2}-\d{7}$/ },
+    incorporationDate: Date,
+    registeredAddress: {
+      line1: String,
+      line2: String,
+      city: String,
+      state: String,
+      pincode: String,
+      country: { type: String, default: 'India' }
+    },
+    operationalAddress: {
+      line1: String,
+      line2: String,
+      city: String,
+      state: String,
+      pincode: String,
+      country: { type: String, default: 'India' }
+    },
+    
+    // Authorised signatories, each linked to their own individual KYC
+    authorizedSignatories: [{
+      name: String,
+      designation: String,
+      panNumber: String, // Encrypted
+      panMasked: String,
+      phone: String, // Encrypted
+      email: String, // Encrypted
+      isDirector: { type: Boolean, default: false },
+      shareholding: { type: Number, min: 0, max: 100 },
+      kycApplicationId: { type: mongoose.Schema.Types.ObjectId, ref: 'KycApplication' },
+      kycStatus: String,
+      linkedAt: Date
+    }],
+    
+    // Registry checks
+    verification: {
+      gstin: {
+        verified: { type: Boolean, default: false },
+        legalName: String,
+        tradeName: String,
+        registrationStatus: String,
+        constitution: String,
+        registrationDate: String,
+        nameMatchScore: { type: Number, min: 0, max: 1 },
+        provider: String,
+        errors: [String],
+        verifiedAt: Date
+      },
+      udyam: {
+        verified: { type: Boolean, default: false },
+        enterpriseName: String,
+        enterpriseType: String,
+        majorActivity: String,
+        registrationStatus: String,
+        registrationDate: String,
+        nameMatchScore: { type: Number, min: 0, max: 1 },
+        provider: String,
+        errors: [String],
+        verifiedAt: Date
+      }
+    }
+  },
+  
+  // Central KYC Registry
+  ckyc: {
+    ckycNumber: { type: String, match: /^\d{14}$/, sparse: true, index: true },
+    status: {
+      type: String,
+      enum: ['FOUND', 'NOT_FOUND', 'DOWNLOADED', 'UPLOAD_GENERATED']
+    },
+    provider: String,
+    searchedAt: Date,
+    downloadedAt: Date,
+    uploadBatchNumber: String,
+    uploadGeneratedAt: Date
+  },
+  
   // Document References
   documents: [{
     type: mongoose.Schema.Types.ObjectId,
@@ -146,6 +241,27 @@ const kycApplicationSchema = new mongoose.Schema({
     phoneVerified: { type: Boolean, default: false },
     phoneVerificationMethod: String, // OTP, MISSED_CALL, etc.
     
+    // Bank Account Verification (penny drop)
+    bankAccount: {
+      verified: { type: Boolean, default: false },
+      accountNumber: String, // Encrypted
+      accountNumberMasked: String,
+      ifsc: String,
+      bankName: String,
+      branch: String,
+      accountHolderName: String,
+      nameMatchScore: { type: Number, min: 0, max: 1 },
+      nameMatchStatus: {
+        type: String,
+        enum: ['match', 'partial', 'mismatch']
+      },
+      nameMatchExplanation: [String],
+      provider: String,
+      referenceId: String,
+      errors: [String],
+      verifiedAt: Date
+    },
+    
     // Overall Assessment
     overallScore: { type: Number, min: 0, max: 100, default: 0 },
     riskLevel: {
@@ -210,7 +326,30 @@ const kycApplicationSchema = new mongoose.Schema({
     },
     rejectionDetails: String,
     requiredActions: [String],
-    reviewDuration: Number // minutes
+    reviewDuration: Number, // minutes
+    
+    // KYB review checklist
+    checklist: [{
+      item: String,
+      label: String,
+      status: {
+        type: String,
+        enum: ['PASSED', 'FAILED', 'PENDING', 'NOT_APPLICABLE']
+      },
+      detail: String
+    }],
+    checklistGeneratedAt: Date,
+    
+    // Other applicants whose selfie is the same face, found at submission
+    duplicateFaces: [{
+      userId: { type: mongoose.Schema.Types.ObjectId, ref: 'User' },
+      kycApplicationId: { type: mongoose.Schema.Types.ObjectId, ref: 'KycApplication' },
+      verificationId: String,
+      distance: Number,
+      similarity: { type: Number, min: 0, max: 1 },
+      _id: false
+    }],
+    duplicateFacesCheckedAt: Date
   },
   
   // Communication Log
@@ -249,6 +388,7 @@ kycApplicationSchema.index({ status: 1, createdAt: -1 });
 kycApplicationSchema.index({ method: 1, status: 1 });
 kycApplicationSchema.index({ 'personalInfo.aadhaarNumber': 1 });
 kycApplicationSchema.index({ 'personalInfo.panNumber': 1 });
+kycApplicationSchema.index({ 'business.gstin': 1 }, { sparse: true });
 kycApplicationSchema.index({ expiresAt: 1 }); // TTL index
 kycApplicationSchema.index({ 'verification.overallScore': -1 });
 
@@ -305,14 +445,14 @@ kycApplicationSchema.methods.calculateOverallScore = function() {
 
 kycApplicationSchema.methods.shouldRequireReview = function() {
   const reviewThreshold = 70;
-  const highRiskFactors = ['DUPLICATE_APPLICATION', 'SUSPICIOUS_ACTIVITY', 'POOR_IMAGE_QUALITY'];
+  const highRiskFactors = ['DUPLICATE_APPLICATION', 'DUPLICATE_FACE', 'SUSPICIOUS_ACTIVITY', 'POOR_IMAGE_QUALITY'];
   
   const lowScore = this.verification.overallScore < reviewThreshold;
   const hasHighRiskFactors = this.verification.riskFactors.some(factor => 
     highRiskFactors.includes(factor)
   );
   
-  return lowScore || hasHighRiskFactors || this.verification.riskLevel === 'HIGH';
+  return lowScore || hasHighRiskFactors || ['HIGH', 'CRITICAL'].includes(this.verification.riskLevel);
 };
 
 // Static methods
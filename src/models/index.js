@@ -5,3 +5,4 @@ export { default as Document } from './Document.js';
 export { default as FaceVerification } from './FaceVerification.js';
 export { default as AuditLog } from './AuditLog.js';
 export { default as SyncQueueItem } from './SyncQueueItem.js';
+export { default as FaceEmbedding } from './FaceEmbedding.js';
@@ -0,0 +1,120 @@
+import { AntiSpoofingService } from '../anti-spoofing.service.js';
+
+// Deterministic noise, so the fixtures are the same on every run
+function random(seed) {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+}
+
+// Smooth variation: random values on a coarse grid, bilinearly interpolated
+function smoothNoise(width, height, step, amplitude, next) {
+  const cols = Math.ceil(width / step) + 1;
+  const grid = Array.from({ length: cols * (Math.ceil(height / step) + 1) }, () => (next() * 2 - 1) * amplitude);
+  return (x, y) => {
+    const gx = x / step;
+    const gy = y / step;
+    const x0 = Math.floor(gx);
+    const y0 = Math.floor(gy);
+    const fx = gx - x0;
+    const fy = gy - y0;
+    const at = (cx, cy) => grid[cy * cols + cx];
+    return (at(x0, y0) * (1 - fx) + at(x0 + 1, y0) * fx) * (1 - fy) +
+      (at(x0, y0 + 1) * (1 - fx) + at(x0 + 1, y0 + 1) * fx) * fy;
+  };
+}
+
+function clamp(value) {
+  return Math.max(0, Math.min(255, Math.round(value)));
+}
+
+/**
+ * A 640x480 webcam frame: a lit wall with a door frame to the left and a
+ * shelf above, and a face with soft shading, skin variation, darker eyes and
+ * mouth, small catchlights and a little sensor noise
+ */
+function webcamFrame(face, { frame = null } = {}) {
+  const width = 640;
+  const height = 480;
+  const next = random(7);
+  const skin = smoothNoise(width, height, 6, 10, next);
+  const wall = smoothNoise(width, height, 40, 6, next);
+  const data = new Uint8Array(width * height * 3);
+
+  const centreX = face.x + face.width / 2;
+  const centreY = face.y + face.height / 2;
+  const eyes = [[0.32, 0.4], [0.68, 0.4]].map(([fx, fy]) => [face.x + face.width * fx, face.y + face.height * fy]);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let rgb;
+      const dx = (x - centreX) / (face.width / 2);
+      const dy = (y - centreY) / (face.height / 2);
+      if (dx * dx + dy * dy <= 1) {
+        const shade = 1 - 0.18 * (dx + 1) / 2 - 0.08 * dy + skin(x, y) / 100;
+        rgb = [205 * shade, 150 * shade, 122 * shade];
+        const eye = eyes.find(([ex, ey]) => Math.hypot(x - ex, (y - ey) * 2) < face.width * 0.08);
+        if (eye) {
+          const catchlight = Math.hypot(x - eye[0] - 2, y - eye[1] + 1) < 1.5;
+          rgb = catchlight ? [250, 248, 245] : [70, 50, 45];
+        }
+        if (Math.abs(dx) < 0.3 && Math.abs(dy - 0.5) < 0.05) rgb = [150, 80, 75];
+      } else {
+        const tone = 165 + wall(x, y);
+        rgb = [tone, tone - 5, tone - 15];
+        if (x >= 60 && x < 90) rgb = [110, 85, 60]; // door frame
+        if (y >= 40 && y < 52) rgb = [95, 70, 50]; // shelf
+      }
+
+      if (frame && !(x > frame.left && x < frame.right && y > frame.top && y < frame.bottom)) {
+        const onSide = (frame.sides.includes('left') && x <= frame.left && x > frame.left - 16 && y > frame.top - 16 && y < frame.bottom + 16) ||
+          (frame.sides.includes('right') && x >= frame.right && x < frame.right + 16 && y > frame.top - 16 && y < frame.bottom + 16) ||
+          (frame.sides.includes('top') && y <= frame.top && y > frame.top - 16 && x > frame.left - 16 && x < frame.right + 16) ||
+          (frame.sides.includes('bottom') && y >= frame.bottom && y < frame.bottom + 16 && x > frame.left - 16 && x < frame.right + 16);
+        if (onSide) rgb = [18, 18, 20];
+      }
+
+      const i = (y * width + x) * 3;
+      const grain = (next() - 0.5) * 2;
+      data[i] = clamp(rgb[0] + grain);
+      data[i + 1] = clamp(rgb[1] + grain);
+      data[i + 2] = clamp(rgb[2] + grain);
+    }
+  }
+
+  return { data, width, height };
+}
+
+describe('AntiSpoofingService.analyzeFrame', () => {
+  it('passes a normal webcam selfie with a door frame and a shelf behind it', () => {
+    const face = { x: 240, y: 130, width: 160, height: 200 };
+    const result = AntiSpoofingService.analyzeFrame(webcamFrame(face), face);
+
+    expect(result.spoofSuspected).toBe(false);
+    expect(result.requiresReview).toBe(false);
+    Object.values(result.signals).forEach(signal => expect(signal.flagged).toBe(false));
+    expect(result.signals.bezel.metrics.edges).toEqual(expect.arrayContaining(['left', 'top']));
+  });
+
+  it('sends a face framed on three sides to review rather than failing it', () => {
+    const face = { x: 270, y: 150, width: 100, height: 125 };
+    const frame = { left: 190, right: 450, top: 90, bottom: 345, sides: ['top', 'right', 'bottom'] };
+    const result = AntiSpoofingService.analyzeFrame(webcamFrame(face, { frame }), face);
+
+    expect(result.signals.bezel.flagged).toBe(true);
+    expect(result.spoofSuspected).toBe(false);
+    expect(result.requiresReview).toBe(true);
+  });
+
+  it('fails a face inside a screen bezel', () => {
+    const face = { x: 270, y: 150, width: 100, height: 125 };
+    const frame = { left: 190, right: 450, top: 90, bottom: 345, sides: ['left', 'right', 'top', 'bottom'] };
+    const result = AntiSpoofingService.analyzeFrame(webcamFrame(face, { frame }), face);
+
+    expect(result.signals.bezel.metrics.edges).toHaveLength(4);
+    expect(result.spoofSuspected).toBe(true);
+    expect(result.requiresReview).toBe(false);
+  });
+});
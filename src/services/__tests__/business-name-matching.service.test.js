@@ -0,0 +1,72 @@
+import { BusinessNameMatchingService } from '../business-name-matching.service.js';
+import { BusinessVerificationService } from '../business-verification.service.js';
+
+describe('BusinessNameMatchingService.match', () => {
+  describe('the same business written differently', () => {
+    it.each([
+      ['M/s. Sharma Textiles Pvt. Ltd.', 'SHARMA TEXTILES PRIVATE LIMITED'],
+      ['Acme Industries L.L.P.', 'ACME INDUSTRIES LLP'],
+      ['Sharma & Sons', 'SHARMA AND SONS'],
+      ['Sun Pharma Industries Ltd', 'SUNPHARMA INDUSTRIES LIMITED'],
+      ['Sharma Enterprises', 'SHARMA ENTERPRISE']
+    ])('%s matches %s', (first, second) => {
+      expect(BusinessNameMatchingService.match(first, second).status).toBe('match');
+    });
+  });
+
+  describe('different businesses', () => {
+    it.each([
+      ['Acme Industries LLP', 'Zenith Industries LLP'],
+      ['Sharma Textiles Private Limited', 'Gupta Textiles Private Limited'],
+      ['Sharma Enterprise Private Limited', 'ANOTHER ENTERPRISE PRIVATE LIMITED'],
+      ['Sharma Textiles LLP', 'Sharma Textiles Private Limited']
+    ])('%s does not match %s', (first, second) => {
+      expect(BusinessNameMatchingService.match(first, second).status).not.toBe('match');
+    });
+  });
+
+  it('gives generic words little weight', () => {
+    const result = BusinessNameMatchingService.match('Acme Industries LLP', 'Zenith Industries LLP');
+    expect(result.status).toBe('mismatch');
+    expect(result.explanation).toEqual(['ACME has no counterpart', 'ZENITH has no counterpart']);
+  });
+
+  it('explains a legal form difference', () => {
+    expect(BusinessNameMatchingService.match('Sharma Textiles LLP', 'Sharma Textiles Private Limited').explanation)
+      .toEqual(['Legal forms differ: LLP and PRIVATE LIMITED']);
+  });
+
+  it('separates the legal form from the name', () => {
+    expect(BusinessNameMatchingService.normalize('M/s Ram Traders & Co. Pvt. Ltd.')).toEqual({
+      tokens: ['RAM', 'TRADERS', 'AND', 'COMPANY'],
+      legalForm: 'PRIVATE LIMITED'
+    });
+  });
+});
+
+describe('BusinessVerificationService.verifyGstin name check', () => {
+  const base = '27AAPFU0939F1Z';
+  const gstin = base + BusinessVerificationService.gstinCheckCharacter(base);
+
+  beforeAll(() => {
+    BusinessVerificationService.register('registry', {
+      name: 'registry',
+      async verifyGstin() {
+        return { registered: true, status: 'Active', legalName: 'GUPTA TEXTILES PRIVATE LIMITED' };
+      }
+    });
+  });
+
+  const verify = businessName => BusinessVerificationService.verifyGstin({ gstin, businessName }, { provider: 'registry' });
+
+  it('passes the registered legal name', async () => {
+    expect((await verify('Gupta Textiles Pvt Ltd')).isValid).toBe(true);
+  });
+
+  it('fails a partly matching legal name for review', async () => {
+    const result = await verify('Sharma Textiles Private Limited');
+    expect(result.isValid).toBe(false);
+    expect(result.requiresReview).toBe(true);
+    expect(result.errors).toEqual(['GST legal name only partly matches the business name and needs review']);
+  });
+});
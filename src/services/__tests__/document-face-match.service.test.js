@@ -0,0 +1,34 @@
+import { DocumentFaceMatchService } from '../document-face-match.service.js';
+
+describe('DocumentFaceMatchService.summarize', () => {
+  const match = (documentType, matchScore, isMatch) => ({ documentId: documentType, documentType, matchScore, isMatch });
+
+  it('does not pass without a comparable photo', () => {
+    expect(DocumentFaceMatchService.summarize([])).toMatchObject({
+      isMatch: false,
+      matchScore: 0,
+      reason: 'No comparable photo on the uploaded documents'
+    });
+  });
+
+  it('passes only when every document matches, with the weakest score', () => {
+    expect(DocumentFaceMatchService.summarize([match('aadhaar', 0.93, true), match('pan', 0.62, true)]))
+      .toMatchObject({ isMatch: true, matchScore: 0.62 });
+    expect(DocumentFaceMatchService.summarize([match('aadhaar', 0.93, true), match('pan', 0.2, false)]))
+      .toMatchObject({ isMatch: false, matchScore: 0.2 });
+  });
+});
+
+describe('DocumentFaceMatchService photo sources', () => {
+  it('prefers the Secure QR photo for Aadhaar and skips printed backs', () => {
+    expect(DocumentFaceMatchService.portraitSources('aadhaar_front')).toEqual(['secure_qr', 'aadhaar']);
+    expect(DocumentFaceMatchService.portraitSources('aadhaar_back')).toEqual(['secure_qr']);
+    expect(DocumentFaceMatchService.portraitSources('pan_back')).toEqual([]);
+    expect(DocumentFaceMatchService.portraitSources('address_proof')).toEqual([]);
+  });
+
+  it('scores 0.5 exactly at the threshold', () => {
+    expect(DocumentFaceMatchService.calibratedSimilarity(0.6, 'pan')).toBe(0.5);
+    expect(DocumentFaceMatchService.calibratedSimilarity(0.4, 'pan')).toBeGreaterThan(0.95);
+  });
+});
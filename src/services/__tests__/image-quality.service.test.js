@@ -0,0 +1,82 @@
+import { ImageQualityService } from '../image-quality.service.js';
+
+// Greyscale frames as ImageQualityService.loadGreyscale returns them
+function frame(width, height, value) {
+  return { data: new Uint8Array(width * height).fill(value), width, height };
+}
+
+function fillRect(image, left, top, width, height, value) {
+  for (let y = top; y < top + height; y++) {
+    for (let x = left; x < left + width; x++) image.data[y * image.width + x] = value;
+  }
+}
+
+// Lines of dark glyph strokes, the way printed text thresholds
+function printText(image, left, top, width, height, ink = 30) {
+  for (let y = top; y + 12 <= top + height; y += 28) {
+    for (let x = left; x + 3 <= left + width; x += 7) fillRect(image, x, y, 3, 12, ink);
+  }
+}
+
+// A reflection: blown out in the middle, fading into the card at its rim
+function addGlare(image, centreX, centreY, radius, surface) {
+  for (let y = centreY - radius; y <= centreY + radius; y++) {
+    for (let x = centreX - radius; x <= centreX + radius; x++) {
+      const distance = Math.hypot(x - centreX, y - centreY);
+      if (distance > radius) continue;
+      const fade = Math.min(1, Math.max(0, (radius - distance) / (radius * 0.25)));
+      image.data[y * image.width + x] = Math.round(surface + (255 - surface) * fade);
+    }
+  }
+}
+
+function glareOf(image) {
+  const card = ImageQualityService.detectCard(image);
+  const glare = ImageQualityService.detectGlare(image, card.detected ? card.corners : null);
+  return { card, glare, issues: ImageQualityService.glareIssues(glare.largestCluster) };
+}
+
+describe('ImageQualityService glare detection', () => {
+  it('finds no glare on a clean white-background scan', () => {
+    const scan = frame(800, 1000, 255);
+    printText(scan, 80, 100, 640, 800);
+
+    const { glare, issues } = glareOf(scan);
+    expect(glare.coverage).toBe(0);
+    expect(issues).toEqual([]);
+  });
+
+  it('ignores the white scanner bed around a card', () => {
+    const scan = frame(800, 600, 255);
+    fillRect(scan, 150, 140, 500, 320, 205);
+    printText(scan, 180, 300, 240, 120);
+
+    const { card, glare, issues } = glareOf(scan);
+    expect(card.detected).toBe(true);
+    expect(glare.coverage).toBe(0);
+    expect(issues).toEqual([]);
+  });
+
+  it('flags a reflection on the card', () => {
+    const photo = frame(800, 500, 50);
+    fillRect(photo, 100, 60, 600, 380, 170);
+    printText(photo, 130, 90, 540, 320);
+    addGlare(photo, 400, 250, 85, 170);
+
+    const { card, glare, issues } = glareOf(photo);
+    expect(card.detected).toBe(true);
+    expect(glare.largestCluster).toBeGreaterThanOrEqual(ImageQualityService.THRESHOLDS.glareHigh);
+    expect(issues).toMatchObject([{ type: 'glare', severity: 'high' }]);
+  });
+
+  it('ignores a light reflected off the table beside the card', () => {
+    const photo = frame(800, 500, 50);
+    fillRect(photo, 100, 60, 600, 380, 170);
+    printText(photo, 130, 90, 540, 320);
+    addGlare(photo, 45, 250, 40, 50);
+
+    const { glare, issues } = glareOf(photo);
+    expect(glare.coverage).toBe(0);
+    expect(issues).toEqual([]);
+  });
+});
@@ -0,0 +1,91 @@
+import { NameMatchingService } from '../name-matching.service.js';
+import { VerificationProviderService } from '../verification-provider.service.js';
+import { ConsistencyService } from '../consistency.service.js';
+
+describe('NameMatchingService.match', () => {
+  describe('the same person written differently', () => {
+    it.each([
+      ['R. K. Sharma', 'Rajesh Kumar Sharma'],
+      ['RK Sharma', 'Rajesh Kumar Sharma'],
+      ['SK Gupta', 'Suresh Kumar Gupta'],
+      ['Mr. Rajesh Kumar Sharma', 'RAJESH KUMAR SHARMA'],
+      ['Shri Ram Kr Verma', 'Ram Kumar Verma'],
+      ['Dr Sunita Devi', 'Smt. Sunita Devi'],
+      ['Sharma Rajesh Kumar', 'Rajesh Kumar Sharma'],
+      ['Rajesh Sharma', 'Rajesh Kumar Sharma'],
+      ['RAJESHKUMAR SHARMA', 'Rajesh Kumar Sharma'],
+      ['Laxmi Devi', 'Lakshmi Devi'],
+      ['Mohd Salim', 'Mohammed Salim'],
+      ['Md Irfan', 'Mohammad Irfan'],
+      ['Ram Pd', 'Ram Prasad'],
+      ['SK Rahman', 'Sheikh Rahman']
+    ])('%s matches %s', (first, second) => {
+      expect(NameMatchingService.match(first, second).status).toBe('match');
+    });
+  });
+
+  describe('different people', () => {
+    it.each([
+      ['Suresh Kumar Sharma', 'Rajesh Kumar Sharma'],
+      ['Amit Shah', 'Amit Sharma'],
+      ['Priya Singh', 'Riya Singh'],
+      ['Rakesh Kumar', 'Rajesh Kumar'],
+      ['Anil Kumar', 'Sunil Kumar']
+    ])('%s does not match %s', (first, second) => {
+      expect(NameMatchingService.match(first, second).status).not.toBe('match');
+    });
+
+    it('scores an unrelated name as a mismatch', () => {
+      expect(NameMatchingService.match('Rajesh Kumar Sharma', 'Priya Nair').status).toBe('mismatch');
+    });
+  });
+
+  it('explains initials and reordering', () => {
+    expect(NameMatchingService.match('R. K. Sharma', 'Rajesh Kumar Sharma').explanation)
+      .toEqual(['Initial R matches RAJESH', 'Initial K matches KUMAR']);
+    expect(NameMatchingService.match('Sharma Rajesh Kumar', 'Rajesh Kumar Sharma').explanation)
+      .toContain('Words are in a different order');
+  });
+
+  it('costs a missing middle name 10%', () => {
+    expect(NameMatchingService.match('Rajesh Sharma', 'Rajesh Kumar Sharma').score).toBe(0.9);
+  });
+
+  it('treats a missing name as a mismatch', () => {
+    expect(NameMatchingService.match('', 'Rajesh Kumar Sharma')).toEqual({
+      score: 0,
+      status: 'mismatch',
+      explanation: ['Name is missing']
+    });
+  });
+
+  it('reads vowel-less abbreviations both ways', () => {
+    expect(NameMatchingService.readings('SK Gupta')).toEqual([['SHEIKH', 'GUPTA'], ['S', 'K', 'GUPTA']]);
+    expect(NameMatchingService.normalize('Mohd. Kr. Ali')).toEqual(['MOHAMMED', 'KUMAR', 'ALI']);
+  });
+});
+
+describe('partial name matches at call sites', () => {
+  const record = name => ({ isValid: true, confidence: 0.95, details: { name } });
+
+  it('passes a government record only on a match', () => {
+    expect(VerificationProviderService.matchRecordName({ name: 'R. K. Sharma' }, record('RAJESH KUMAR SHARMA')).isValid)
+      .toBe(true);
+  });
+
+  it('fails a partly matching government record for review', () => {
+    const result = VerificationProviderService.matchRecordName({ name: 'Suresh Kumar Sharma' }, record('RAJESH KUMAR SHARMA'));
+    expect(result.isValid).toBe(false);
+    expect(result.requiresReview).toBe(true);
+    expect(result.details.nameMatch.status).toBe('partial');
+  });
+
+  it('does not treat a partly matching name across documents as consistent', () => {
+    const consistency = ConsistencyService.checkDocuments([
+      { documentType: 'aadhaar', data: { name: 'Amit Shah' } },
+      { documentType: 'pan', data: { name: 'Amit Sharma' } }
+    ]);
+    expect(consistency.fields.name.status).toBe('partial');
+    expect(consistency.consistent).toBe(false);
+  });
+});
@@ -0,0 +1,36 @@
+import { VerificationProviderService, VerificationProviderError } from '../verification-provider.service.js';
+
+describe('VerificationProviderService.getProvider', () => {
+  const nodeEnv = process.env.NODE_ENV;
+  afterEach(() => {
+    process.env.NODE_ENV = nodeEnv;
+  });
+
+  it('uses the stub outside production', () => {
+    process.env.NODE_ENV = 'development';
+    expect(VerificationProviderService.getProvider('stub').name).toBe('stub');
+  });
+
+  it('refuses the stub in production', () => {
+    process.env.NODE_ENV = 'production';
+    expect(() => VerificationProviderService.getProvider('stub')).toThrow(VerificationProviderError);
+    expect(() => VerificationProviderService.getProvider('stub')).toThrow(/VERIFICATION_PROVIDER/);
+  });
+});
+
+describe('stub electoral roll age', () => {
+  const verifyVoter = dateOfBirth => VerificationProviderService.verify(
+    { documentType: 'voter_id', documentNumber: 'ABC1234567', name: 'Rajesh Kumar', dateOfBirth },
+    { provider: 'stub' }
+  );
+
+  it.each(['01/01/1990', '01-01-1990', '1990-01-01', '1990'])('reads %s', async dateOfBirth => {
+    const result = await verifyVoter(dateOfBirth);
+    expect(result.details.age).toBe(new Date().getFullYear() - 1990);
+  });
+
+  it('falls back to a seeded age for an unreadable date', async () => {
+    const result = await verifyVoter('unknown');
+    expect(result.details.age).toBeGreaterThanOrEqual(18);
+  });
+});
@@ -0,0 +1,248 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import sharp from 'sharp';
+import jsQR from 'jsqr';
+import { PdfService } from './pdf.service.js';
+
+/**
+ * Aadhaar Secure QR Service for SAHAJ KYC
+ * Decodes the UIDAI-signed QR printed on Aadhaar cards and e-Aadhaar PDFs
+ * and verifies its signature offline against UIDAI's signing certificate,
+ * which is not bundled: deployments install it at CERTIFICATE_PATH. Without
+ * it every QR decodes as unverified (CERTIFICATE_UNAVAILABLE).
+ */
+export class AadhaarQrService {
+  static CERTIFICATE_PATH = process.env.UIDAI_QR_CERTIFICATE_PATH ||
+    path.join(process.cwd(), 'certs', 'uidai_offline_publickey.cer');
+  static SIGNATURE_LENGTH = 256;
+  static HASH_LENGTH = 32;
+  static DELIMITER = 255;
+  static SCAN_WIDTHS = [null, 1600, 1000];
+
+  // Text fields in payload order, after the email/mobile indicator
+  static TEXT_FIELDS = [
+    'referenceId',
+    'name',
+    'dateOfBirth',
+    'gender',
+    'careOf',
+    'district',
+    'landmark',
+    'house',
+    'location',
+    'pincode',
+    'postOffice',
+    'state',
+    'street',
+    'subDistrict',
+    'vtc'
+  ];
+
+  static certificate = undefined;
+
+  /**
+   * Find and decode a Secure QR in an image; returns null when there is none
+   */
+  static async decodeImage(imageBuffer) {
+    const qrText = await this.findQrInImage(imageBuffer);
+    return qrText ? this.decodeQrText(qrText) : null;
+  }
+
+  /**
+   * Find and decode a Secure QR in an e-Aadhaar PDF; returns null when there is none
+   */
+  static async decodePdf(pdfBuffer, options = {}) {
+    const images = await PdfService.extractImages(pdfBuffer, options);
+
+    for (const image of images) {
+      const code = jsQR(image.data, image.width, image.height);
+      if (code && this.isSecureQrText(code.data)) {
+        return this.decodeQrText(code.data);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Decode the numeric QR text, verify its signature and map it to extracted document data.
+   * Returns null for numeric QR codes that are not Secure QR payloads.
+   */
+  static decodeQrText(qrText) {
+    if (!this.isSecureQrText(qrText)) return null;
+
+    let payload;
+    try {
+      payload = this.parsePayload(qrText);
+    } catch (error) {
+      console.warn('Numeric QR is not a Secure QR payload:', error.message);
+      return null;
+    }
+    const signature = this.verifySignature(payload.signedData, payload.signature);
+
+    return {
+      data: this.toExtractedDocumentData(payload.fields, signature.verified),
+      isAuthentic: signature.verified,
+      signatureStatus: signature.status,
+      version: payload.version,
+      referenceId: payload.fields.referenceId,
+      pincode: payload.fields.pincode,
+      photo: payload.photo.length > 0 ? {
+        format: 'jp2',
+        data: payload.photo.toString('base64')
+      } : null
+    };
+  }
+
+  /**
+   * Convert the JPEG 2000 QR photo to JPEG for browsers, which mostly cannot
+   * decode JP2. Returns null when this libvips build has no JPEG 2000 support.
+   */
+  static async photoToJpeg(photo) {
+    if (!photo?.data) return null;
+    try {
+      return await sharp(Buffer.from(photo.data, 'base64')).jpeg({ quality: 95 }).toBuffer();
+    } catch (error) {
+      console.warn('Secure QR photo could not be converted:', error.message);
+      return null;
+    }
+  }
+
+  /**
+   * Secure QR payloads are a single large base-10 integer
+   */
+  static isSecureQrText(qrText) {
+    return typeof qrText === 'string' && /^\d{100,}$/.test(qrText.trim());
+  }
+
+  /**
+   * Convert the QR integer to bytes, decompress, and split into fields,
+   * photo, email/mobile hashes and signature
+   */
+  static parsePayload(qrText) {
+    let hex = BigInt(qrText.trim()).toString(16);
+    if (hex.length % 2) hex = `0${hex}`;
+
+    const bytes = zlib.gunzipSync(Buffer.from(hex, 'hex'));
+    const signature = bytes.subarray(bytes.length - this.SIGNATURE_LENGTH);
+    const signedData = bytes.subarray(0, bytes.length - this.SIGNATURE_LENGTH);
+
+    let offset = 0;
+    const readField = () => {
+      const end = signedData.indexOf(this.DELIMITER, offset);
+      if (end === -1) {
+        throw new Error('Malformed Secure QR payload');
+      }
+      const value = signedData.subarray(offset, end).toString('latin1');
+      offset = end + 1;
+      return value;
+    };
+
+    // V2 and later prefix the payload with a version marker
+    let version = 'V1';
+    let indicator = readField();
+    if (/^V\d+$/.test(indicator)) {
+      version = indicator;
+      indicator = readField();
+    }
+
+    const fields = {};
+    this.TEXT_FIELDS.forEach(field => {
+      fields[field] = readField().trim();
+    });
+    if (version !== 'V1') {
+      fields.mobileLast4 = readField().trim();
+    }
+
+    const indicatorValue = parseInt(indicator, 10) || 0;
+    const hashCount = (indicatorValue & 1) + ((indicatorValue >> 1) & 1);
+    const photo = signedData.subarray(offset, signedData.length - hashCount * this.HASH_LENGTH);
+
+    return { version, fields, photo, signedData, signature };
+  }
+
+  /**
+   * Verify the SHA256withRSA signature against the bundled UIDAI certificate
+   */
+  static verifySignature(signedData, signature) {
+    const certificate = this.loadCertificate();
+    if (!certificate) {
+      return { verified: false, status: 'CERTIFICATE_UNAVAILABLE' };
+    }
+
+    try {
+      const verified = crypto.verify('sha256', signedData, certificate.publicKey, signature);
+      return { verified, status: verified ? 'VALID' : 'INVALID' };
+    } catch (error) {
+      console.error('Secure QR signature verification error:', error);
+      return { verified: false, status: 'VERIFICATION_ERROR' };
+    }
+  }
+
+  static loadCertificate() {
+    if (this.certificate === undefined) {
+      try {
+        this.certificate = new crypto.X509Certificate(fs.readFileSync(this.CERTIFICATE_PATH));
+      } catch (error) {
+        console.error(
+          `UIDAI Secure QR certificate not available at ${this.CERTIFICATE_PATH}; ` +
+          'no Secure QR can be verified until it is installed (see UIDAI_QR_CERTIFICATE_PATH):',
+          error.message
+        );
+        this.certificate = null;
+      }
+    }
+    return this.certificate;
+  }
+
+  static isCertificateAvailable() {
+    return this.loadCertificate() !== null;
+  }
+
+  /**
+   * Scan the image at a few sizes; dense QR codes often only decode after resizing
+   */
+  static async findQrInImage(imageBuffer) {
+    for (const width of this.SCAN_WIDTHS) {
+      let pipeline = sharp(imageBuffer).rotate();
+      if (width) pipeline = pipeline.resize({ width });
+
+      const { data, info } = await pipeline.ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+      const code = jsQR(new Uint8ClampedArray(data.buffer, data.byteOffset, data.length), info.width, info.height);
+      if (code && this.isSecureQrText(code.data)) {
+        return code.data;
+      }
+    }
+    return null;
+  }
+
+  static toExtractedDocumentData(fields, isAuthentic) {
+    const relation = fields.careOf.match(/^\s*(?:S\/O|D\/O)\s*:?\s*(.+)$/i);
+    const address = [
+      fields.house,
+      fields.street,
+      fields.landmark,
+      fields.location,
+      fields.vtc,
+      fields.postOffice,
+      fields.subDistrict,
+      fields.district,
+      fields.state
+    ].filter(Boolean).join(', ');
+
+    return {
+      name: fields.name,
+      fatherName: relation ? relation[1].trim() : undefined,
+      dateOfBirth: fields.dateOfBirth.replace(/-/g, '/'),
+      gender: { M: 'MALE', F: 'FEMALE', T: 'TRANSGENDER' }[fields.gender] || fields.gender,
+      address: fields.pincode ? `${address} - ${fields.pincode}` : address,
+      idNumber: `XXXX XXXX ${fields.referenceId.slice(0, 4)}`,
+      confidence: 1,
+      isAuthentic
+    };
+  }
+}
+
+export default AadhaarQrService;
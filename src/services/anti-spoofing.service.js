@@ -0,0 +1,449 @@
+import { ImageQualityService } from './image-quality.service.js';
+
+/**
+ * Anti-Spoofing Service for SAHAJ KYC
+ * Passive presentation-attack checks on a captured selfie frame: screen replays
+ * (moiré in the frequency spectrum, a bezel around the face) and printed photos
+ * (specular glare, flattened or halftoned skin texture). Every signal is scored
+ * 0-1, higher meaning more like an attack, so reviewers can see why a selfie
+ * was flagged. The thresholds are not yet tuned on labelled attacks, so a lone
+ * signal just over its threshold sends the selfie to review instead of failing it.
+ */
+export class AntiSpoofingService {
+  static SPECTRUM_SIZE = 128; // largest face patch, in source pixels, put through the FFT
+  static MIN_SPECTRUM_SIZE = 32;
+  static BEZEL_WIDTH = 240;
+
+  // Score at which each signal is flagged
+  static THRESHOLDS = {
+    moire: 0.6,
+    specular: 0.6,
+    texture: 0.7,
+    bezel: 0.75
+  };
+
+  // How far over its threshold a lone flagged signal must score to fail the selfie
+  static REVIEW_MARGIN = 0.2;
+
+  // Starting values from synthetic captures: tune them on labelled attacks
+  static LIMITS = {
+    spectrumBand: [0.15, 0.5], // radial frequency band (cycles/pixel) searched for screen peaks
+    peakShare: 0.002, // share of the band's strongest coefficients averaged as the peak
+    peakNatural: 6, // peak over median magnitude: camera noise and skin stay near 3
+    peakScreen: 20,
+    specularPixel: 235, // brightest channel of a glare pixel
+    specularSaturation: 0.12, // glare is white, skin highlights stay tinted
+    specularCluster: 0.05, // share of the face covered by one glare patch for a full score
+    lbpTolerance: 2, // grey levels a neighbour must exceed the centre by to set its bit
+    entropyNatural: 3.4, // bits over the 59 uniform LBP bins
+    entropyFlat: 1.8,
+    halftoneLow: 0.3, // share of non-uniform LBP codes
+    halftoneHigh: 0.55,
+    edgeStrength: 24, // grey-level step of a bezel or print edge
+    edgeCoverage: 0.8, // share of the line the edge must run along
+    bezelSearch: 1.5 // face sizes searched outside the face box
+  };
+
+  /**
+   * Score a frame ({ data, width, height }, RGB) around the detected face box;
+   * returns { spoofSuspected, requiresReview, score, signals }. An attack is
+   * suspected when two signals are flagged or one clears its threshold by the
+   * review margin; a single flag below that only asks for review.
+   */
+  static analyzeFrame(image, box) {
+    const grey = this.toGreyscale(image);
+    const face = this.faceRect(box, image.width, image.height);
+
+    const results = {
+      moire: this.detectMoire(grey, face),
+      specular: this.detectSpecularGlare(image, face),
+      texture: this.analyzeTexture(grey, face),
+      bezel: this.detectBezel(grey, face)
+    };
+
+    const signals = Object.fromEntries(Object.entries(results).map(([name, { score, detail, metrics }]) => [name, {
+      score: this.round(score),
+      threshold: this.THRESHOLDS[name],
+      flagged: score >= this.THRESHOLDS[name],
+      detail,
+      metrics
+    }]));
+
+    const flagged = Object.values(signals).filter(signal => signal.flagged);
+    const spoofSuspected = flagged.length > 1 ||
+      flagged.some(signal => signal.score >= signal.threshold + this.REVIEW_MARGIN);
+    return {
+      spoofSuspected,
+      requiresReview: flagged.length > 0 && !spoofSuspected,
+      score: Math.max(...Object.values(signals).map(signal => signal.score)),
+      signals
+    };
+  }
+
+  /**
+   * Screens show up as sharp periodic peaks in the mid and high frequencies
+   * (pixel grid and moiré against the camera sensor); skin and camera noise
+   * fall off smoothly. Compares the strongest coefficients in that band with its median.
+   */
+  static detectMoire(grey, face) {
+    let size = this.SPECTRUM_SIZE;
+    while (size > face.width || size > face.height) size /= 2;
+    if (size < this.MIN_SPECTRUM_SIZE) {
+      return { score: 0, detail: 'Face too small for frequency analysis', metrics: { patchSize: 0 } };
+    }
+
+    // Centre patch at source resolution: resampling would blur the screen pattern away
+    const left = Math.round(face.x + (face.width - size) / 2);
+    const top = Math.round(face.y + (face.height - size) / 2);
+    const magnitude = this.magnitudeSpectrum(grey, left, top, size);
+
+    const [minRadius, maxRadius] = this.LIMITS.spectrumBand;
+    const band = [];
+    for (let v = 0; v < size; v++) {
+      for (let u = 0; u < size; u++) {
+        const fu = (u < size / 2 ? u : u - size) / size;
+        const fv = (v < size / 2 ? v : v - size) / size;
+        const radius = Math.hypot(fu, fv);
+        if (radius >= minRadius && radius < maxRadius) band.push(magnitude[v * size + u]);
+      }
+    }
+    band.sort((a, b) => a - b);
+
+    const median = band[Math.floor(band.length / 2)] || 1;
+    const peaks = band.slice(Math.floor(band.length * (1 - this.LIMITS.peakShare)));
+    const peakRatio = peaks.reduce((sum, value) => sum + value, 0) / peaks.length / median;
+    const score = this.ramp(peakRatio, this.LIMITS.peakNatural, this.LIMITS.peakScreen);
+
+    return {
+      score,
+      detail: score >= this.THRESHOLDS.moire
+        ? 'Periodic pixel pattern typical of a screen'
+        : 'No periodic screen pattern',
+      metrics: { patchSize: size, peakRatio: this.round(peakRatio) }
+    };
+  }
+
+  /**
+   * Glossy prints and screens reflect lights as large white patches; on skin,
+   * highlights are small (catchlights, nose tip) and keep the skin's tint
+   */
+  static detectSpecularGlare(image, face) {
+    const mask = new Uint8Array(face.width * face.height);
+    let glarePixels = 0;
+
+    for (let y = 0; y < face.height; y++) {
+      for (let x = 0; x < face.width; x++) {
+        const i = ((face.y + y) * image.width + face.x + x) * 3;
+        const max = Math.max(image.data[i], image.data[i + 1], image.data[i + 2]);
+        const min = Math.min(image.data[i], image.data[i + 1], image.data[i + 2]);
+        if (max >= this.LIMITS.specularPixel && (max - min) / max <= this.LIMITS.specularSaturation) {
+          mask[y * face.width + x] = 1;
+          glarePixels++;
+        }
+      }
+    }
+
+    const largest = ImageQualityService.connectedComponents(mask, face.width, face.height)
+      .reduce((max, cluster) => Math.max(max, cluster.size), 0);
+    const largestShare = largest / (mask.length || 1);
+    const score = this.ramp(largestShare, 0, this.LIMITS.specularCluster);
+
+    return {
+      score,
+      detail: score >= this.THRESHOLDS.specular
+        ? 'Large white reflection on the face, typical of a glossy print or screen'
+        : 'No unusual reflections',
+      metrics: {
+        glareShare: this.round(glarePixels / (mask.length || 1), 4),
+        largestGlare: this.round(largestShare, 4)
+      }
+    };
+  }
+
+  /**
+   * Uniform local binary patterns (8 neighbours, radius 1) over the face.
+   * Live skin gives a spread of micro-texture patterns; a recaptured print is
+   * either smoothed out (few patterns, low entropy) or covered in halftone dots
+   * (many non-uniform patterns).
+   */
+  static analyzeTexture(grey, face) {
+    const histogram = this.lbpHistogram(grey, face);
+    const total = histogram.reduce((sum, count) => sum + count, 0);
+    if (total === 0) {
+      return { score: 0, detail: 'Face too small for texture analysis', metrics: { entropy: 0, nonUniformShare: 0 } };
+    }
+
+    let entropy = 0;
+    histogram.forEach(count => {
+      if (count > 0) entropy -= (count / total) * Math.log2(count / total);
+    });
+    const nonUniformShare = histogram[histogram.length - 1] / total;
+
+    const flatness = this.ramp(this.LIMITS.entropyNatural - entropy, 0, this.LIMITS.entropyNatural - this.LIMITS.entropyFlat);
+    const halftone = this.ramp(nonUniformShare, this.LIMITS.halftoneLow, this.LIMITS.halftoneHigh);
+    const score = Math.max(flatness, halftone);
+
+    let detail = 'Natural skin texture';
+    if (score >= this.THRESHOLDS.texture) {
+      detail = halftone >= flatness
+        ? 'Halftone dot pattern typical of a printed photo'
+        : 'Skin texture is unnaturally smooth, typical of a printed or recaptured photo';
+    }
+
+    return {
+      score,
+      detail,
+      metrics: { entropy: this.round(entropy), nonUniformShare: this.round(nonUniformShare) }
+    };
+  }
+
+  /**
+   * A phone, tablet or print held up to the camera leaves straight edges running
+   * across and beside the face. Counts the sides of the face with such an edge
+   * nearby; one or two are often a door frame, a shelf or a wall corner, three
+   * or more enclose the face.
+   */
+  static detectBezel(grey, face) {
+    const small = this.downscale(grey, this.BEZEL_WIDTH);
+    const scale = small.width / grey.width;
+    const x = face.x * scale;
+    const y = face.y * scale;
+    const width = face.width * scale;
+    const height = face.height * scale;
+    const search = this.LIMITS.bezelSearch;
+
+    // Edges are looked for along the face's own extent, a little wider
+    const spanX = [x - width * 0.25, x + width * 1.25];
+    const spanY = [y - height * 0.25, y + height * 1.25];
+
+    const sides = {
+      top: this.strongestLine(small, 'row', [y - height * search, y - height * 0.1], spanX),
+      bottom: this.strongestLine(small, 'row', [y + height * 1.1, y + height * (1 + search)], spanX),
+      left: this.strongestLine(small, 'column', [x - width * search, x - width * 0.1], spanY),
+      right: this.strongestLine(small, 'column', [x + width * 1.1, x + width * (1 + search)], spanY)
+    };
+
+    const edges = Object.entries(sides)
+      .filter(([, coverage]) => coverage >= this.LIMITS.edgeCoverage)
+      .map(([side]) => side);
+    const score = edges.length / 4;
+
+    return {
+      score,
+      detail: score >= this.THRESHOLDS.bezel
+        ? `Straight edges around the face (${edges.join(', ')}), typical of a screen or print held up to the camera`
+        : 'No frame around the face',
+      metrics: {
+        edges,
+        coverage: Object.fromEntries(Object.entries(sides).map(([side, coverage]) => [side, this.round(coverage)]))
+      }
+    };
+  }
+
+  /**
+   * Best share of a row (or column) within the span crossed by a strong edge;
+   * the edge may wander a pixel either way so slightly tilted lines still count
+   */
+  static strongestLine({ data, width, height }, orientation, range, span) {
+    const rows = orientation === 'row';
+    const lineCount = rows ? height : width;
+    const lineLength = rows ? width : height;
+    const from = Math.max(2, Math.round(range[0]));
+    const to = Math.min(lineCount - 3, Math.round(range[1]));
+    const start = Math.max(0, Math.round(span[0]));
+    const end = Math.min(lineLength, Math.round(span[1]));
+    if (from > to || end - start < 4) return 0;
+
+    // Step across the line at position `line`, offset `along` it
+    const step = (line, along) => rows
+      ? Math.abs(data[(line + 1) * width + along] - data[(line - 1) * width + along])
+      : Math.abs(data[along * width + line + 1] - data[along * width + line - 1]);
+
+    let best = 0;
+    for (let line = from; line <= to; line++) {
+      let covered = 0;
+      for (let along = start; along < end; along++) {
+        const strength = Math.max(step(line - 1, along), step(line, along), step(line + 1, along));
+        if (strength >= this.LIMITS.edgeStrength) covered++;
+      }
+      best = Math.max(best, covered / (end - start));
+    }
+    return best;
+  }
+
+  /**
+   * Hann-windowed 2D FFT magnitude of a square patch (size a power of two)
+   */
+  static magnitudeSpectrum(grey, left, top, size) {
+    const real = new Float64Array(size * size);
+    const imag = new Float64Array(size * size);
+
+    let mean = 0;
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) mean += grey.data[(top + y) * grey.width + left + x];
+    }
+    mean /= size * size;
+
+    const window = Array.from({ length: size }, (_, i) => 0.5 - 0.5 * Math.cos(2 * Math.PI * i / (size - 1)));
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        real[y * size + x] = (grey.data[(top + y) * grey.width + left + x] - mean) * window[x] * window[y];
+      }
+    }
+
+    const lineReal = new Float64Array(size);
+    const lineImag = new Float64Array(size);
+    for (const rows of [true, false]) {
+      for (let line = 0; line < size; line++) {
+        const index = k => (rows ? line * size + k : k * size + line);
+        for (let k = 0; k < size; k++) {
+          lineReal[k] = real[index(k)];
+          lineImag[k] = imag[index(k)];
+        }
+        this.fft(lineReal, lineImag);
+        for (let k = 0; k < size; k++) {
+          real[index(k)] = lineReal[k];
+          imag[index(k)] = lineImag[k];
+        }
+      }
+    }
+
+    const magnitude = new Float64Array(size * size);
+    for (let i = 0; i < magnitude.length; i++) magnitude[i] = Math.hypot(real[i], imag[i]);
+    return magnitude;
+  }
+
+  /**
+   * In-place iterative radix-2 FFT
+   */
+  static fft(real, imag) {
+    const n = real.length;
+    for (let i = 1, j = 0; i < n; i++) {
+      let bit = n >> 1;
+      for (; j & bit; bit >>= 1) j ^= bit;
+      j ^= bit;
+      if (i < j) {
+        [real[i], real[j]] = [real[j], real[i]];
+        [imag[i], imag[j]] = [imag[j], imag[i]];
+      }
+    }
+
+    for (let length = 2; length <= n; length <<= 1) {
+      const angle = -2 * Math.PI / length;
+      for (let start = 0; start < n; start += length) {
+        for (let k = 0; k < length / 2; k++) {
+          const cos = Math.cos(angle * k);
+          const sin = Math.sin(angle * k);
+          const a = start + k;
+          const b = a + length / 2;
+          const tr = real[b] * cos - imag[b] * sin;
+          const ti = real[b] * sin + imag[b] * cos;
+          real[b] = real[a] - tr;
+          imag[b] = imag[a] - ti;
+          real[a] += tr;
+          imag[a] += ti;
+        }
+      }
+    }
+  }
+
+  /**
+   * 59-bin uniform LBP histogram over the face; the last bin holds every
+   * non-uniform pattern (more than two 0/1 transitions around the circle)
+   */
+  static lbpHistogram(grey, face) {
+    const bins = this.uniformBins();
+    const histogram = new Array(59).fill(0);
+    const offsets = [[-1, -1], [0, -1], [1, -1], [1, 0], [1, 1], [0, 1], [-1, 1], [-1, 0]];
+
+    const left = Math.max(1, face.x);
+    const top = Math.max(1, face.y);
+    const right = Math.min(grey.width - 1, face.x + face.width);
+    const bottom = Math.min(grey.height - 1, face.y + face.height);
+
+    for (let y = top; y < bottom; y++) {
+      for (let x = left; x < right; x++) {
+        const centre = grey.data[y * grey.width + x] + this.LIMITS.lbpTolerance;
+        let code = 0;
+        offsets.forEach(([dx, dy], bit) => {
+          if (grey.data[(y + dy) * grey.width + x + dx] >= centre) code |= 1 << bit;
+        });
+        histogram[bins[code]]++;
+      }
+    }
+
+    return histogram;
+  }
+
+  static uniformBins() {
+    if (!this.bins) {
+      let next = 0;
+      this.bins = Array.from({ length: 256 }, (_, code) => {
+        const rotated = ((code >> 1) | ((code & 1) << 7));
+        let transitions = 0;
+        for (let bits = code ^ rotated; bits; bits &= bits - 1) transitions++;
+        return transitions <= 2 ? next++ : 58;
+      });
+    }
+    return this.bins;
+  }
+
+  static toGreyscale({ data, width, height }) {
+    const grey = new Uint8Array(width * height);
+    for (let i = 0; i < grey.length; i++) {
+      grey[i] = Math.round(0.299 * data[i * 3] + 0.587 * data[i * 3 + 1] + 0.114 * data[i * 3 + 2]);
+    }
+    return { data: grey, width, height };
+  }
+
+  /**
+   * Box-filter a greyscale image down to the given width (never up)
+   */
+  static downscale(grey, targetWidth) {
+    if (grey.width <= targetWidth) return grey;
+    const factor = grey.width / targetWidth;
+    const width = targetWidth;
+    const height = Math.max(1, Math.round(grey.height / factor));
+    const data = new Uint8Array(width * height);
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        let sum = 0;
+        let count = 0;
+        for (let sy = Math.floor(y * factor); sy < Math.min(grey.height, Math.floor((y + 1) * factor)); sy++) {
+          for (let sx = Math.floor(x * factor); sx < Math.min(grey.width, Math.floor((x + 1) * factor)); sx++) {
+            sum += grey.data[sy * grey.width + sx];
+            count++;
+          }
+        }
+        data[y * width + x] = count ? Math.round(sum / count) : 0;
+      }
+    }
+
+    return { data, width, height };
+  }
+
+  // Face box clamped to the frame, in whole pixels
+  static faceRect(box, width, height) {
+    const x = Math.max(0, Math.floor(box.x));
+    const y = Math.max(0, Math.floor(box.y));
+    return {
+      x,
+      y,
+      width: Math.max(0, Math.min(width, Math.ceil(box.x + box.width)) - x),
+      height: Math.max(0, Math.min(height, Math.ceil(box.y + box.height)) - y)
+    };
+  }
+
+  // 0 at or below `low`, 1 at or above `high`
+  static ramp(value, low, high) {
+    return Math.max(0, Math.min(1, (value - low) / (high - low)));
+  }
+
+  static round(value, digits = 2) {
+    const factor = 10 ** digits;
+    return Math.round(value * factor) / factor;
+  }
+}
+
+export default AntiSpoofingService;
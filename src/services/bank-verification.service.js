@@ -0,0 +1,94 @@
+import { VerificationProviderService, VerificationProviderError } from './verification-provider.service.js';
+import { StubBankAccountProvider } from './providers/bank-stub.provider.js';
+import { IfscService } from './ifsc.service.js';
+import { NameMatchingService } from './name-matching.service.js';
+
+/**
+ * Bank Verification Service for SAHAJ KYC
+ * Validates the IFSC against the branch directory, confirms the account with a
+ * penny-drop provider selected by BANK_VERIFICATION_PROVIDER, and matches the
+ * account holder name the bank returns against the applicant's KYC name.
+ * Providers implement { name, verify({ accountNumber, ifsc, name }, { signal }) }.
+ */
+export class BankVerificationService {
+  static DEFAULT_PROVIDER = 'stub';
+
+  static providers = {
+    stub: StubBankAccountProvider
+  };
+
+  static ACCOUNT_NUMBER_PATTERN = /^\d{9,18}$/;
+
+  static register(name, provider) {
+    this.providers[name] = provider;
+  }
+
+  static getProvider(name = process.env.BANK_VERIFICATION_PROVIDER || this.DEFAULT_PROVIDER) {
+    const provider = this.providers[name];
+    if (!provider) {
+      throw new VerificationProviderError('PROVIDER_NOT_CONFIGURED', `Unknown bank verification provider: ${name}`, name);
+    }
+    VerificationProviderService.assertUsable(provider, 'BANK_VERIFICATION_PROVIDER');
+    return provider;
+  }
+
+  /**
+   * Verify that an account exists at the IFSC's branch and belongs to `name`.
+   * Malformed input and unknown IFSCs return an invalid result without calling
+   * the provider. Provider failures throw VerificationProviderError; they are
+   * not retried because each penny drop credits the account.
+   */
+  static async verify({ accountNumber, ifsc, name }, options = {}) {
+    const provider = this.getProvider(options.provider);
+    const account = String(accountNumber || '').replace(/[\s-]/g, '');
+    const code = IfscService.normalize(ifsc);
+    const invalid = errors => ({
+      isValid: false,
+      accountExists: false,
+      provider: provider.name,
+      timestamp: new Date().toISOString(),
+      errors
+    });
+
+    const formatErrors = [
+      ...(this.ACCOUNT_NUMBER_PATTERN.test(account) ? [] : ['Invalid bank account number format']),
+      ...(IfscService.isValidFormat(code) ? [] : ['Invalid IFSC format'])
+    ];
+    if (formatErrors.length > 0) return invalid(formatErrors);
+
+    // Without an imported directory the bank itself rejects unknown IFSCs
+    const branch = IfscService.lookup(code);
+    if (!branch && IfscService.isAvailable()) return invalid(['IFSC code not found']);
+
+    const result = await VerificationProviderService.withTimeout(provider, { accountNumber: account, ifsc: code, name });
+    const nameMatch = result.accountExists ? this.matchName(name, result.accountHolderName) : null;
+
+    // A partial name match may be another person's account: it needs review, not a pass
+    const nameError = nameMatch && {
+      partial: 'Account holder name only partly matches the KYC name and needs review',
+      mismatch: 'Account holder name does not match the KYC name'
+    }[nameMatch.status];
+
+    return {
+      isValid: result.accountExists && nameMatch.status === 'match',
+      accountExists: result.accountExists,
+      accountHolderName: result.accountHolderName,
+      nameMatch,
+      branch,
+      provider: provider.name,
+      referenceId: result.referenceId,
+      timestamp: result.timestamp,
+      requiresReview: nameMatch?.status === 'partial',
+      errors: result.errors || (nameError ? [nameError] : undefined)
+    };
+  }
+
+  /**
+   * Fuzzy-match the bank's account holder name with the KYC name
+   */
+  static matchName(kycName, accountHolderName) {
+    return NameMatchingService.match(kycName, accountHolderName);
+  }
+}
+
+export default BankVerificationService;
@@ -0,0 +1,141 @@
+import { NameMatchingService } from './name-matching.service.js';
+
+/**
+ * Business Name Matching Service for SAHAJ KYC
+ * Compares a business name as declared with the name on a registry record
+ * (GST legal name, Udyam enterprise name). Legal suffixes are normalised
+ * (Pvt. Ltd. / PRIVATE LIMITED, M/s) and compared separately, and generic
+ * words (Industries, Enterprises, Traders) carry little weight, so two
+ * businesses that differ only in their distinctive words do not match.
+ * Returns NameMatchingService's { score, status, explanation }; only `match`
+ * is a pass.
+ */
+export class BusinessNameMatchingService {
+  // Weight of a generic word relative to a distinctive one
+  static GENERIC_WEIGHT = 0.1;
+
+  // Score multiplier when both names carry a legal form and the forms differ
+  static LEGAL_FORM_MISMATCH_SCORE = 0.7;
+
+  // Spellings of each legal form word
+  static LEGAL_FORMS = {
+    PRIVATE: 'PRIVATE',
+    PVT: 'PRIVATE',
+    PRIV: 'PRIVATE',
+    LIMITED: 'LIMITED',
+    LTD: 'LIMITED',
+    LLP: 'LLP',
+    OPC: 'OPC'
+  };
+
+  static ABBREVIATIONS = {
+    CO: 'COMPANY',
+    CORP: 'CORPORATION',
+    INC: 'INCORPORATED',
+    INTL: 'INTERNATIONAL',
+    BROS: 'BROTHERS',
+    MFG: 'MANUFACTURING'
+  };
+
+  static GENERIC_WORDS = new Set([
+    'THE', 'AND', 'OF', 'COMPANY', 'CORPORATION', 'INCORPORATED', 'GROUP',
+    'INDUSTRY', 'INDUSTRIES', 'ENTERPRISE', 'ENTERPRISES', 'TRADER', 'TRADERS',
+    'TRADING', 'SERVICE', 'SERVICES', 'SOLUTION', 'SOLUTIONS', 'TECHNOLOGY',
+    'TECHNOLOGIES', 'SYSTEMS', 'PRODUCTS', 'MANUFACTURING', 'EXPORTS', 'IMPORTS',
+    'AGENCY', 'AGENCIES', 'ASSOCIATES', 'CONSULTANTS', 'CONSULTANCY', 'VENTURES',
+    'HOLDINGS', 'STORE', 'STORES', 'INTERNATIONAL', 'GLOBAL', 'OVERSEAS', 'INDIA',
+    'BROTHERS', 'SONS'
+  ]);
+
+  /**
+   * Split a business name into its words and legal form:
+   * { tokens, legalForm } with abbreviations expanded and M/s dropped
+   */
+  static normalize(name) {
+    const words = String(name || '')
+      .toUpperCase()
+      .replace(/^\s*(M\s*[/.]\s*S|MESSRS)\b\.?/, ' ')
+      .replace(/&/g, ' AND ')
+      .split(/[^A-Z0-9]+/)
+      .filter(Boolean);
+
+    // Runs of single letters are one abbreviation (L.L.P., A B C)
+    const joined = [];
+    words.forEach((word, index) => {
+      if (word.length === 1 && index > 0 && words[index - 1].length === 1) {
+        joined[joined.length - 1] += word;
+      } else {
+        joined.push(word);
+      }
+    });
+
+    const tokens = [];
+    const legalForm = [];
+    joined.forEach(word => {
+      if (this.LEGAL_FORMS[word]) {
+        legalForm.push(this.LEGAL_FORMS[word]);
+      } else {
+        tokens.push(this.ABBREVIATIONS[word] || word);
+      }
+    });
+
+    return { tokens, legalForm: legalForm.join(' ') };
+  }
+
+  static weight(token) {
+    return this.GENERIC_WORDS.has(token) ? this.GENERIC_WEIGHT : 1;
+  }
+
+  static match(first, second) {
+    const a = this.normalize(first);
+    const b = this.normalize(second);
+    if (a.tokens.length === 0 || b.tokens.length === 0) {
+      return { score: 0, status: 'mismatch', explanation: ['Business name is missing'] };
+    }
+
+    const { score: tokenScore, explanation } = this.scoreTokens(a.tokens, b.tokens);
+    let score = tokenScore;
+
+    if (a.legalForm && b.legalForm && a.legalForm !== b.legalForm) {
+      score *= this.LEGAL_FORM_MISMATCH_SCORE;
+      explanation.push(`Legal forms differ: ${a.legalForm} and ${b.legalForm}`);
+    }
+
+    if (explanation.length === 0) {
+      const exact = String(first).trim().toUpperCase() === String(second).trim().toUpperCase();
+      explanation.push(exact ? 'Exact match' : 'Names match after normalising legal suffixes and abbreviations');
+    }
+
+    score = Math.round(score * 100) / 100;
+    return { score, status: NameMatchingService.status(score), explanation };
+  }
+
+  /**
+   * Weighted share of words matched in both names: { score, explanation }
+   */
+  static scoreTokens(a, b) {
+    const pairs = NameMatchingService.alignTokens(a, b);
+    const total = [...a, ...b].reduce((sum, token) => sum + this.weight(token), 0);
+    const matched = pairs.reduce((sum, { i, j, score }) => sum + (this.weight(a[i]) + this.weight(b[j])) * score, 0);
+    const tokenScore = matched / total;
+
+    const explanation = [];
+    pairs.forEach(({ i, j }) => {
+      if (a[i] !== b[j]) explanation.push(`${a[i]} and ${b[j]} are spelling variants`);
+    });
+    const unmatched = (tokens, side) => tokens.filter((token, index) => !pairs.some(pair => pair[side] === index));
+    [...unmatched(a, 'i'), ...unmatched(b, 'j')].forEach(token => {
+      explanation.push(this.GENERIC_WORDS.has(token) ? `Generic word ${token} has no counterpart` : `${token} has no counterpart`);
+    });
+
+    // Spacing differences (SUNPHARMA / SUN PHARMA) only show on the joined form
+    const joinedScore = a.length !== b.length ? NameMatchingService.variantScore(a.join(''), b.join('')) : 0;
+    if (joinedScore > tokenScore && joinedScore >= NameMatchingService.MATCH_THRESHOLD) {
+      return { score: joinedScore, explanation: ['Names match when spacing is ignored'] };
+    }
+
+    return { score: tokenScore, explanation };
+  }
+}
+
+export default BusinessNameMatchingService;
@@ -0,0 +1,266 @@
+import { VerificationProviderService, VerificationProviderError } from './verification-provider.service.js';
+import { StubBusinessRegistryProvider } from './providers/business-stub.provider.js';
+import { BusinessNameMatchingService } from './business-name-matching.service.js';
+
+/**
+ * Business Verification Service for SAHAJ KYC
+ * KYB checks: GSTIN and Udyam registrations through the provider selected by
+ * BUSINESS_VERIFICATION_PROVIDER, the business document set for each
+ * constitution, and the review checklist for business applications.
+ * Providers implement { name, verifyGstin({ gstin, businessName }, { signal }),
+ * verifyUdyam({ udyamNumber, businessName }, { signal }) }.
+ */
+export class BusinessVerificationService {
+  static DEFAULT_PROVIDER = 'stub';
+
+  static providers = {
+    stub: StubBusinessRegistryProvider
+  };
+
+  // State code, PAN, entity number, the fixed 'Z', then a check character
+  static GSTIN_PATTERN = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+  static GSTIN_CHARSET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+  // UDYAM-<state>-<district>-<serial>
+  static UDYAM_PATTERN = /^UDYAM-[A-Z]{2}-\d{2}-\d{7}$/;
+
+  // Documents proving the business exists, by constitution; registration
+  // certificates are added for whichever registrations were declared
+  static BUSINESS_DOCUMENTS = {
+    private_limited: ['incorporation_certificate'],
+    public_limited: ['incorporation_certificate'],
+    llp: ['incorporation_certificate'],
+    partnership: ['partnership_deed'],
+    sole_proprietorship: []
+  };
+
+  // Shareholding above which a person is a beneficial owner (PML Rules)
+  static BENEFICIAL_OWNER_THRESHOLD = {
+    partnership: 15,
+    default: 10
+  };
+
+  static register(name, provider) {
+    this.providers[name] = provider;
+  }
+
+  static getProvider(name = process.env.BUSINESS_VERIFICATION_PROVIDER || this.DEFAULT_PROVIDER) {
+    const provider = this.providers[name];
+    if (!provider) {
+      throw new VerificationProviderError('PROVIDER_NOT_CONFIGURED', `Unknown business verification provider: ${name}`, name);
+    }
+    VerificationProviderService.assertUsable(provider, 'BUSINESS_VERIFICATION_PROVIDER');
+    return provider;
+  }
+
+  static normalizeGstin(gstin) {
+    return String(gstin || '').replace(/\s/g, '').toUpperCase();
+  }
+
+  static normalizeUdyam(udyamNumber) {
+    return String(udyamNumber || '').replace(/\s/g, '').toUpperCase();
+  }
+
+  /**
+   * Pattern plus the GSTN mod-36 check character
+   */
+  static isValidGstin(gstin) {
+    const code = this.normalizeGstin(gstin);
+    return this.GSTIN_PATTERN.test(code) && this.gstinCheckCharacter(code.slice(0, 14)) === code.charAt(14);
+  }
+
+  static gstinCheckCharacter(base) {
+    const sum = [...base].reduce((total, char, index) => {
+      const product = this.GSTIN_CHARSET.indexOf(char) * (index % 2 === 0 ? 1 : 2);
+      return total + Math.floor(product / 36) + (product % 36);
+    }, 0);
+    return this.GSTIN_CHARSET.charAt((36 - (sum % 36)) % 36);
+  }
+
+  /**
+   * Verify a GSTIN is active and registered to the business's PAN and name.
+   * Malformed GSTINs and PAN mismatches return an invalid result without
+   * calling the provider; provider failures throw VerificationProviderError.
+   * A legal name short of a match fails, a partial one for review.
+   */
+  static async verifyGstin({ gstin, businessName, panNumber }, options = {}) {
+    const provider = this.getProvider(options.provider);
+    const code = this.normalizeGstin(gstin);
+
+    if (!this.isValidGstin(code)) {
+      return this.invalid(provider, ['Invalid GSTIN format or check digit']);
+    }
+    if (panNumber && code.slice(2, 12) !== String(panNumber).toUpperCase()) {
+      return this.invalid(provider, ['GSTIN is not issued against the business PAN']);
+    }
+
+    const result = await VerificationProviderService.withTimeout(provider, { gstin: code, businessName }, 'verifyGstin');
+    if (!result.registered) return { ...this.invalid(provider, result.errors), timestamp: result.timestamp };
+
+    const nameMatch = this.matchName(businessName, result.legalName);
+    const errors = [
+      ...(result.status === 'Active' ? [] : [`GST registration is ${result.status.toLowerCase()}`]),
+      ...this.nameErrors(nameMatch, 'GST legal name')
+    ];
+
+    return {
+      isValid: errors.length === 0,
+      requiresReview: nameMatch.status === 'partial',
+      registered: true,
+      gstin: code,
+      legalName: result.legalName,
+      tradeName: result.tradeName,
+      status: result.status,
+      constitution: result.constitution,
+      registrationDate: result.registrationDate,
+      stateCode: result.stateCode,
+      nameMatch,
+      provider: provider.name,
+      timestamp: result.timestamp,
+      errors: errors.length > 0 ? errors : undefined
+    };
+  }
+
+  /**
+   * Verify a Udyam (MSME) registration number and its enterprise name
+   */
+  static async verifyUdyam({ udyamNumber, businessName }, options = {}) {
+    const provider = this.getProvider(options.provider);
+    const number = this.normalizeUdyam(udyamNumber);
+
+    if (!this.UDYAM_PATTERN.test(number)) {
+      return this.invalid(provider, ['Invalid Udyam registration number format']);
+    }
+
+    const result = await VerificationProviderService.withTimeout(provider, { udyamNumber: number, businessName }, 'verifyUdyam');
+    if (!result.registered) return { ...this.invalid(provider, result.errors), timestamp: result.timestamp };
+
+    const nameMatch = this.matchName(businessName, result.enterpriseName);
+    const errors = [
+      ...(result.status === 'Active' ? [] : [`Udyam registration is ${result.status.toLowerCase()}`]),
+      ...this.nameErrors(nameMatch, 'Udyam enterprise name')
+    ];
+
+    return {
+      isValid: errors.length === 0,
+      requiresReview: nameMatch.status === 'partial',
+      registered: true,
+      udyamNumber: number,
+      enterpriseName: result.enterpriseName,
+      enterpriseType: result.enterpriseType,
+      majorActivity: result.majorActivity,
+      status: result.status,
+      registrationDate: result.registrationDate,
+      nameMatch,
+      provider: provider.name,
+      timestamp: result.timestamp,
+      errors: errors.length > 0 ? errors : undefined
+    };
+  }
+
+  /**
+   * Documents a business must upload, given its constitution and registrations
+   */
+  static requiredDocuments({ businessType, gstin, udyamNumber }) {
+    return [
+      ...(this.BUSINESS_DOCUMENTS[businessType] || []),
+      ...(gstin ? ['gst_certificate'] : []),
+      ...(udyamNumber ? ['udyam_certificate'] : [])
+    ];
+  }
+
+  /**
+   * Review checklist for a business application. Each item is
+   * { item, label, status: PASSED | FAILED | PENDING | NOT_APPLICABLE, detail };
+   * PENDING items need a reviewer's judgement.
+   * `signatories` carry the status of their linked individual KYC, if any.
+   */
+  static buildReviewChecklist(business, { uploadedDocumentTypes = [], signatories = [] } = {}) {
+    const verification = business.verification || {};
+    const registrationCheck = (declared, result, label) => {
+      if (!declared) return { status: 'NOT_APPLICABLE', detail: `No ${label} declared` };
+      if (!result?.verifiedAt) return { status: 'PENDING', detail: `${label} has not been verified` };
+      return result.verified
+        ? { status: 'PASSED', detail: `${label} verified with ${result.provider}` }
+        : { status: 'FAILED', detail: (result.errors || []).join('; ') || `${label} verification failed` };
+    };
+
+    const missingDocuments = this.requiredDocuments(business)
+      .filter(type => !uploadedDocumentTypes.includes(type));
+    const unlinked = signatories.filter(signatory => !signatory.kycApplicationId);
+    const notApproved = signatories.filter(signatory =>
+      signatory.kycApplicationId && String(signatory.kycStatus).toUpperCase() !== 'APPROVED');
+    const ownerThreshold = this.BENEFICIAL_OWNER_THRESHOLD[business.businessType] ?? this.BENEFICIAL_OWNER_THRESHOLD.default;
+    const beneficialOwners = signatories.filter(signatory => (signatory.shareholding || 0) > ownerThreshold);
+
+    const gstinCheck = registrationCheck(business.gstin, verification.gstin, 'GSTIN');
+    const udyamCheck = registrationCheck(business.udyamNumber, verification.udyam, 'Udyam registration');
+
+    return [
+      { item: 'GSTIN_VERIFIED', label: 'GSTIN is active and registered to the business', ...gstinCheck },
+      { item: 'UDYAM_VERIFIED', label: 'Udyam registration is active', ...udyamCheck },
+      {
+        item: 'REGISTRATION_PROOF',
+        label: 'At least one government registration is verified',
+        status: gstinCheck.status === 'PASSED' || udyamCheck.status === 'PASSED'
+          ? 'PASSED'
+          : business.businessType === 'sole_proprietorship' ? 'PENDING' : 'FAILED',
+        detail: business.businessType === 'sole_proprietorship'
+          ? 'Proprietorships without GST or Udyam need another proof of business, checked manually'
+          : undefined
+      },
+      {
+        item: 'BUSINESS_DOCUMENTS',
+        label: 'Business documents are uploaded',
+        status: missingDocuments.length === 0 ? 'PASSED' : 'FAILED',
+        detail: missingDocuments.length > 0 ? `Missing: ${missingDocuments.join(', ')}` : undefined
+      },
+      {
+        item: 'SIGNATORIES_LINKED',
+        label: 'Every authorised signatory is linked to an individual KYC',
+        status: signatories.length > 0 && unlinked.length === 0 ? 'PASSED' : 'FAILED',
+        detail: unlinked.length > 0 ? `Not linked: ${unlinked.map(signatory => signatory.name).join(', ')}` : undefined
+      },
+      {
+        item: 'SIGNATORIES_APPROVED',
+        label: 'Linked signatory KYCs are approved',
+        status: unlinked.length > 0 ? 'PENDING' : notApproved.length === 0 ? 'PASSED' : 'FAILED',
+        detail: notApproved.length > 0 ? `Not approved: ${notApproved.map(signatory => signatory.name).join(', ')}` : undefined
+      },
+      {
+        item: 'BENEFICIAL_OWNERS',
+        label: `Beneficial owners (over ${ownerThreshold}% shareholding) are identified`,
+        status: 'PENDING',
+        detail: beneficialOwners.length > 0
+          ? `Declared: ${beneficialOwners.map(signatory => `${signatory.name} (${signatory.shareholding}%)`).join(', ')}`
+          : 'No signatory declared a shareholding above the threshold; confirm there are no other owners'
+      }
+    ];
+  }
+
+  /**
+   * Helper methods
+   */
+  static matchName(businessName, registeredName) {
+    return BusinessNameMatchingService.match(businessName, registeredName);
+  }
+
+  static nameErrors(nameMatch, label) {
+    if (nameMatch.status === 'match') return [];
+    return [nameMatch.status === 'partial'
+      ? `${label} only partly matches the business name and needs review`
+      : `${label} does not match the business name`];
+  }
+
+  static invalid(provider, errors) {
+    return {
+      isValid: false,
+      registered: false,
+      provider: provider.name,
+      timestamp: new Date().toISOString(),
+      errors
+    };
+  }
+}
+
+export default BusinessVerificationService;
@@ -0,0 +1,227 @@
+import { VerificationProviderService, VerificationProviderError } from './verification-provider.service.js';
+import { StubCkycProvider } from './providers/ckyc-stub.provider.js';
+
+/**
+ * CKYC Service for SAHAJ KYC
+ * Central KYC Registry (CERSAI) search and download through the provider
+ * selected by CKYC_PROVIDER, and generation of the registry's bulk upload file
+ * for approved applications.
+ * Providers implement { name, search({ idType, idNumber }, { signal }),
+ * download({ ckycNumber, dateOfBirth }, { signal }) }.
+ */
+export class CkycService {
+  static DEFAULT_PROVIDER = 'stub';
+
+  static providers = {
+    stub: StubCkycProvider
+  };
+
+  // Searchable identifiers and their format checks
+  static ID_FORMATS = {
+    PAN: VerificationProviderService.NUMBER_FORMATS.pan,
+    AADHAAR: VerificationProviderService.NUMBER_FORMATS.aadhaar
+  };
+
+  // 14-digit KYC Identification Number
+  static CKYC_NUMBER_PATTERN = /^\d{14}$/;
+
+  // Bulk upload layout: pipe-delimited records, one header (10) per batch,
+  // then a detail record (20) and its identity records (30) per customer.
+  // Photographs and proof images go in the accompanying image zip.
+  static UPLOAD_VERSION = 'V1.1';
+  static HEADER_FIELDS = ['recordType', 'batchNumber', 'fiCode', 'regionCode', 'totalRecords', 'createDate', 'version'];
+  static DETAIL_FIELDS = [
+    'recordType', 'lineNumber', 'applicationType', 'branchCode', 'ckycNumber', 'constitutionType',
+    'namePrefix', 'firstName', 'middleName', 'lastName',
+    'fatherPrefix', 'fatherFirstName', 'fatherMiddleName', 'fatherLastName',
+    'gender', 'dateOfBirth', 'nationality',
+    'addressLine1', 'addressLine2', 'city', 'state', 'pincode', 'country',
+    'mobile', 'email', 'kycDate', 'applicationReference'
+  ];
+  static IDENTITY_FIELDS = ['recordType', 'lineNumber', 'idType', 'idNumber', 'verified'];
+
+  // Registry codes for identity proofs
+  static ID_TYPE_CODES = {
+    PASSPORT: 'A',
+    VOTER_ID: 'B',
+    PAN: 'C',
+    DRIVING_LICENSE: 'D',
+    AADHAAR: 'E'
+  };
+
+  static GENDER_CODES = { male: 'M', female: 'F', other: 'T', M: 'M', F: 'F', T: 'T' };
+
+  static register(name, provider) {
+    this.providers[name] = provider;
+  }
+
+  static getProvider(name = process.env.CKYC_PROVIDER || this.DEFAULT_PROVIDER) {
+    const provider = this.providers[name];
+    if (!provider) {
+      throw new VerificationProviderError('PROVIDER_NOT_CONFIGURED', `Unknown CKYC provider: ${name}`, name);
+    }
+    VerificationProviderService.assertUsable(provider, 'CKYC_PROVIDER');
+    return provider;
+  }
+
+  /**
+   * Look for an existing CKYC record by PAN or Aadhaar number.
+   * Malformed identifiers return { found: false, errors } without calling the provider.
+   */
+  static async search({ idType, idNumber }, options = {}) {
+    const provider = this.getProvider(options.provider);
+    const format = this.ID_FORMATS[idType];
+    if (!format) {
+      return { found: false, provider: provider.name, errors: [`Unsupported CKYC search identifier: ${idType}`] };
+    }
+
+    const number = format.normalize(String(idNumber || ''));
+    if (!format.pattern.test(number)) {
+      return { found: false, provider: provider.name, errors: [format.error] };
+    }
+
+    return VerificationProviderService.withTimeout(provider, { idType, idNumber: number }, 'search');
+  }
+
+  /**
+   * Download the full record; the registry authenticates with the date of birth
+   */
+  static async download({ ckycNumber, dateOfBirth }, options = {}) {
+    const provider = this.getProvider(options.provider);
+    if (!this.CKYC_NUMBER_PATTERN.test(String(ckycNumber || ''))) {
+      throw new VerificationProviderError('INVALID_RESPONSE', 'CKYC number must be 14 digits', provider.name);
+    }
+
+    return VerificationProviderService.withTimeout(provider, { ckycNumber, dateOfBirth }, 'download');
+  }
+
+  /**
+   * Map a downloaded record onto KycApplication.personalInfo fields (unencrypted)
+   */
+  static toPersonalInfo(record) {
+    return {
+      fullName: record.personalInfo.name,
+      fatherName: record.personalInfo.fatherName,
+      dateOfBirth: this.parseDate(record.personalInfo.dateOfBirth),
+      gender: { M: 'male', F: 'female', T: 'other' }[record.personalInfo.gender],
+      address: record.address && {
+        line1: record.address.line1,
+        line2: record.address.line2,
+        city: record.address.city,
+        state: record.address.state,
+        pincode: record.address.pincode,
+        country: record.address.country || 'India'
+      }
+    };
+  }
+
+  /**
+   * Build the bulk upload file for a batch of approved customers.
+   * Each customer: { reference, ckycNumber?, fullName, fatherName, gender,
+   * dateOfBirth, address, mobile, email, kycDate, identities: [{ type, number }] }
+   */
+  static generateUploadFile(customers, { fiCode, regionCode = '', branchCode = '', batchNumber, date = new Date() }) {
+    const lines = [this.toRecord(this.HEADER_FIELDS, {
+      recordType: '10',
+      batchNumber,
+      fiCode,
+      regionCode,
+      totalRecords: customers.length,
+      createDate: this.formatDate(date),
+      version: this.UPLOAD_VERSION
+    })];
+
+    customers.forEach((customer, index) => {
+      const name = this.splitName(customer.fullName);
+      const fatherName = this.splitName(customer.fatherName);
+      const lineNumber = index + 1;
+
+      lines.push(this.toRecord(this.DETAIL_FIELDS, {
+        recordType: '20',
+        lineNumber,
+        // 01 - new record, 03 - update of an existing CKYC record
+        applicationType: customer.ckycNumber ? '03' : '01',
+        branchCode,
+        ckycNumber: customer.ckycNumber,
+        constitutionType: '01',
+        namePrefix: { M: 'MR', F: 'MS' }[this.GENDER_CODES[customer.gender]],
+        firstName: name.first,
+        middleName: name.middle,
+        lastName: name.last,
+        fatherPrefix: fatherName.first ? 'MR' : '',
+        fatherFirstName: fatherName.first,
+        fatherMiddleName: fatherName.middle,
+        fatherLastName: fatherName.last,
+        gender: this.GENDER_CODES[customer.gender],
+        dateOfBirth: customer.dateOfBirth && this.formatDate(customer.dateOfBirth),
+        nationality: 'IN',
+        addressLine1: customer.address?.line1,
+        addressLine2: customer.address?.line2,
+        city: customer.address?.city,
+        state: customer.address?.state,
+        pincode: customer.address?.pincode,
+        country: 'IN',
+        mobile: customer.mobile,
+        email: customer.email,
+        kycDate: customer.kycDate && this.formatDate(customer.kycDate),
+        applicationReference: customer.reference
+      }));
+
+      (customer.identities || []).forEach(identity => {
+        lines.push(this.toRecord(this.IDENTITY_FIELDS, {
+          recordType: '30',
+          lineNumber,
+          idType: this.ID_TYPE_CODES[identity.type],
+          // Only the last four Aadhaar digits may be stored by the registry
+          idNumber: identity.type === 'AADHAAR' ? `XXXXXXXX${identity.number.slice(-4)}` : identity.number,
+          verified: '01'
+        }));
+      });
+    });
+
+    return {
+      fileName: `${fiCode}_${batchNumber}_${this.formatDate(date).replace(/-/g, '')}.txt`,
+      content: `${lines.join('\n')}\n`,
+      recordCount: customers.length
+    };
+  }
+
+  /**
+   * Helper methods
+   */
+  static toRecord(fields, values) {
+    return fields
+      .map(field => String(values[field] ?? '').replace(/[|\r\n]/g, ' ').trim().toUpperCase())
+      .join('|');
+  }
+
+  static splitName(fullName) {
+    const tokens = String(fullName || '').trim().toUpperCase().split(/\s+/).filter(Boolean);
+    if (tokens.length <= 1) return { first: tokens[0] || '', middle: '', last: '' };
+    return {
+      first: tokens[0],
+      middle: tokens.slice(1, -1).join(' '),
+      last: tokens[tokens.length - 1]
+    };
+  }
+
+  // DD-MM-YYYY, the registry's date format
+  static formatDate(value) {
+    const date = value instanceof Date ? value : this.parseDate(value);
+    if (!date || isNaN(date.getTime())) return '';
+    const pad = number => String(number).padStart(2, '0');
+    return `${pad(date.getUTCDate())}-${pad(date.getUTCMonth() + 1)}-${date.getUTCFullYear()}`;
+  }
+
+  // Accepts DD/MM/YYYY, DD-MM-YYYY and ISO dates
+  static parseDate(value) {
+    if (!value) return undefined;
+    if (value instanceof Date) return value;
+    const match = String(value).match(/^(\d{2})[\/\-.](\d{2})[\/\-.](\d{4})$/);
+    return match
+      ? new Date(Date.UTC(Number(match[3]), Number(match[2]) - 1, Number(match[1])))
+      : new Date(value);
+  }
+}
+
+export default CkycService;
@@ -0,0 +1,154 @@
+import { NameMatchingService } from './name-matching.service.js';
+
+/**
+ * Consistency Service for SAHAJ KYC
+ * Cross-checks name, date of birth and father's name across all documents
+ * in an application and scores how well they agree
+ */
+export class ConsistencyService {
+  static FIELDS = {
+    name: { weight: 0.5, compare: 'fuzzyName' },
+    dateOfBirth: { weight: 0.35, compare: 'date' },
+    fatherName: { weight: 0.15, compare: 'exactName' }
+  };
+
+  static NAME_MATCH_THRESHOLD = NameMatchingService.MATCH_THRESHOLD;
+  static NAME_PARTIAL_THRESHOLD = NameMatchingService.PARTIAL_THRESHOLD;
+
+  /**
+   * Compare fields across documents ([{ documentType, data }]); returns per-field
+   * scores, an overall documentScore (0-100) and the resulting riskLevel
+   */
+  static checkDocuments(documents) {
+    const fields = {};
+    const issues = [];
+
+    Object.entries(this.FIELDS).forEach(([field, { compare }]) => {
+      const withField = documents.filter(doc => doc.data && doc.data[field]);
+      if (withField.length < 2) {
+        fields[field] = { score: null, status: 'insufficient_data', comparisons: [] };
+        return;
+      }
+
+      const comparisons = [];
+      for (let i = 0; i < withField.length; i++) {
+        for (let j = i + 1; j < withField.length; j++) {
+          const first = withField[i].data[field];
+          const second = withField[j].data[field];
+          const nameMatch = compare === 'fuzzyName' ? NameMatchingService.match(first, second) : null;
+          comparisons.push({
+            documents: [withField[i].documentType, withField[j].documentType],
+            score: nameMatch ? nameMatch.score : this.compareField(compare, first, second),
+            ...(nameMatch && { explanation: nameMatch.explanation })
+          });
+        }
+      }
+
+      // A field is only as consistent as its worst pair
+      const score = Math.min(...comparisons.map(comparison => comparison.score));
+      const status = this.fieldStatus(field, score);
+      fields[field] = { score, status, comparisons };
+
+      comparisons
+        .filter(comparison => this.fieldStatus(field, comparison.score) !== 'match')
+        .forEach(comparison => {
+          issues.push(`${this.fieldLabel(field)} on ${comparison.documents[0]} and ${comparison.documents[1]} does not match`);
+        });
+    });
+
+    const scored = Object.entries(fields).filter(([, result]) => result.score !== null);
+    const totalWeight = scored.reduce((sum, [field]) => sum + this.FIELDS[field].weight, 0);
+    const documentScore = totalWeight > 0
+      ? Math.round(scored.reduce((sum, [field, result]) => sum + result.score * this.FIELDS[field].weight, 0) / totalWeight * 100)
+      : null;
+
+    const mismatches = scored.filter(([, result]) => result.status === 'mismatch').length;
+
+    // A partly matching name may be someone else's document: not consistent until reviewed
+    const partialNames = scored.filter(([field, result]) =>
+      result.status === 'partial' && this.FIELDS[field].compare === 'fuzzyName').length;
+
+    return {
+      fields,
+      documentScore,
+      riskLevel: this.riskLevel(documentScore, mismatches + partialNames),
+      consistent: mismatches === 0 && partialNames === 0,
+      issues
+    };
+  }
+
+  static compareField(method, first, second) {
+    switch (method) {
+      case 'fuzzyName':
+        return this.compareNames(first, second);
+      case 'exactName':
+        return this.normalizeName(first).join(' ') === this.normalizeName(second).join(' ') ? 1 : 0;
+      case 'date':
+        return this.compareDates(first, second);
+      default:
+        return first === second ? 1 : 0;
+    }
+  }
+
+  static fieldStatus(field, score) {
+    if (this.FIELDS[field].compare === 'fuzzyName') {
+      if (score >= this.NAME_MATCH_THRESHOLD) return 'match';
+      return score >= this.NAME_PARTIAL_THRESHOLD ? 'partial' : 'mismatch';
+    }
+    if (score === 1) return 'match';
+    return score > 0 ? 'partial' : 'mismatch';
+  }
+
+  static fieldLabel(field) {
+    return { name: 'Name', dateOfBirth: 'Date of birth', fatherName: "Father's name" }[field] || field;
+  }
+
+  static riskLevel(documentScore, mismatches) {
+    if (documentScore === null) return 'MEDIUM';
+    if (mismatches >= 2) return 'CRITICAL';
+    if (mismatches === 1 || documentScore < 65) return 'HIGH';
+    return documentScore >= 85 ? 'LOW' : 'MEDIUM';
+  }
+
+  static normalizeName(name) {
+    return NameMatchingService.normalize(name);
+  }
+
+  static compareNames(first, second) {
+    return NameMatchingService.compare(first, second);
+  }
+
+  /**
+   * 1 for the same date, 0.5 when one side only has the year of birth (older
+   * Aadhaar cards) and it agrees, 0 otherwise
+   */
+  static compareDates(first, second) {
+    const a = this.parseDate(first);
+    const b = this.parseDate(second);
+    if (!a || !b) return 0;
+
+    if (a.month && b.month) {
+      return a.year === b.year && a.month === b.month && a.day === b.day ? 1 : 0;
+    }
+    return a.year === b.year ? 0.5 : 0;
+  }
+
+  /**
+   * Parse DD/MM/YYYY, DD-MM-YYYY, DD.MM.YYYY, YYYY-MM-DD or a bare year
+   */
+  static parseDate(value) {
+    const text = String(value || '').trim();
+    let match = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/.exec(text);
+    if (match) return { day: Number(match[1]), month: Number(match[2]), year: Number(match[3]) };
+
+    match = /^(\d{4})-(\d{2})-(\d{2})/.exec(text);
+    if (match) return { day: Number(match[3]), month: Number(match[2]), year: Number(match[1]) };
+
+    match = /^(\d{4})$/.exec(text);
+    if (match) return { day: null, month: null, year: Number(match[1]) };
+
+    return null;
+  }
+}
+
+export default ConsistencyService;
@@ -0,0 +1,203 @@
+import sharp from 'sharp';
+import { OcrService } from './ocr.service.js';
+import { MrzService } from './mrz.service.js';
+
+/**
+ * Document Classifier Service for SAHAJ KYC
+ * Identifies the document type from OCR keywords, MRZ presence,
+ * aspect ratio and colour distribution. Deterministic: the same image
+ * always yields the same type and confidence.
+ */
+export class DocumentClassifierService {
+  static MIN_CONFIDENCE = 0.4;
+  static HISTOGRAM_SIZE = 64;
+
+  static WEIGHTS = {
+    text: 0.7,
+    aspectRatio: 0.15,
+    colour: 0.15
+  };
+
+  // ID-1 cards are 85.6 x 54 mm; the TD3 passport data page is 125 x 88 mm
+  static CARD_ASPECT_RATIO = 1.586;
+  static PASSPORT_ASPECT_RATIO = 1.42;
+
+  static PROFILES = {
+    aadhaar: {
+      keywords: [
+        { pattern: /AADHAA?R/i, weight: 0.5 },
+        { pattern: /UNIQUE\s+IDENTIFICATION\s+AUTHORITY/i, weight: 0.5 },
+        { pattern: /GOVERNMENT\s+OF\s+INDIA/i, weight: 0.3 },
+        { pattern: /\b\d{4}\s\d{4}\s\d{4}\b/, weight: 0.4 },
+        { pattern: /\bVID\s*:?\s*\d{4}\s\d{4}\s\d{4}\s\d{4}\b/i, weight: 0.2 }
+      ],
+      aspectRatio: this.CARD_ASPECT_RATIO,
+      // White card with the saffron and green bands
+      colours: { white: 0.35, orange: 0.03, green: 0.02 }
+    },
+    pan: {
+      keywords: [
+        { pattern: /INCOME\s+TAX\s+DEPARTMENT/i, weight: 0.6 },
+        { pattern: /PERMANENT\s+ACCOUNT\s+NUMBER/i, weight: 0.5 },
+        { pattern: /GOVT\.?\s+OF\s+INDIA/i, weight: 0.1 },
+        { pattern: /\b[A-Z]{5}\d{4}[A-Z]\b/, weight: 0.4 }
+      ],
+      aspectRatio: this.CARD_ASPECT_RATIO,
+      // Light blue background
+      colours: { blue: 0.2 }
+    },
+    passport: {
+      keywords: [
+        { pattern: /REPUBLIC\s+OF\s+INDIA/i, weight: 0.4 },
+        { pattern: /PASSPORT/i, weight: 0.4 },
+        { pattern: /\b[A-Z]\d{7}\b/, weight: 0.2 }
+      ],
+      aspectRatio: this.PASSPORT_ASPECT_RATIO,
+      colours: {}
+    },
+    driving_license: {
+      keywords: [
+        { pattern: /DRIVING\s+LICEN[CS]E/i, weight: 0.6 },
+        { pattern: /UNION\s+OF\s+INDIA/i, weight: 0.2 },
+        { pattern: /TRANSPORT/i, weight: 0.2 },
+        { pattern: /\b[A-Z]{2}[-\s]?\d{2}[-\s]?\d{11}\b/, weight: 0.4 },
+        { pattern: /VALID\s+TILL|\bCOV\b/i, weight: 0.1 }
+      ],
+      aspectRatio: this.CARD_ASPECT_RATIO,
+      // Card colours vary by issuing state
+      colours: {}
+    },
+    voter_id: {
+      keywords: [
+        { pattern: /ELECTION\s+COMMISSION/i, weight: 0.6 },
+        { pattern: /ELECTOR/i, weight: 0.4 },
+        { pattern: /IDENTITY\s+CARD/i, weight: 0.1 },
+        { pattern: /\b[A-Z]{3}\d{7}\b/, weight: 0.4 }
+      ],
+      aspectRatio: this.CARD_ASPECT_RATIO,
+      colours: {}
+    }
+  };
+
+  /**
+   * Classify a document image; returns { type, confidence, scores, ocrResult }
+   * with type 'unknown' when no profile scores above MIN_CONFIDENCE.
+   * Without an image (PDF text layers) only the text is scored.
+   */
+  static async classify(imageBuffer, options = {}) {
+    const ocrResult = options.ocrResult || await OcrService.recognize(imageBuffer);
+    const { aspectRatio, colours } = imageBuffer
+      ? await this.analyzeImage(imageBuffer)
+      : { aspectRatio: null, colours: null };
+    const hasMrz = MrzService.findTd3Lines(ocrResult.lines) !== null;
+
+    const scores = {};
+    Object.entries(this.PROFILES).forEach(([type, profile]) => {
+      let textScore = this.scoreKeywords(ocrResult.text, profile.keywords);
+      if (type === 'passport' && hasMrz) textScore = Math.min(1, textScore + 0.8);
+
+      scores[type] = Math.round((
+        textScore * this.WEIGHTS.text +
+        this.scoreAspectRatio(aspectRatio, profile.aspectRatio) * this.WEIGHTS.aspectRatio +
+        this.scoreColours(colours, profile.colours) * this.WEIGHTS.colour
+      ) * 100) / 100;
+    });
+
+    const [bestType, bestScore] = Object.entries(scores).sort((a, b) => b[1] - a[1])[0];
+
+    return {
+      type: bestScore >= this.MIN_CONFIDENCE ? bestType : 'unknown',
+      confidence: bestScore,
+      scores,
+      ocrResult
+    };
+  }
+
+  static scoreKeywords(text, keywords) {
+    const score = keywords
+      .filter(({ pattern }) => pattern.test(text))
+      .reduce((sum, { weight }) => sum + weight, 0);
+    return Math.min(1, score);
+  }
+
+  /**
+   * Photos usually include some background, so only penalize ratios well off the card's
+   */
+  static scoreAspectRatio(actual, expected) {
+    if (actual === null) return 0.5;
+    return Math.max(0, 1 - Math.abs(actual - expected) / 0.4);
+  }
+
+  /**
+   * Fraction of the profile's expected colours present in at least their minimum share;
+   * profiles without a colour signature (or inputs without an image) score neutral
+   */
+  static scoreColours(colours, expected) {
+    const entries = Object.entries(expected);
+    if (!colours || entries.length === 0) return 0.5;
+    return entries.filter(([bucket, minShare]) => (colours[bucket] || 0) >= minShare).length / entries.length;
+  }
+
+  /**
+   * Orientation-independent aspect ratio and a coarse colour histogram
+   */
+  static async analyzeImage(imageBuffer) {
+    const { data, info } = await sharp(imageBuffer)
+      .rotate()
+      .resize(this.HISTOGRAM_SIZE, this.HISTOGRAM_SIZE, { fit: 'fill' })
+      .removeAlpha()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    const metadata = await sharp(imageBuffer).metadata();
+    // EXIF orientations 5-8 swap width and height
+    const [width, height] = (metadata.orientation || 1) >= 5
+      ? [metadata.height, metadata.width]
+      : [metadata.width, metadata.height];
+
+    const counts = {};
+    const pixelCount = info.width * info.height;
+    for (let i = 0; i < data.length; i += info.channels) {
+      const bucket = this.colourBucket(data[i], data[i + 1], data[i + 2]);
+      counts[bucket] = (counts[bucket] || 0) + 1;
+    }
+
+    const colours = {};
+    Object.entries(counts).forEach(([bucket, count]) => {
+      colours[bucket] = count / pixelCount;
+    });
+
+    return {
+      aspectRatio: Math.max(width, height) / Math.min(width, height),
+      colours
+    };
+  }
+
+  /**
+   * Map an RGB pixel to a named hue bucket (or white/grey/dark for unsaturated pixels)
+   */
+  static colourBucket(r, g, b) {
+    const max = Math.max(r, g, b);
+    const min = Math.min(r, g, b);
+    const value = max / 255;
+    const saturation = max === 0 ? 0 : (max - min) / max;
+
+    if (value < 0.25) return 'dark';
+    if (saturation < 0.12) return value > 0.75 ? 'white' : 'grey';
+
+    let hue;
+    if (max === r) hue = ((g - b) / (max - min)) * 60;
+    else if (max === g) hue = (2 + (b - r) / (max - min)) * 60;
+    else hue = (4 + (r - g) / (max - min)) * 60;
+    if (hue < 0) hue += 360;
+
+    if (hue < 15 || hue >= 330) return 'red';
+    if (hue < 45) return 'orange';
+    if (hue < 70) return 'yellow';
+    if (hue < 170) return 'green';
+    if (hue < 260) return 'blue';
+    return 'purple';
+  }
+}
+
+export default DocumentClassifierService;
@@ -0,0 +1,137 @@
+/**
+ * Document Face Match Service for SAHAJ KYC
+ * Rules for matching a selfie with the photo on an uploaded ID: which uploads
+ * carry a photo, where it is printed on each card, how far apart two face
+ * descriptors may be for each kind of photo, and how the per-document results
+ * add up to one decision. FaceRecognitionService runs the nets.
+ */
+export class DocumentFaceMatchService {
+  // Largest descriptor distance still accepted as the same person, per source.
+  // face-api.js suggests 0.6 for two live photos; print, lamination and the age
+  // of card photos push genuine pairs further apart, so the lower-quality
+  // sources get more room. Starting values: tune them on labelled pairs.
+  static THRESHOLDS = {
+    secure_qr: 0.55,
+    passport: 0.55,
+    aadhaar: 0.58,
+    driving_license: 0.6,
+    pan: 0.6,
+    voter_id: 0.62
+  };
+
+  // How quickly the similarity falls away around the threshold
+  static SIMILARITY_SCALE = 0.05;
+
+  // Where the photo is printed on each card (fractions of the cleaned crop);
+  // faces outside it (ghost images, holograms) are only used as a fallback
+  static PORTRAIT_REGIONS = {
+    aadhaar: { x: 0, y: 0.15, width: 0.4, height: 0.8 },
+    pan: { x: 0, y: 0.25, width: 0.4, height: 0.75 },
+    passport: { x: 0, y: 0.1, width: 0.4, height: 0.85 },
+    voter_id: { x: 0, y: 0.1, width: 0.45, height: 0.85 }
+  };
+
+  // Card photos are small, so look harder than for the selfie and upscale the crop
+  static CARD_DETECTOR = { inputSize: 608, scoreThreshold: 0.3 };
+  static PORTRAIT_DETECTOR = { inputSize: 320, scoreThreshold: 0.3 };
+  static PORTRAIT_MARGIN = 0.2;
+  static PORTRAIT_MIN_WIDTH = 320;
+
+  // Order in which documents are compared; the first is the primary match
+  static SOURCE_PRIORITY = ['aadhaar', 'passport', 'driving_license', 'pan', 'voter_id'];
+
+  /**
+   * Photo ID type of an uploaded document (aadhaar_front, pan_card, ...), or null without a photo
+   */
+  static photoIdType(documentType) {
+    const type = String(documentType || '').replace(/_(front|back)$/, '').replace(/_card$/, '');
+    return this.SOURCE_PRIORITY.includes(type) ? type : null;
+  }
+
+  /**
+   * Photos to try for an upload, best first: the Secure QR photo for Aadhaar
+   * (the UIDAI-held photo rather than a print of it), then the printed one.
+   * Card backs have no printed photo, though the Aadhaar back carries the QR.
+   */
+  static portraitSources(documentType) {
+    const type = this.photoIdType(documentType);
+    if (!type) return [];
+    return [
+      ...(type === 'aadhaar' ? ['secure_qr'] : []),
+      ...(/_back$/.test(documentType) ? [] : [type])
+    ];
+  }
+
+  /**
+   * Similarity (0-1) for a descriptor distance: 0.5 exactly at the source's
+   * threshold, approaching 1 for near-identical faces and 0 for strangers
+   */
+  static calibratedSimilarity(distance, source) {
+    const similarity = 1 / (1 + Math.exp((distance - this.THRESHOLDS[source]) / this.SIMILARITY_SCALE));
+    return Math.round(similarity * 1000) / 1000;
+  }
+
+  /**
+   * Crop rectangle (pixels) around the printed portrait: the largest face box
+   * inside the expected photo region, or anywhere failing that, with some
+   * margin. `scale` upscales it so the nets have enough pixels to work with.
+   */
+  static portraitCrop(boxes, width, height, source) {
+    if (boxes.length === 0) return null;
+
+    const region = this.PORTRAIT_REGIONS[source];
+    const inRegion = region
+      ? boxes.filter(box => {
+          const cx = (box.x + box.width / 2) / width;
+          const cy = (box.y + box.height / 2) / height;
+          return cx >= region.x && cx <= region.x + region.width && cy >= region.y && cy <= region.y + region.height;
+        })
+      : [];
+    const candidates = inRegion.length > 0 ? inRegion : boxes;
+    const box = candidates.reduce((largest, candidate) =>
+      candidate.width * candidate.height > largest.width * largest.height ? candidate : largest);
+
+    const marginX = box.width * this.PORTRAIT_MARGIN;
+    const marginY = box.height * this.PORTRAIT_MARGIN;
+    const left = Math.max(0, Math.floor(box.x - marginX));
+    const top = Math.max(0, Math.floor(box.y - marginY));
+    const cropWidth = Math.min(width, Math.ceil(box.x + box.width + marginX)) - left;
+    const cropHeight = Math.min(height, Math.ceil(box.y + box.height + marginY)) - top;
+
+    return { left, top, width: cropWidth, height: cropHeight, scale: Math.max(1, this.PORTRAIT_MIN_WIDTH / cropWidth) };
+  }
+
+  /**
+   * One decision over the per-document matches: the person matches only if
+   * every document's photo does, and the score is the weakest document's.
+   * Without a single comparable photo there is nothing to vouch for the selfie.
+   */
+  static summarize(matches) {
+    if (matches.length === 0) {
+      return {
+        isMatch: false,
+        matchScore: 0,
+        matches,
+        reason: 'No comparable photo on the uploaded documents',
+        matchedAt: new Date().toISOString()
+      };
+    }
+
+    return {
+      isMatch: matches.every(match => match.isMatch),
+      matchScore: Math.min(...matches.map(match => match.matchScore)),
+      matches,
+      matchedAt: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Uploads ({ type }) that carry a photo, in SOURCE_PRIORITY order
+   */
+  static photoIds(uploads) {
+    const rank = upload => this.SOURCE_PRIORITY.indexOf(this.photoIdType(upload.type));
+    return uploads.filter(upload => this.photoIdType(upload.type)).sort((a, b) => rank(a) - rank(b));
+  }
+}
+
+export default DocumentFaceMatchService;
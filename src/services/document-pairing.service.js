@@ -0,0 +1,121 @@
+import { TransliterationService } from './transliteration.service.js';
+
+/**
+ * Document Pairing Service for SAHAJ KYC
+ * Groups the front and back uploads of two-sided cards into one logical
+ * document, merges their extracted fields and checks both sides belong
+ * to the same card
+ */
+export class DocumentPairingService {
+  static TWO_SIDED_TYPES = {
+    aadhaar: { front: 'aadhaar_front', back: 'aadhaar_back', numberField: 'aadhaarNumber' },
+    driving_license: { front: 'driving_license_front', back: 'driving_license_back', numberField: 'licenseNumber' },
+    voter_id: { front: 'voter_id_front', back: 'voter_id_back', numberField: 'voterIdNumber' }
+  };
+
+  // Printed on the back; every other field is taken from the front when both sides have it
+  static BACK_FIELDS = ['address', 'addressRegional', 'pincode'];
+
+  static NUMBER_SUFFIX_LENGTH = 4;
+
+  /**
+   * Split 'aadhaar_front' into { baseType: 'aadhaar', side: 'front' }; null for single-sided types
+   */
+  static getSide(documentType) {
+    const match = /^(.+)_(front|back)$/.exec(documentType || '');
+    if (!match || !this.TWO_SIDED_TYPES[match[1]]) return null;
+    return { baseType: match[1], side: match[2] };
+  }
+
+  static isTwoSided(documentType) {
+    return this.getSide(documentType) !== null;
+  }
+
+  /**
+   * Two-sided document types with only one side among the given types
+   */
+  static findIncompleteDocuments(documentTypes) {
+    return Object.entries(this.TWO_SIDED_TYPES)
+      .filter(([, sides]) => documentTypes.includes(sides.front) !== documentTypes.includes(sides.back))
+      .map(([baseType, sides]) => ({
+        baseType,
+        missingSide: documentTypes.includes(sides.front) ? 'back' : 'front'
+      }));
+  }
+
+  /**
+   * Pair one side's extracted data with the other's; either may be null.
+   * Returns { status: 'incomplete' | 'complete' | 'mismatch', mergedData, issues }
+   */
+  static pair(baseType, frontData, backData) {
+    if (!frontData || !backData) {
+      return {
+        status: 'incomplete',
+        mergedData: { ...(backData || {}), ...(frontData || {}) },
+        issues: [`${frontData ? 'Back' : 'Front'} side has not been uploaded or read yet`]
+      };
+    }
+
+    const issues = this.validateSameCard(baseType, frontData, backData);
+
+    return {
+      status: issues.length > 0 ? 'mismatch' : 'complete',
+      mergedData: this.mergeSides(frontData, backData),
+      issues
+    };
+  }
+
+  /**
+   * Front wins for identity fields, back for address fields, then fill gaps from either side
+   */
+  static mergeSides(frontData, backData) {
+    const merged = { ...backData, ...frontData };
+
+    this.BACK_FIELDS.forEach(field => {
+      if (backData[field]) merged[field] = backData[field];
+    });
+
+    // Aadhaar backs print the relation inside the address block (S/O, C/O)
+    if (!merged.fatherName && backData.fatherName) merged.fatherName = backData.fatherName;
+
+    // Confidence of the merged record is limited by the weaker side
+    if (typeof frontData.confidence === 'number' && typeof backData.confidence === 'number') {
+      merged.confidence = Math.min(frontData.confidence, backData.confidence);
+    }
+
+    return merged;
+  }
+
+  /**
+   * Both sides carry the card number (the Aadhaar Secure QR only its last four
+   * digits); names are compared when both sides print one
+   */
+  static validateSameCard(baseType, frontData, backData) {
+    const issues = [];
+    const { numberField } = this.TWO_SIDED_TYPES[baseType];
+
+    const frontSuffix = this.numberSuffix(frontData[numberField] || frontData.idNumber);
+    const backSuffix = this.numberSuffix(backData[numberField] || backData.idNumber);
+    if (frontSuffix && backSuffix && frontSuffix !== backSuffix) {
+      issues.push(`Card number on the front (…${frontSuffix}) does not match the back (…${backSuffix})`);
+    }
+
+    if (frontData.name && backData.name &&
+      TransliterationService.compareNames(frontData.name, backData.name) < TransliterationService.MATCH_THRESHOLD) {
+      issues.push('Name on the front does not match the back');
+    }
+
+    return issues;
+  }
+
+  /**
+   * Last digits of a card number; masked numbers (XXXX XXXX 1234) keep only these
+   */
+  static numberSuffix(value) {
+    if (!value) return null;
+    const digits = String(value).replace(/[^0-9]/g, '');
+    return digits.length >= this.NUMBER_SUFFIX_LENGTH ? digits.slice(-this.NUMBER_SUFFIX_LENGTH) : null;
+  }
+}
+
+export default DocumentPairingService;
@@ -4,6 +4,14 @@ import { redis } from '../../lib/redis.js';
 import fs from 'fs/promises';
 import path from 'path';
 import sharp from 'sharp';
+import { OcrService } from './ocr.service.js';
+import { AadhaarQrService } from './aadhaar-qr.service.js';
+import { MrzService } from './mrz.service.js';
+import { ImagePreprocessService } from './image-preprocess.service.js';
+import { PdfService } from './pdf.service.js';
+import { TransliterationService } from './transliteration.service.js';
+import { DocumentPairingService } from './document-pairing.service.js';
+import { ConsistencyService } from './consistency.service.js';
 
 /**
  * Document Processing Service for SAHAJ KYC
@@ -41,7 +49,7 @@ export class DocumentService {
       // Process and save file
       let processedFile;
       if (fileData.type.startsWith('image/')) {
-        processedFile = await this.processImage(fileData.buffer, filePath);
+        processedFile = await this.processImage(fileData.buffer, filePath, documentType);
       } else {
         // Handle PDF files
         await fs.writeFile(filePath, fileData.buffer);
@@ -69,6 +77,7 @@ export class DocumentService {
           originalName: fileData.name,
           dimensions: processedFile.dimensions,
           quality: processedFile.quality,
+          correction: processedFile.correction,
           uploadSource: 'web'
         },
         processingDetails: {
@@ -107,6 +116,11 @@ export class DocumentService {
         }
       });
 
+      // Two-sided cards stay incomplete until the other side arrives
+      const pairing = DocumentPairingService.isTwoSided(documentType)
+        ? await this.pairDocumentSides(applicationId, documentType)
+        : null;
+
       return {
         success: true,
         documentId: document._id,
@@ -114,6 +128,7 @@ export class DocumentService {
         fileName: fileData.name,
         fileSize: processedFile.size,
         status: document.status,
+        pairing: pairing?.success ? pairing.data : null,
         requiresOcr: this.requiresOcr(documentType),
         nextStep: this.requiresOcr(documentType) ? 'ocr_extraction' : 'validation'
       };
@@ -132,6 +147,11 @@ export class DocumentService {
    */
   static async extractDocumentData(documentId, options = {}) {
     try {
+      // e-Aadhaar PDF password from the name and birth year the user entered
+      if (!options.password && options.name && options.birthYear) {
+        options = { ...options, password: PdfService.deriveEAadhaarPassword(options.name, options.birthYear) };
+      }
+
       const document = await Document.findById(documentId);
       if (!document) {
         return {
@@ -156,17 +176,17 @@ export class DocumentService {
       switch (document.documentType) {
         case 'aadhaar_front':
         case 'aadhaar_back':
-          ocrResult = await this.extractAadhaarData(document);
+          ocrResult = await this.extractAadhaarData(document, options);
           break;
         case 'pan_card':
-          ocrResult = await this.extractPanData(document);
+          ocrResult = await this.extractPanData(document, options);
           break;
         case 'passport':
-          ocrResult = await this.extractPassportData(document);
+          ocrResult = await this.extractPassportData(document, options);
           break;
         case 'voter_id_front':
         case 'voter_id_back':
-          ocrResult = await this.extractVoterIdData(document);
+          ocrResult = await this.extractVoterIdData(document, options);
           break;
         case 'driving_license_front':
         case 'driving_license_back':
@@ -207,18 +227,26 @@ export class DocumentService {
         }
       });
 
+      // Re-merge with the other side now that this side's fields are known
+      const pairing = DocumentPairingService.isTwoSided(document.documentType)
+        ? await this.pairDocumentSides(document.applicationId, document.documentType)
+        : null;
+
       return {
         success: true,
         data: ocrResult.data,
         confidence: ocrResult.confidence,
         status: document.status,
-        requiresReview: ocrResult.confidence < 0.8
+        requiresReview: ocrResult.confidence < 0.8,
+        pairing: pairing?.success ? pairing.data : null
       };
     } catch (error) {
       console.error('OCR extraction error:', error);
       return {
         success: false,
         error: 'Failed to extract document data',
+        // Locked PDFs need the user to supply (or confirm) the password
+        code: error.code?.startsWith('PDF_PASSWORD') ? error.code : undefined,
         details: error.message
       };
     }
@@ -285,6 +313,92 @@ export class DocumentService {
     }
   }
 
+  /**
+   * Pair the front and back uploads of a two-sided card, merge their extracted
+   * fields and record the pairing status on both sides
+   */
+  static async pairDocumentSides(applicationId, documentType) {
+    try {
+      const sideInfo = DocumentPairingService.getSide(documentType);
+      if (!sideInfo) {
+        return {
+          success: false,
+          error: 'Document type is single-sided',
+          code: 'NOT_TWO_SIDED'
+        };
+      }
+
+      const sides = DocumentPairingService.TWO_SIDED_TYPES[sideInfo.baseType];
+      const documents = await Document.find({
+        applicationId,
+        documentType: { $in: [sides.front, sides.back] },
+        isDeleted: false
+      }).sort({ uploadDate: -1 });
+
+      // Latest upload of each side wins when a side was retaken
+      const front = documents.find(doc => doc.documentType === sides.front) || null;
+      const back = documents.find(doc => doc.documentType === sides.back) || null;
+
+      const readData = doc => (doc && doc.extractedData ? JSON.parse(decrypt(doc.extractedData)) : null);
+      const frontData = readData(front);
+      const backData = readData(back);
+
+      // A side that is uploaded but not yet extracted still counts as incomplete
+      const pairing = DocumentPairingService.pair(sideInfo.baseType, frontData, backData);
+
+      const logicalDocumentId = `${applicationId}:${sideInfo.baseType}`;
+      await Promise.all([[front, back, 'front'], [back, front, 'back']]
+        .filter(([doc]) => doc)
+        .map(([doc, other, side]) => {
+          doc.pairing = {
+            logicalDocumentId,
+            side,
+            pairedDocumentId: other ? other._id : undefined,
+            status: pairing.status,
+            issues: pairing.issues,
+            pairedAt: other ? new Date() : undefined
+          };
+          return doc.save();
+        }));
+
+      // The pairing is saved; a failed audit write is logged, not returned
+      if (pairing.status === 'mismatch') {
+        await AuditLog.create({
+          userId: (front || back).userId,
+          action: 'DOCUMENT_SIDES_MISMATCH',
+          resource: 'Document',
+          resourceId: String(front._id),
+          status: 'WARNING',
+          metadata: {
+            documentType: sideInfo.baseType,
+            backDocumentId: String(back._id),
+            issues: pairing.issues
+          }
+        }).catch(error => console.error('Audit log write failed:', error));
+      }
+
+      return {
+        success: true,
+        data: {
+          logicalDocumentId,
+          documentType: sideInfo.baseType,
+          status: pairing.status,
+          frontDocumentId: front?._id || null,
+          backDocumentId: back?._id || null,
+          mergedData: pairing.mergedData,
+          issues: pairing.issues
+        }
+      };
+    } catch (error) {
+      console.error('Document pairing error:', error);
+      return {
+        success: false,
+        error: 'Failed to pair document sides',
+        details: error.message
+      };
+    }
+  }
+
   /**
    * Get document details with decrypted data
    */
@@ -437,12 +551,17 @@ export class DocumentService {
     return `${documentType}_${timestamp}_${random}${extension}`;
   }
 
-  static async processImage(buffer, outputPath) {
+  static async processImage(buffer, outputPath, documentType) {
     try {
       const metadata = await sharp(buffer).metadata();
+
+      // Crop, deskew and orient the card; 'aadhaar_front' and 'pan_card' share their card's layout
+      const corrected = await ImagePreprocessService.correctDocument(buffer, {
+        documentType: documentType?.replace(/_(front|back)$/, '').replace(/_card$/, '')
+      });
       
       // Process image for optimal OCR
-      const processed = await sharp(buffer)
+      const processed = await sharp(corrected.buffer)
         .resize(2000, 2000, { 
           fit: 'inside',
           withoutEnlargement: true 
@@ -457,7 +576,11 @@ export class DocumentService {
           width: processed.width,
           height: processed.height
         },
-        quality: this.calculateImageQuality(metadata)
+        quality: this.calculateImageQuality(metadata),
+        correction: {
+          cropped: corrected.cropped,
+          rotation: corrected.rotation
+        }
       };
     } catch (error) {
       throw new Error(`Image processing failed: ${error.message}`);
@@ -491,66 +614,210 @@ export class DocumentService {
       'selfie',
       'selfie_with_document',
       'utility_bill',
-      'bank_statement'
+      'bank_statement',
+      // Business registrations are verified against the registries instead
+      'gst_certificate',
+      'udyam_certificate'
     ].includes(documentType);
   }
 
   /**
    * OCR extraction methods for different document types
    */
-  static async extractAadhaarData(document) {
-    // Implementation for Aadhaar OCR
-    // This would integrate with Tesseract.js or other OCR service
+  static async extractAadhaarData(document, options = {}) {
+    const buffer = await fs.readFile(document.filePath);
+    const isPdf = document.mimeType === 'application/pdf';
+
+    // Prefer the UIDAI-signed Secure QR over OCR guesswork
+    const secureQr = isPdf
+      ? await AadhaarQrService.decodePdf(buffer, { password: options.password })
+      : await AadhaarQrService.decodeImage(buffer);
+
+    if (secureQr) {
+      return {
+        data: {
+          name: secureQr.data.name,
+          fatherName: secureQr.data.fatherName,
+          aadhaarNumber: secureQr.data.idNumber,
+          dateOfBirth: secureQr.data.dateOfBirth,
+          gender: secureQr.data.gender,
+          address: secureQr.data.address,
+          isAuthentic: secureQr.isAuthentic,
+          source: 'secure_qr'
+        },
+        confidence: 1
+      };
+    }
+
+    const { ocrResult, source } = await this.recognizeDocument(document, options);
+    const fields = OcrService.extractAadhaarFields(ocrResult.lines);
+
+    const data = await this.addRegionalData({
+      name: fields.fullName?.value,
+      fatherName: fields.fatherName?.value,
+      aadhaarNumber: fields.aadhaarNumber?.value,
+      dateOfBirth: fields.dateOfBirth?.value,
+      gender: fields.gender?.value,
+      address: fields.address?.value,
+      source
+    }, document, ocrResult, options);
+
     return {
-      data: {
-        name: 'John Doe',
-        aadhaarNumber: '1234 5678 9012',
-        dateOfBirth: '01/01/1990',
-        address: 'Sample Address',
-        // Add more fields as needed
-      },
-      confidence: 0.95
+      data,
+      confidence: OcrService.calculateOverallConfidence(fields)
     };
   }
 
-  static async extractPanData(document) {
-    // Implementation for PAN card OCR
+  /**
+   * Add the regional-script name and address printed alongside the English ones.
+   * PDF text layers already carry both scripts; photos get a bilingual OCR pass.
+   */
+  static async addRegionalData(data, document, ocrResult, options = {}) {
+    let regionalResult = null;
+    if (data.source === 'pdf_text') {
+      regionalResult = ocrResult;
+    } else if (document.mimeType !== 'application/pdf') {
+      regionalResult = await OcrService.recognizeRegional(await fs.readFile(document.filePath), options.language);
+    }
+    if (!regionalResult) return data;
+
+    const reconciliation = TransliterationService.reconcile(regionalResult.lines, { name: data.name });
+    if (!reconciliation) return data;
+
+    const regional = { ...data, regionalLanguage: reconciliation.language };
+    if (reconciliation.name) {
+      regional.nameRegional = reconciliation.name.regional;
+      regional.name = data.name || reconciliation.name.transliterated;
+      if (reconciliation.name.matches === false) {
+        regional.validationIssues = [...(data.validationIssues || []), {
+          type: 'suspicious_patterns',
+          severity: 'medium',
+          message: `Name in ${TransliterationService.SCRIPTS[reconciliation.language].name} does not match the English name`
+        }];
+      }
+    }
+    if (reconciliation.address) {
+      regional.addressRegional = reconciliation.address.regional;
+    }
+
+    return regional;
+  }
+
+  static async extractPanData(document, options = {}) {
+    const { ocrResult, source } = await this.recognizeDocument(document, options);
+    const fields = OcrService.extractPanFields(ocrResult.lines);
+
     return {
       data: {
-        name: 'JOHN DOE',
-        panNumber: 'ABCDE1234F',
-        fatherName: 'JANE DOE',
-        dateOfBirth: '01/01/1990'
+        name: fields.fullName?.value,
+        panNumber: fields.panNumber?.value,
+        fatherName: fields.fatherName?.value,
+        dateOfBirth: fields.dateOfBirth?.value,
+        source
       },
-      confidence: 0.92
+      confidence: OcrService.calculateOverallConfidence(fields)
     };
   }
 
-  static async extractPassportData(document) {
-    // Implementation for Passport OCR
+  static async extractPassportData(document, options = {}) {
+    const { ocrResult, source } = await this.recognizeDocument(document, options);
+    const fields = OcrService.extractPassportFields(ocrResult.lines);
+    const mrzLines = MrzService.findTd3Lines(ocrResult.lines);
+    const mrz = mrzLines ? MrzService.parseTd3(mrzLines[0], mrzLines[1]) : null;
+
+    const data = {
+      name: fields.fullName?.value,
+      passportNumber: fields.passportNumber?.value,
+      dateOfBirth: fields.dateOfBirth?.value,
+      placeOfBirth: fields.placeOfBirth?.value,
+      issueDate: fields.issueDate?.value,
+      expiryDate: fields.expiryDate?.value,
+      isAuthentic: false,
+      source
+    };
+
+    if (!mrz) {
+      data.validationIssues = [{ type: 'suspicious_patterns', severity: 'medium', message: 'Machine-readable zone not found' }];
+      return { data, confidence: OcrService.calculateOverallConfidence(fields) };
+    }
+
+    const visual = Object.fromEntries(Object.entries(fields).map(([key, field]) => [key, field.value]));
+    const mismatches = MrzService.compareWithVisualZone(mrz, visual);
+
+    data.name = data.name || `${mrz.givenNames} ${mrz.surname}`.trim();
+    data.passportNumber = data.passportNumber || (mrz.checks.documentNumber ? mrz.documentNumber : undefined);
+    data.dateOfBirth = data.dateOfBirth || (mrz.checks.dateOfBirth ? mrz.dateOfBirth : undefined);
+    data.expiryDate = data.expiryDate || (mrz.checks.expiryDate ? mrz.expiryDate : undefined);
+    data.gender = mrz.sex;
+    data.isAuthentic = mrz.valid && mismatches.length === 0;
+    data.validationIssues = [
+      ...MrzService.toValidationIssues(mrz),
+      ...mismatches.map(field => ({
+        type: 'suspicious_patterns',
+        severity: 'high',
+        message: `Visual zone ${field} does not match the MRZ`
+      }))
+    ];
+
     return {
-      data: {
-        name: 'John Doe',
-        passportNumber: 'A1234567',
-        dateOfBirth: '01/01/1990',
-        placeOfBirth: 'India',
-        issueDate: '01/01/2020',
-        expiryDate: '01/01/2030'
-      },
-      confidence: 0.88
+      data,
+      // Check-digit-verified MRZ values are more reliable than the OCR'd visual zone
+      confidence: mrz.valid ? Math.max(OcrService.calculateOverallConfidence(fields), 0.9) : OcrService.calculateOverallConfidence(fields)
     };
   }
 
-  static async extractVoterIdData(document) {
-    // Implementation for Voter ID OCR
+  /**
+   * Text lines for a stored document: PDF text layers are read directly,
+   * scanned PDFs and photos go through Tesseract
+   */
+  static async recognizeDocument(document, options = {}) {
+    const buffer = await fs.readFile(document.filePath);
+
+    if (document.mimeType !== 'application/pdf') {
+      return { ocrResult: await OcrService.recognize(buffer), source: 'ocr' };
+    }
+
+    const textLayer = await PdfService.extractText(buffer, { password: options.password });
+    if (textLayer.hasTextLayer) {
+      return {
+        ocrResult: { text: textLayer.text, confidence: 1, lines: textLayer.lines },
+        source: 'pdf_text'
+      };
+    }
+
+    const [pageImage] = await PdfService.rasterizePages(buffer, { password: options.password, maxPages: 1 });
+    if (!pageImage) {
+      return { ocrResult: { text: '', confidence: 0, lines: [] }, source: 'ocr' };
+    }
+
+    const corrected = await ImagePreprocessService.correctDocument(pageImage, {
+      documentType: document.documentType.replace(/_(front|back)$/, '').replace(/_card$/, '')
+    });
+    return { ocrResult: await OcrService.recognize(corrected.buffer), source: 'ocr' };
+  }
+
+  static async extractVoterIdData(document, options = {}) {
+    const { ocrResult, source } = await this.recognizeDocument(document, options);
+    const fields = OcrService.extractVoterIdFields(ocrResult.lines);
+
+    const data = await this.addRegionalData({
+      name: fields.fullName?.value,
+      fatherName: fields.fatherName?.value,
+      relativeName: fields.relativeName?.value,
+      relationType: fields.relationType?.value,
+      voterIdNumber: fields.voterIdNumber?.value,
+      dateOfBirth: fields.dateOfBirth?.value,
+      age: fields.age?.value,
+      gender: fields.gender?.value,
+      address: fields.address?.value,
+      constituency: fields.constituency?.value,
+      partNumber: fields.partNumber?.value,
+      source
+    }, document, ocrResult, options);
+
     return {
-      data: {
-        name: 'John Doe',
-        voterIdNumber: 'ABC1234567',
-        dateOfBirth: '01/01/1990',
-        address: 'Sample Address'
-      },
-      confidence: 0.85
+      data,
+      confidence: OcrService.calculateOverallConfidence(fields)
     };
   }
 
@@ -608,17 +875,79 @@ export class DocumentService {
   }
 
   static async performDataConsistencyCheck(document) {
-    // Cross-verify extracted data
+    // Cross-verify extracted data against the application's other documents
+    const documents = await this.getApplicationDocumentData(document.applicationId);
+    const ownType = DocumentPairingService.getSide(document.documentType)?.baseType || document.documentType;
+    const own = documents.find(doc => doc.documentType === ownType);
+
+    const dateOfBirth = own?.data.dateOfBirth;
+    const dateFormat = !dateOfBirth ? 'skipped' : ConsistencyService.parseDate(dateOfBirth) ? 'pass' : 'fail';
+
+    if (!own || documents.length < 2) {
+      return {
+        score: dateFormat === 'fail' ? 0.5 : 1,
+        checks: { dateFormat, nameConsistency: 'skipped', dobConsistency: 'skipped', fatherNameConsistency: 'skipped' }
+      };
+    }
+
+    // Only pairs involving this document count towards its own score
+    const consistency = ConsistencyService.checkDocuments(documents);
+    const fieldCheck = field => {
+      const comparisons = consistency.fields[field].comparisons
+        .filter(comparison => comparison.documents.includes(ownType));
+      if (comparisons.length === 0) return 'skipped';
+      return comparisons.every(comparison => ConsistencyService.fieldStatus(field, comparison.score) === 'match')
+        ? 'pass'
+        : 'fail';
+    };
+
     return {
-      score: 0.92,
+      score: consistency.documentScore === null ? 1 : consistency.documentScore / 100,
       checks: {
-        dateFormat: 'pass',
-        nameConsistency: 'pass',
-        numberFormat: 'pass'
-      }
+        dateFormat,
+        nameConsistency: fieldCheck('name'),
+        dobConsistency: fieldCheck('dateOfBirth'),
+        fatherNameConsistency: fieldCheck('fatherName')
+      },
+      issues: consistency.issues.filter(issue => issue.includes(ownType))
     };
   }
 
+  /**
+   * Decrypted extracted data of every document in an application, with the
+   * two sides of a card merged into one entry
+   */
+  static async getApplicationDocumentData(applicationId) {
+    const documents = await Document.find({
+      applicationId,
+      isDeleted: { $ne: true },
+      extractedData: { $exists: true }
+    }).sort({ uploadDate: 1 });
+
+    const byType = {};
+    documents.forEach(doc => {
+      const data = typeof doc.extractedData === 'string'
+        ? JSON.parse(decrypt(doc.extractedData))
+        : doc.extractedData;
+      const sideInfo = DocumentPairingService.getSide(doc.documentType);
+
+      if (!sideInfo) {
+        byType[doc.documentType] = { documentType: doc.documentType, data };
+        return;
+      }
+
+      // Later uploads replace earlier ones for the same side
+      const entry = byType[sideInfo.baseType] || { documentType: sideInfo.baseType, sides: {} };
+      entry.sides[sideInfo.side] = data;
+      byType[sideInfo.baseType] = entry;
+    });
+
+    return Object.values(byType).map(({ documentType, data, sides }) => ({
+      documentType,
+      data: sides ? DocumentPairingService.mergeSides(sides.front || {}, sides.back || {}) : data
+    }));
+  }
+
   static async performSecurityFeatureCheck(document) {
     // Check for security features (watermarks, holograms, etc.)
     return {
@@ -0,0 +1,263 @@
+import FaceEmbedding from '../models/FaceEmbedding.js';
+import { encrypt, decrypt } from '../../lib/encryption.js';
+
+/**
+ * Face Index Service for SAHAJ KYC
+ * 1:N duplicate-face search across applicants. Selfie descriptors of passed
+ * liveness checks are stored encrypted (FaceEmbedding) and decrypted into an
+ * in-process vector index: one contiguous Float32Array searched exhaustively
+ * by euclidean distance, which stays exact and fast to a few hundred thousand
+ * faces (128 floats each). Each process keeps its own copy and pulls changes
+ * from the database before searching.
+ */
+export class FaceIndexService {
+  static DIMENSIONS = 128;
+
+  // Largest distance between two applicants' selfies reported as the same face.
+  // Stricter than face-api.js's 0.6 for one person's photos: every applicant is
+  // compared, so chance matches grow with the population.
+  static DUPLICATE_THRESHOLD = 0.5;
+
+  // Closer than this is the same face, or the same photo, beyond reasonable doubt
+  static CRITICAL_DISTANCE = 0.35;
+
+  static MAX_MATCHES = 10;
+
+  // How stale the index may get before a search pulls changes, and how often it
+  // is rebuilt to pick up writes that landed behind the sync cursor
+  static SYNC_INTERVAL_MS = 60 * 1000;
+  static REBUILD_INTERVAL_MS = 60 * 60 * 1000;
+  static SYNC_BATCH_SIZE = 1000;
+
+  static vectors = new Float32Array(0);
+  static entries = []; // { id, userId, kycApplicationId, verificationId }, by slot
+  static slots = new Map(); // embedding id -> slot
+  static cursor = null; // { updatedAt, id } of the last embedding synced
+  static syncedAt = 0;
+  static builtAt = 0;
+  static syncing = null;
+
+  /**
+   * Store the descriptor of a passed liveness check and add it to the index.
+   * `verification` is the FaceVerification record it came from.
+   */
+  static async enroll({ userId, kycApplicationId = null, verification, descriptor }) {
+    const embedding = await FaceEmbedding.findOneAndUpdate(
+      { faceVerificationId: verification._id },
+      {
+        userId,
+        kycApplicationId,
+        verificationId: verification.verificationId,
+        descriptor: this.encode(descriptor),
+        isActive: true
+      },
+      { upsert: true, new: true, setDefaultsOnInsert: true }
+    );
+
+    this.add(this.toEntry(embedding), Float32Array.from(descriptor));
+    return embedding;
+  }
+
+  /**
+   * Search the index with the user's latest enrolled selfie for other users
+   * with the same face. Returns { checked, verificationId, threshold, matches };
+   * checked is false when the user has no enrolled selfie.
+   */
+  static async findDuplicates(userId, { threshold = this.DUPLICATE_THRESHOLD } = {}) {
+    const selfie = await this.latestSelfie(userId);
+
+    if (!selfie) {
+      return { checked: false, verificationId: null, threshold, matches: [] };
+    }
+
+    const matches = await this.search(selfie.descriptor, { excludeUserId: userId, threshold });
+    return { checked: true, verificationId: selfie.verificationId, threshold, matches };
+  }
+
+  /**
+   * The user's latest enrolled selfie, { descriptor, verificationId }, or null
+   * when no liveness check of theirs has passed
+   */
+  static async latestSelfie(userId) {
+    const embedding = await FaceEmbedding.findOne({ userId, isActive: true })
+      .sort({ createdAt: -1 })
+      .select('+descriptor');
+
+    return embedding ? { descriptor: this.decode(embedding.descriptor), verificationId: embedding.verificationId } : null;
+  }
+
+  /**
+   * Nearest other users to a descriptor within the threshold, closest first,
+   * one match per user: [{ userId, kycApplicationId, verificationId, distance, similarity }]
+   */
+  static async search(descriptor, { excludeUserId = null, threshold = this.DUPLICATE_THRESHOLD, limit = this.MAX_MATCHES } = {}) {
+    await this.sync();
+
+    const excluded = excludeUserId ? String(excludeUserId) : null;
+    const limitSquared = threshold * threshold;
+    const best = new Map();
+
+    for (let slot = 0; slot < this.entries.length; slot++) {
+      const entry = this.entries[slot];
+      if (entry.userId === excluded) continue;
+
+      // Stop summing once past the threshold, which strangers reach well before the last dimension
+      const offset = slot * this.DIMENSIONS;
+      let sum = 0;
+      for (let i = 0; i < this.DIMENSIONS && sum <= limitSquared; i++) {
+        const difference = this.vectors[offset + i] - descriptor[i];
+        sum += difference * difference;
+      }
+      if (sum > limitSquared) continue;
+
+      const distance = Math.sqrt(sum);
+      if (!best.has(entry.userId) || best.get(entry.userId).distance > distance) {
+        best.set(entry.userId, { ...entry, distance });
+      }
+    }
+
+    return [...best.values()]
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, limit)
+      .map(({ userId, kycApplicationId, verificationId, distance }) => ({
+        userId,
+        kycApplicationId,
+        verificationId,
+        distance: this.round(distance),
+        similarity: this.round(Math.max(0, 1 - distance))
+      }));
+  }
+
+  /**
+   * Application risk level for a set of matches: several other users, or one
+   * near-identical face, point to a ring reusing the face
+   */
+  static riskLevel(matches) {
+    if (matches.length === 0) return null;
+    return matches.length > 1 || matches[0].distance <= this.CRITICAL_DISTANCE ? 'CRITICAL' : 'HIGH';
+  }
+
+  /**
+   * Remove a user's selfies from the index, e.g. when their biometrics are erased
+   */
+  static async deactivateUser(userId) {
+    await FaceEmbedding.updateMany({ userId, isActive: true }, { isActive: false });
+    this.entries
+      .filter(entry => entry.userId === String(userId))
+      .forEach(entry => this.remove(entry.id));
+  }
+
+  /**
+   * Pull embeddings added or changed since the last sync. Concurrent callers
+   * share one sync.
+   */
+  static async sync({ force = false } = {}) {
+    if (!this.syncing && Date.now() - this.builtAt > this.REBUILD_INTERVAL_MS) this.reset();
+    if (!force && Date.now() - this.syncedAt < this.SYNC_INTERVAL_MS) return;
+    if (!this.syncing) {
+      this.syncing = this.pullChanges().finally(() => {
+        this.syncing = null;
+      });
+    }
+    return this.syncing;
+  }
+
+  static async pullChanges() {
+    const startedAt = Date.now();
+    let batch;
+    do {
+      const { cursor } = this;
+      batch = await FaceEmbedding.find(cursor ? {
+        $or: [
+          { updatedAt: { $gt: cursor.updatedAt } },
+          { updatedAt: cursor.updatedAt, _id: { $gt: cursor.id } }
+        ]
+      } : {})
+        .sort({ updatedAt: 1, _id: 1 })
+        .limit(this.SYNC_BATCH_SIZE)
+        .select('+descriptor')
+        .lean();
+
+      batch.forEach(embedding => {
+        if (embedding.isActive && embedding.model?.dimensions === this.DIMENSIONS) {
+          try {
+            this.add(this.toEntry(embedding), this.decode(embedding.descriptor));
+          } catch (error) {
+            console.error(`Face embedding ${embedding._id} could not be decrypted:`, error);
+          }
+        } else {
+          this.remove(String(embedding._id));
+        }
+      });
+
+      const last = batch[batch.length - 1];
+      if (last) this.cursor = { updatedAt: last.updatedAt, id: last._id };
+    } while (batch.length === this.SYNC_BATCH_SIZE);
+
+    this.syncedAt = startedAt;
+  }
+
+  static reset() {
+    this.vectors = new Float32Array(0);
+    this.entries = [];
+    this.slots = new Map();
+    this.cursor = null;
+    this.syncedAt = 0;
+    this.builtAt = Date.now();
+  }
+
+  // Insert or replace a vector, doubling the buffer when it is full
+  static add(entry, vector) {
+    let slot = this.slots.get(entry.id);
+    if (slot === undefined) {
+      slot = this.entries.length;
+      if ((slot + 1) * this.DIMENSIONS > this.vectors.length) {
+        const grown = new Float32Array(Math.max(1024, (slot + 1) * 2) * this.DIMENSIONS);
+        grown.set(this.vectors);
+        this.vectors = grown;
+      }
+      this.slots.set(entry.id, slot);
+    }
+    this.entries[slot] = entry;
+    this.vectors.set(vector.subarray(0, this.DIMENSIONS), slot * this.DIMENSIONS);
+  }
+
+  // Move the last vector into the freed slot
+  static remove(id) {
+    const slot = this.slots.get(id);
+    if (slot === undefined) return;
+
+    const last = this.entries.length - 1;
+    if (slot !== last) {
+      this.vectors.copyWithin(slot * this.DIMENSIONS, last * this.DIMENSIONS, (last + 1) * this.DIMENSIONS);
+      this.entries[slot] = this.entries[last];
+      this.slots.set(this.entries[slot].id, slot);
+    }
+    this.entries.pop();
+    this.slots.delete(id);
+  }
+
+  static toEntry(embedding) {
+    return {
+      id: String(embedding._id),
+      userId: String(embedding.userId),
+      kycApplicationId: embedding.kycApplicationId ? String(embedding.kycApplicationId) : null,
+      verificationId: embedding.verificationId
+    };
+  }
+
+  static encode(descriptor) {
+    return encrypt(JSON.stringify(Array.from(descriptor)));
+  }
+
+  static decode(encrypted) {
+    return Float32Array.from(JSON.parse(decrypt(encrypted)));
+  }
+
+  static round(value, digits = 3) {
+    const factor = 10 ** digits;
+    return Math.round(value * factor) / factor;
+  }
+}
+
+export default FaceIndexService;
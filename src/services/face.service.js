@@ -1,9 +1,38 @@
+import crypto from 'crypto';
 import * as faceapi from 'face-api.js';
+import sharp from 'sharp';
 import { loadFaceModels, areModelsLoaded } from '../lib/face-models.js';
+import { ImageQualityService } from './image-quality.service.js';
+import { AntiSpoofingService } from './anti-spoofing.service.js';
+import { MultiFrameLivenessService } from './multi-frame-liveness.service.js';
+import { FaceIndexService } from './face-index.service.js';
+import { DocumentFaceMatchService } from './document-face-match.service.js';
+import { AadhaarQrService } from './aadhaar-qr.service.js';
 import FaceVerification from '../models/FaceVerification.js';
+import { JAW_LEFT, JAW_RIGHT, NOSE_TIP, CHIN, eyeAspectRatio } from '../../lib/face-landmarks.js';
 
-// Face recognition will use client-side implementation (browser APIs)
-// Canvas is not available in Vercel serverless environment
+// face-api.js runs on the tfjs CPU backend: images are decoded with sharp and
+// handed to the nets as tensors, so no canvas implementation is needed
+
+// Larger selfies are downscaled before analysis; the detector works at 416px anyway
+const MAX_IMAGE_WIDTH = 960;
+
+// Challenge frames are 480px webcam shots with the face filling much of the
+// frame, which the detector finds at 224px in a quarter of the 416px time
+const FRAME_DETECTOR = { inputSize: 224, scoreThreshold: 0.5 };
+
+// Where the nose tip sits between the eye line and the chin when facing the camera
+const NEUTRAL_PITCH_RATIO = 0.45;
+
+const POSE_LIMITS = { yaw: 20, pitch: 20, roll: 15 }; // degrees
+
+const QUALITY_LIMITS = {
+  minBrightness: 0.25,
+  maxBrightness: 0.85,
+  minContrast: 0.15, // luma standard deviation over the full range
+  maxLightingImbalance: 0.25, // difference between the two halves of the face
+  minFaceWidth: 0.15 // share of the image width
+};
 
 export class FaceRecognitionService {
   constructor() {
@@ -22,23 +51,33 @@ export class FaceRecognitionService {
   }
 
   /**
-   * Advanced liveness detection with multiple checks
+   * Liveness and quality analysis of a selfie (image Buffer), saved as a
+   * LIVENESS FaceVerification record. Options: sessionId, deviceInfo,
+   * captureMethod, challenges (the completed liveness challenge results).
+   * With options.frames ([{ buffer, challengeId, timestamp }], recorded during
+   * the challenges) the record is MULTI_FRAME and also has to pass the temporal
+   * consistency checks; options.maxSpanMs bounds the recording.
    */
-  async detectLiveness(imageUrl, userId, kycApplicationId = null, options = {}) {
+  async detectLiveness(imageBuffer, userId, kycApplicationId = null, options = {}) {
     await this.initialize();
     
     const startTime = Date.now();
+    let verification;
+    let tensor;
     
     try {
+      const image = await this.loadImage(imageBuffer);
+
       // Create verification record
-      const verification = new FaceVerification({
+      verification = new FaceVerification({
         userId,
         kycApplicationId,
-        type: 'LIVENESS',
+        type: options.frames ? 'MULTI_FRAME' : 'LIVENESS',
         status: 'IN_PROGRESS',
         images: {
           liveImage: {
-            url: imageUrl,
+            url: options.imageUrl,
+            dimensions: { width: image.width, height: image.height },
             captureMethod: options.captureMethod || 'camera',
             timestamp: new Date()
           }
@@ -52,23 +91,26 @@ export class FaceRecognitionService {
       
       await verification.save();
 
-      // Load and process image
-      const img = await faceapi.fetchImage(imageUrl);
-      
       // Comprehensive face detection with all features
+      tensor = this.toTensor(image);
+      const detectionStart = Date.now();
       const detections = await faceapi
-        .detectAllFaces(img, this.detectorOptions)
+        .detectAllFaces(tensor, this.detectorOptions)
         .withFaceLandmarks()
         .withFaceExpressions()
-        .withAgeAndGender();
+        .withAgeAndGender()
+        .withFaceDescriptors();
+      const detectionTime = Date.now() - detectionStart;
 
       if (!detections || detections.length === 0) {
         await this.updateVerificationResult(verification, false, 'NO_FACE_DETECTED');
         return {
           success: false,
+          code: 'NO_FACE_DETECTED',
           error: 'No face detected in image',
           confidence: 0,
-          verificationId: verification.verificationId
+          verificationId: verification.verificationId,
+          details: { facesDetected: 0 }
         };
       }
 
@@ -76,22 +118,42 @@ export class FaceRecognitionService {
         await this.updateVerificationResult(verification, false, 'MULTIPLE_FACES');
         return {
           success: false,
+          code: 'MULTIPLE_FACES',
           error: 'Multiple faces detected - please ensure only one person is in frame',
           confidence: 0,
-          verificationId: verification.verificationId
+          verificationId: verification.verificationId,
+          details: { facesDetected: detections.length }
         };
       }
 
       const detection = detections[0];
       
       // Perform comprehensive liveness analysis
-      const livenessResult = await this.performLivenessAnalysis(detection, img);
-      const antiSpoofingResult = await this.performAntiSpoofingAnalysis(detection, img);
-      const qualityAnalysis = await this.analyzeImageQuality(detection, img);
+      const qualityAnalysis = await this.analyzeImageQuality(detection, image);
+      const livenessResult = await this.performLivenessAnalysis(detection, qualityAnalysis);
+      const antiSpoofingResult = await this.performAntiSpoofingAnalysis(detection, image);
+      livenessResult.timings.detection = detectionTime;
+
+      // The same face, moving as each challenge asked, across the recorded frames
+      let temporalConsistency = null;
+      if (options.frames) {
+        const frames = await this.analyzeFrames(options.frames, options.challenges || []);
+        temporalConsistency = MultiFrameLivenessService.verify(frames, options.challenges || [], detection.descriptor, {
+          maxSpanMs: options.maxSpanMs
+        });
+        livenessResult.checks.temporalConsistency = temporalConsistency;
+        livenessResult.failureReasons.push(...temporalConsistency.failureReasons);
+        verification.images.additionalFrames = frames.map(frame => ({
+          frameNumber: frame.frameNumber,
+          timestamp: new Date(frame.timestamp),
+          quality: frame.score,
+          metadata: { challengeId: frame.challengeId, faces: frame.faces, width: frame.width, height: frame.height }
+        }));
+      }
       
       // Calculate overall liveness score
       const overallScore = this.calculateLivenessScore(livenessResult, antiSpoofingResult, qualityAnalysis);
-      const passed = overallScore >= 0.75;
+      const passed = overallScore >= 0.75 && (!temporalConsistency || temporalConsistency.passed);
       
       // Update verification record with detailed results
       verification.status = passed ? 'SUCCESS' : 'FAILED';
@@ -105,11 +167,13 @@ export class FaceRecognitionService {
         antiSpoofing: antiSpoofingResult,
         processingTime: Date.now() - startTime,
         processedAt: new Date(),
-        frameCount: 1,
+        frameCount: 1 + (options.frames?.length || 0),
         analysisDetails: {
-          ageGender: detection.ageAndGender,
+          ageGender: { age: detection.age, gender: detection.gender, genderProbability: detection.genderProbability },
           expressions: detection.expressions,
-          landmarks: detection.landmarks.positions.length
+          landmarks: detection.landmarks.positions.length,
+          faceArea: qualityAnalysis.faceArea,
+          challenges: options.challenges
         }
       };
       
@@ -117,10 +181,16 @@ export class FaceRecognitionService {
         passed,
         overallScore: Math.round(overallScore * 100),
         confidence: detection.detection.score,
-        failureReasons: passed ? [] : livenessResult.failureReasons,
+        failureReasons: passed ? [] : [
+          ...livenessResult.failureReasons,
+          ...(antiSpoofingResult.overall ? [] : ['SPOOFING_DETECTED'])
+        ],
         recommendations: this.generateRecommendations(livenessResult, antiSpoofingResult, qualityAnalysis),
         riskLevel: this.assessRiskLevel(overallScore, antiSpoofingResult),
-        riskFactors: this.identifyRiskFactors(livenessResult, antiSpoofingResult, qualityAnalysis)
+        riskFactors: this.identifyRiskFactors(livenessResult, antiSpoofingResult, qualityAnalysis),
+        riskSignals: Object.entries(antiSpoofingResult.signals).map(([signal, { score, threshold, flagged, detail }]) => ({
+          signal, score, threshold, flagged, detail
+        }))
       };
       
       verification.quality = {
@@ -142,16 +212,32 @@ export class FaceRecognitionService {
 
       await verification.save();
 
+      // A live selfie joins the duplicate-face index searched at submission
+      if (passed) {
+        try {
+          await FaceIndexService.enroll({ userId, kycApplicationId, verification, descriptor: detection.descriptor });
+        } catch (error) {
+          console.error('Face embedding enrolment error:', error);
+        }
+      }
+
       return {
         success: passed,
         confidence: overallScore,
         verificationId: verification.verificationId,
         score: Math.round(overallScore * 100),
         details: {
+          facesDetected: 1,
           faceDetected: true,
           faceQuality: detection.detection.score,
+          faceArea: qualityAnalysis.faceArea,
+          landmarks: detection.landmarks.positions.length,
+          pose: livenessResult.checks.headPose,
+          imageQuality: qualityAnalysis,
           livenessChecks: livenessResult.checks,
-          antiSpoofing: antiSpoofingResult.overall,
+          antiSpoofing: antiSpoofingResult,
+          temporalConsistency,
+          failureReasons: verification.result.failureReasons,
           recommendations: verification.result.recommendations
         }
       };
@@ -173,35 +259,40 @@ export class FaceRecognitionService {
 
       return {
         success: false,
+        code: 'PROCESSING_ERROR',
         error: 'Failed to process liveness detection',
         confidence: 0,
         verificationId: verification?.verificationId
       };
+    } finally {
+      tensor?.dispose();
     }
   }
 
   /**
-   * Face matching between two images
+   * Face matching between two images (Buffers)
    */
-  async compareFaces(sourceImageUrl, targetImageUrl, userId, kycApplicationId = null, options = {}) {
+  async compareFaces(sourceImage, targetImage, userId, kycApplicationId = null, options = {}) {
     await this.initialize();
     
     const startTime = Date.now();
+    let verification;
+    let tensors = [];
     
     try {
       // Create verification record
-      const verification = new FaceVerification({
+      verification = new FaceVerification({
         userId,
         kycApplicationId,
         type: options.matchType || 'FACE_MATCH',
         status: 'IN_PROGRESS',
         images: {
           liveImage: {
-            url: sourceImageUrl,
+            url: options.sourceImageUrl,
             captureMethod: options.sourceCaptureMethod || 'camera'
           },
           referenceImage: {
-            url: targetImageUrl,
+            url: options.targetImageUrl,
             source: options.referenceSource || 'document'
           }
         }
@@ -210,10 +301,9 @@ export class FaceRecognitionService {
       await verification.save();
 
       // Load both images
-      const [sourceImg, targetImg] = await Promise.all([
-        faceapi.fetchImage(sourceImageUrl),
-        faceapi.fetchImage(targetImageUrl)
-      ]);
+      tensors = (await Promise.all([this.loadImage(sourceImage), this.loadImage(targetImage)]))
+        .map(image => this.toTensor(image));
+      const [sourceImg, targetImg] = tensors;
 
       // Detect faces and extract descriptors
       const [sourceDetection, targetDetection] = await Promise.all([
@@ -326,18 +416,288 @@ export class FaceRecognitionService {
         error: 'Failed to compare faces',
         verificationId: verification?.verificationId
       };
+    } finally {
+      tensors.forEach(tensor => tensor.dispose());
     }
   }
 
+  /**
+   * Match an enrolled selfie ({ descriptor, verificationId } from
+   * FaceIndexService.latestSelfie) with the photo on one uploaded ID, saved as
+   * a DOCUMENT_FACE_MATCH FaceVerification. `upload` is { id, type, image }
+   * with a Buffer of the cleaned card crop. Returns a DocumentFaceMatch, or
+   * null for an upload without a photo.
+   */
+  async matchDocumentFace(selfie, upload, userId, kycApplicationId = null) {
+    const documentType = DocumentFaceMatchService.photoIdType(upload.type);
+    const images = { [documentType]: upload.image };
+    if (documentType === 'aadhaar' && upload.image) {
+      images.secure_qr = await this.secureQrPortrait(upload.image);
+    }
+    const sources = DocumentFaceMatchService.portraitSources(upload.type).filter(source => images[source]);
+    if (!documentType || (sources.length === 0 && /_back$/.test(upload.type))) return null;
+
+    await this.initialize();
+
+    const startTime = Date.now();
+    let verification;
+
+    try {
+      verification = new FaceVerification({
+        userId,
+        kycApplicationId,
+        type: 'DOCUMENT_FACE_MATCH',
+        status: 'IN_PROGRESS',
+        images: {
+          referenceImage: { source: 'document' }
+        }
+      });
+
+      await verification.save();
+
+      let source = documentType;
+      let detection = null;
+      for (const candidate of sources) {
+        try {
+          detection = await this.detectPortrait(images[candidate], candidate);
+        } catch (error) {
+          console.warn(`Portrait from ${candidate} could not be read:`, error);
+        }
+        if (detection) {
+          source = candidate;
+          break;
+        }
+      }
+
+      const threshold = DocumentFaceMatchService.THRESHOLDS[source];
+      const distance = detection
+        ? Math.round(faceapi.euclideanDistance(selfie.descriptor, detection.descriptor) * 1000) / 1000
+        : undefined;
+      const matchScore = detection ? DocumentFaceMatchService.calibratedSimilarity(distance, source) : 0;
+      const isMatch = detection ? distance <= threshold : false;
+      const error = detection ? undefined : sources.length > 0 ? 'No face found on the document' : 'No image of the document to compare';
+
+      verification.status = isMatch ? 'SUCCESS' : 'FAILED';
+      verification.faceMatch = {
+        similarity: matchScore,
+        confidence: detection ? detection.detection.score : 0,
+        threshold: 0.5,
+        decision: isMatch,
+        faceDescriptor: {
+          dimensions: selfie.descriptor.length,
+          algorithm: 'face-api.js',
+          version: '0.22.2'
+        },
+        document: {
+          documentId: upload.id,
+          documentType,
+          portraitSource: source,
+          distance,
+          distanceThreshold: threshold,
+          selfieVerificationId: selfie.verificationId
+        },
+        algorithm: 'euclidean-distance',
+        processingTime: Date.now() - startTime,
+        processedAt: new Date()
+      };
+
+      verification.result = {
+        passed: isMatch,
+        overallScore: Math.round(matchScore * 100),
+        confidence: verification.faceMatch.confidence,
+        failureReasons: isMatch ? [] : [detection ? 'FACE_MISMATCH' : 'NO_FACE_IN_DOCUMENT'],
+        recommendations: isMatch ? [] : detection
+          ? ['The selfie does not match the photo on the document; the application needs manual review']
+          : ['Upload a clearer image of the document with the photo fully visible']
+      };
+
+      verification.processing = {
+        attemptNumber: 1,
+        totalProcessingTime: Date.now() - startTime,
+        faceMatchingTime: Date.now() - startTime,
+        worker: process.env.HOSTNAME || 'unknown'
+      };
+
+      await verification.save();
+
+      return {
+        documentId: upload.id,
+        documentType,
+        source,
+        distance,
+        threshold,
+        matchScore,
+        isMatch,
+        error,
+        verificationId: verification.verificationId
+      };
+
+    } catch (error) {
+      console.error('Document face match error:', error);
+
+      if (verification) {
+        verification.status = 'ERROR';
+        verification.result = {
+          passed: false,
+          overallScore: 0,
+          confidence: 0,
+          failureReasons: ['PROCESSING_ERROR'],
+          recommendations: ['Please try again with a clearer image of the document']
+        };
+        await verification.save();
+      }
+
+      return {
+        documentId: upload.id,
+        documentType,
+        source: documentType,
+        threshold: DocumentFaceMatchService.THRESHOLDS[documentType],
+        matchScore: 0,
+        isMatch: false,
+        error: 'Failed to compare the document photo',
+        verificationId: verification?.verificationId
+      };
+    }
+  }
+
+  /**
+   * The photo in the Secure QR printed on an Aadhaar card image, as JPEG.
+   * Decoded here rather than taken from the client, and only once UIDAI's
+   * signature verifies, as anyone's photo could be sent otherwise. Null when
+   * there is no verified QR photo.
+   */
+  async secureQrPortrait(imageBuffer) {
+    try {
+      const secureQr = await AadhaarQrService.decodeImage(imageBuffer);
+      return secureQr?.isAuthentic ? await AadhaarQrService.photoToJpeg(secureQr.photo) : null;
+    } catch (error) {
+      console.warn('Secure QR photo unavailable:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Face of the printed portrait on a card image (or of the Secure QR photo):
+   * found with the card detector, cropped with some margin, upscaled and
+   * analysed close up. Null without a face.
+   */
+  async detectPortrait(imageBuffer, source) {
+    const image = await this.loadImage(imageBuffer);
+    const tensor = this.toTensor(image);
+    let crop;
+    try {
+      const faces = await faceapi.detectAllFaces(tensor, new faceapi.TinyFaceDetectorOptions(DocumentFaceMatchService.CARD_DETECTOR));
+      crop = DocumentFaceMatchService.portraitCrop(faces.map(face => face.box), image.width, image.height, source);
+    } finally {
+      tensor.dispose();
+    }
+    if (!crop || crop.width < 1 || crop.height < 1) return null;
+
+    const { data, info } = await sharp(image.data, { raw: { width: image.width, height: image.height, channels: 3 } })
+      .extract({ left: crop.left, top: crop.top, width: crop.width, height: crop.height })
+      .resize({ width: Math.round(crop.width * crop.scale) })
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    const portrait = this.toTensor({ data, width: info.width, height: info.height });
+    try {
+      const detection = await faceapi
+        .detectSingleFace(portrait, new faceapi.TinyFaceDetectorOptions(DocumentFaceMatchService.PORTRAIT_DETECTOR))
+        .withFaceLandmarks()
+        .withFaceDescriptor();
+      return detection || null;
+    } finally {
+      portrait.dispose();
+    }
+  }
+
+  /**
+   * Decode an image Buffer to RGB pixels ({ data, width, height }), upright
+   * and downscaled to MAX_IMAGE_WIDTH
+   */
+  async loadImage(imageBuffer) {
+    const { data, info } = await sharp(imageBuffer)
+      .rotate()
+      .resize({ width: MAX_IMAGE_WIDTH, withoutEnlargement: true })
+      .removeAlpha()
+      .toColourspace('srgb')
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    return { data, width: info.width, height: info.height };
+  }
+
+  toTensor(image) {
+    return faceapi.tf.tensor3d(image.data, [image.height, image.width, 3], 'int32');
+  }
+
+  /**
+   * Faces, landmarks and descriptor of the recorded frames sampled by
+   * MultiFrameLivenessService.sampleFrames, in the order given, with
+   * expressions only for smile frames; the rest are hashed but not analysed.
+   * Frames are analysed one at a time to keep memory flat.
+   */
+  async analyzeFrames(frames, challenges = []) {
+    const sampled = MultiFrameLivenessService.sampleFrames(frames, challenges);
+    const smileChallenges = new Set(challenges.filter(challenge => challenge.type === 'smile').map(challenge => challenge.id));
+    const detectorOptions = new faceapi.TinyFaceDetectorOptions(FRAME_DETECTOR);
+    const analysed = [];
+
+    for (const [frameNumber, frame] of frames.entries()) {
+      const record = {
+        frameNumber,
+        challengeId: frame.challengeId,
+        timestamp: frame.timestamp,
+        hash: crypto.createHash('sha256').update(frame.buffer).digest('hex')
+      };
+      if (!sampled.has(frameNumber)) {
+        analysed.push({ ...record, faces: null, score: 0 });
+        continue;
+      }
+
+      const image = await this.loadImage(frame.buffer);
+      const tensor = this.toTensor(image);
+      try {
+        const withLandmarks = faceapi.detectAllFaces(tensor, detectorOptions).withFaceLandmarks();
+        const detections = smileChallenges.has(frame.challengeId)
+          ? await withLandmarks.withFaceExpressions().withFaceDescriptors()
+          : await withLandmarks.withFaceDescriptors();
+        const [detection] = detections;
+
+        analysed.push({
+          ...record,
+          width: image.width,
+          height: image.height,
+          faces: detections.length,
+          score: detection?.detection.score || 0,
+          landmarks: detection?.landmarks.positions.map(({ x, y }) => ({ x, y })),
+          expressions: detection?.expressions,
+          descriptor: detection?.descriptor
+        });
+      } finally {
+        tensor.dispose();
+      }
+    }
+
+    return analysed;
+  }
+
   // Private helper methods
-  async performLivenessAnalysis(detection, image) {
+  async performLivenessAnalysis(detection, qualityAnalysis) {
     const analysisStart = Date.now();
     
     const checks = {
       eyesOpen: this.analyzeEyeOpenness(detection.landmarks),
       headPose: this.analyzeHeadPose(detection.landmarks),
       expressionAnalysis: this.analyzeExpressions(detection.expressions),
-      imageQuality: this.assessImageQuality(detection, image)
+      imageQuality: {
+        passed: qualityAnalysis.passed,
+        brightness: qualityAnalysis.brightness,
+        contrast: qualityAnalysis.contrast,
+        sharpness: qualityAnalysis.sharpness,
+        uniformLighting: qualityAnalysis.uniformLighting,
+        shadows: !qualityAnalysis.uniformLighting
+      }
     };
     
     const overallScore = this.calculateChecksScore(checks);
@@ -347,57 +707,137 @@ export class FaceRecognitionService {
       checks,
       failureReasons: this.getFailureReasons(checks),
       timings: {
-        detection: analysisStart - Date.now() + 50, // Estimate detection time
+        detection: 0, // filled in by the caller, which runs the detector
         analysis: Date.now() - analysisStart
       }
     };
   }
 
+  /**
+   * Passive presentation-attack checks on the frame (screen moiré and bezel,
+   * print glare and texture), mapped onto the record's antiSpoofing section.
+   * The per-signal scores are kept for the risk section of the result, and a
+   * borderline flag passes the check but asks for review.
+   */
   async performAntiSpoofingAnalysis(detection, image) {
+    const { spoofSuspected, requiresReview, score, signals } = AntiSpoofingService.analyzeFrame(image, detection.detection.box);
+    const confidenceOf = (...names) => {
+      const worst = Math.max(...names.map(name => signals[name].score));
+      return names.some(name => signals[name].flagged) ? worst : Math.round((1 - worst) * 100) / 100;
+    };
+
     return {
-      overall: true, // Simplified - would implement actual anti-spoofing
-      confidence: 0.85,
+      overall: !spoofSuspected,
+      requiresReview,
+      confidence: spoofSuspected ? score : Math.round((1 - score) * 100) / 100,
       screenDetection: {
-        detected: false,
-        confidence: 0.9,
-        indicators: []
+        detected: signals.moire.flagged || signals.bezel.flagged,
+        confidence: confidenceOf('moire', 'bezel'),
+        indicators: [
+          ...(signals.moire.flagged ? ['moire'] : []),
+          ...(signals.bezel.flagged ? ['bezel'] : [])
+        ]
       },
       maskDetection: {
-        detected: false,
-        confidence: 0.88,
-        type: null
-      },
-      deepfakeDetection: {
-        detected: false,
-        confidence: 0.92,
-        artifacts: []
+        detected: signals.specular.flagged || signals.texture.flagged,
+        confidence: confidenceOf('specular', 'texture'),
+        type: signals.specular.flagged || signals.texture.flagged ? 'photo' : null
       },
       textureAnalysis: {
-        skinTexture: 0.85,
-        naturalVariation: true,
-        suspiciousArtifacts: []
-      }
+        skinTexture: Math.round((1 - signals.texture.score) * 100) / 100,
+        naturalVariation: !signals.texture.flagged,
+        suspiciousArtifacts: Object.entries(signals)
+          .filter(([name, signal]) => signal.flagged && (name === 'texture' || name === 'specular'))
+          .map(([, signal]) => signal.detail)
+      },
+      signals
     };
   }
 
+  /**
+   * Lighting, contrast and sharpness of the face region and the face's size in
+   * the frame, as 0-1 scores with the issues (codes) and suggestions to fix them
+   */
   async analyzeImageQuality(detection, image) {
+    const { box } = detection.detection;
+    const region = this.faceRegionLuma(image, box);
+    const half = Math.floor(region.width / 2);
+
+    let sum = 0;
+    let sumSquares = 0;
+    let leftSum = 0;
+    let rightSum = 0;
+    for (let y = 0; y < region.height; y++) {
+      for (let x = 0; x < region.width; x++) {
+        const value = region.data[y * region.width + x];
+        sum += value;
+        sumSquares += value * value;
+        if (x < half) leftSum += value;
+        else rightSum += value;
+      }
+    }
+
+    const count = region.width * region.height || 1;
+    const mean = sum / count;
+    const brightness = mean / 255;
+    const contrast = Math.min(1, Math.sqrt(Math.max(0, sumSquares / count - mean * mean)) / 128);
+    const blurVariance = ImageQualityService.laplacianVariance(region);
+    const sharpness = Math.min(1, blurVariance / ImageQualityService.THRESHOLDS.blurMedium);
+    const leftMean = leftSum / (half * region.height || 1);
+    const rightMean = rightSum / ((region.width - half) * region.height || 1);
+    const lightingImbalance = Math.abs(leftMean - rightMean) / (Math.max(leftMean, rightMean) || 1);
+    const uniformLighting = lightingImbalance <= QUALITY_LIMITS.maxLightingImbalance;
+    const faceWidth = box.width / image.width;
+
+    const problems = [
+      [brightness < QUALITY_LIMITS.minBrightness, 'TOO_DARK', 'Please move to a brighter place'],
+      [brightness > QUALITY_LIMITS.maxBrightness, 'OVEREXPOSED', 'Please avoid direct light on your face'],
+      [contrast < QUALITY_LIMITS.minContrast, 'LOW_CONTRAST', 'Please make sure your face is evenly lit'],
+      [blurVariance < ImageQualityService.THRESHOLDS.blurHigh, 'BLURRY', 'Please hold the camera steady'],
+      [!uniformLighting, 'UNEVEN_LIGHTING', 'Please face the light so both sides of your face are lit'],
+      [faceWidth < QUALITY_LIMITS.minFaceWidth, 'FACE_TOO_SMALL', 'Please move closer to the camera']
+    ].filter(([failed]) => failed);
+
+    const round = value => Math.round(value * 100) / 100;
     return {
-      overall: Math.min(1, detection.detection.score * 1.1),
-      brightness: 0.8, // Would implement actual analysis
-      contrast: 0.85,
-      sharpness: 0.9,
-      uniformLighting: true,
-      issues: [],
-      suggestions: []
+      overall: round(Math.max(0, Math.min(1, detection.detection.score * 1.1) - 0.15 * problems.length)),
+      passed: problems.length === 0,
+      brightness: round(brightness),
+      contrast: round(contrast),
+      sharpness: round(sharpness),
+      uniformLighting,
+      faceArea: round(box.area / (image.width * image.height)),
+      issues: problems.map(([, code]) => code),
+      suggestions: problems.map(([, , suggestion]) => suggestion)
     };
   }
 
+  /**
+   * Greyscale (luma) pixels inside the face box
+   */
+  faceRegionLuma(image, box) {
+    const left = Math.max(0, Math.floor(box.x));
+    const top = Math.max(0, Math.floor(box.y));
+    const width = Math.max(0, Math.min(image.width, Math.ceil(box.x + box.width)) - left);
+    const height = Math.max(0, Math.min(image.height, Math.ceil(box.y + box.height)) - top);
+    const data = new Uint8Array(width * height);
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const i = ((top + y) * image.width + left + x) * 3;
+        data[y * width + x] = Math.round(0.299 * image.data[i] + 0.587 * image.data[i + 1] + 0.114 * image.data[i + 2]);
+      }
+    }
+
+    return { data, width, height };
+  }
+
   analyzeEyeOpenness(landmarks) {
     const leftEye = landmarks.getLeftEye();
     const rightEye = landmarks.getRightEye();
     
-    const leftEAR = this.calculateEyeAspectRatio(leftEye);
-    const rightEAR = this.calculateEyeAspectRatio(rightEye);
+    const leftEAR = eyeAspectRatio(leftEye);
+    const rightEAR = eyeAspectRatio(rightEye);
     
     const avgEAR = (leftEAR + rightEAR) / 2;
     const eyesOpen = avgEAR > 0.2; // Threshold for open eyes
@@ -410,35 +850,60 @@ export class FaceRecognitionService {
     };
   }
 
+  /**
+   * Head pose in approximate degrees from the landmarks: roll from the slope
+   * between the eye centres, then, with the roll undone, yaw from where the
+   * nose tip sits between the jaw edges and pitch from where it sits between
+   * the eye line and the chin
+   */
   analyzeHeadPose(landmarks) {
-    // Simplified head pose analysis using landmark positions
-    const nose = landmarks.getNose();
-    const leftEye = landmarks.getLeftEye();
-    const rightEye = landmarks.getRightEye();
-    
-    const eyeCenter = {
-      x: (leftEye[0].x + rightEye[0].x) / 2,
-      y: (leftEye[0].y + rightEye[0].y) / 2
-    };
+    const leftEye = this.centroid(landmarks.getLeftEye());
+    const rightEye = this.centroid(landmarks.getRightEye());
+    const rollRadians = Math.atan2(rightEye.y - leftEye.y, rightEye.x - leftEye.x);
+
+    // Rotate about the point between the eyes so the eye line is level
+    const origin = { x: (leftEye.x + rightEye.x) / 2, y: (leftEye.y + rightEye.y) / 2 };
+    const cos = Math.cos(-rollRadians);
+    const sin = Math.sin(-rollRadians);
+    const level = point => ({
+      x: origin.x + (point.x - origin.x) * cos - (point.y - origin.y) * sin,
+      y: origin.y + (point.x - origin.x) * sin + (point.y - origin.y) * cos
+    });
+    const [jawLeft, jawRight, nose, chin] = [JAW_LEFT, JAW_RIGHT, NOSE_TIP, CHIN]
+      .map(index => level(landmarks.positions[index]));
+
+    const jawWidth = jawRight.x - jawLeft.x;
+    const yawRatio = jawWidth > 0 ? ((nose.x - jawLeft.x) / jawWidth - 0.5) * 2 : 0;
+    const faceHeight = chin.y - origin.y;
+    const pitchRatio = faceHeight > 0 ? ((nose.y - origin.y) / faceHeight - NEUTRAL_PITCH_RATIO) * 2 : 0;
+
+    const toDegrees = ratio => Math.round(Math.asin(Math.max(-1, Math.min(1, ratio))) * 180 / Math.PI);
+    const yaw = toDegrees(yawRatio);
+    const pitch = toDegrees(pitchRatio);
+    const roll = Math.round(rollRadians * 180 / Math.PI);
+
+    // Share of the allowed range still unused on the worst axis
+    const worst = Math.max(
+      Math.abs(yaw) / POSE_LIMITS.yaw,
+      Math.abs(pitch) / POSE_LIMITS.pitch,
+      Math.abs(roll) / POSE_LIMITS.roll
+    );
+    const naturalPose = worst <= 1;
     
-    const noseCenter = {
-      x: nose[3].x,
-      y: nose[3].y
+    return {
+      passed: naturalPose,
+      naturalPose,
+      pitch,
+      yaw,
+      roll,
+      stability: Math.round(Math.max(0, 1 - worst) * 100) / 100
     };
-    
-    // Calculate approximate yaw and roll
-    const yawAngle = Math.abs(noseCenter.x - eyeCenter.x);
-    const rollAngle = Math.abs(leftEye[0].y - rightEye[0].y);
-    
-    const neutralPose = yawAngle < 20 && rollAngle < 15;
-    
+  }
+
+  centroid(points) {
     return {
-      passed: neutralPose,
-      naturalPose: neutralPose,
-      pitch: 0, // Would implement actual pitch calculation
-      yaw: yawAngle,
-      roll: rollAngle,
-      stability: neutralPose ? 0.9 : 0.6
+      x: points.reduce((sum, point) => sum + point.x, 0) / points.length,
+      y: points.reduce((sum, point) => sum + point.y, 0) / points.length
     };
   }
 
@@ -458,15 +923,6 @@ export class FaceRecognitionService {
     };
   }
 
-  calculateEyeAspectRatio(eyeLandmarks) {
-    // Calculate eye aspect ratio (EAR)
-    const height1 = this.euclideanDistance(eyeLandmarks[1], eyeLandmarks[5]);
-    const height2 = this.euclideanDistance(eyeLandmarks[2], eyeLandmarks[4]);
-    const width = this.euclideanDistance(eyeLandmarks[0], eyeLandmarks[3]);
-    
-    return (height1 + height2) / (2.0 * width);
-  }
-
   euclideanDistance(point1, point2) {
     return Math.sqrt(Math.pow(point2.x - point1.x, 2) + Math.pow(point2.y - point1.y, 2));
   }
@@ -567,15 +1023,21 @@ export class FaceRecognitionService {
       recommendations.push('Please hold your head straight and face the camera directly');
     }
     
-    if (qualityAnalysis.overall < 0.7) {
-      recommendations.push('Please ensure good lighting and a clear image');
+    if (!antiSpoofingResult.overall) {
+      recommendations.push('Please take a live selfie with your camera, not a photo or a screen');
     }
     
+    if (livenessResult.checks.temporalConsistency?.passed === false) {
+      recommendations.push('Please keep your face in view and follow each instruction as it appears');
+    }
+    
+    recommendations.push(...qualityAnalysis.suggestions);
+    
     return recommendations;
   }
 
   assessRiskLevel(score, antiSpoofingResult) {
-    if (score > 0.9 && antiSpoofingResult.overall) return 'LOW';
+    if (score > 0.9 && antiSpoofingResult.overall && !antiSpoofingResult.requiresReview) return 'LOW';
     if (score > 0.7) return 'MEDIUM';
     return 'HIGH';
   }
@@ -585,6 +1047,10 @@ export class FaceRecognitionService {
     
     if (livenessResult.overallScore < 0.5) factors.push('LOW_LIVENESS_SCORE');
     if (!antiSpoofingResult.overall) factors.push('SPOOFING_DETECTED');
+    if (antiSpoofingResult.requiresReview) factors.push('SPOOFING_REVIEW_REQUIRED');
+    if (antiSpoofingResult.screenDetection.detected) factors.push('SCREEN_REPLAY_SUSPECTED');
+    if (antiSpoofingResult.maskDetection.detected) factors.push('PRINTED_PHOTO_SUSPECTED');
+    if (livenessResult.checks.temporalConsistency?.passed === false) factors.push('TEMPORAL_INCONSISTENCY');
     if (qualityAnalysis.overall < 0.6) factors.push('POOR_IMAGE_QUALITY');
     
     return factors;
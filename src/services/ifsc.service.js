@@ -0,0 +1,74 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * IFSC Service for SAHAJ KYC
+ * Bank branch lookups over the IFSC directory (data/ifsc.json, built by
+ * scripts/import-ifsc.js)
+ */
+export class IfscService {
+  static DATA_PATH = process.env.IFSC_DATA_PATH || path.join(process.cwd(), 'data', 'ifsc.json');
+
+  // Four-letter bank code, a reserved zero, then a six-character branch code
+  static IFSC_PATTERN = /^[A-Z]{4}0[A-Z0-9]{6}$/;
+
+  static directory = null;
+
+  /**
+   * Load the directory once; null when it has not been imported
+   */
+  static load() {
+    if (this.directory !== null) return this.directory || null;
+
+    try {
+      this.directory = JSON.parse(fs.readFileSync(this.DATA_PATH, 'utf8'));
+    } catch (error) {
+      console.error(`IFSC directory not available at ${this.DATA_PATH}; run npm run ifsc:import`, error.message);
+      this.directory = false;
+    }
+
+    return this.directory || null;
+  }
+
+  static isAvailable() {
+    return this.load() !== null;
+  }
+
+  static normalize(ifsc) {
+    return String(ifsc || '').replace(/\s/g, '').toUpperCase();
+  }
+
+  static isValidFormat(ifsc) {
+    return this.IFSC_PATTERN.test(this.normalize(ifsc));
+  }
+
+  /**
+   * Bank and branch details for an IFSC, or null when unknown
+   */
+  static lookup(ifsc) {
+    const directory = this.load();
+    const code = this.normalize(ifsc);
+    if (!directory || !this.IFSC_PATTERN.test(code)) return null;
+
+    const branch = directory.branches[code];
+    if (!branch) return null;
+
+    // Branch details are empty when the directory was built from Razorpay's
+    // validation release; a sublet IFSC names the sub-member bank holding the account
+    const [branchName, city, district, state, address, micr, services, bankCode = code.slice(0, 4)] = branch;
+    return {
+      ifsc: code,
+      bankCode,
+      bank: directory.banks[bankCode],
+      branch: branchName || null,
+      city: city || null,
+      district: district || null,
+      state: state || null,
+      address: address || null,
+      micr: micr || null,
+      services: directory.services.filter((service, bit) => services & (1 << bit))
+    };
+  }
+}
+
+export default IfscService;
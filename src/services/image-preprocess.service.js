@@ -0,0 +1,196 @@
+import sharp from 'sharp';
+import { ImageQualityService } from './image-quality.service.js';
+import { OcrService } from './ocr.service.js';
+
+/**
+ * Image Preprocess Service for SAHAJ KYC
+ * Crops the card out of a photo, corrects perspective and orientation,
+ * and normalizes contrast before OCR
+ */
+export class ImagePreprocessService {
+  static MAX_SOURCE_SIZE = 2000;
+  static MAX_OUTPUT_WIDTH = 1600;
+  static MIN_ORIENTATION_CONFIDENCE = 2;
+  static JPEG_QUALITY = 92;
+
+  // Width / height of the card face per document type
+  static CANONICAL_ASPECT_RATIOS = {
+    aadhaar: 1.586,
+    pan: 1.586,
+    driving_license: 1.586,
+    license: 1.586,
+    voter_id: 1.586,
+    passport: 1.42
+  };
+
+  /**
+   * Correct a document photo; returns { buffer (JPEG), width, height, cropped, rotation, corners }.
+   * Without a fully visible card the whole frame is kept and only orientation and contrast are fixed.
+   */
+  static async correctDocument(imageBuffer, options = {}) {
+    const { data, info } = await sharp(imageBuffer)
+      .rotate()
+      .resize(this.MAX_SOURCE_SIZE, this.MAX_SOURCE_SIZE, { fit: 'inside', withoutEnlargement: true })
+      .removeAlpha()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    const grey = await ImageQualityService.loadGreyscale(imageBuffer, ImageQualityService.CONTOUR_WIDTH);
+    const card = ImageQualityService.detectCard(grey);
+
+    let image = sharp(data, { raw: { width: info.width, height: info.height, channels: info.channels } });
+    let corners = null;
+
+    if (card.detected && card.missingCorners.length === 0) {
+      const scale = info.width / grey.width;
+      corners = this.toLandscape(Object.fromEntries(
+        Object.entries(card.corners).map(([name, point]) => [name, { x: point.x * scale, y: point.y * scale }])
+      ));
+
+      const measuredWidth = Math.max(
+        this.distance(corners.topLeft, corners.topRight),
+        this.distance(corners.bottomLeft, corners.bottomRight)
+      );
+      const measuredHeight = Math.max(
+        this.distance(corners.topLeft, corners.bottomLeft),
+        this.distance(corners.topRight, corners.bottomRight)
+      );
+      const aspectRatio = this.CANONICAL_ASPECT_RATIOS[options.documentType] ||
+        this.nearestAspectRatio(measuredWidth / measuredHeight);
+
+      const width = Math.round(Math.min(measuredWidth, this.MAX_OUTPUT_WIDTH));
+      const height = Math.round(width / aspectRatio);
+      const warped = this.warpPerspective(data, info, corners, width, height);
+
+      image = sharp(warped, { raw: { width, height, channels: info.channels } });
+    }
+
+    const rotation = await this.detectRotation(await image.clone().png().toBuffer());
+
+    const { data: output, info: outputInfo } = await image
+      .rotate(rotation)
+      .normalise()
+      .jpeg({ quality: this.JPEG_QUALITY })
+      .toBuffer({ resolveWithObject: true });
+
+    return {
+      buffer: output,
+      width: outputInfo.width,
+      height: outputInfo.height,
+      cropped: corners !== null,
+      rotation,
+      corners
+    };
+  }
+
+  /**
+   * Text orientation from Tesseract OSD; keeps the image as-is when OSD is
+   * unsure or unavailable
+   */
+  static async detectRotation(imageBuffer) {
+    try {
+      const orientation = await OcrService.detectOrientation(imageBuffer);
+      return orientation.confidence >= this.MIN_ORIENTATION_CONFIDENCE ? orientation.rotation : 0;
+    } catch (error) {
+      console.error('Orientation detection failed:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Cards photographed in portrait get their corners relabelled so the long edge
+   * becomes the top; OSD resolves any remaining 180° flip
+   */
+  static toLandscape(corners) {
+    const top = this.distance(corners.topLeft, corners.topRight);
+    const left = this.distance(corners.topLeft, corners.bottomLeft);
+    if (top >= left) return corners;
+
+    return {
+      topLeft: corners.bottomLeft,
+      topRight: corners.topLeft,
+      bottomRight: corners.topRight,
+      bottomLeft: corners.bottomRight
+    };
+  }
+
+  static nearestAspectRatio(measured) {
+    const ratios = [...new Set(Object.values(this.CANONICAL_ASPECT_RATIOS))];
+    return ratios.reduce((best, ratio) =>
+      Math.abs(ratio - measured) < Math.abs(best - measured) ? ratio : best);
+  }
+
+  /**
+   * Map the source quadrilateral onto a width x height rectangle with bilinear sampling
+   */
+  static warpPerspective(data, info, corners, width, height) {
+    const homography = this.computeHomography([
+      [{ x: 0, y: 0 }, corners.topLeft],
+      [{ x: width - 1, y: 0 }, corners.topRight],
+      [{ x: width - 1, y: height - 1 }, corners.bottomRight],
+      [{ x: 0, y: height - 1 }, corners.bottomLeft]
+    ]);
+    const [h0, h1, h2, h3, h4, h5, h6, h7] = homography;
+    const channels = info.channels;
+    const output = Buffer.alloc(width * height * channels);
+
+    for (let v = 0; v < height; v++) {
+      for (let u = 0; u < width; u++) {
+        const w = h6 * u + h7 * v + 1;
+        const x = Math.min(info.width - 1.001, Math.max(0, (h0 * u + h1 * v + h2) / w));
+        const y = Math.min(info.height - 1.001, Math.max(0, (h3 * u + h4 * v + h5) / w));
+
+        const x0 = Math.floor(x);
+        const y0 = Math.floor(y);
+        const fx = x - x0;
+        const fy = y - y0;
+        const topLeft = (y0 * info.width + x0) * channels;
+        const bottomLeft = topLeft + info.width * channels;
+        const target = (v * width + u) * channels;
+
+        for (let c = 0; c < channels; c++) {
+          const top = data[topLeft + c] * (1 - fx) + data[topLeft + channels + c] * fx;
+          const bottom = data[bottomLeft + c] * (1 - fx) + data[bottomLeft + channels + c] * fx;
+          output[target + c] = Math.round(top * (1 - fy) + bottom * fy);
+        }
+      }
+    }
+
+    return output;
+  }
+
+  /**
+   * Solve the 8 homography coefficients mapping destination points to source points
+   */
+  static computeHomography(pairs) {
+    const matrix = [];
+    pairs.forEach(([{ x: u, y: v }, { x, y }]) => {
+      matrix.push([u, v, 1, 0, 0, 0, -u * x, -v * x, x]);
+      matrix.push([0, 0, 0, u, v, 1, -u * y, -v * y, y]);
+    });
+
+    // Gaussian elimination with partial pivoting
+    const size = 8;
+    for (let col = 0; col < size; col++) {
+      let pivot = col;
+      for (let row = col + 1; row < size; row++) {
+        if (Math.abs(matrix[row][col]) > Math.abs(matrix[pivot][col])) pivot = row;
+      }
+      [matrix[col], matrix[pivot]] = [matrix[pivot], matrix[col]];
+
+      for (let row = 0; row < size; row++) {
+        if (row === col) continue;
+        const factor = matrix[row][col] / matrix[col][col];
+        for (let k = col; k <= size; k++) matrix[row][k] -= factor * matrix[col][k];
+      }
+    }
+
+    return matrix.map((row, index) => row[size] / row[index]);
+  }
+
+  static distance(a, b) {
+    return Math.hypot(a.x - b.x, a.y - b.y);
+  }
+}
+
+export default ImagePreprocessService;
@@ -0,0 +1,405 @@
+import sharp from 'sharp';
+
+/**
+ * Image Quality Service for SAHAJ KYC
+ * Scores document photos for blur, glare, card framing and resolution
+ * so users can retake them before any extraction or verification runs
+ */
+export class ImageQualityService {
+  static ANALYSIS_WIDTH = 800;
+  static CONTOUR_WIDTH = 240;
+
+  static THRESHOLDS = {
+    blurHigh: 40, // Laplacian variance
+    blurMedium: 100,
+    glarePixel: 250, // grey level treated as blown out
+    glareCellShare: 0.6, // share of blown-out pixels for a grid cell to count as glare
+    glareSurroundShare: 0.25, // most blown-out pixels the cells around a glare cluster may average
+    glareMedium: 0.01, // share of the card covered by the largest glare cluster
+    glareHigh: 0.05,
+    dpiHigh: 100,
+    dpiMedium: 150,
+    minCardArea: 0.2, // share of the frame the card must cover to be detected
+    cornerMargin: 0.015 // share of the frame treated as touching the border
+  };
+
+  static SEVERITY_PENALTIES = {
+    high: 0.4,
+    medium: 0.2,
+    low: 0.1
+  };
+
+  // ID-1 card width (85.6 mm) in inches
+  static CARD_WIDTH_INCHES = 3.37;
+
+  /**
+   * Analyze an image; returns { qualityScore (0-1), issues, metrics }
+   */
+  static async analyze(imageBuffer) {
+    const metadata = await sharp(imageBuffer).metadata();
+    const grey = await this.loadGreyscale(imageBuffer, this.ANALYSIS_WIDTH);
+    const contourGrey = await this.loadGreyscale(imageBuffer, this.CONTOUR_WIDTH);
+
+    const blurVariance = this.laplacianVariance(grey);
+    const card = this.detectCard(contourGrey);
+    const glare = this.detectGlare(grey, card.detected ? this.scaleCorners(card.corners, grey.width / contourGrey.width) : null);
+
+    // Scale the detected card back to source pixels to estimate print DPI
+    const sourceWidth = (metadata.orientation || 1) >= 5 ? metadata.height : metadata.width;
+    const cardWidthPixels = card.detected
+      ? card.width * (sourceWidth / contourGrey.width)
+      : sourceWidth;
+    const estimatedDpi = Math.round(cardWidthPixels / this.CARD_WIDTH_INCHES);
+
+    const issues = [
+      ...this.blurIssues(blurVariance),
+      ...this.glareIssues(glare.largestCluster),
+      ...this.cornerIssues(card),
+      ...this.resolutionIssues(estimatedDpi)
+    ];
+
+    const penalty = issues.reduce((sum, issue) => sum + this.SEVERITY_PENALTIES[issue.severity], 0);
+
+    return {
+      qualityScore: Math.round(Math.max(0, 1 - penalty) * 100) / 100,
+      issues,
+      metrics: {
+        blurVariance: Math.round(blurVariance),
+        glareCoverage: Math.round(glare.coverage * 1000) / 1000,
+        estimatedDpi,
+        card: {
+          detected: card.detected,
+          corners: card.corners,
+          missingCorners: card.missingCorners
+        }
+      }
+    };
+  }
+
+  /**
+   * Whether any issue is bad enough that the user should retake the photo
+   */
+  static requiresRetake(analysis) {
+    return analysis.issues.some(issue => issue.severity === 'high');
+  }
+
+  static async loadGreyscale(imageBuffer, width) {
+    const { data, info } = await sharp(imageBuffer)
+      .rotate()
+      .resize({ width, withoutEnlargement: true })
+      .greyscale()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    return { data, width: info.width, height: info.height };
+  }
+
+  /**
+   * Variance of the 4-neighbour Laplacian; low variance means few sharp edges
+   */
+  static laplacianVariance({ data, width, height }) {
+    let sum = 0;
+    let sumSquares = 0;
+    let count = 0;
+
+    for (let y = 1; y < height - 1; y++) {
+      for (let x = 1; x < width - 1; x++) {
+        const i = y * width + x;
+        const value = 4 * data[i] - data[i - 1] - data[i + 1] - data[i - width] - data[i + width];
+        sum += value;
+        sumSquares += value * value;
+        count++;
+      }
+    }
+
+    if (count === 0) return 0;
+    const mean = sum / count;
+    return sumSquares / count - mean * mean;
+  }
+
+  /**
+   * Blown-out pixels grouped on a coarse grid, inside the card quad when one
+   * was found. A cluster only counts as glare when it is a highlight on the
+   * print: clear of the frame and card edges and surrounded by cells that are
+   * not blown out themselves. White paper margins and backgrounds of scans,
+   * screenshots and PDF pages run into the edges or into more white paper.
+   */
+  static detectGlare({ data, width, height }, corners = null) {
+    const cellSize = Math.max(4, Math.round(width / 40));
+    const cols = Math.ceil(width / cellSize);
+    const rows = Math.ceil(height / cellSize);
+    const shares = new Float32Array(cols * rows);
+    const region = new Uint8Array(cols * rows);
+    const cells = new Uint8Array(cols * rows);
+
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < cols; col++) {
+        const top = row * cellSize;
+        const left = col * cellSize;
+        const bottom = Math.min(height, top + cellSize);
+        const right = Math.min(width, left + cellSize);
+        const centre = { x: (left + right) / 2, y: (top + bottom) / 2 };
+        if (corners && !this.insideQuad(centre, corners)) continue;
+
+        let saturated = 0;
+        for (let y = top; y < bottom; y++) {
+          for (let x = left; x < right; x++) {
+            if (data[y * width + x] >= this.THRESHOLDS.glarePixel) saturated++;
+          }
+        }
+        const index = row * cols + col;
+        region[index] = 1;
+        shares[index] = saturated / ((bottom - top) * (right - left));
+        cells[index] = shares[index] >= this.THRESHOLDS.glareCellShare ? 1 : 0;
+      }
+    }
+
+    const labels = new Int32Array(cells.length);
+    const clusters = this.connectedComponents(cells, cols, rows, false, labels)
+      .filter((_, index) => this.isHighlight(index + 1, labels, shares, region, cols, rows));
+    const regionCells = region.reduce((sum, inside) => sum + inside, 0) || 1;
+    const glareCells = clusters.reduce((sum, cluster) => sum + cluster.size, 0);
+    const largest = clusters.reduce((max, cluster) => Math.max(max, cluster.size), 0);
+
+    return {
+      coverage: glareCells / regionCells,
+      largestCluster: largest / regionCells
+    };
+  }
+
+  /**
+   * Whether the cluster with this label is enclosed by the region and the
+   * cells up to two steps around it are mostly not blown out
+   */
+  static isHighlight(label, labels, shares, region, cols, rows) {
+    const ring = new Set();
+
+    for (let index = 0; index < labels.length; index++) {
+      if (labels[index] !== label) continue;
+      const col = index % cols;
+      const row = (index - col) / cols;
+
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = Math.abs(dy) - 2; dx <= 2 - Math.abs(dy); dx++) {
+          const x = col + dx;
+          const y = row + dy;
+          const neighbour = y * cols + x;
+          const outside = x < 0 || x >= cols || y < 0 || y >= rows || !region[neighbour];
+          if (Math.abs(dx) + Math.abs(dy) === 1 && outside) return false;
+          if (!outside && labels[neighbour] !== label) ring.add(neighbour);
+        }
+      }
+    }
+
+    if (ring.size === 0) return false;
+    let share = 0;
+    ring.forEach(index => { share += shares[index]; });
+    return share / ring.size <= this.THRESHOLDS.glareSurroundShare;
+  }
+
+  static scaleCorners(corners, factor) {
+    return Object.fromEntries(Object.entries(corners)
+      .map(([name, point]) => [name, { x: point.x * factor, y: point.y * factor }]));
+  }
+
+  /**
+   * Whether a point lies inside the convex quad given by its corners
+   */
+  static insideQuad(point, { topLeft, topRight, bottomRight, bottomLeft }) {
+    const quad = [topLeft, topRight, bottomRight, bottomLeft];
+    return quad.every((corner, i) => {
+      const next = quad[(i + 1) % 4];
+      return (next.x - corner.x) * (point.y - corner.y) - (next.y - corner.y) * (point.x - corner.x) >= 0;
+    });
+  }
+
+  /**
+   * Find the card as the largest foreground region (Otsu threshold, foreground being
+   * whichever class is rarer along the frame border) and take its extreme points
+   * as the quadrilateral corners
+   */
+  static detectCard({ data, width, height }) {
+    const threshold = this.otsuThreshold(data);
+
+    let borderBright = 0;
+    let borderTotal = 0;
+    for (let x = 0; x < width; x++) {
+      borderBright += (data[x] > threshold) + (data[(height - 1) * width + x] > threshold);
+      borderTotal += 2;
+    }
+    for (let y = 0; y < height; y++) {
+      borderBright += (data[y * width] > threshold) + (data[y * width + width - 1] > threshold);
+      borderTotal += 2;
+    }
+    const foregroundIsBright = borderBright / borderTotal < 0.5;
+
+    const mask = new Uint8Array(width * height);
+    for (let i = 0; i < mask.length; i++) {
+      mask[i] = (data[i] > threshold) === foregroundIsBright ? 1 : 0;
+    }
+
+    const [region] = this.connectedComponents(mask, width, height, true)
+      .sort((a, b) => b.size - a.size);
+
+    if (!region || region.size / mask.length < this.THRESHOLDS.minCardArea) {
+      return {
+        detected: false,
+        width: 0,
+        corners: null,
+        missingCorners: ['topLeft', 'topRight', 'bottomRight', 'bottomLeft']
+      };
+    }
+
+    const corners = {
+      topLeft: region.extremes.minSum,
+      topRight: region.extremes.maxDiff,
+      bottomRight: region.extremes.maxSum,
+      bottomLeft: region.extremes.minDiff
+    };
+
+    const marginX = Math.max(1, Math.round(width * this.THRESHOLDS.cornerMargin));
+    const marginY = Math.max(1, Math.round(height * this.THRESHOLDS.cornerMargin));
+    const missingCorners = Object.entries(corners)
+      .filter(([, point]) =>
+        point.x < marginX || point.x >= width - marginX ||
+        point.y < marginY || point.y >= height - marginY)
+      .map(([name]) => name);
+
+    return {
+      detected: true,
+      width: Math.hypot(corners.topRight.x - corners.topLeft.x, corners.topRight.y - corners.topLeft.y),
+      corners,
+      missingCorners
+    };
+  }
+
+  /**
+   * 4-connected components of a binary grid; optionally tracks the extreme points
+   * along both diagonals for quadrilateral estimation. Each component's cells are
+   * labelled with its index plus one in `labels`.
+   */
+  static connectedComponents(mask, width, height, trackExtremes = false, labels = new Int32Array(mask.length)) {
+    const stack = new Int32Array(mask.length);
+    const components = [];
+
+    for (let start = 0; start < mask.length; start++) {
+      if (!mask[start] || labels[start]) continue;
+
+      const label = components.length + 1;
+      const extremes = trackExtremes ? {
+        minSum: null, maxSum: null, minDiff: null, maxDiff: null
+      } : null;
+      let size = 0;
+      let top = 0;
+      stack[top++] = start;
+      labels[start] = label;
+
+      while (top > 0) {
+        const index = stack[--top];
+        const x = index % width;
+        const y = (index - x) / width;
+        size++;
+
+        if (extremes) {
+          const sum = x + y;
+          const diff = x - y;
+          if (!extremes.minSum || sum < extremes.minSum.x + extremes.minSum.y) extremes.minSum = { x, y };
+          if (!extremes.maxSum || sum > extremes.maxSum.x + extremes.maxSum.y) extremes.maxSum = { x, y };
+          if (!extremes.minDiff || diff < extremes.minDiff.x - extremes.minDiff.y) extremes.minDiff = { x, y };
+          if (!extremes.maxDiff || diff > extremes.maxDiff.x - extremes.maxDiff.y) extremes.maxDiff = { x, y };
+        }
+
+        const neighbours = [
+          x > 0 ? index - 1 : -1,
+          x < width - 1 ? index + 1 : -1,
+          y > 0 ? index - width : -1,
+          y < height - 1 ? index + width : -1
+        ];
+        neighbours.forEach(neighbour => {
+          if (neighbour >= 0 && mask[neighbour] && !labels[neighbour]) {
+            labels[neighbour] = label;
+            stack[top++] = neighbour;
+          }
+        });
+      }
+
+      components.push({ size, extremes });
+    }
+
+    return components;
+  }
+
+  static otsuThreshold(data) {
+    const histogram = new Array(256).fill(0);
+    for (let i = 0; i < data.length; i++) histogram[data[i]]++;
+
+    let total = 0;
+    for (let level = 0; level < 256; level++) total += level * histogram[level];
+
+    let backgroundWeight = 0;
+    let backgroundSum = 0;
+    let best = { threshold: 127, variance: -1 };
+
+    for (let level = 0; level < 256; level++) {
+      backgroundWeight += histogram[level];
+      if (backgroundWeight === 0) continue;
+      const foregroundWeight = data.length - backgroundWeight;
+      if (foregroundWeight === 0) break;
+
+      backgroundSum += level * histogram[level];
+      const backgroundMean = backgroundSum / backgroundWeight;
+      const foregroundMean = (total - backgroundSum) / foregroundWeight;
+      const variance = backgroundWeight * foregroundWeight * (backgroundMean - foregroundMean) ** 2;
+
+      if (variance > best.variance) best = { threshold: level, variance };
+    }
+
+    return best.threshold;
+  }
+
+  static blurIssues(variance) {
+    if (variance < this.THRESHOLDS.blurHigh) {
+      return [{ type: 'blur', severity: 'high', message: 'Image is too blurry to read. Hold the phone steady and retake.' }];
+    }
+    if (variance < this.THRESHOLDS.blurMedium) {
+      return [{ type: 'blur', severity: 'medium', message: 'Image is slightly blurry. Tap to focus before capturing.' }];
+    }
+    return [];
+  }
+
+  static glareIssues(largestCluster) {
+    if (largestCluster >= this.THRESHOLDS.glareHigh) {
+      return [{ type: 'glare', severity: 'high', message: 'Strong glare is hiding part of the document. Tilt it away from the light and retake.' }];
+    }
+    if (largestCluster >= this.THRESHOLDS.glareMedium) {
+      return [{ type: 'glare', severity: 'medium', message: 'Some glare detected on the document.' }];
+    }
+    return [];
+  }
+
+  static cornerIssues(card) {
+    if (!card.detected) {
+      return [{ type: 'missing_corners', severity: 'medium', message: 'Could not find the document edges. Place it on a plain, contrasting surface.' }];
+    }
+    if (card.missingCorners.length > 0) {
+      return [{
+        type: 'missing_corners',
+        severity: card.missingCorners.length >= 2 ? 'high' : 'medium',
+        message: 'Part of the document is cut off. Keep all four corners inside the frame.'
+      }];
+    }
+    return [];
+  }
+
+  static resolutionIssues(estimatedDpi) {
+    if (estimatedDpi < this.THRESHOLDS.dpiHigh) {
+      return [{ type: 'low_resolution', severity: 'high', message: 'Image resolution is too low. Move closer to the document and retake.' }];
+    }
+    if (estimatedDpi < this.THRESHOLDS.dpiMedium) {
+      return [{ type: 'low_resolution', severity: 'medium', message: 'Image resolution is low; some text may not be readable.' }];
+    }
+    return [];
+  }
+}
+
+export default ImageQualityService;
@@ -1,9 +1,18 @@
-import { KycApplication, Document, AuditLog } from '../models/index.js';
-import { encrypt, decrypt } from '../../lib/encryption.js';
+import { KycApplication, Document, AuditLog, FaceVerification } from '../models/index.js';
+import { encrypt, decrypt, maskSensitiveData } from '../../lib/encryption.js';
 import { redis } from '../../lib/redis.js';
 import { SetuDigiLockerService } from './setu-digilocker.service.js';
 import { FaceService } from './face.service.js';
+import { FaceIndexService } from './face-index.service.js';
 import { NotificationService } from './notification.service.js';
+import { DocumentPairingService } from './document-pairing.service.js';
+import { DocumentService } from './document.service.js';
+import { ConsistencyService } from './consistency.service.js';
+import { SandboxService } from './sandbox.service.js';
+import { BankVerificationService } from './bank-verification.service.js';
+import { CkycService } from './ckyc.service.js';
+import { BusinessVerificationService } from './business-verification.service.js';
+import { VerificationProviderError } from './verification-provider.service.js';
 
 /**
  * Comprehensive KYC Service for SAHAJ KYC Application
@@ -21,6 +30,7 @@ export class KycService {
       // Check if user has any pending applications
       const existingApplication = await KycApplication.findOne({
         userId,
+        applicationType: { $ne: 'business' },
         status: { $in: ['pending', 'in_progress', 'under_review'] }
       });
 
@@ -200,6 +210,19 @@ export class KycService {
         }
       }
 
+      // Two-sided cards are incomplete until both sides are submitted
+      DocumentPairingService.findIncompleteDocuments(documents.map(doc => doc.documentType))
+        .forEach(({ baseType, missingSide }) => {
+          allDocumentsValid = false;
+          documentResults.push({
+            success: false,
+            documentType: baseType,
+            error: `The ${missingSide} side of this document is required`,
+            code: 'DOCUMENT_SIDE_MISSING',
+            missingSide
+          });
+        });
+
       // Update application status
       application.steps.documentsSubmitted = allDocumentsValid;
       application.status = allDocumentsValid ? 'documents_submitted' : 'documents_pending';
@@ -358,13 +381,15 @@ export class KycService {
         };
       }
 
-      // Initiate DigiLocker verification
-      const digiLockerResult = await SetuDigiLockerService.initiateDocumentFetch({
-        userId,
-        applicationId,
-        documentTypes: consentData.documentTypes,
-        purpose: consentData.purpose || 'KYC verification for SAHAJ platform'
-      });
+      // Initiate DigiLocker verification (sandbox mode never calls Setu)
+      const digiLockerResult = SandboxService.isEnabled()
+        ? SandboxService.fetchDigiLockerDocuments(applicationId, consentData)
+        : await SetuDigiLockerService.initiateDocumentFetch({
+          userId,
+          applicationId,
+          documentTypes: consentData.documentTypes,
+          purpose: consentData.purpose || 'KYC verification for SAHAJ platform'
+        });
 
       if (digiLockerResult.success) {
         application.steps.digiLockerVerificationCompleted = true;
@@ -396,7 +421,8 @@ export class KycService {
         redirectUrl: digiLockerResult.redirectUrl,
         nextStep: digiLockerResult.success ? 'final_review' : 'retry_digilocker',
         progress: application.progress,
-        error: digiLockerResult.error
+        error: digiLockerResult.error,
+        ...(digiLockerResult.sandbox && { sandbox: true })
       };
     } catch (error) {
       console.error('DigiLocker verification error:', error);
@@ -408,6 +434,800 @@ export class KycService {
     }
   }
 
+  /**
+   * Verify the applicant's bank account by penny drop and match the account
+   * holder name against the KYC name
+   */
+  static async verifyBankAccount(userId, applicationId, { accountNumber, ifsc }) {
+    try {
+      const application = await KycApplication.findOne({
+        _id: applicationId,
+        userId
+      });
+
+      if (!application) {
+        return {
+          success: false,
+          error: 'KYC application not found',
+          code: 'APPLICATION_NOT_FOUND'
+        };
+      }
+
+      // Sandbox mode always uses the deterministic stub provider
+      let result;
+      try {
+        result = await BankVerificationService.verify(
+          { accountNumber, ifsc, name: decrypt(application.personalInfo.fullName) },
+          SandboxService.isEnabled() ? { provider: BankVerificationService.DEFAULT_PROVIDER } : {}
+        );
+      } catch (error) {
+        if (!(error instanceof VerificationProviderError)) throw error;
+        return {
+          success: false,
+          error: 'Bank verification is temporarily unavailable. Please try again.',
+          code: error.code,
+          retryable: error.retryable
+        };
+      }
+
+      const account = String(accountNumber).replace(/[\s-]/g, '');
+      const bankAccount = {
+        verified: result.isValid,
+        accountNumberMasked: maskSensitiveData(account, 0, 4),
+        ifsc: String(ifsc).replace(/\s/g, '').toUpperCase(),
+        bankName: result.branch?.bank,
+        branch: result.branch?.branch,
+        accountHolderName: result.accountHolderName,
+        nameMatchScore: result.nameMatch?.score,
+        nameMatchStatus: result.nameMatch?.status,
+        nameMatchExplanation: result.nameMatch?.explanation || [],
+        provider: result.provider,
+        referenceId: result.referenceId,
+        errors: result.errors || [],
+        verifiedAt: new Date()
+      };
+      application.verification.bankAccount = { ...bankAccount, accountNumber: encrypt(account) };
+
+      const riskFactors = application.verification.riskFactors.filter(factor => factor !== 'BANK_NAME_MISMATCH');
+      if (result.nameMatch && result.nameMatch.status !== 'match') riskFactors.push('BANK_NAME_MISMATCH');
+      application.verification.riskFactors = riskFactors;
+
+      await application.save();
+
+      // Clear cache
+      await redis.del(`${this.CACHE_PREFIX}${applicationId}`);
+
+      // The result is saved; a failed audit write is logged, not returned
+      await AuditLog.create({
+        userId,
+        action: result.isValid ? 'BANK_ACCOUNT_VERIFIED' : 'BANK_ACCOUNT_VERIFICATION_FAILED',
+        resource: 'KycApplication',
+        resourceId: String(applicationId),
+        status: result.isValid ? 'SUCCESS' : 'FAILURE',
+        metadata: {
+          ifsc: bankAccount.ifsc,
+          accountExists: result.accountExists,
+          nameMatch: result.nameMatch,
+          provider: result.provider,
+          referenceId: result.referenceId
+        }
+      }).catch(error => console.error('Audit log write failed:', error));
+
+      return {
+        success: true,
+        verified: result.isValid,
+        bankAccount,
+        branch: result.branch,
+        error: result.errors?.[0],
+        ...(SandboxService.isEnabled() && { sandbox: true })
+      };
+    } catch (error) {
+      console.error('Bank account verification error:', error);
+      return {
+        success: false,
+        error: 'Failed to verify bank account',
+        details: error.message
+      };
+    }
+  }
+
+  /**
+   * Search the Central KYC Registry for an existing record before fresh KYC
+   */
+  static async searchCkyc(userId, applicationId, { idType, idNumber }) {
+    try {
+      const application = await KycApplication.findOne({
+        _id: applicationId,
+        userId
+      });
+
+      if (!application) {
+        return {
+          success: false,
+          error: 'KYC application not found',
+          code: 'APPLICATION_NOT_FOUND'
+        };
+      }
+
+      let result;
+      try {
+        result = await CkycService.search(
+          { idType, idNumber },
+          SandboxService.isEnabled() ? { provider: CkycService.DEFAULT_PROVIDER } : {}
+        );
+      } catch (error) {
+        if (!(error instanceof VerificationProviderError)) throw error;
+        return {
+          success: false,
+          error: 'The CKYC registry is temporarily unavailable. Please try again.',
+          code: error.code,
+          retryable: error.retryable
+        };
+      }
+
+      if (result.errors) {
+        return {
+          success: false,
+          error: result.errors[0],
+          code: 'INVALID_IDENTIFIER'
+        };
+      }
+
+      Object.assign(application.ckyc, {
+        status: result.found ? 'FOUND' : 'NOT_FOUND',
+        ckycNumber: result.found ? result.ckycNumber : undefined,
+        provider: result.provider,
+        searchedAt: new Date()
+      });
+      await application.save();
+
+      // Clear cache
+      await redis.del(`${this.CACHE_PREFIX}${applicationId}`);
+
+      // The result is saved; a failed audit write is logged, not returned
+      await AuditLog.create({
+        userId,
+        action: 'CKYC_SEARCHED',
+        resource: 'KycApplication',
+        resourceId: String(applicationId),
+        status: 'SUCCESS',
+        metadata: {
+          idType,
+          found: result.found,
+          provider: result.provider
+        }
+      }).catch(error => console.error('Audit log write failed:', error));
+
+      return {
+        success: true,
+        found: result.found,
+        ckycNumber: result.ckycNumber,
+        name: result.name,
+        fatherName: result.fatherName,
+        kycDate: result.kycDate,
+        nextStep: result.found ? 'ckyc_download' : 'fresh_kyc',
+        ...(SandboxService.isEnabled() && { sandbox: true })
+      };
+    } catch (error) {
+      console.error('CKYC search error:', error);
+      return {
+        success: false,
+        error: 'Failed to search the CKYC registry',
+        details: error.message
+      };
+    }
+  }
+
+  /**
+   * Download a CKYC record and pre-fill the application's personal information
+   */
+  static async downloadCkycRecord(userId, applicationId, { ckycNumber, dateOfBirth }) {
+    try {
+      const application = await KycApplication.findOne({
+        _id: applicationId,
+        userId
+      });
+
+      if (!application) {
+        return {
+          success: false,
+          error: 'KYC application not found',
+          code: 'APPLICATION_NOT_FOUND'
+        };
+      }
+
+      let record;
+      try {
+        record = await CkycService.download(
+          { ckycNumber, dateOfBirth },
+          SandboxService.isEnabled() ? { provider: CkycService.DEFAULT_PROVIDER } : {}
+        );
+      } catch (error) {
+        if (!(error instanceof VerificationProviderError)) throw error;
+        return {
+          success: false,
+          error: 'The CKYC registry is temporarily unavailable. Please try again.',
+          code: error.code,
+          retryable: error.retryable
+        };
+      }
+
+      const personalInfo = CkycService.toPersonalInfo(record);
+
+      Object.assign(application.personalInfo, {
+        fullName: encrypt(personalInfo.fullName),
+        fatherName: personalInfo.fatherName ? encrypt(personalInfo.fatherName) : undefined,
+        dateOfBirth: personalInfo.dateOfBirth,
+        gender: personalInfo.gender,
+        address: personalInfo.address,
+        extractedFrom: 'CKYC',
+        extractedAt: new Date()
+      });
+      Object.assign(application.ckyc, {
+        status: 'DOWNLOADED',
+        ckycNumber: record.ckycNumber,
+        provider: record.provider,
+        downloadedAt: new Date()
+      });
+      await application.save();
+
+      // Clear cache
+      await redis.del(`${this.CACHE_PREFIX}${applicationId}`);
+
+      // The record is saved; a failed audit write is logged, not returned
+      await AuditLog.create({
+        userId,
+        action: 'CKYC_RECORD_DOWNLOADED',
+        resource: 'KycApplication',
+        resourceId: String(applicationId),
+        status: 'SUCCESS',
+        metadata: {
+          ckycNumber: record.ckycNumber,
+          provider: record.provider
+        }
+      }).catch(error => console.error('Audit log write failed:', error));
+
+      return {
+        success: true,
+        ckycNumber: record.ckycNumber,
+        personalInfo,
+        ...(SandboxService.isEnabled() && { sandbox: true })
+      };
+    } catch (error) {
+      console.error('CKYC download error:', error);
+      return {
+        success: false,
+        error: 'Failed to download the CKYC record',
+        details: error.message
+      };
+    }
+  }
+
+  /**
+   * Generate the CKYC bulk upload file for approved applications;
+   * `generatedBy` is the admin user the audit entries are recorded against
+   */
+  static async generateCkycUpload(applicationIds, { fiCode, regionCode, branchCode, batchNumber, generatedBy }) {
+    try {
+      const applications = await KycApplication.find({ _id: { $in: applicationIds } });
+      // Only approved applications may be reported to the registry
+      const notApproved = applicationIds.filter(id =>
+        !applications.some(application => String(application._id) === String(id) &&
+          String(application.status).toUpperCase() === 'APPROVED'));
+
+      if (notApproved.length > 0) {
+        return {
+          success: false,
+          error: `Applications not found or not approved: ${notApproved.join(', ')}`,
+          code: 'APPLICATION_NOT_APPROVED'
+        };
+      }
+
+      const customers = applications.map(application => {
+        const identityInfo = application.identityInfo || {};
+        return {
+          reference: application.applicationId || String(application._id),
+          ckycNumber: application.ckyc?.ckycNumber,
+          fullName: decrypt(application.personalInfo.fullName),
+          fatherName: application.personalInfo.fatherName ? decrypt(application.personalInfo.fatherName) : undefined,
+          gender: application.personalInfo.gender,
+          dateOfBirth: application.personalInfo.dateOfBirth,
+          address: application.personalInfo.address,
+          mobile: application.contactInfo?.phone ? decrypt(application.contactInfo.phone) : undefined,
+          email: application.contactInfo?.email ? decrypt(application.contactInfo.email) : undefined,
+          kycDate: application.updatedAt,
+          identities: [
+            identityInfo.panNumber && { type: 'PAN', number: decrypt(identityInfo.panNumber) },
+            identityInfo.aadhaarNumber && { type: 'AADHAAR', number: decrypt(identityInfo.aadhaarNumber) },
+            identityInfo.passportNumber && { type: 'PASSPORT', number: decrypt(identityInfo.passportNumber) }
+          ].filter(Boolean)
+        };
+      });
+
+      const upload = CkycService.generateUploadFile(customers, { fiCode, regionCode, branchCode, batchNumber });
+
+      await Promise.all(applications.map(application => {
+        Object.assign(application.ckyc, {
+          status: 'UPLOAD_GENERATED',
+          uploadBatchNumber: batchNumber,
+          uploadGeneratedAt: new Date()
+        });
+        return application.save();
+      }));
+
+      // The applications are already marked as exported, so the file must reach
+      // the caller: a failed audit write is logged, not returned
+      await AuditLog.create(applications.map(application => ({
+        userId: generatedBy,
+        action: 'CKYC_UPLOAD_GENERATED',
+        resource: 'KycApplication',
+        resourceId: String(application._id),
+        status: 'SUCCESS',
+        metadata: {
+          batchNumber,
+          applicantUserId: String(application.userId),
+          recordCount: upload.recordCount
+        }
+      }))).catch(error => console.error('Audit log write failed:', error));
+
+      return {
+        success: true,
+        ...upload
+      };
+    } catch (error) {
+      console.error('CKYC upload generation error:', error);
+      return {
+        success: false,
+        error: 'Failed to generate the CKYC upload file',
+        details: error.message
+      };
+    }
+  }
+
+  /**
+   * Initialize a business KYC (KYB) application
+   */
+  static async initiateBusinessKyc(userId, applicationData) {
+    try {
+      const existingApplication = await KycApplication.findOne({
+        userId,
+        applicationType: 'business',
+        status: { $in: ['pending', 'in_progress', 'under_review'] }
+      });
+
+      if (existingApplication) {
+        return {
+          success: false,
+          error: 'You already have a pending business KYC application',
+          applicationId: existingApplication._id,
+          code: 'EXISTING_APPLICATION'
+        };
+      }
+
+      const { businessInfo, businessAddress, authorizedPersons } = applicationData;
+      const toAddress = address => address && {
+        line1: address.addressLine1,
+        line2: address.addressLine2,
+        city: address.city,
+        state: address.state,
+        pincode: address.pincode,
+        country: address.country
+      };
+
+      const kycApplication = new KycApplication({
+        userId,
+        applicationType: 'business',
+        method: 'DOCUMENTS',
+        business: {
+          businessName: businessInfo.businessName,
+          businessType: businessInfo.businessType,
+          registrationNumber: businessInfo.registrationNumber,
+          panNumber: encrypt(businessInfo.panNumber),
+          gstin: businessInfo.gstinNumber,
+          udyamNumber: businessInfo.udyamNumber,
+          incorporationDate: businessInfo.incorporationDate,
+          registeredAddress: toAddress(businessAddress.registeredAddress),
+          operationalAddress: toAddress(businessAddress.operationalAddress),
+          authorizedSignatories: authorizedPersons.map(person => ({
+            name: person.name,
+            designation: person.designation,
+            panNumber: encrypt(person.panNumber),
+            panMasked: maskSensitiveData(person.panNumber, 0, 4),
+            phone: encrypt(person.phone),
+            email: encrypt(person.email),
+            isDirector: person.isDirector,
+            shareholding: person.shareholding
+          }))
+        },
+        status: 'initiated',
+        steps: {
+          documentsSubmitted: false,
+          manualReviewRequired: true
+        },
+        metadata: {
+          language: applicationData.language || 'en',
+          ipAddress: applicationData.ipAddress,
+          userAgent: applicationData.userAgent
+        }
+      });
+
+      await kycApplication.save();
+
+      // The application is saved; a failed audit write is logged, not returned
+      await AuditLog.create({
+        userId,
+        action: 'BUSINESS_KYC_INITIATED',
+        resource: 'KycApplication',
+        resourceId: String(kycApplication._id),
+        metadata: {
+          businessType: businessInfo.businessType,
+          hasGstin: Boolean(businessInfo.gstinNumber),
+          hasUdyam: Boolean(businessInfo.udyamNumber),
+          signatories: authorizedPersons.length
+        },
+        ipAddress: applicationData.ipAddress,
+        userAgent: applicationData.userAgent
+      }).catch(error => console.error('Audit log write failed:', error));
+
+      return {
+        success: true,
+        applicationId: kycApplication._id,
+        status: kycApplication.status,
+        requiredDocuments: BusinessVerificationService.requiredDocuments(kycApplication.business),
+        nextStep: 'business_verification'
+      };
+    } catch (error) {
+      console.error('Business KYC initiation error:', error);
+      return {
+        success: false,
+        error: 'Failed to initiate business KYC application',
+        details: error.message
+      };
+    }
+  }
+
+  /**
+   * Verify the business's GSTIN and Udyam registration against the registries.
+   * Numbers passed here replace the ones captured at initiation.
+   */
+  static async verifyBusinessRegistration(userId, applicationId, { gstin, udyamNumber } = {}) {
+    try {
+      const application = await KycApplication.findOne({
+        _id: applicationId,
+        userId,
+        applicationType: 'business'
+      });
+
+      if (!application) {
+        return {
+          success: false,
+          error: 'Business KYC application not found',
+          code: 'APPLICATION_NOT_FOUND'
+        };
+      }
+
+      const business = application.business;
+      if (gstin) business.gstin = BusinessVerificationService.normalizeGstin(gstin);
+      if (udyamNumber) business.udyamNumber = BusinessVerificationService.normalizeUdyam(udyamNumber);
+
+      if (!business.gstin && !business.udyamNumber) {
+        return {
+          success: false,
+          error: 'A GSTIN or Udyam registration number is required',
+          code: 'REGISTRATION_NUMBER_REQUIRED'
+        };
+      }
+
+      const options = SandboxService.isEnabled() ? { provider: BusinessVerificationService.DEFAULT_PROVIDER } : {};
+      let gstinResult;
+      let udyamResult;
+      try {
+        gstinResult = business.gstin && await BusinessVerificationService.verifyGstin({
+          gstin: business.gstin,
+          businessName: business.businessName,
+          panNumber: decrypt(business.panNumber)
+        }, options);
+        udyamResult = business.udyamNumber && await BusinessVerificationService.verifyUdyam({
+          udyamNumber: business.udyamNumber,
+          businessName: business.businessName
+        }, options);
+      } catch (error) {
+        if (!(error instanceof VerificationProviderError)) throw error;
+        return {
+          success: false,
+          error: 'Business registry verification is temporarily unavailable. Please try again.',
+          code: error.code,
+          retryable: error.retryable
+        };
+      }
+
+      const verification = business.verification;
+      if (gstinResult) {
+        verification.gstin = {
+          verified: gstinResult.isValid,
+          legalName: gstinResult.legalName,
+          tradeName: gstinResult.tradeName,
+          registrationStatus: gstinResult.status,
+          constitution: gstinResult.constitution,
+          registrationDate: gstinResult.registrationDate,
+          nameMatchScore: gstinResult.nameMatch?.score,
+          provider: gstinResult.provider,
+          errors: gstinResult.errors || [],
+          verifiedAt: new Date()
+        };
+      }
+      if (udyamResult) {
+        verification.udyam = {
+          verified: udyamResult.isValid,
+          enterpriseName: udyamResult.enterpriseName,
+          enterpriseType: udyamResult.enterpriseType,
+          majorActivity: udyamResult.majorActivity,
+          registrationStatus: udyamResult.status,
+          registrationDate: udyamResult.registrationDate,
+          nameMatchScore: udyamResult.nameMatch?.score,
+          provider: udyamResult.provider,
+          errors: udyamResult.errors || [],
+          verifiedAt: new Date()
+        };
+      }
+
+      const riskFactors = application.verification.riskFactors
+        .filter(factor => !['GSTIN_NOT_VERIFIED', 'UDYAM_NOT_VERIFIED'].includes(factor));
+      if (gstinResult && !gstinResult.isValid) riskFactors.push('GSTIN_NOT_VERIFIED');
+      if (udyamResult && !udyamResult.isValid) riskFactors.push('UDYAM_NOT_VERIFIED');
+      application.verification.riskFactors = riskFactors;
+
+      await application.save();
+
+      // Clear cache
+      await redis.del(`${this.CACHE_PREFIX}${applicationId}`);
+
+      // The results are saved; a failed audit write is logged, not returned
+      await Promise.all([
+        gstinResult && AuditLog.create({
+          userId,
+          action: gstinResult.isValid ? 'GSTIN_VERIFIED' : 'GSTIN_VERIFICATION_FAILED',
+          resource: 'KycApplication',
+          resourceId: String(applicationId),
+          status: gstinResult.isValid ? 'SUCCESS' : 'FAILURE',
+          metadata: {
+            gstin: business.gstin,
+            registrationStatus: gstinResult.status,
+            nameMatch: gstinResult.nameMatch,
+            provider: gstinResult.provider
+          }
+        }).catch(error => console.error('Audit log write failed:', error)),
+        udyamResult && AuditLog.create({
+          userId,
+          action: udyamResult.isValid ? 'UDYAM_VERIFIED' : 'UDYAM_VERIFICATION_FAILED',
+          resource: 'KycApplication',
+          resourceId: String(applicationId),
+          status: udyamResult.isValid ? 'SUCCESS' : 'FAILURE',
+          metadata: {
+            udyamNumber: business.udyamNumber,
+            registrationStatus: udyamResult.status,
+            nameMatch: udyamResult.nameMatch,
+            provider: udyamResult.provider
+          }
+        }).catch(error => console.error('Audit log write failed:', error))
+      ]);
+
+      return {
+        success: true,
+        gstin: business.gstin ? verification.gstin : undefined,
+        udyam: business.udyamNumber ? verification.udyam : undefined,
+        requiredDocuments: BusinessVerificationService.requiredDocuments(business),
+        ...(SandboxService.isEnabled() && { sandbox: true })
+      };
+    } catch (error) {
+      console.error('Business registration verification error:', error);
+      return {
+        success: false,
+        error: 'Failed to verify business registration',
+        details: error.message
+      };
+    }
+  }
+
+  /**
+   * Link an authorised signatory to their individual KYC application.
+   * The individual application must carry the same PAN as the signatory.
+   */
+  static async linkAuthorizedSignatory(userId, applicationId, { signatoryIndex, kycApplicationId }) {
+    try {
+      const application = await KycApplication.findOne({
+        _id: applicationId,
+        userId,
+        applicationType: 'business'
+      });
+
+      if (!application) {
+        return {
+          success: false,
+          error: 'Business KYC application not found',
+          code: 'APPLICATION_NOT_FOUND'
+        };
+      }
+
+      const signatory = application.business.authorizedSignatories[signatoryIndex];
+      if (!signatory) {
+        return {
+          success: false,
+          error: 'Authorised signatory not found',
+          code: 'SIGNATORY_NOT_FOUND'
+        };
+      }
+
+      const individual = await KycApplication.findOne({
+        _id: kycApplicationId,
+        applicationType: { $ne: 'business' }
+      });
+
+      if (!individual) {
+        return {
+          success: false,
+          error: 'Individual KYC application not found',
+          code: 'SIGNATORY_KYC_NOT_FOUND'
+        };
+      }
+
+      const individualPan = individual.identityInfo?.panNumber ? decrypt(individual.identityInfo.panNumber) : null;
+      if (!individualPan || individualPan.toUpperCase() !== decrypt(signatory.panNumber).toUpperCase()) {
+        return {
+          success: false,
+          error: 'The individual KYC was not completed with the signatory\'s PAN',
+          code: 'SIGNATORY_PAN_MISMATCH'
+        };
+      }
+
+      signatory.kycApplicationId = individual._id;
+      signatory.kycStatus = individual.status;
+      signatory.linkedAt = new Date();
+      await application.save();
+
+      // Clear cache
+      await redis.del(`${this.CACHE_PREFIX}${applicationId}`);
+
+      // The link is saved; a failed audit write is logged, not returned
+      await AuditLog.create({
+        userId,
+        action: 'AUTHORIZED_SIGNATORY_LINKED',
+        resource: 'KycApplication',
+        resourceId: String(applicationId),
+        metadata: {
+          signatoryIndex,
+          designation: signatory.designation,
+          kycApplicationId: String(individual._id),
+          kycStatus: individual.status
+        }
+      }).catch(error => console.error('Audit log write failed:', error));
+
+      return {
+        success: true,
+        signatory: {
+          name: signatory.name,
+          designation: signatory.designation,
+          panMasked: signatory.panMasked,
+          kycApplicationId: individual._id,
+          kycStatus: individual.status,
+          linkedAt: signatory.linkedAt
+        }
+      };
+    } catch (error) {
+      console.error('Signatory linking error:', error);
+      return {
+        success: false,
+        error: 'Failed to link authorised signatory',
+        details: error.message
+      };
+    }
+  }
+
+  /**
+   * Build and store the KYB review checklist for a business application
+   */
+  static async getBusinessReviewChecklist(applicationId) {
+    try {
+      const application = await KycApplication.findOne({
+        _id: applicationId,
+        applicationType: 'business'
+      });
+
+      if (!application) {
+        return {
+          success: false,
+          error: 'Business KYC application not found',
+          code: 'APPLICATION_NOT_FOUND'
+        };
+      }
+
+      const checklist = await this.buildBusinessChecklist(application);
+      await application.save();
+
+      return {
+        success: true,
+        applicationId: application._id,
+        businessName: application.business.businessName,
+        checklist,
+        generatedAt: application.review.checklistGeneratedAt
+      };
+    } catch (error) {
+      console.error('Business review checklist error:', error);
+      return {
+        success: false,
+        error: 'Failed to build business review checklist',
+        details: error.message
+      };
+    }
+  }
+
+  /**
+   * Review data for a reviewer: risk assessment, checklist and the other
+   * applicants whose selfie matched this one
+   */
+  static async getReviewData(applicationId) {
+    try {
+      const application = await KycApplication.findById(applicationId)
+        .select('userId applicationId applicationType status verification.riskLevel verification.riskFactors review submittedForReviewDate');
+
+      if (!application) {
+        return {
+          success: false,
+          error: 'KYC application not found',
+          code: 'APPLICATION_NOT_FOUND'
+        };
+      }
+
+      return {
+        success: true,
+        applicationId: application._id,
+        status: application.status,
+        riskLevel: application.verification.riskLevel,
+        riskFactors: application.verification.riskFactors,
+        review: application.review,
+        documentFaceMatches: await this.getDocumentFaceMatches(application.userId)
+      };
+    } catch (error) {
+      console.error('KYC review data error:', error);
+      return {
+        success: false,
+        error: 'Failed to fetch review data',
+        details: error.message
+      };
+    }
+  }
+
+  /**
+   * Latest server-side selfie-to-document photo match for each of the user's
+   * documents, from the DOCUMENT_FACE_MATCH FaceVerification records
+   */
+  static async getDocumentFaceMatches(userId) {
+    const verifications = await FaceVerification.find({ userId, type: 'DOCUMENT_FACE_MATCH' })
+      .sort({ createdAt: -1 })
+      .select('verificationId status faceMatch.similarity faceMatch.decision faceMatch.document result.failureReasons createdAt')
+      .lean();
+
+    const latest = new Map();
+    verifications.forEach(verification => {
+      const documentId = verification.faceMatch?.document?.documentId;
+      if (documentId && !latest.has(documentId)) latest.set(documentId, verification);
+    });
+
+    return [...latest.values()].map(({ verificationId, status, faceMatch, result, createdAt }) => ({
+      verificationId,
+      status,
+      documentId: faceMatch.document.documentId,
+      documentType: faceMatch.document.documentType,
+      source: faceMatch.document.portraitSource,
+      distance: faceMatch.document.distance,
+      threshold: faceMatch.document.distanceThreshold,
+      matchScore: faceMatch.similarity ?? 0,
+      isMatch: Boolean(faceMatch.decision),
+      failureReasons: result?.failureReasons || [],
+      matchedAt: createdAt
+    }));
+  }
+
   /**
    * Submit KYC for final review
    */
@@ -426,8 +1246,11 @@ export class KycService {
         };
       }
 
-      // Check if all required steps are completed
-      const requiredSteps = ['documentsSubmitted', 'faceVerificationCompleted'];
+      // Check if all required steps are completed; businesses have no face step
+      const isBusiness = application.applicationType === 'business';
+      const requiredSteps = isBusiness
+        ? ['documentsSubmitted']
+        : ['documentsSubmitted', 'faceVerificationCompleted'];
       const missingSteps = requiredSteps.filter(step => !application.steps[step]);
 
       if (missingSteps.length > 0) {
@@ -440,7 +1263,9 @@ export class KycService {
       }
 
       // Perform final validation
-      const validationResult = await this.performFinalValidation(application);
+      const validationResult = isBusiness
+        ? await this.performBusinessValidation(application)
+        : await this.performFinalValidation(application);
 
       if (validationResult.requiresManualReview) {
         application.status = 'under_review';
@@ -468,18 +1293,40 @@ export class KycService {
       // Clear cache
       await redis.del(`${this.CACHE_PREFIX}${applicationId}`);
 
-      // Create audit log
+      // The decision is saved; failed audit writes are logged, not returned.
+      // A duplicate face goes first, as the entry fraud review works from.
+      const duplicateFaces = validationResult.duplicateFaces?.matches || [];
+      if (duplicateFaces.length > 0) {
+        await AuditLog.create({
+          userId,
+          action: 'SUSPICIOUS_ACTIVITY_DETECTED',
+          resource: 'KycApplication',
+          resourceId: String(applicationId),
+          status: 'WARNING',
+          riskLevel: application.verification.riskLevel,
+          metadata: {
+            description: `Selfie matches ${duplicateFaces.length} other applicant(s)`,
+            reason: 'DUPLICATE_FACE',
+            verificationId: validationResult.duplicateFaces.verificationId,
+            threshold: validationResult.duplicateFaces.threshold,
+            matches: duplicateFaces
+          },
+          tags: ['duplicate_face', 'fraud']
+        }).catch(error => console.error('Audit log write failed:', error));
+      }
+
       await AuditLog.create({
         userId,
-        action: 'KYC_SUBMITTED_FOR_REVIEW',
-        resourceType: 'KycApplication',
-        resourceId: applicationId,
-        details: {
+        action: 'KYC_APPLICATION_SUBMITTED',
+        resource: 'KycApplication',
+        resourceId: String(applicationId),
+        status: 'SUCCESS',
+        metadata: {
           finalStatus: application.status,
           requiresManualReview: validationResult.requiresManualReview,
           autoApproved: validationResult.autoApproved
         }
-      });
+      }).catch(error => console.error('Audit log write failed:', error));
 
       // Send appropriate notification
       if (application.status === 'approved') {
@@ -573,11 +1420,26 @@ export class KycService {
     let riskScore = 0;
     
     // Check document consistency
-    if (!this.checkDocumentConsistency(application)) {
+    const consistency = await this.checkDocumentConsistency(application);
+    validationChecks.documentConsistency = consistency.fields;
+    if (!consistency.consistent) {
       riskScore += 25;
       validationChecks.identityDataMatches = false;
     }
 
+    // The same face under another user's documents points to a reused identity
+    const duplicateFaces = await this.checkDuplicateFaces(application);
+    validationChecks.noDuplicateFace = duplicateFaces.checked ? duplicateFaces.matches.length === 0 : null;
+    if (duplicateFaces.matches.length > 0) {
+      riskScore += 50;
+    }
+
+    // A selfie that passed liveness with a borderline presentation-attack signal
+    const selfie = duplicateFaces.verificationId
+      ? await FaceVerification.findByVerificationId(duplicateFaces.verificationId).select('result.riskFactors')
+      : null;
+    validationChecks.selfieSpoofingReview = Boolean(selfie?.result?.riskFactors?.includes('SPOOFING_REVIEW_REQUIRED'));
+
     // Check for address verification
     if (application.steps.digiLockerVerificationCompleted) {
       validationChecks.addressVerified = true;
@@ -585,6 +1447,13 @@ export class KycService {
       riskScore += 15;
     }
 
+    // Bank account is an optional step; a failed check counts against the applicant
+    const bankAccount = application.verification.bankAccount;
+    validationChecks.bankAccountVerified = Boolean(bankAccount?.verified);
+    if (bankAccount?.verifiedAt && !bankAccount.verified) {
+      riskScore += 15;
+    }
+
     // Face verification confidence
     if (application.faceVerification && application.faceVerification.confidence < 0.8) {
       riskScore += 20;
@@ -593,19 +1462,69 @@ export class KycService {
     validationChecks.riskScore = riskScore;
 
     // Decision logic
-    const requiresManualReview = riskScore > 40 || !validationChecks.identityDataMatches;
+    const requiresManualReview = riskScore > 40 || !validationChecks.identityDataMatches ||
+                                 duplicateFaces.matches.length > 0 || validationChecks.selfieSpoofingReview;
     const autoApproved = riskScore <= 20 && validationChecks.documentsComplete && 
-                        validationChecks.faceVerificationPassed;
+                        validationChecks.faceVerificationPassed && !validationChecks.selfieSpoofingReview;
 
     return {
       validationChecks,
       requiresManualReview,
       autoApproved,
       riskScore,
+      duplicateFaces,
       rejectionReasons: riskScore > 70 ? ['High risk score', 'Manual review required'] : []
     };
   }
 
+  /**
+   * Business applications always go to a reviewer, with the KYB checklist
+   */
+  static async performBusinessValidation(application) {
+    const checklist = await this.buildBusinessChecklist(application);
+    const failed = checklist.filter(entry => entry.status === 'FAILED');
+
+    return {
+      validationChecks: { checklist },
+      requiresManualReview: true,
+      autoApproved: false,
+      riskScore: failed.length * 15,
+      rejectionReasons: []
+    };
+  }
+
+  /**
+   * Refresh linked signatory statuses and record the checklist on application.review
+   */
+  static async buildBusinessChecklist(application) {
+    const business = application.business;
+    const linkedIds = business.authorizedSignatories
+      .map(signatory => signatory.kycApplicationId)
+      .filter(Boolean);
+    const linked = linkedIds.length > 0
+      ? await KycApplication.find({ _id: { $in: linkedIds } }).select('status')
+      : [];
+
+    business.authorizedSignatories.forEach(signatory => {
+      const individual = linked.find(entry => String(entry._id) === String(signatory.kycApplicationId));
+      if (individual) signatory.kycStatus = individual.status;
+    });
+
+    const uploadedDocumentTypes = await Document.distinct('documentType', {
+      applicationId: application._id,
+      isDeleted: { $ne: true }
+    });
+
+    const checklist = BusinessVerificationService.buildReviewChecklist(business, {
+      uploadedDocumentTypes,
+      signatories: business.authorizedSignatories
+    });
+
+    application.review.checklist = checklist;
+    application.review.checklistGeneratedAt = new Date();
+    return checklist;
+  }
+
   /**
    * Helper methods
    */
@@ -621,12 +1540,73 @@ export class KycService {
       };
     }
 
+    // Duplicate-face matches identify other applicants; only reviewers see them
+    if (sanitized.review?.duplicateFaces) {
+      sanitized.review = { ...sanitized.review, duplicateFaces: undefined };
+    }
+
     return sanitized;
   }
 
-  static checkDocumentConsistency(application) {
-    // Implement document cross-verification logic
-    return true; // Placeholder
+  /**
+   * Cross-verify name, DOB and father's name across the application's documents
+   * and record the result on application.verification
+   */
+  static async checkDocumentConsistency(application) {
+    const documents = await DocumentService.getApplicationDocumentData(application._id);
+    const consistency = ConsistencyService.checkDocuments(documents);
+
+    if (consistency.documentScore !== null) {
+      application.verification.documentScore = consistency.documentScore;
+      application.verification.riskLevel = consistency.riskLevel;
+    }
+    application.verification.documentIssues = consistency.issues;
+    application.verification.documentsVerified = consistency.consistent;
+
+    const riskFactors = application.verification.riskFactors.filter(factor => factor !== 'DOCUMENT_DATA_MISMATCH');
+    if (!consistency.consistent) riskFactors.push('DOCUMENT_DATA_MISMATCH');
+    application.verification.riskFactors = riskFactors;
+
+    return consistency;
+  }
+
+  /**
+   * Search the face index for other users with this applicant's selfie and
+   * record the matches on application.review. Matches only ever raise the
+   * risk level.
+   */
+  static async checkDuplicateFaces(application) {
+    const search = await FaceIndexService.findDuplicates(application.userId);
+
+    // Liveness checks usually run before the application exists; point the
+    // reviewer at each matched user's latest application instead
+    const unlinked = search.matches.filter(match => !match.kycApplicationId).map(match => match.userId);
+    if (unlinked.length > 0) {
+      const applications = await KycApplication.find({ userId: { $in: unlinked } })
+        .sort({ createdAt: -1 })
+        .select('userId');
+      search.matches.forEach(match => {
+        if (match.kycApplicationId) return;
+        const latest = applications.find(entry => String(entry.userId) === match.userId);
+        match.kycApplicationId = latest ? String(latest._id) : null;
+      });
+    }
+
+    application.review.duplicateFaces = search.matches;
+    application.review.duplicateFacesCheckedAt = new Date();
+
+    const riskFactors = application.verification.riskFactors.filter(factor => factor !== 'DUPLICATE_FACE');
+    if (search.matches.length > 0) {
+      riskFactors.push('DUPLICATE_FACE');
+      const levels = ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'];
+      const matchLevel = FaceIndexService.riskLevel(search.matches);
+      if (levels.indexOf(matchLevel) > levels.indexOf(application.verification.riskLevel)) {
+        application.verification.riskLevel = matchLevel;
+      }
+    }
+    application.verification.riskFactors = riskFactors;
+
+    return search;
   }
 
   static async assignReviewer() {
@@ -0,0 +1,134 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { redis, CACHE_KEYS } from '../../lib/redis.js';
+
+export class LivenessChallengeError extends Error {
+  constructor(code, message) {
+    super(message);
+    this.name = 'LivenessChallengeError';
+    this.code = code;
+  }
+}
+
+/**
+ * Liveness Challenge Service for SAHAJ KYC
+ * Issues a random, ordered sequence of liveness challenges as a signed token
+ * that expires after TTL_SECONDS, and checks that the evidence submitted to
+ * /api/face/verify answers exactly that sequence, once, before it expires.
+ */
+export class LivenessChallengeService {
+  static CHALLENGE_TYPES = ['blink', 'smile', 'turn_head', 'nod'];
+  static TURN_DIRECTIONS = ['left', 'right'];
+  static MIN_CHALLENGES = 2;
+  static MAX_CHALLENGES = 3;
+  static TTL_SECONDS = Number(process.env.LIVENESS_CHALLENGE_TTL_SECONDS) || 120;
+  static AUDIENCE = 'sahaj-liveness';
+
+  static getSecret() {
+    const secret = process.env.LIVENESS_CHALLENGE_SECRET || process.env.JWT_SECRET;
+    if (!secret) {
+      throw new Error('LIVENESS_CHALLENGE_SECRET or JWT_SECRET environment variable is required');
+    }
+    return secret;
+  }
+
+  /**
+   * New challenge session for a user: { sessionId, challenges, token, expiresAt }.
+   * Challenges are [{ id, type, direction? }] in the order they must be performed;
+   * frames recorded during a challenge are labelled with its id.
+   */
+  static issue(userId) {
+    const sessionId = `liveness_${crypto.randomUUID()}`;
+    const challenges = this.randomSequence();
+    const expiresAt = new Date(Date.now() + this.TTL_SECONDS * 1000);
+
+    const token = jwt.sign({ challenges }, this.getSecret(), {
+      subject: String(userId),
+      jwtid: sessionId,
+      audience: this.AUDIENCE,
+      expiresIn: this.TTL_SECONDS
+    });
+
+    return { sessionId, challenges, token, expiresAt: expiresAt.toISOString() };
+  }
+
+  /**
+   * Check submitted challenge results ([{ id, type, direction?, completed, confidence }])
+   * against the session in `token`. Returns { sessionId, challenges } or throws
+   * LivenessChallengeError (INVALID_TOKEN, CHALLENGE_EXPIRED, CHALLENGE_REUSED,
+   * SEQUENCE_MISMATCH, CHALLENGE_INCOMPLETE).
+   */
+  static async verify(token, submitted, userId) {
+    let payload;
+    try {
+      payload = jwt.verify(String(token || ''), this.getSecret(), {
+        audience: this.AUDIENCE,
+        subject: String(userId)
+      });
+    } catch (error) {
+      if (error instanceof jwt.TokenExpiredError) {
+        throw new LivenessChallengeError('CHALLENGE_EXPIRED', 'Liveness challenge has expired');
+      }
+      throw new LivenessChallengeError('INVALID_TOKEN', 'Liveness challenge token is invalid');
+    }
+
+    const issued = payload.challenges;
+    const results = Array.isArray(submitted) ? submitted : [];
+    const matches = results.length === issued.length && issued.every((challenge, index) =>
+      results[index]?.id === challenge.id &&
+      results[index]?.type === challenge.type &&
+      (results[index]?.direction || undefined) === challenge.direction);
+    if (!matches) {
+      throw new LivenessChallengeError('SEQUENCE_MISMATCH', 'Submitted challenges do not match the issued sequence');
+    }
+
+    const incomplete = results.filter(result => !result.completed);
+    if (incomplete.length > 0) {
+      throw new LivenessChallengeError('CHALLENGE_INCOMPLETE', `Challenge not completed: ${incomplete.map(result => result.type).join(', ')}`);
+    }
+
+    await this.consume(payload.jti, payload.exp);
+
+    return { sessionId: payload.jti, challenges: issued };
+  }
+
+  /**
+   * Mark a session used so its evidence cannot be replayed. Without Redis the
+   * short expiry is the only protection.
+   */
+  static async consume(sessionId, exp) {
+    const ttl = Math.max(1, exp - Math.floor(Date.now() / 1000));
+    let first;
+    try {
+      first = await redis.set(`${CACHE_KEYS.FACE_VERIFICATION}challenge:${sessionId}`, 1, { nx: true, ex: ttl });
+    } catch (error) {
+      console.warn('Liveness challenge replay check unavailable:', error.message);
+      return;
+    }
+    if (first === null) {
+      throw new LivenessChallengeError('CHALLENGE_REUSED', 'Liveness challenge has already been used');
+    }
+  }
+
+  /**
+   * Random ordered subset of the challenge types, each used at most once,
+   * with a random id per challenge
+   */
+  static randomSequence() {
+    const types = [...this.CHALLENGE_TYPES];
+    for (let i = types.length - 1; i > 0; i--) {
+      const j = crypto.randomInt(i + 1);
+      [types[i], types[j]] = [types[j], types[i]];
+    }
+
+    const length = crypto.randomInt(this.MIN_CHALLENGES, this.MAX_CHALLENGES + 1);
+    return types.slice(0, length).map(type => {
+      const id = crypto.randomBytes(4).toString('hex');
+      return type === 'turn_head'
+        ? { id, type, direction: this.TURN_DIRECTIONS[crypto.randomInt(this.TURN_DIRECTIONS.length)] }
+        : { id, type };
+    });
+  }
+}
+
+export default LivenessChallengeService;
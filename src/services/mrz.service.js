@@ -0,0 +1,160 @@
+/**
+ * MRZ Service for SAHAJ KYC
+ * Locates and parses passport machine-readable zones (ICAO 9303 TD3)
+ * and validates every check digit
+ */
+export class MrzService {
+  static TD3_LINE_LENGTH = 44;
+  static CHECK_WEIGHTS = [7, 3, 1];
+
+  static CHECK_LABELS = {
+    documentNumber: 'document number',
+    dateOfBirth: 'date of birth',
+    expiryDate: 'date of expiry',
+    personalNumber: 'personal number',
+    composite: 'composite'
+  };
+
+  /**
+   * Find the two TD3 lines among OCR lines
+   */
+  static findTd3Lines(lines) {
+    const candidates = lines
+      .map(line => this.normalizeLine(typeof line === 'string' ? line : line.text))
+      .filter(text => text.length >= this.TD3_LINE_LENGTH - 4 && text.length <= this.TD3_LINE_LENGTH + 2 && text.includes('<'));
+
+    const firstIndex = candidates.findIndex(text => text.startsWith('P'));
+    if (firstIndex === -1 || !candidates[firstIndex + 1]) return null;
+
+    return [
+      this.fitLength(candidates[firstIndex]),
+      this.fitLength(candidates[firstIndex + 1])
+    ];
+  }
+
+  /**
+   * Parse TD3 lines and validate check digits
+   */
+  static parseTd3(line1, line2) {
+    const documentNumber = line2.slice(0, 9);
+    const birth = line2.slice(13, 19);
+    const expiry = line2.slice(21, 27);
+    const personalNumber = line2.slice(28, 42);
+
+    const checks = {
+      documentNumber: this.verifyCheckDigit(documentNumber, line2[9]),
+      dateOfBirth: this.verifyCheckDigit(birth, line2[19]),
+      expiryDate: this.verifyCheckDigit(expiry, line2[27]),
+      // An empty personal number may carry '<' or '0' as its check digit
+      personalNumber: /^<+$/.test(personalNumber) && ['<', '0'].includes(line2[42])
+        ? true
+        : this.verifyCheckDigit(personalNumber, line2[42]),
+      composite: this.verifyCheckDigit(
+        line2.slice(0, 10) + line2.slice(13, 20) + line2.slice(21, 43),
+        line2[43]
+      )
+    };
+
+    const [surname, givenNames = ''] = line1.slice(5).split('<<');
+
+    return {
+      documentType: line1.slice(0, 2).replace(/</g, ''),
+      issuingState: line1.slice(2, 5).replace(/</g, ''),
+      surname: surname.replace(/</g, ' ').trim(),
+      givenNames: givenNames.replace(/</g, ' ').trim(),
+      documentNumber: documentNumber.replace(/</g, ''),
+      nationality: line2.slice(10, 13).replace(/</g, ''),
+      dateOfBirth: this.toDisplayDate(birth, 'birth'),
+      sex: { M: 'MALE', F: 'FEMALE' }[line2[20]] || 'UNSPECIFIED',
+      expiryDate: this.toDisplayDate(expiry, 'expiry'),
+      personalNumber: personalNumber.replace(/</g, ''),
+      checks,
+      valid: Object.values(checks).every(Boolean)
+    };
+  }
+
+  /**
+   * ICAO 9303 check digit: weights 7-3-1, digits as-is, A-Z as 10-35, filler as 0
+   */
+  static computeCheckDigit(value) {
+    let sum = 0;
+    for (let i = 0; i < value.length; i++) {
+      const char = value[i];
+      let digit = 0;
+      if (char >= '0' && char <= '9') digit = char.charCodeAt(0) - 48;
+      else if (char >= 'A' && char <= 'Z') digit = char.charCodeAt(0) - 55;
+      sum += digit * this.CHECK_WEIGHTS[i % 3];
+    }
+    return sum % 10;
+  }
+
+  static verifyCheckDigit(value, checkDigit) {
+    return /^\d$/.test(checkDigit || '') && this.computeCheckDigit(value) === Number(checkDigit);
+  }
+
+  /**
+   * Failed check digits as validation issues
+   */
+  static toValidationIssues(mrz) {
+    return Object.entries(mrz.checks)
+      .filter(([, passed]) => !passed)
+      .map(([check]) => ({
+        type: 'suspicious_patterns',
+        severity: 'high',
+        message: `MRZ check digit failed for ${this.CHECK_LABELS[check]}`
+      }));
+  }
+
+  /**
+   * Compare MRZ values with the visual zone; returns the names of mismatching fields
+   */
+  static compareWithVisualZone(mrz, visual) {
+    const mismatches = [];
+    const normalizeName = value => value.toUpperCase().replace(/[^A-Z]/g, '');
+
+    if (visual.passportNumber && visual.passportNumber !== mrz.documentNumber) {
+      mismatches.push('passportNumber');
+    }
+    if (visual.dateOfBirth && visual.dateOfBirth !== mrz.dateOfBirth) {
+      mismatches.push('dateOfBirth');
+    }
+    if (visual.expiryDate && visual.expiryDate !== mrz.expiryDate) {
+      mismatches.push('expiryDate');
+    }
+    if (visual.fullName && normalizeName(visual.fullName) !== normalizeName(`${mrz.givenNames} ${mrz.surname}`)) {
+      mismatches.push('fullName');
+    }
+
+    return mismatches;
+  }
+
+  /**
+   * YYMMDD to DD/MM/YYYY; birth dates never lie in the future, expiry dates are 20xx
+   */
+  static toDisplayDate(value, kind) {
+    if (!/^\d{6}$/.test(value)) return null;
+
+    const yy = Number(value.slice(0, 2));
+    const currentYY = new Date().getFullYear() % 100;
+    const century = kind === 'birth' && yy > currentYY ? 1900 : 2000;
+
+    return `${value.slice(4, 6)}/${value.slice(2, 4)}/${century + yy}`;
+  }
+
+  /**
+   * OCR commonly turns fillers into spaces or '«'; undo what we safely can
+   */
+  static normalizeLine(text) {
+    return text
+      .toUpperCase()
+      .replace(/«/g, '<<')
+      .replace(/\s+/g, '')
+      .replace(/[^A-Z0-9<]/g, '<');
+  }
+
+  static fitLength(text) {
+    return text.padEnd(this.TD3_LINE_LENGTH, '<').slice(0, this.TD3_LINE_LENGTH);
+  }
+}
+
+export default MrzService;
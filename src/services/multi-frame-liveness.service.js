@@ -0,0 +1,252 @@
+import { JAW_LEFT, JAW_RIGHT, averageEyeAspectRatio, estimatePitch, estimateYaw, pointDistance } from '../../lib/face-landmarks.js';
+
+/**
+ * Multi-Frame Liveness Service for SAHAJ KYC
+ * Checks the burst of frames recorded during the liveness challenges for
+ * temporal consistency: frames in order and within the session, the same face
+ * throughout, a face that actually moves, and landmark motion that matches
+ * each challenge. A replayed still fails on all but the first.
+ *
+ * Frames are analysed by FaceRecognitionService and passed in as
+ * { frameNumber, challengeId, timestamp, hash, faces, landmarks, expressions, descriptor }
+ * with landmarks in un-mirrored camera coordinates, measured with the same
+ * landmark geometry as the browser (lib/face-landmarks.js). Frames left out by
+ * sampleFrames have faces null and only count towards timing and duplicates.
+ */
+export class MultiFrameLivenessService {
+  static MIN_FRAMES_PER_CHALLENGE = 3;
+  static MAX_FRAMES_PER_CHALLENGE = 8;
+  static MAX_FRAMES = 32;
+  static MAX_FRAME_BYTES = 512 * 1024;
+
+  // Frames per challenge run through the nets, which take about 3 s a frame on
+  // one CPU core. A blink lasts a frame or two, so every blink frame is kept;
+  // the other movements are held long enough to show on a few spread-out frames.
+  static ANALYSED_FRAMES_PER_CHALLENGE = { blink: this.MAX_FRAMES_PER_CHALLENGE, turn_head: 4, smile: 4, nod: 4 };
+  static DEFAULT_ANALYSED_FRAMES = 4;
+
+  // Largest descriptor distance between a frame and the selfie (face-api.js same-person default)
+  static IDENTITY_THRESHOLD = 0.6;
+
+  // Mean landmark movement between consecutive frames, in face widths, below which the face is frozen
+  static MIN_MOTION = 0.004;
+
+  // Slightly looser than the browser's detectors (lib/liveness.ts): the server
+  // only sees the recorded frames, as JPEGs, not every frame the browser judged
+  static CHALLENGE_LIMITS = {
+    blinkClosedRatio: 0.75, // lowest eye aspect ratio over the widest-open frame
+    turnYaw: 0.25, // yaw towards the requested side
+    turnMovement: 0.15, // yaw travelled across the frames
+    smileProbability: 0.6,
+    nodPitchChange: 0.06
+  };
+
+  /**
+   * Check analysed frames against the issued challenges ([{ id, type, direction? }])
+   * and the selfie's descriptor. `maxSpanMs` bounds the whole recording.
+   * Returns { passed, frameCount, timing, identity, motion, challenges, failureReasons }.
+   */
+  static verify(frames, challenges, referenceDescriptor, { maxSpanMs } = {}) {
+    const timing = this.checkTiming(frames, challenges, maxSpanMs);
+    const identity = this.checkIdentity(frames, referenceDescriptor);
+    const motion = this.checkMotion(frames);
+    const challengeResults = challenges.map(challenge =>
+      this.checkChallenge(challenge, frames.filter(frame => frame.challengeId === challenge.id && frame.faces === 1)));
+
+    const failureReasons = [
+      ...(timing.passed ? [] : ['FRAME_TIMING_INVALID']),
+      ...(identity.passed ? [] : ['FACE_CHANGED_BETWEEN_FRAMES']),
+      ...(motion.passed ? [] : ['STATIC_FRAMES']),
+      ...(challengeResults.some(result => result.frames < this.MIN_FRAMES_PER_CHALLENGE) ? ['INSUFFICIENT_FRAMES'] : []),
+      ...(challengeResults.some(result => result.frames >= this.MIN_FRAMES_PER_CHALLENGE && !result.passed)
+        ? ['CHALLENGE_MOTION_MISSING'] : [])
+    ];
+
+    return {
+      passed: failureReasons.length === 0,
+      frameCount: frames.length,
+      timing,
+      identity,
+      motion,
+      challenges: challengeResults,
+      failureReasons
+    };
+  }
+
+  /**
+   * Indices of the frames to analyse: up to ANALYSED_FRAMES_PER_CHALLENGE of
+   * each challenge's frames, evenly spread and always the first and last, so
+   * the movement is still seen end to end. The rest are only hashed and timed.
+   */
+  static sampleFrames(frames, challenges) {
+    const types = new Map(challenges.map(challenge => [challenge.id, challenge.type]));
+    const byChallenge = new Map();
+    frames.forEach((frame, index) => {
+      byChallenge.set(frame.challengeId, [...(byChallenge.get(frame.challengeId) || []), index]);
+    });
+
+    const sampled = new Set();
+    byChallenge.forEach((indices, challengeId) => {
+      const limit = this.ANALYSED_FRAMES_PER_CHALLENGE[types.get(challengeId)] || this.DEFAULT_ANALYSED_FRAMES;
+      const count = Math.min(indices.length, limit);
+      for (let i = 0; i < count; i++) {
+        sampled.add(indices[count === 1 ? 0 : Math.round(i * (indices.length - 1) / (count - 1))]);
+      }
+    });
+    return sampled;
+  }
+
+  /**
+   * Frames must belong to the issued challenges, run in challenge order with
+   * rising timestamps, and fit in the session's lifetime
+   */
+  static checkTiming(frames, challenges, maxSpanMs = Infinity) {
+    const order = new Map(challenges.map((challenge, index) => [challenge.id, index]));
+    const unknownChallenge = frames.some(frame => !order.has(frame.challengeId));
+
+    let ordered = true;
+    for (let i = 1; i < frames.length; i++) {
+      const previous = frames[i - 1];
+      const frame = frames[i];
+      if (frame.timestamp <= previous.timestamp || order.get(frame.challengeId) < order.get(previous.challengeId)) {
+        ordered = false;
+      }
+    }
+
+    const spanMs = frames.length > 1 ? frames[frames.length - 1].timestamp - frames[0].timestamp : 0;
+    return {
+      passed: !unknownChallenge && ordered && spanMs <= maxSpanMs,
+      ordered,
+      unknownChallenge,
+      spanMs
+    };
+  }
+
+  /**
+   * Every frame with a face must show the person in the selfie, and only them
+   */
+  static checkIdentity(frames, referenceDescriptor) {
+    const distances = frames
+      .filter(frame => frame.faces === 1 && frame.descriptor)
+      .map(frame => this.descriptorDistance(frame.descriptor, referenceDescriptor));
+    const multipleFaces = frames.filter(frame => frame.faces > 1).length;
+    const maxDistance = distances.length > 0 ? Math.max(...distances) : null;
+
+    return {
+      passed: Boolean(referenceDescriptor) && distances.length > 0 &&
+        maxDistance <= this.IDENTITY_THRESHOLD && multipleFaces === 0,
+      maxDistance: maxDistance === null ? null : this.round(maxDistance, 3),
+      threshold: this.IDENTITY_THRESHOLD,
+      multipleFaces
+    };
+  }
+
+  /**
+   * A still replayed as a burst gives byte-identical frames or landmarks that
+   * never move; a live face always shifts a little between frames
+   */
+  static checkMotion(frames) {
+    const hashes = new Set();
+    let duplicateFrames = 0;
+    frames.forEach(frame => {
+      if (hashes.has(frame.hash)) duplicateFrames++;
+      hashes.add(frame.hash);
+    });
+
+    const withFace = frames.filter(frame => frame.faces === 1);
+    let maxMotion = 0;
+    for (let i = 1; i < withFace.length; i++) {
+      maxMotion = Math.max(maxMotion, this.landmarkMotion(withFace[i - 1].landmarks, withFace[i].landmarks));
+    }
+
+    return {
+      passed: duplicateFrames === 0 && maxMotion >= this.MIN_MOTION,
+      maxMotion: this.round(maxMotion, 4),
+      duplicateFrames
+    };
+  }
+
+  /**
+   * Whether the landmarks across a challenge's frames show the requested movement
+   */
+  static checkChallenge(challenge, frames) {
+    const result = {
+      challengeId: challenge.id,
+      type: challenge.type,
+      direction: challenge.direction,
+      frames: frames.length
+    };
+    if (frames.length < this.MIN_FRAMES_PER_CHALLENGE) {
+      return { ...result, passed: false, measure: 0, detail: `Only ${frames.length} frames with a face` };
+    }
+
+    const limits = this.CHALLENGE_LIMITS;
+    switch (challenge.type) {
+      case 'blink': {
+        const ears = frames.map(frame => averageEyeAspectRatio(frame.landmarks));
+        const ratio = Math.min(...ears) / (Math.max(...ears) || 1);
+        return {
+          ...result,
+          passed: ratio <= limits.blinkClosedRatio,
+          measure: this.round(ratio),
+          detail: ratio <= limits.blinkClosedRatio ? 'Eyes closed and opened' : 'Eyes never closed'
+        };
+      }
+      case 'turn_head': {
+        // Turning to the user's left moves the nose to the image's right
+        const sign = challenge.direction === 'right' ? -1 : 1;
+        const yaws = frames.map(frame => estimateYaw(frame.landmarks) * sign);
+        const turned = Math.max(...yaws);
+        const movement = turned - Math.min(...yaws);
+        const passed = turned >= limits.turnYaw && movement >= limits.turnMovement;
+        return {
+          ...result,
+          passed,
+          measure: this.round(turned),
+          detail: passed ? `Head turned ${challenge.direction || 'left'}` : `Head not turned ${challenge.direction || 'left'}`
+        };
+      }
+      case 'smile': {
+        const happiest = Math.max(...frames.map(frame => frame.expressions?.happy || 0));
+        return {
+          ...result,
+          passed: happiest >= limits.smileProbability,
+          measure: this.round(happiest),
+          detail: happiest >= limits.smileProbability ? 'Smile seen' : 'No smile seen'
+        };
+      }
+      case 'nod': {
+        const pitches = frames.map(frame => estimatePitch(frame.landmarks));
+        const change = Math.max(...pitches) - Math.min(...pitches);
+        return {
+          ...result,
+          passed: change >= limits.nodPitchChange,
+          measure: this.round(change),
+          detail: change >= limits.nodPitchChange ? 'Head nodded' : 'Head did not nod'
+        };
+      }
+      default:
+        return { ...result, passed: false, measure: 0, detail: `Unknown challenge ${challenge.type}` };
+    }
+  }
+
+  // Mean landmark displacement between two frames, in face widths
+  static landmarkMotion(previous, current) {
+    const faceWidth = pointDistance(current[JAW_LEFT], current[JAW_RIGHT]) || 1;
+    const total = current.reduce((sum, point, index) => sum + pointDistance(point, previous[index]), 0);
+    return total / current.length / faceWidth;
+  }
+
+  static descriptorDistance(a, b) {
+    let sum = 0;
+    for (let i = 0; i < a.length; i++) sum += (a[i] - b[i]) ** 2;
+    return Math.sqrt(sum);
+  }
+
+  static round(value, digits = 2) {
+    const factor = 10 ** digits;
+    return Math.round(value * factor) / factor;
+  }
+}
+
+export default MultiFrameLivenessService;
@@ -0,0 +1,225 @@
+import { TransliterationService } from './transliteration.service.js';
+
+/**
+ * Name Matching Service for SAHAJ KYC
+ * Shared scoring for every place two spellings of a person's name are
+ * compared (document consistency, government and bank records); business
+ * names have their own rules (BusinessNameMatchingService).
+ * Tolerates honorifics, initials (R. K. Sharma), word order (Sharma Rajesh),
+ * missing middle names and transliteration variants (Laxmi / Lakshmi), and
+ * explains how it arrived at the score. Only `match` is a pass: callers treat
+ * `partial` as needing review, or as a failure.
+ */
+export class NameMatchingService {
+  static MATCH_THRESHOLD = 0.8;
+  static PARTIAL_THRESHOLD = 0.5;
+
+  // Score for an initial standing in for a full word (R / RAJESH)
+  static INITIAL_SCORE = 0.9;
+
+  // Score multiplier when the only difference is an omitted middle name
+  static MISSING_MIDDLE_SCORE = 0.9;
+
+  // Edits allowed between the phonetic keys of two words read as one name
+  // spelt differently: none below six letters, where a single letter makes a
+  // different name (Priya / Riya, Rakesh / Rajesh), then one per six letters
+  static LETTERS_PER_EDIT = 6;
+
+  static HONORIFICS = [
+    'MR', 'MRS', 'MS', 'MISS', 'SHRI', 'SRI', 'SHREE', 'SMT', 'SHRIMATI',
+    'KUMARI', 'KU', 'KM', 'DR', 'LATE', 'SO', 'DO', 'WO', 'CO'
+  ];
+
+  // Common abbreviations. Those without vowels are also initials (SK is Sheikh
+  // or S. K.), so both readings are tried and the closer one is kept.
+  static ABBREVIATIONS = {
+    MD: 'MOHAMMED',
+    MOHD: 'MOHAMMED',
+    KR: 'KUMAR',
+    PD: 'PRASAD',
+    SK: 'SHEIKH'
+  };
+
+  // Cap on readings of one name; each ambiguous abbreviation doubles them
+  static MAX_READINGS = 8;
+
+  /**
+   * Uppercase Latin tokens without honorifics or relation prefixes (S/O, W/O),
+   * with abbreviations expanded; regional-script names are romanized first
+   */
+  static normalize(name) {
+    return this.readings(name)[0];
+  }
+
+  /**
+   * Every reading of a name's tokens: abbreviations expanded first, then with
+   * each vowel-less abbreviation read as initials instead
+   */
+  static readings(name) {
+    const tokens = TransliterationService.toLatin(String(name || ''))
+      .toUpperCase()
+      .replace(/\b([SDWC])\s*\/\s*O\b/g, '$1O')
+      .replace(/[^A-Z\s]/g, ' ')
+      .split(/\s+/)
+      .filter(token => token && !this.HONORIFICS.includes(token));
+
+    return tokens.reduce((readings, token) => {
+      const expansion = this.ABBREVIATIONS[token];
+      const options = !expansion
+        ? [this.splitInitials(token)]
+        : /[AEIOUY]/.test(token) ? [[expansion]] : [[expansion], this.splitInitials(token)];
+      return readings
+        .flatMap(reading => options.map(option => [...reading, ...option]))
+        .slice(0, this.MAX_READINGS);
+    }, [[]]);
+  }
+
+  /**
+   * Run-together initials (RK) become separate initials (R K); a two- or
+   * three-letter token without vowels cannot be a name on its own
+   */
+  static splitInitials(token) {
+    return token.length <= 3 && !/[AEIOUY]/.test(token) ? [...token] : [token];
+  }
+
+  /**
+   * Similarity (0-1) of two names
+   */
+  static compare(first, second) {
+    return this.match(first, second).score;
+  }
+
+  /**
+   * Score two names and explain the result:
+   * { score, status: match | partial | mismatch, explanation: [...] }
+   */
+  static match(first, second) {
+    const readingsA = this.readings(first);
+    const readingsB = this.readings(second);
+    if (readingsA[0].length === 0 || readingsB[0].length === 0) {
+      return { score: 0, status: 'mismatch', explanation: ['Name is missing'] };
+    }
+
+    // The closest pair of readings; the first wins ties, so expansions are preferred
+    let best = null;
+    readingsA.forEach(a => {
+      readingsB.forEach(b => {
+        const result = this.scoreTokens(a, b);
+        if (!best || result.score > best.score) best = result;
+      });
+    });
+
+    const { score, explanation } = best;
+    if (explanation.length === 0) {
+      const exact = String(first).trim().toUpperCase() === String(second).trim().toUpperCase();
+      explanation.push(exact ? 'Exact match' : 'Names match after removing honorifics and expanding abbreviations');
+    }
+
+    return { score, status: this.status(score), explanation };
+  }
+
+  /**
+   * Score two token lists: { score, explanation } (empty when nothing differs)
+   */
+  static scoreTokens(a, b) {
+    const pairs = this.alignTokens(a, b);
+    const matched = pairs.reduce((sum, pair) => sum + pair.score, 0);
+    const explanation = [];
+
+    pairs.forEach(({ i, j }) => {
+      if (a[i] === b[j]) return;
+      if (a[i].length === 1 || b[j].length === 1) {
+        explanation.push(`Initial ${a[i].length === 1 ? a[i] : b[j]} matches ${a[i].length === 1 ? b[j] : a[i]}`);
+      } else {
+        explanation.push(`${a[i]} and ${b[j]} are spelling variants`);
+      }
+    });
+
+    const order = pairs.slice().sort((x, y) => x.i - y.i).map(pair => pair.j);
+    if (order.some((j, index) => index > 0 && j < order[index - 1])) {
+      explanation.push('Words are in a different order');
+    }
+
+    // An omitted middle name: every word of the shorter name matched, and the
+    // leftover words sit between the first and last words of the longer one
+    const [shorter, longer, longerIndex] = a.length <= b.length ? [a, b, 'j'] : [b, a, 'i'];
+    const used = new Set(pairs.map(pair => pair[longerIndex]));
+    const leftover = longer.map((token, index) => index).filter(index => !used.has(index));
+    const missingMiddle = pairs.length === shorter.length && shorter.length >= 2 && leftover.length > 0 &&
+      leftover.every(index => index > 0 && index < longer.length - 1);
+
+    let tokenScore;
+    if (missingMiddle) {
+      tokenScore = (matched / shorter.length) * this.MISSING_MIDDLE_SCORE;
+      explanation.push(`Middle name ${leftover.map(index => longer[index]).join(' ')} is missing from one name`);
+    } else {
+      tokenScore = (2 * matched) / (a.length + b.length);
+      leftover.forEach(index => explanation.push(`${longer[index]} has no counterpart`));
+      shorter.forEach((token, index) => {
+        const shorterIndex = longerIndex === 'j' ? 'i' : 'j';
+        if (!pairs.some(pair => pair[shorterIndex] === index)) explanation.push(`${token} has no counterpart`);
+      });
+    }
+
+    // Spacing differences (RAJESHKUMAR / RAJESH KUMAR) change the word count and
+    // only show on the joined form
+    const joinedScore = a.length !== b.length ? this.variantScore(a.join(''), b.join('')) : 0;
+    if (joinedScore > tokenScore && joinedScore >= this.MATCH_THRESHOLD) {
+      explanation.splice(0, explanation.length, 'Names match when spacing is ignored');
+    }
+
+    return { score: Math.round(Math.max(tokenScore, joinedScore) * 100) / 100, explanation };
+  }
+
+  static status(score) {
+    if (score >= this.MATCH_THRESHOLD) return 'match';
+    return score >= this.PARTIAL_THRESHOLD ? 'partial' : 'mismatch';
+  }
+
+  /**
+   * Pair each token with its best unused counterpart, strongest pairs first
+   */
+  static alignTokens(a, b) {
+    const candidates = [];
+    a.forEach((tokenA, i) => {
+      b.forEach((tokenB, j) => {
+        candidates.push({ i, j, score: this.compareTokens(tokenA, tokenB) });
+      });
+    });
+    candidates.sort((x, y) => y.score - x.score);
+
+    const usedA = new Set();
+    const usedB = new Set();
+    return candidates.filter(({ i, j, score }) => {
+      if (usedA.has(i) || usedB.has(j) || score === 0) return false;
+      usedA.add(i);
+      usedB.add(j);
+      return true;
+    });
+  }
+
+  static compareTokens(a, b) {
+    if (a === b) return 1;
+    if (a.length === 1 || b.length === 1) {
+      return a[0] === b[0] ? this.INITIAL_SCORE : 0;
+    }
+    return this.variantScore(a, b);
+  }
+
+  /**
+   * Similarity of two spellings by edit distance on their phonetic keys, or 0
+   * when they start differently or need more edits than LETTERS_PER_EDIT allows
+   */
+  static variantScore(a, b) {
+    const keyA = TransliterationService.phoneticKey(a);
+    const keyB = TransliterationService.phoneticKey(b);
+    if (!keyA || !keyB || keyA[0] !== keyB[0]) return 0;
+
+    const length = Math.max(keyA.length, keyB.length);
+    const distance = TransliterationService.levenshtein(keyA, keyB);
+    if (distance > Math.floor(length / this.LETTERS_PER_EDIT)) return 0;
+    return Math.round((1 - distance / length) * 100) / 100;
+  }
+}
+
+export default NameMatchingService;
@@ -0,0 +1,495 @@
+import { createWorker, OEM } from 'tesseract.js';
+import { TransliterationService } from './transliteration.service.js';
+
+/**
+ * OCR Service for SAHAJ KYC
+ * Runs Tesseract on document images and locates fields using
+ * per-document layout and regex rules
+ */
+export class OcrService {
+  static DEFAULT_LANGUAGES = 'eng';
+  static OSD_LANGUAGE = 'osd';
+  static MIN_REGIONAL_CHARACTERS = 5;
+  static workers = new Map();
+
+  /**
+   * Get (or lazily create) a Tesseract worker for the given languages
+   */
+  static async getWorker(languages = this.DEFAULT_LANGUAGES) {
+    if (!this.workers.has(languages)) {
+      const options = process.env.TESSERACT_LANG_PATH
+        ? { langPath: process.env.TESSERACT_LANG_PATH }
+        : {};
+
+      const workerPromise = createWorker(languages.split('+'), 1, options).catch((error) => {
+        this.workers.delete(languages);
+        throw error;
+      });
+      this.workers.set(languages, workerPromise);
+    }
+
+    return this.workers.get(languages);
+  }
+
+  /**
+   * Run OCR on an image buffer and return text lines with confidence and position
+   */
+  static async recognize(imageBuffer, options = {}) {
+    const worker = await this.getWorker(options.languages);
+    const { data } = await worker.recognize(imageBuffer, {}, { text: true, blocks: true });
+
+    const lines = [];
+    (data.blocks || []).forEach(block => {
+      block.paragraphs.forEach(paragraph => {
+        paragraph.lines.forEach(line => {
+          const text = line.text.replace(/\s+/g, ' ').trim();
+          if (!text) return;
+
+          lines.push({
+            text,
+            confidence: line.confidence / 100,
+            boundingBox: this.toBoundingBox(line.bbox),
+            words: line.words.map(word => ({
+              text: word.text,
+              confidence: word.confidence / 100,
+              boundingBox: this.toBoundingBox(word.bbox)
+            }))
+          });
+        });
+      });
+    });
+
+    return {
+      text: data.text || '',
+      confidence: (data.confidence || 0) / 100,
+      lines
+    };
+  }
+
+  /**
+   * Bilingual pass (English plus a regional script) for cards that print name and
+   * address twice. Without a language hint each supported script is tried in turn;
+   * returns null when no regional text is found.
+   */
+  static async recognizeRegional(imageBuffer, language) {
+    const scripts = TransliterationService.SCRIPTS;
+    const candidates = scripts[language] ? [language] : Object.keys(scripts);
+
+    for (const candidate of candidates) {
+      const result = await this.recognize(imageBuffer, {
+        languages: `${this.DEFAULT_LANGUAGES}+${scripts[candidate].tesseract}`
+      });
+      if (TransliterationService.countScriptCharacters(result.text, candidate) >= this.MIN_REGIONAL_CHARACTERS) {
+        return { ...result, language: candidate };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Detect text orientation with Tesseract OSD; returns the clockwise rotation
+   * that makes the text upright and the detector's confidence
+   */
+  static async detectOrientation(imageBuffer) {
+    if (!this.workers.has(this.OSD_LANGUAGE)) {
+      const options = {
+        legacyCore: true,
+        legacyLang: true,
+        ...(process.env.TESSERACT_LANG_PATH ? { langPath: process.env.TESSERACT_LANG_PATH } : {})
+      };
+
+      const workerPromise = createWorker(this.OSD_LANGUAGE, OEM.TESSERACT_ONLY, options).catch((error) => {
+        this.workers.delete(this.OSD_LANGUAGE);
+        throw error;
+      });
+      this.workers.set(this.OSD_LANGUAGE, workerPromise);
+    }
+
+    const worker = await this.workers.get(this.OSD_LANGUAGE);
+    const { data } = await worker.detect(imageBuffer);
+
+    // OSD reports how far the page is rotated clockwise; undo it
+    return {
+      rotation: (360 - (data.orientation_degrees || 0)) % 360,
+      confidence: data.orientation_confidence || 0
+    };
+  }
+
+  /**
+   * Shut down all cached workers
+   */
+  static async terminate() {
+    const workers = await Promise.all(this.workers.values());
+    this.workers.clear();
+    await Promise.all(workers.map(worker => worker.terminate()));
+  }
+
+  /**
+   * Aadhaar front/back layout: name sits directly above the DOB line,
+   * relation (S/O, D/O, W/O) and address follow on the back
+   */
+  static extractAadhaarFields(lines) {
+    const fields = {};
+
+    const numberLine = this.findLine(lines, /\b\d{4}\s?\d{4}\s?\d{4}\b/, line => !/\d{4}\s?\d{4}\s?\d{4}\s?\d{4}/.test(line.text));
+    if (numberLine) {
+      const digits = numberLine.text.match(/\b(\d{4})\s?(\d{4})\s?(\d{4})\b/);
+      fields.aadhaarNumber = this.toField(`${digits[1]} ${digits[2]} ${digits[3]}`, numberLine);
+    }
+
+    const dobIndex = lines.findIndex(line => /(DOB|Date of Birth|Year of Birth|जन्म)/i.test(line.text));
+    if (dobIndex !== -1) {
+      const dobLine = lines[dobIndex];
+      const date = dobLine.text.match(/(\d{2}[\/\-.]\d{2}[\/\-.]\d{4})/);
+      const year = dobLine.text.match(/\b(19|20)\d{2}\b/);
+      if (date) {
+        fields.dateOfBirth = this.toField(this.normalizeDate(date[1]), dobLine);
+      } else if (year) {
+        fields.dateOfBirth = this.toField(year[0], dobLine, 0.8);
+      }
+
+      const nameLine = this.findNameLine(lines.slice(0, dobIndex).reverse());
+      if (nameLine) {
+        fields.fullName = this.toField(this.cleanName(nameLine.text), nameLine);
+      }
+    }
+
+    const genderLine = this.findLine(lines, /\b(MALE|FEMALE|TRANSGENDER)\b/i);
+    if (genderLine) {
+      fields.gender = this.toField(genderLine.text.match(/\b(MALE|FEMALE|TRANSGENDER)\b/i)[1].toUpperCase(), genderLine);
+    }
+
+    const relationLine = this.findLine(lines, /\b(S\/O|D\/O|W\/O|C\/O|Father)\b/i);
+    if (relationLine) {
+      const relation = relationLine.text.match(/\b(?:S\/O|D\/O|W\/O|C\/O|Father)\s*[:\-]?\s*([A-Za-z .]+)/i);
+      if (relation) {
+        fields.fatherName = this.toField(this.cleanName(relation[1]), relationLine);
+      }
+    }
+
+    const address = this.collectAddress(lines, /\bAddress\b/i);
+    if (address) {
+      fields.address = address;
+    }
+
+    return fields;
+  }
+
+  /**
+   * PAN layout: newer cards label each field with the value on the next line;
+   * older cards print name and father's name as the first two lines under the header
+   */
+  static extractPanFields(lines) {
+    const fields = {};
+
+    const panLine = this.findLine(lines, /\b[A-Z]{5}\d{4}[A-Z]\b/);
+    if (panLine) {
+      fields.panNumber = this.toField(panLine.text.match(/\b([A-Z]{5}\d{4}[A-Z])\b/)[1], panLine);
+    }
+
+    const fatherLine = this.findValueAfterLabel(lines, /Father'?s?\s*Name/i);
+    const nameLine = this.findValueAfterLabel(lines, /^(?!.*Father).*\bName\b/i);
+
+    if (nameLine || fatherLine) {
+      if (nameLine) fields.fullName = this.toField(this.cleanName(nameLine.text), nameLine);
+      if (fatherLine) fields.fatherName = this.toField(this.cleanName(fatherLine.text), fatherLine);
+    } else {
+      const headerIndex = lines.findIndex(line => /INCOME\s*TAX|GOVT/i.test(line.text));
+      const nameLines = lines
+        .slice(headerIndex + 1)
+        .filter(line => this.isNameLike(line.text) && !/INCOME\s*TAX|GOVT|INDIA/i.test(line.text));
+
+      if (nameLines[0]) fields.fullName = this.toField(this.cleanName(nameLines[0].text), nameLines[0], nameLines[0].confidence * 0.9);
+      if (nameLines[1]) fields.fatherName = this.toField(this.cleanName(nameLines[1].text), nameLines[1], nameLines[1].confidence * 0.9);
+    }
+
+    const dobLine = this.findLine(lines, /\d{2}[\/\-.]\d{2}[\/\-.]\d{4}/);
+    if (dobLine) {
+      fields.dateOfBirth = this.toField(this.normalizeDate(dobLine.text.match(/(\d{2}[\/\-.]\d{2}[\/\-.]\d{4})/)[1]), dobLine);
+    }
+
+    return fields;
+  }
+
+  /**
+   * Passport visual zone: labelled fields with values on the following line
+   */
+  static extractPassportFields(lines) {
+    const fields = {};
+
+    const numberLine = this.findLine(lines, /\b[A-Z]\d{7}\b/, line => !line.text.includes('<'));
+    if (numberLine) {
+      fields.passportNumber = this.toField(numberLine.text.match(/\b([A-Z]\d{7})\b/)[1], numberLine);
+    }
+
+    const surnameLine = this.findValueAfterLabel(lines, /Surname/i);
+    const givenLine = this.findValueAfterLabel(lines, /Given\s*Name/i);
+    if (surnameLine || givenLine) {
+      const name = [givenLine?.text, surnameLine?.text].filter(Boolean).map(text => this.cleanName(text)).join(' ');
+      const source = givenLine || surnameLine;
+      fields.fullName = this.toField(name, source, Math.min(...[givenLine, surnameLine].filter(Boolean).map(line => line.confidence)));
+    }
+
+    const dateFields = {
+      dateOfBirth: /Date\s*of\s*Birth/i,
+      issueDate: /Date\s*of\s*Issue/i,
+      expiryDate: /Date\s*of\s*Expiry/i
+    };
+    Object.entries(dateFields).forEach(([field, label]) => {
+      const line = this.findValueAfterLabel(lines, label, /\d{2}[\/\-.]\d{2}[\/\-.]\d{4}/);
+      if (line) {
+        fields[field] = this.toField(this.normalizeDate(line.text.match(/(\d{2}[\/\-.]\d{2}[\/\-.]\d{4})/)[1]), line);
+      }
+    });
+
+    const placeLine = this.findValueAfterLabel(lines, /Place\s*of\s*Birth/i);
+    if (placeLine) {
+      fields.placeOfBirth = this.toField(placeLine.text.toUpperCase(), placeLine);
+    }
+
+    const nationalityLine = this.findLine(lines, /\bINDIAN\b/i);
+    if (nationalityLine) {
+      fields.nationality = this.toField('INDIAN', nationalityLine);
+    }
+
+    return fields;
+  }
+
+  /**
+   * Driving licence layout: state code + RTO code + year + serial, labelled fields
+   */
+  static extractLicenseFields(lines) {
+    const fields = {};
+    const licensePattern = /\b([A-Z]{2})[\s-]?(\d{2})[\s-]?(\d{4})\s?(\d{7})\b/;
+
+    const numberLine = this.findLine(lines, licensePattern);
+    if (numberLine) {
+      const parts = numberLine.text.match(licensePattern);
+      fields.licenseNumber = this.toField(`${parts[1]}-${parts[2]}${parts[3]}${parts[4]}`, numberLine);
+    }
+
+    const nameLine = this.findValueAfterLabel(lines, /^\s*Name\b/i);
+    if (nameLine) {
+      fields.fullName = this.toField(this.cleanName(nameLine.text), nameLine);
+    }
+
+    const relationLine = this.findValueAfterLabel(lines, /(S\/D\/W\s*of|Son\/Daughter\/Wife\s*of)/i);
+    if (relationLine) {
+      fields.fatherName = this.toField(this.cleanName(relationLine.text), relationLine);
+    }
+
+    const dateFields = {
+      dateOfBirth: /(DOB|Date\s*of\s*Birth)/i,
+      issueDate: /(DOI|Issue\s*Date|Date\s*of\s*Issue)/i,
+      validTill: /(Valid\s*Till|Valid\s*Upto|Validity)/i
+    };
+    Object.entries(dateFields).forEach(([field, label]) => {
+      const line = this.findValueAfterLabel(lines, label, /\d{2}[\/\-.]\d{2}[\/\-.]\d{4}/);
+      if (line) {
+        fields[field] = this.toField(this.normalizeDate(line.text.match(/(\d{2}[\/\-.]\d{2}[\/\-.]\d{4})/)[1]), line);
+      }
+    });
+
+    const classLine = this.findLine(lines, /\b(MCWG|MCWOG|LMV-NT|LMV|HMV|MGV|HGMV|HPMV|TRANS)\b/);
+    if (classLine) {
+      fields.vehicleClass = this.toField(classLine.text.match(/\b(MCWG|MCWOG|LMV-NT|LMV|HMV|MGV|HGMV|HPMV|TRANS)\b/)[1], classLine);
+    }
+
+    const bloodLine = this.findLine(lines, /(Blood\s*Group|\bBG\b)\s*[:\-]?\s*(AB|A|B|O)\s*[+-]/i);
+    if (bloodLine) {
+      const blood = bloodLine.text.match(/(?:Blood\s*Group|\bBG\b)\s*[:\-]?\s*(AB|A|B|O)\s*([+-])/i);
+      fields.bloodGroup = this.toField(`${blood[1].toUpperCase()}${blood[2]}`, bloodLine);
+    }
+
+    const address = this.collectAddress(lines, /\bAddress\b/i);
+    if (address) {
+      fields.address = address;
+    }
+
+    return fields;
+  }
+
+  /**
+   * Voter ID (EPIC) layout: EPIC number, elector's and relative's names,
+   * sex and age or DOB on the front; address and constituency on the back
+   */
+  static extractVoterIdFields(lines) {
+    const fields = {};
+
+    const numberLine = this.findLine(lines, /\b[A-Z]{3}\d{7}\b/);
+    if (numberLine) {
+      fields.voterIdNumber = this.toField(numberLine.text.match(/\b([A-Z]{3}\d{7})\b/)[1], numberLine);
+    }
+
+    const nameLine = this.findValueAfterLabel(lines, /Elector'?s?\s*Name/i) ||
+      this.findValueAfterLabel(lines, /^(?!.*(Father|Husband|Mother|Relation|Constituency|Part)).*\bName\b/i);
+    if (nameLine) {
+      fields.fullName = this.toField(this.cleanName(nameLine.text), nameLine);
+    }
+
+    const relationLabel = /(Father|Husband|Mother|Relation)'?s?\s*Name/i;
+    const relativeLine = this.findValueAfterLabel(lines, relationLabel);
+    if (relativeLine) {
+      const relation = this.findLine(lines, relationLabel).text.match(relationLabel)[1].toUpperCase();
+      fields.relativeName = this.toField(this.cleanName(relativeLine.text), relativeLine);
+      fields.relationType = this.toField(relation === 'RELATION' ? 'OTHER' : relation, relativeLine);
+      if (relation === 'FATHER') {
+        fields.fatherName = fields.relativeName;
+      }
+    }
+
+    const genderLine = this.findLine(lines, /\b(MALE|FEMALE|TRANSGENDER|THIRD\s*GENDER)\b/i);
+    if (genderLine) {
+      const gender = genderLine.text.match(/\b(MALE|FEMALE|TRANSGENDER|THIRD\s*GENDER)\b/i)[1].toUpperCase();
+      fields.gender = this.toField(gender === 'MALE' || gender === 'FEMALE' ? gender : 'TRANSGENDER', genderLine);
+    }
+
+    // Newer cards print the date of birth; older ones only the age on a qualifying date
+    const dobLine = this.findValueAfterLabel(lines, /(DOB|Date\s*of\s*Birth)/i, /\d{2}[\/\-.]\d{2}[\/\-.]\d{4}/);
+    if (dobLine) {
+      fields.dateOfBirth = this.toField(this.normalizeDate(dobLine.text.match(/(\d{2}[\/\-.]\d{2}[\/\-.]\d{4})/)[1]), dobLine);
+    }
+    const ageLine = this.findLine(lines, /\bAge\b/i);
+    const age = ageLine?.text.match(/\bAge\b(?:\s*as\s*on\s*[\d.\/\-]+)?\s*[:\-]?\s*(\d{2,3})(?![\/\-.]?\d)/i);
+    if (age) {
+      fields.age = this.toField(age[1], ageLine);
+    }
+
+    const address = this.collectAddress(lines, /\bAddress\b/i);
+    if (address) {
+      fields.address = address;
+    }
+
+    const constituencyLine = this.findValueAfterLabel(lines, /Assembly\s*Constituency/i);
+    if (constituencyLine) {
+      fields.constituency = this.toField(this.cleanNumberedName(constituencyLine.text), constituencyLine);
+    }
+
+    const partLine = this.findValueAfterLabel(lines, /Part\s*No/i);
+    if (partLine) {
+      fields.partNumber = this.toField(this.cleanNumberedName(partLine.text), partLine);
+    }
+
+    return fields;
+  }
+
+  /**
+   * Helper methods for locating fields
+   */
+  static findLine(lines, pattern, predicate = () => true) {
+    return lines.find(line => pattern.test(line.text) && predicate(line)) || null;
+  }
+
+  /**
+   * Find the value for a label, either after a colon on the same line
+   * or on the next non-empty line
+   */
+  static findValueAfterLabel(lines, labelPattern, valuePattern = null) {
+    const index = lines.findIndex(line => labelPattern.test(line.text));
+    if (index === -1) return null;
+
+    const labelLine = lines[index];
+    const sameLineValue = labelLine.text.split(/[:\-]/).slice(1).join('-').trim();
+    if (sameLineValue && (!valuePattern || valuePattern.test(sameLineValue))) {
+      return { ...labelLine, text: sameLineValue };
+    }
+
+    const nextLine = lines[index + 1];
+    if (nextLine && (!valuePattern || valuePattern.test(nextLine.text))) {
+      return nextLine;
+    }
+
+    return null;
+  }
+
+  static findNameLine(candidates) {
+    return candidates.find(line =>
+      this.isNameLike(line.text) && !/GOVERNMENT|INDIA|AADHAAR|UNIQUE|AUTHORITY/i.test(line.text)
+    ) || null;
+  }
+
+  static isNameLike(text) {
+    return /^[A-Za-z][A-Za-z .']{2,}$/.test(text.trim()) && text.trim().split(/\s+/).length <= 5;
+  }
+
+  /**
+   * "123-New  Delhi" -> "123 - New Delhi" (numbered constituency and part names)
+   */
+  static cleanNumberedName(text) {
+    return text.replace(/^\s*(\d+)\s*[-.]?\s*/, '$1 - ').replace(/\s+/g, ' ').trim();
+  }
+
+  static cleanName(text) {
+    return text.replace(/[^A-Za-z .']/g, ' ').replace(/\s+/g, ' ').trim();
+  }
+
+  /**
+   * Collect address lines following the label, up to and including the PIN code line
+   */
+  static collectAddress(lines, labelPattern) {
+    const index = lines.findIndex(line => labelPattern.test(line.text));
+    if (index === -1) return null;
+
+    const addressLines = [];
+    const firstLine = lines[index].text.replace(/^.*?Address\s*[:\-]?\s*/i, '').trim();
+    if (firstLine) addressLines.push({ ...lines[index], text: firstLine });
+
+    for (const line of lines.slice(index + 1, index + 6)) {
+      addressLines.push(line);
+      if (/\b[1-9]\d{5}\b/.test(line.text)) break;
+    }
+
+    if (addressLines.length === 0) return null;
+
+    const boxes = addressLines.map(line => line.boundingBox);
+    const x = Math.min(...boxes.map(box => box.x));
+    const y = Math.min(...boxes.map(box => box.y));
+
+    return {
+      value: addressLines.map(line => line.text.replace(/,\s*$/, '')).join(', '),
+      confidence: addressLines.reduce((sum, line) => sum + line.confidence, 0) / addressLines.length,
+      boundingBox: {
+        x,
+        y,
+        width: Math.max(...boxes.map(box => box.x + box.width)) - x,
+        height: Math.max(...boxes.map(box => box.y + box.height)) - y
+      }
+    };
+  }
+
+  /**
+   * Normalize DD-MM-YYYY / DD.MM.YYYY to DD/MM/YYYY
+   */
+  static normalizeDate(value) {
+    return value.replace(/[\-.]/g, '/');
+  }
+
+  static toField(value, line, confidence = line.confidence) {
+    return {
+      value,
+      confidence: Math.round(confidence * 100) / 100,
+      boundingBox: line.boundingBox
+    };
+  }
+
+  static toBoundingBox(bbox) {
+    return {
+      x: bbox.x0,
+      y: bbox.y0,
+      width: bbox.x1 - bbox.x0,
+      height: bbox.y1 - bbox.y0
+    };
+  }
+
+  /**
+   * Average field confidence, or 0 when nothing was found
+   */
+  static calculateOverallConfidence(fields) {
+    const values = Object.values(fields);
+    if (values.length === 0) return 0;
+    return Math.round(values.reduce((sum, field) => sum + field.confidence, 0) / values.length * 1000) / 1000;
+  }
+}
+
+export default OcrService;
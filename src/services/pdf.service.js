@@ -0,0 +1,239 @@
+import PDFJS from 'pdf-parse/lib/pdf.js/v1.10.100/build/pdf.js';
+import sharp from 'sharp';
+
+// Run in-process and skip DOM font loading; neither exists on the server.
+// The display build reads its settings from the nested PDFJS global.
+PDFJS.PDFJS.disableWorker = true;
+PDFJS.PDFJS.disableFontFace = true;
+
+// pdf.js image kinds (not exported by the display build)
+const IMAGE_KIND = {
+  GRAYSCALE_1BPP: 1,
+  RGB_24BPP: 2,
+  RGBA_32BPP: 3
+};
+
+/**
+ * PDF Service for SAHAJ KYC
+ * Opens (optionally password-protected) PDFs, reads their text layer and
+ * pulls out embedded page images
+ */
+export class PdfService {
+  static MAX_PAGES = 5;
+  static MIN_TEXT_LENGTH = 20; // below this the PDF is treated as a scan
+
+  /**
+   * Open a PDF document, mapping password failures to error codes
+   */
+  static async openDocument(buffer, options = {}) {
+    try {
+      return await PDFJS.getDocument({
+        data: new Uint8Array(buffer),
+        password: options.password,
+        nativeImageDecoderSupport: 'none'
+      });
+    } catch (error) {
+      if (error.name === 'PasswordException') {
+        const code = error.code === PDFJS.PasswordResponses.INCORRECT_PASSWORD
+          ? 'PDF_PASSWORD_INCORRECT'
+          : 'PDF_PASSWORD_REQUIRED';
+        const passwordError = new Error(code === 'PDF_PASSWORD_INCORRECT'
+          ? 'The PDF password is incorrect'
+          : 'This PDF is password protected');
+        passwordError.code = code;
+        throw passwordError;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * e-Aadhaar password: first four letters of the name in capitals followed by
+   * the year of birth (shorter names are used whole)
+   */
+  static deriveEAadhaarPassword(name, birthYear) {
+    const letters = (name || '').replace(/[^A-Za-z]/g, '').slice(0, 4).toUpperCase();
+    return `${letters}${birthYear}`;
+  }
+
+  /**
+   * Read the text layer as OCR-style lines ({ text, confidence, boundingBox }).
+   * hasTextLayer is false for scanned PDFs, which need rasterizing instead.
+   */
+  static async extractText(buffer, options = {}) {
+    const doc = await this.openDocument(buffer, options);
+    const lines = [];
+
+    try {
+      const pageCount = Math.min(doc.numPages, options.maxPages || this.MAX_PAGES);
+
+      for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+        const page = await doc.getPage(pageNumber);
+        const viewport = page.getViewport(1);
+        const content = await page.getTextContent();
+        lines.push(...this.groupTextLines(content.items, viewport.height));
+      }
+    } finally {
+      doc.destroy();
+    }
+
+    const text = lines.map(line => line.text).join('\n');
+
+    return {
+      text,
+      lines,
+      hasTextLayer: text.replace(/\s/g, '').length >= this.MIN_TEXT_LENGTH
+    };
+  }
+
+  /**
+   * Rasterize a scanned PDF: the largest embedded image on each page is the scan itself.
+   * Returns PNG buffers in page order.
+   */
+  static async rasterizePages(buffer, options = {}) {
+    const images = await this.extractImages(buffer, options);
+    const largestByPage = new Map();
+
+    images.forEach(image => {
+      const current = largestByPage.get(image.page);
+      if (!current || image.width * image.height > current.width * current.height) {
+        largestByPage.set(image.page, image);
+      }
+    });
+
+    const pages = [...largestByPage.values()].sort((a, b) => a.page - b.page);
+    return Promise.all(pages.map(image =>
+      sharp(Buffer.from(image.data.buffer, image.data.byteOffset, image.data.length), {
+        raw: { width: image.width, height: image.height, channels: 4 }
+      }).png().toBuffer()
+    ));
+  }
+
+  /**
+   * Merge text items sharing a baseline into lines, top to bottom;
+   * PDF coordinates run bottom-up so y is flipped against the page height
+   */
+  static groupTextLines(items, pageHeight) {
+    const lines = [];
+
+    items
+      .filter(item => item.str && item.str.trim())
+      .map(item => ({
+        text: item.str,
+        x: item.transform[4],
+        y: pageHeight - item.transform[5],
+        width: item.width,
+        height: item.height || Math.abs(item.transform[3])
+      }))
+      .sort((a, b) => a.y - b.y || a.x - b.x)
+      .forEach(item => {
+        const line = lines.find(candidate => Math.abs(candidate.y - item.y) <= Math.max(2, item.height * 0.5));
+        if (line) {
+          line.items.push(item);
+        } else {
+          lines.push({ y: item.y, items: [item] });
+        }
+      });
+
+    return lines.map(({ items: lineItems }) => {
+      lineItems.sort((a, b) => a.x - b.x);
+      const left = Math.min(...lineItems.map(item => item.x));
+      const right = Math.max(...lineItems.map(item => item.x + item.width));
+      const top = Math.min(...lineItems.map(item => item.y - item.height));
+      const bottom = Math.max(...lineItems.map(item => item.y));
+
+      return {
+        text: lineItems.map(item => item.text).join(' ').replace(/\s+/g, ' ').trim(),
+        // Text layers are exact, unlike OCR
+        confidence: 1,
+        boundingBox: {
+          x: Math.round(left),
+          y: Math.round(top),
+          width: Math.round(right - left),
+          height: Math.round(bottom - top)
+        }
+      };
+    });
+  }
+
+  /**
+   * Extract embedded raster images as RGBA pixel data
+   */
+  static async extractImages(buffer, options = {}) {
+    const doc = await this.openDocument(buffer, options);
+    const images = [];
+
+    try {
+      const pageCount = Math.min(doc.numPages, options.maxPages || this.MAX_PAGES);
+
+      for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+        const page = await doc.getPage(pageNumber);
+        const operatorList = await page.getOperatorList();
+
+        operatorList.fnArray.forEach((fn, index) => {
+          const args = operatorList.argsArray[index];
+          let imageData = null;
+
+          if (fn === PDFJS.OPS.paintImageXObject) {
+            imageData = page.objs.get(args[0]);
+          } else if (fn === PDFJS.OPS.paintInlineImageXObject) {
+            imageData = args[0];
+          }
+
+          if (imageData && imageData.data && imageData.width && imageData.height) {
+            images.push({
+              page: pageNumber,
+              width: imageData.width,
+              height: imageData.height,
+              data: this.toRGBA(imageData)
+            });
+          }
+        });
+      }
+    } finally {
+      doc.destroy();
+    }
+
+    return images;
+  }
+
+  /**
+   * Convert pdf.js image kinds (1bpp grayscale, RGB, RGBA) to RGBA
+   */
+  static toRGBA(imageData) {
+    const { width, height, kind, data } = imageData;
+    const rgba = new Uint8ClampedArray(width * height * 4);
+
+    if (kind === IMAGE_KIND.RGBA_32BPP) {
+      rgba.set(data.subarray(0, rgba.length));
+      return rgba;
+    }
+
+    if (kind === IMAGE_KIND.RGB_24BPP) {
+      for (let src = 0, dst = 0; dst < rgba.length; src += 3, dst += 4) {
+        rgba[dst] = data[src];
+        rgba[dst + 1] = data[src + 1];
+        rgba[dst + 2] = data[src + 2];
+        rgba[dst + 3] = 255;
+      }
+      return rgba;
+    }
+
+    // GRAYSCALE_1BPP: rows are padded to whole bytes
+    const rowBytes = (width + 7) >> 3;
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const bit = (data[y * rowBytes + (x >> 3)] >> (7 - (x & 7))) & 1;
+        const value = bit ? 255 : 0;
+        const dst = (y * width + x) * 4;
+        rgba[dst] = value;
+        rgba[dst + 1] = value;
+        rgba[dst + 2] = value;
+        rgba[dst + 3] = 255;
+      }
+    }
+    return rgba;
+  }
+}
+
+export default PdfService;
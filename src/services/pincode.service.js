@@ -0,0 +1,170 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * PIN Code Service for SAHAJ KYC
+ * Indexed lookups over the India Post PIN code directory (data/pincodes.json,
+ * built by scripts/import-pincodes.js) and address / PIN consistency checks
+ */
+export class PincodeService {
+  static DATA_PATH = process.env.PINCODE_DATA_PATH || path.join(process.cwd(), 'data', 'pincodes.json');
+
+  // Former and colloquial names that appear in addresses
+  static ALIASES = {
+    ORISSA: 'ODISHA',
+    UTTARANCHAL: 'UTTARAKHAND',
+    PONDICHERRY: 'PUDUCHERRY',
+    'NCT OF DELHI': 'DELHI',
+    'NEW DELHI': 'DELHI',
+    GURGAON: 'GURUGRAM',
+    BANGALORE: 'BENGALURU',
+    BOMBAY: 'MUMBAI',
+    CALCUTTA: 'KOLKATA',
+    MADRAS: 'CHENNAI',
+    POONA: 'PUNE',
+    MYSORE: 'MYSURU'
+  };
+
+  static directory = null;
+
+  /**
+   * Load and index the directory once; null when it has not been imported
+   */
+  static load() {
+    if (this.directory !== null) return this.directory || null;
+
+    try {
+      const data = JSON.parse(fs.readFileSync(this.DATA_PATH, 'utf8'));
+      const pincodes = new Map();
+      Object.entries(data.pincodes).forEach(([pincode, offices]) => {
+        pincodes.set(pincode, offices);
+      });
+
+      this.directory = {
+        states: data.states,
+        districts: data.districts,
+        pincodes,
+        // Normalized state names for spotting a different state in address text
+        stateKeys: data.states.map(state => this.normalize(state))
+      };
+    } catch (error) {
+      console.error(`PIN code directory not available at ${this.DATA_PATH}; run npm run pincodes:import`, error.message);
+      this.directory = false;
+    }
+
+    return this.directory || null;
+  }
+
+  static isAvailable() {
+    return this.load() !== null;
+  }
+
+  /**
+   * Post offices, district(s) and state for a PIN code, or null when unknown
+   */
+  static lookup(pinCode) {
+    const directory = this.load();
+    const pincode = String(pinCode || '').replace(/\s/g, '');
+    if (!directory || !/^[1-9]\d{5}$/.test(pincode)) return null;
+
+    const offices = directory.pincodes.get(pincode);
+    if (!offices) return null;
+
+    const districtIds = [...new Set(offices.map(([districtId]) => districtId))];
+    const districts = districtIds.map(id => directory.districts[id][0]);
+    const state = directory.states[directory.districts[districtIds[0]][1]];
+
+    return {
+      pinCode: pincode,
+      state,
+      district: districts[0],
+      districts,
+      postOffices: offices.map(([districtId, name, type, delivery]) => ({
+        name,
+        type,
+        delivery: delivery === 1,
+        district: directory.districts[districtId][0]
+      }))
+    };
+  }
+
+  /**
+   * Check an address against its PIN code; city and state are compared when given,
+   * and the address text is scanned for a different state's name
+   */
+  static verifyAddress(address, pinCode, { city, state } = {}) {
+    const entry = this.lookup(pinCode);
+    if (!entry) {
+      return {
+        isValid: false,
+        confidence: 0.1,
+        errors: [this.isAvailable() ? 'PIN code not found in directory' : 'PIN code directory is not available'],
+        mismatches: []
+      };
+    }
+
+    const mismatches = [];
+    const addressKey = this.normalize(address);
+    const places = [
+      ...entry.districts,
+      ...entry.postOffices.map(office => this.officeLocality(office.name))
+    ].map(place => this.normalize(place));
+
+    const cityMatch = city ? places.some(place => this.sameName(place, this.normalize(city))) : null;
+    if (cityMatch === false) mismatches.push(`City "${city}" is not served by PIN code ${entry.pinCode} (${entry.district})`);
+
+    const stateMatch = state ? this.sameName(this.normalize(state), this.normalize(entry.state)) : null;
+    if (stateMatch === false) mismatches.push(`State "${state}" does not match PIN code ${entry.pinCode} (${entry.state})`);
+
+    const otherState = this.findOtherState(addressKey, entry.state);
+    if (otherState) mismatches.push(`Address mentions ${otherState}, but PIN code ${entry.pinCode} is in ${entry.state}`);
+
+    const addressMatch = places.some(place => place && addressKey.includes(place));
+
+    return {
+      isValid: mismatches.length === 0,
+      confidence: mismatches.length > 0 ? 0.3 : addressMatch ? 0.98 : 0.85,
+      details: {
+        pinCode: entry.pinCode,
+        city: cityMatch === false || !city ? entry.district : city,
+        district: entry.district,
+        state: entry.state,
+        postOffices: entry.postOffices.map(office => office.name),
+        addressMatch,
+        cityMatch,
+        stateMatch
+      },
+      errors: mismatches.length > 0 ? mismatches : undefined,
+      mismatches
+    };
+  }
+
+  static findOtherState(addressKey, pinState) {
+    const directory = this.load();
+    const pinStateKey = this.normalize(pinState);
+    const index = directory.stateKeys.findIndex(key =>
+      key !== pinStateKey && key.length > 3 && new RegExp(`\\b${key}\\b`).test(addressKey));
+    return index === -1 ? null : directory.states[index];
+  }
+
+  /**
+   * "Connaught Place S.O" -> "Connaught Place"
+   */
+  static officeLocality(officeName) {
+    return officeName.replace(/\s+(B\.?O|S\.?O|H\.?O|G\.?P\.?O)\b.*$/i, '').trim();
+  }
+
+  static sameName(a, b) {
+    return a === b || a.includes(b) || b.includes(a);
+  }
+
+  static normalize(text) {
+    let key = String(text || '').toUpperCase().replace(/[^A-Z\s]/g, ' ').replace(/\s+/g, ' ').trim();
+    Object.entries(this.ALIASES).forEach(([alias, name]) => {
+      key = key.replace(new RegExp(`\\b${alias}\\b`, 'g'), name);
+    });
+    return key;
+  }
+}
+
+export default PincodeService;
@@ -0,0 +1,42 @@
+import crypto from 'crypto';
+import { VerificationProviderError } from './errors.js';
+
+/**
+ * Deterministic local penny-drop provider for development and staging.
+ * No money moves; the last four digits of the account number select the outcome:
+ *   0000 - account does not exist or is closed
+ *   2222 - account belongs to someone else (different holder name)
+ *   9999 - bank unavailable
+ *   anything else - account exists in the applicant's name
+ */
+export const StubBankAccountProvider = {
+  name: 'stub',
+
+  async verify(request) {
+    const suffix = request.accountNumber.slice(-4);
+
+    if (suffix === '9999') {
+      throw new VerificationProviderError('UPSTREAM_UNAVAILABLE', 'Beneficiary bank is unavailable (stub)', this.name);
+    }
+
+    const referenceId = `stub_${crypto
+      .createHash('sha256')
+      .update(`${request.ifsc}:${request.accountNumber}`)
+      .digest('hex')
+      .slice(0, 12)}`;
+    const accountExists = suffix !== '0000';
+
+    return {
+      accountExists,
+      accountHolderName: !accountExists
+        ? undefined
+        : suffix === '2222' ? 'SOMEONE ELSE' : String(request.name || '').toUpperCase(),
+      provider: this.name,
+      referenceId,
+      timestamp: new Date().toISOString(),
+      errors: accountExists ? undefined : ['Account does not exist or is closed']
+    };
+  }
+};
+
+export default StubBankAccountProvider;
@@ -0,0 +1,76 @@
+import { VerificationProviderError } from './errors.js';
+
+/**
+ * Deterministic local GST and Udyam registry for development and staging.
+ * The four digits in the GSTIN's embedded PAN, or the last four digits of the
+ * Udyam number, select the outcome:
+ *   0000 - not registered
+ *   1111 - registration cancelled
+ *   2222 - registered to a different business (different legal name)
+ *   9999 - registry unavailable
+ *   anything else - active registration in the applicant's business name
+ */
+const outcomeFor = (digits, provider) => {
+  if (digits === '9999') {
+    throw new VerificationProviderError('UPSTREAM_UNAVAILABLE', 'Business registry is unavailable (stub)', provider);
+  }
+  return { '0000': 'not_found', '1111': 'cancelled', '2222': 'other_business' }[digits] || 'active';
+};
+
+const CONSTITUTIONS = {
+  C: 'Private Limited Company',
+  F: 'Partnership',
+  P: 'Proprietorship',
+  T: 'Trust'
+};
+
+export const StubBusinessRegistryProvider = {
+  name: 'stub',
+
+  async verifyGstin({ gstin, businessName }) {
+    const outcome = outcomeFor(gstin.slice(7, 11), this.name);
+    const timestamp = new Date().toISOString();
+
+    if (outcome === 'not_found') {
+      return { registered: false, provider: this.name, timestamp, errors: ['GSTIN is not registered'] };
+    }
+
+    const legalName = outcome === 'other_business' ? 'ANOTHER ENTERPRISE PRIVATE LIMITED' : String(businessName || '').toUpperCase();
+
+    return {
+      registered: true,
+      gstin,
+      legalName,
+      tradeName: legalName,
+      status: outcome === 'cancelled' ? 'Cancelled' : 'Active',
+      constitution: CONSTITUTIONS[gstin.charAt(5)] || 'Others',
+      registrationDate: '01/07/2017',
+      stateCode: gstin.slice(0, 2),
+      provider: this.name,
+      timestamp
+    };
+  },
+
+  async verifyUdyam({ udyamNumber, businessName }) {
+    const outcome = outcomeFor(udyamNumber.slice(-4), this.name);
+    const timestamp = new Date().toISOString();
+
+    if (outcome === 'not_found') {
+      return { registered: false, provider: this.name, timestamp, errors: ['Udyam registration number not found'] };
+    }
+
+    return {
+      registered: true,
+      udyamNumber,
+      enterpriseName: outcome === 'other_business' ? 'ANOTHER ENTERPRISE' : String(businessName || '').toUpperCase(),
+      enterpriseType: 'Micro',
+      majorActivity: 'Services',
+      status: outcome === 'cancelled' ? 'Cancelled' : 'Active',
+      registrationDate: '15/03/2021',
+      provider: this.name,
+      timestamp
+    };
+  }
+};
+
+export default StubBusinessRegistryProvider;
@@ -0,0 +1,80 @@
+import crypto from 'crypto';
+import { VerificationProviderError } from './errors.js';
+
+/**
+ * Deterministic local CKYC registry for development and staging.
+ * The last four digits in the PAN or Aadhaar number select the outcome
+ * (for a PAN, ABCDE0000F has no record):
+ *   0000 - no CKYC record
+ *   9999 - registry unavailable
+ *   anything else - a record exists, with a CKYC number derived from the ID
+ * Downloads accept any date of birth and return it as the recorded one.
+ */
+const NAMES = [
+  { name: 'RAJESH KUMAR SHARMA', fatherName: 'MOHAN LAL SHARMA', gender: 'M' },
+  { name: 'SUNITA DEVI', fatherName: 'RAM PRASAD', gender: 'F' },
+  { name: 'ANIL VERMA', fatherName: 'SURESH VERMA', gender: 'M' },
+  { name: 'PRIYA NAIR', fatherName: 'GOPALAN NAIR', gender: 'F' }
+];
+
+const seedOf = value => crypto.createHash('sha256').update(value).digest().readUInt32BE(0);
+
+// 14-digit CKYC identifier (KIN), stable per ID number
+const ckycNumberFor = (idType, idNumber) => `1${String(seedOf(`${idType}:${idNumber}`)).padStart(13, '0')}`;
+
+const checkAvailability = (idNumber, provider) => {
+  const suffix = idNumber.replace(/\D/g, '').slice(-4);
+  if (suffix === '9999') {
+    throw new VerificationProviderError('UPSTREAM_UNAVAILABLE', 'CKYC registry is unavailable (stub)', provider);
+  }
+  return suffix !== '0000';
+};
+
+export const StubCkycProvider = {
+  name: 'stub',
+
+  async search({ idType, idNumber }) {
+    if (!checkAvailability(idNumber, this.name)) {
+      return { found: false, provider: this.name, timestamp: new Date().toISOString() };
+    }
+
+    const ckycNumber = ckycNumberFor(idType, idNumber);
+    const person = NAMES[seedOf(ckycNumber) % NAMES.length];
+
+    return {
+      found: true,
+      ckycNumber,
+      name: person.name,
+      fatherName: person.fatherName,
+      kycDate: '15/01/2021',
+      updatedDate: '15/01/2021',
+      provider: this.name,
+      timestamp: new Date().toISOString()
+    };
+  },
+
+  async download({ ckycNumber, dateOfBirth }) {
+    const person = NAMES[seedOf(ckycNumber) % NAMES.length];
+    return {
+      ckycNumber,
+      personalInfo: {
+        name: person.name,
+        fatherName: person.fatherName,
+        dateOfBirth,
+        gender: person.gender
+      },
+      address: {
+        line1: '12 Station Road',
+        city: 'New Delhi',
+        state: 'Delhi',
+        pincode: '110001',
+        country: 'India'
+      },
+      kycDate: '15/01/2021',
+      provider: this.name,
+      timestamp: new Date().toISOString()
+    };
+  }
+};
+
+export default StubCkycProvider;
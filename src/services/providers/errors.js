@@ -0,0 +1,16 @@
+/**
+ * Error taxonomy shared by verification providers; adapters map vendor
+ * failures onto these codes so callers can handle them uniformly
+ */
+export class VerificationProviderError extends Error {
+  // Codes worth retrying; everything else fails immediately
+  static RETRYABLE_CODES = ['TIMEOUT', 'RATE_LIMITED', 'UPSTREAM_UNAVAILABLE'];
+
+  constructor(code, message, provider = 'unknown') {
+    super(message);
+    this.name = 'VerificationProviderError';
+    this.code = code;
+    this.provider = provider;
+    this.retryable = VerificationProviderError.RETRYABLE_CODES.includes(code);
+  }
+}
@@ -0,0 +1,139 @@
+import crypto from 'crypto';
+import { VerificationProviderError } from './errors.js';
+import { ConsistencyService } from '../consistency.service.js';
+
+/**
+ * Deterministic local verification provider for development and staging.
+ * The same request always gets the same answer, and the last four digits
+ * of the document number select the outcome:
+ *   0000 - no matching record
+ *   9999 - upstream unavailable (exercises retries)
+ *   anything else - verified
+ */
+const SOURCES = {
+  aadhaar: 'UIDAI eKYC API',
+  pan: 'Income Tax Department API',
+  passport: 'Passport Seva Kendra API',
+  license: 'State RTO Database',
+  voter_id: 'ECI Electoral Roll'
+};
+
+// Electoral roll entries are returned with their assembly constituency
+const CONSTITUENCIES = [
+  { state: 'DELHI', constituency: '40 - New Delhi' },
+  { state: 'UTTAR PRADESH', constituency: '149 - Sitapur' },
+  { state: 'BIHAR', constituency: '182 - Patna Sahib' },
+  { state: 'RAJASTHAN', constituency: '56 - Sikar' }
+];
+
+// Age in whole years from a date of birth as OCR (DD/MM/YYYY) or a date
+// input (YYYY-MM-DD) gives it, or a bare year; null when unreadable
+const ageFrom = dateOfBirth => {
+  const date = ConsistencyService.parseDate(dateOfBirth);
+  if (!date) return null;
+
+  const today = new Date();
+  const month = today.getMonth() + 1;
+  const birthdayPassed = !date.month || month > date.month || (month === date.month && today.getDate() >= date.day);
+  return today.getFullYear() - date.year - (birthdayPassed ? 0 : 1);
+};
+
+const recordDetails = (request, seed) => {
+  const base = {
+    name: request.name.toUpperCase(),
+    dateOfBirth: request.dateOfBirth
+  };
+
+  switch (request.documentType) {
+    case 'aadhaar':
+      return {
+        ...base,
+        gender: seed % 2 === 0 ? 'M' : 'F',
+        address: 'Address verified against UIDAI database',
+        mobileVerified: true,
+        emailVerified: false
+      };
+    case 'pan':
+      return {
+        ...base,
+        panNumber: request.documentNumber,
+        status: 'ACTIVE',
+        aadhaarLinked: seed % 5 !== 0,
+        lastFiledYear: '2023-24'
+      };
+    case 'passport':
+      return {
+        ...base,
+        passportNumber: request.documentNumber,
+        placeOfBirth: 'DELHI, INDIA',
+        nationality: 'INDIAN',
+        issueDate: '15/01/2020',
+        expiryDate: '14/01/2030',
+        status: 'VALID'
+      };
+    case 'license':
+      return {
+        ...base,
+        licenseNumber: request.documentNumber,
+        issueDate: '15/01/2020',
+        validTill: '14/01/2040',
+        licenseClass: 'LMV',
+        status: 'ACTIVE',
+        endorsements: [],
+        violations: 0
+      };
+    case 'voter_id': {
+      // The electoral roll records age and relative rather than date of birth
+      const roll = CONSTITUENCIES[seed % CONSTITUENCIES.length];
+      return {
+        name: base.name,
+        relativeName: request.relativeName?.toUpperCase(),
+        relationType: 'FATHER',
+        age: ageFrom(request.dateOfBirth) ?? 18 + (seed % 60),
+        gender: seed % 2 === 0 ? 'M' : 'F',
+        epicNumber: request.documentNumber,
+        state: roll.state,
+        constituency: roll.constituency,
+        partNumber: String(1 + (seed % 250)),
+        status: 'ENROLLED'
+      };
+    }
+    default:
+      return base;
+  }
+};
+
+export const StubVerificationProvider = {
+  name: 'stub',
+  supportedDocuments: ['aadhaar', 'pan', 'passport', 'license', 'voter_id'],
+
+  async verify(request) {
+    const digits = request.documentNumber.replace(/\D/g, '');
+    const suffix = digits.slice(-4);
+    const source = SOURCES[request.documentType];
+
+    if (suffix === '9999') {
+      throw new VerificationProviderError('UPSTREAM_UNAVAILABLE', `${source} is unavailable (stub)`, this.name);
+    }
+
+    const seed = crypto
+      .createHash('sha256')
+      .update(`${request.documentType}:${request.documentNumber}`)
+      .digest()
+      .readUInt16BE(0);
+    const isValid = suffix !== '0000';
+
+    return {
+      isValid,
+      // 0.90-0.99 for verified records, stable per document number
+      confidence: isValid ? (90 + (seed % 10)) / 100 : 0.1,
+      verificationSource: `${source} (stub)`,
+      provider: this.name,
+      timestamp: new Date().toISOString(),
+      details: isValid ? recordDetails(request, seed) : undefined,
+      errors: isValid ? undefined : ['No matching record found']
+    };
+  }
+};
+
+export default StubVerificationProvider;
@@ -0,0 +1,237 @@
+import { NameMatchingService } from './name-matching.service.js';
+
+/**
+ * Sandbox Service for SAHAJ KYC
+ * Fixed, documented responses for partner integration testing. Enabled with
+ * SANDBOX_MODE=true and always disabled when NODE_ENV is production.
+ * Every sandbox response carries `sandbox: true`.
+ */
+export class SandboxService {
+  // The person behind every sandbox identity
+  static TEST_PERSON = {
+    name: 'SANDBOX TEST USER',
+    fatherName: 'SANDBOX TEST PARENT',
+    dateOfBirth: '01/01/1990',
+    gender: 'M',
+    address: '1 Test Street, Connaught Place, New Delhi - 110001'
+  };
+
+  // Name printed on documents whose outcome is 'name_mismatch'
+  static MISMATCH_NAME = 'SANDBOX OTHER USER';
+
+  // Magic document numbers and the outcome each one produces
+  static IDENTITIES = {
+    aadhaar: [
+      { pattern: /^999999990019$/, outcome: 'verified' },
+      { pattern: /^999999990000$/, outcome: 'not_found' },
+      { pattern: /^999999990013$/, outcome: 'dob_mismatch' }
+    ],
+    pan: [
+      { pattern: /^[A-Z]{5}\d{4}F$/, outcome: 'verified' },
+      { pattern: /^[A-Z]{5}\d{4}X$/, outcome: 'name_mismatch' },
+      { pattern: /^[A-Z]{5}\d{4}N$/, outcome: 'not_found' }
+    ],
+    passport: [
+      { pattern: /^Z0000001$/, outcome: 'verified' },
+      { pattern: /^Z0000000$/, outcome: 'not_found' }
+    ],
+    license: [
+      { pattern: /^SB-0000000000001$/, outcome: 'verified' },
+      { pattern: /^SB-0000000000000$/, outcome: 'not_found' }
+    ],
+    voter_id: [
+      { pattern: /^SBX0000001$/, outcome: 'verified' },
+      { pattern: /^SBX0000000$/, outcome: 'not_found' }
+    ]
+  };
+
+  // Extracted field holding each document type's number
+  static NUMBER_FIELDS = {
+    aadhaar: 'aadhaarNumber',
+    pan: 'panNumber',
+    passport: 'passportNumber',
+    license: 'licenseNumber',
+    voter_id: 'voterIdNumber'
+  };
+
+  static OUTCOME_ERRORS = {
+    not_found: 'No record found for this document number',
+    name_mismatch: 'Name does not match records',
+    dob_mismatch: 'Date of birth does not match records'
+  };
+
+  // Face verification scenarios, selected by sessionId
+  static FACE_SCENARIOS = {
+    sandbox_live: { isLive: true, livenessScore: 0.95, confidence: 0.93, spoofDetected: false },
+    sandbox_not_live: { isLive: false, livenessScore: 0.32, confidence: 0.88, spoofDetected: false },
+    sandbox_spoof: { isLive: false, livenessScore: 0.41, confidence: 0.9, spoofDetected: true }
+  };
+
+  static DEFAULT_FACE_SCENARIO = 'sandbox_live';
+
+  static productionWarningShown = false;
+
+  static isEnabled() {
+    if (process.env.SANDBOX_MODE !== 'true') return false;
+
+    if (process.env.NODE_ENV === 'production') {
+      if (!this.productionWarningShown) {
+        console.error('SANDBOX_MODE is set in a production environment and has been ignored');
+        this.productionWarningShown = true;
+      }
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Magic numbers as JSON-friendly patterns, for API discovery endpoints
+   */
+  static describeIdentities() {
+    return Object.fromEntries(Object.entries(this.IDENTITIES).map(([type, identities]) => [
+      type,
+      identities.map(({ pattern, outcome }) => ({ pattern: pattern.source, outcome }))
+    ]));
+  }
+
+  static normalizeNumber(documentType, documentNumber) {
+    const value = String(documentNumber || '').trim().toUpperCase();
+    return documentType === 'aadhaar' ? value.replace(/[\s-]/g, '') : value;
+  }
+
+  /**
+   * Outcome for a magic document number, or null for any other number.
+   * Without a documentType every type's numbers are tried.
+   */
+  static findIdentity(documentType, documentNumber) {
+    const types = documentType ? [documentType] : Object.keys(this.IDENTITIES);
+    for (const type of types) {
+      const number = this.normalizeNumber(type, documentNumber);
+      const identity = (this.IDENTITIES[type] || []).find(({ pattern }) => pattern.test(number));
+      if (identity) return { documentType: type, documentNumber: number, outcome: identity.outcome };
+    }
+    return null;
+  }
+
+  /**
+   * Fixed government verification result for a magic number, or null
+   */
+  static verifyDocument(request) {
+    const identity = this.findIdentity(request.documentType, request.documentNumber);
+    if (!identity) return null;
+
+    const isValid = identity.outcome === 'verified';
+    return {
+      isValid,
+      confidence: isValid ? 0.99 : identity.outcome === 'not_found' ? 0 : 0.3,
+      verificationSource: 'SAHAJ Sandbox',
+      provider: 'sandbox',
+      timestamp: new Date().toISOString(),
+      details: identity.outcome === 'not_found' ? undefined : {
+        name: isValid ? String(request.name || '').toUpperCase() : this.TEST_PERSON.name,
+        dateOfBirth: this.TEST_PERSON.dateOfBirth,
+        nameMatch: NameMatchingService.match(request.name, identity.outcome === 'name_mismatch' ? this.MISMATCH_NAME : request.name),
+        dateOfBirthMatch: identity.outcome !== 'dob_mismatch'
+      },
+      errors: isValid ? undefined : [this.OUTCOME_ERRORS[identity.outcome]]
+    };
+  }
+
+  /**
+   * Fields a document with a magic number would yield from OCR, or null
+   */
+  static extractDocument(documentNumber, documentType) {
+    const identity = this.findIdentity(documentType, documentNumber);
+    if (!identity) return null;
+
+    const person = this.TEST_PERSON;
+    const fields = {
+      fullName: identity.outcome === 'name_mismatch' ? this.MISMATCH_NAME : person.name,
+      dateOfBirth: identity.outcome === 'dob_mismatch' ? '02/02/1992' : person.dateOfBirth,
+      [this.NUMBER_FIELDS[identity.documentType]]: identity.documentType === 'aadhaar'
+        ? identity.documentNumber.replace(/(\d{4})(?=\d)/g, '$1 ')
+        : identity.documentNumber
+    };
+
+    if (identity.documentType === 'aadhaar') {
+      fields.gender = person.gender;
+      fields.address = person.address;
+    } else if (identity.documentType === 'pan') {
+      fields.fatherName = person.fatherName;
+    } else if (identity.documentType === 'passport') {
+      fields.nationality = 'IND';
+      fields.expiryDate = '31/12/2034';
+    } else if (identity.documentType === 'license') {
+      fields.address = person.address;
+      fields.validTill = '31/12/2040';
+    } else if (identity.documentType === 'voter_id') {
+      fields.fatherName = person.fatherName;
+      fields.relativeName = person.fatherName;
+      fields.relationType = 'FATHER';
+      fields.gender = person.gender === 'M' ? 'MALE' : 'FEMALE';
+      fields.address = person.address;
+      fields.constituency = '40 - New Delhi';
+    }
+
+    return { documentType: identity.documentType, outcome: identity.outcome, fields };
+  }
+
+  /**
+   * Fixed face verification result for the scenario named by sessionId
+   * (unknown session IDs get the default live result)
+   */
+  static verifyFace(sessionId) {
+    const scenario = this.FACE_SCENARIOS[sessionId] ? sessionId : this.DEFAULT_FACE_SCENARIO;
+    const result = this.FACE_SCENARIOS[scenario];
+
+    return {
+      scenario,
+      isLive: result.isLive,
+      confidence: result.confidence,
+      livenessScore: result.livenessScore,
+      antiSpoofing: {
+        detected: result.spoofDetected,
+        confidence: 0.9
+      },
+      environmentalFactors: {
+        lighting: 'good',
+        facePosition: 'centered',
+        imageQuality: 'high'
+      }
+    };
+  }
+
+  /**
+   * DigiLocker consent result without calling Setu; the 'not found' Aadhaar
+   * number simulates a user without a DigiLocker account
+   */
+  static fetchDigiLockerDocuments(applicationId, consentData = {}) {
+    const identity = consentData.aadhaarNumber
+      ? this.findIdentity('aadhaar', consentData.aadhaarNumber)
+      : null;
+
+    if (identity?.outcome === 'not_found') {
+      return {
+        success: false,
+        sandbox: true,
+        error: 'No DigiLocker account is linked to this Aadhaar number'
+      };
+    }
+
+    return {
+      success: true,
+      sandbox: true,
+      consentId: `sandbox_consent_${applicationId}`,
+      requestId: `sandbox_request_${applicationId}`,
+      redirectUrl: null,
+      documents: (consentData.documentTypes || ['AADHAAR']).map(type => ({
+        type,
+        name: this.TEST_PERSON.name,
+        dateOfBirth: this.TEST_PERSON.dateOfBirth,
+        issuer: 'SAHAJ Sandbox'
+      }))
+    };
+  }
+}
+
+export default SandboxService;
@@ -0,0 +1,281 @@
+/**
+ * Transliteration Service for SAHAJ KYC
+ * Romanizes Hindi (Devanagari), Bengali and Tamil text and reconciles the
+ * regional-script name and address printed on Indian ID cards with their
+ * English counterparts
+ */
+export class TransliterationService {
+  // Unicode blocks follow the ISCII layout, so one offset table serves all three scripts
+  static SCRIPTS = {
+    hi: { name: 'Hindi', start: 0x0900, tesseract: 'hin', schwaDeletion: true },
+    bn: { name: 'Bengali', start: 0x0980, tesseract: 'ben', schwaDeletion: true },
+    ta: { name: 'Tamil', start: 0x0B80, tesseract: 'tam', schwaDeletion: false }
+  };
+
+  static BLOCK_SIZE = 0x80;
+  static MATCH_THRESHOLD = 0.75;
+
+  // Long vowels use the common Indian English spellings (Rajesh, Sunita) rather than aa/ee
+  static VOWELS = {
+    0x05: 'a', 0x06: 'a', 0x07: 'i', 0x08: 'i', 0x09: 'u', 0x0A: 'u', 0x0B: 'ri',
+    0x0E: 'e', 0x0F: 'e', 0x10: 'ai', 0x12: 'o', 0x13: 'o', 0x14: 'au'
+  };
+
+  static CONSONANTS = {
+    0x15: 'k', 0x16: 'kh', 0x17: 'g', 0x18: 'gh', 0x19: 'ng',
+    0x1A: 'ch', 0x1B: 'chh', 0x1C: 'j', 0x1D: 'jh', 0x1E: 'ny',
+    0x1F: 't', 0x20: 'th', 0x21: 'd', 0x22: 'dh', 0x23: 'n',
+    0x24: 't', 0x25: 'th', 0x26: 'd', 0x27: 'dh', 0x28: 'n', 0x29: 'n',
+    0x2A: 'p', 0x2B: 'ph', 0x2C: 'b', 0x2D: 'bh', 0x2E: 'm',
+    0x2F: 'y', 0x30: 'r', 0x31: 'r', 0x32: 'l', 0x33: 'l', 0x34: 'zh', 0x35: 'v',
+    0x36: 'sh', 0x37: 'sh', 0x38: 's', 0x39: 'h',
+    // Nukta forms (Devanagari) and Bengali extras
+    0x58: 'q', 0x59: 'kh', 0x5A: 'g', 0x5B: 'z', 0x5C: 'r', 0x5D: 'r', 0x5E: 'f', 0x5F: 'y'
+  };
+
+  static VOWEL_SIGNS = {
+    0x3E: 'a', 0x3F: 'i', 0x40: 'i', 0x41: 'u', 0x42: 'u', 0x43: 'ri',
+    0x46: 'e', 0x47: 'e', 0x48: 'ai', 0x4A: 'o', 0x4B: 'o', 0x4C: 'au', 0x57: 'au'
+  };
+
+  static MODIFIERS = {
+    0x01: 'n', 0x02: 'n', 0x03: 'h', 0x4E: 't'
+  };
+
+  static VIRAMA = 0x4D;
+  static NUKTA = 0x3C;
+
+  static ADDRESS_LABELS = {
+    hi: /पता/,
+    bn: /ঠিকানা/,
+    ta: /முகவரி/
+  };
+
+  /**
+   * Which supported regional script a string is mostly written in, or null
+   */
+  static detectLanguage(text) {
+    const counts = {};
+    for (const char of text || '') {
+      const code = char.codePointAt(0);
+      Object.entries(this.SCRIPTS).forEach(([language, script]) => {
+        if (code >= script.start && code < script.start + this.BLOCK_SIZE) {
+          counts[language] = (counts[language] || 0) + 1;
+        }
+      });
+    }
+
+    const [best] = Object.entries(counts).sort((a, b) => b[1] - a[1]);
+    return best ? best[0] : null;
+  }
+
+  static countScriptCharacters(text, language) {
+    const { start } = this.SCRIPTS[language];
+    return [...(text || '')].filter(char => {
+      const code = char.codePointAt(0);
+      return code >= start && code < start + this.BLOCK_SIZE;
+    }).length;
+  }
+
+  /**
+   * Romanize regional-script text; Latin and other characters pass through
+   */
+  static toLatin(text, language = this.detectLanguage(text)) {
+    const script = this.SCRIPTS[language];
+    if (!script) return text;
+
+    const words = text.split(/(\s+)/).map(word => {
+      if (/^\s+$/.test(word)) return word;
+
+      let output = '';
+      let pendingVowel = false;
+
+      for (const char of word) {
+        const offset = char.codePointAt(0) - script.start;
+        if (offset < 0 || offset >= this.BLOCK_SIZE) {
+          if (pendingVowel) output += 'a';
+          pendingVowel = false;
+          output += char;
+          continue;
+        }
+
+        if (this.CONSONANTS[offset]) {
+          if (pendingVowel) output += 'a';
+          output += this.CONSONANTS[offset];
+          pendingVowel = true;
+        } else if (this.VOWEL_SIGNS[offset]) {
+          output += this.VOWEL_SIGNS[offset];
+          pendingVowel = false;
+        } else if (offset === this.VIRAMA) {
+          pendingVowel = false;
+        } else if (offset === this.NUKTA) {
+          continue;
+        } else if (this.VOWELS[offset]) {
+          if (pendingVowel) output += 'a';
+          output += this.VOWELS[offset];
+          pendingVowel = false;
+        } else if (this.MODIFIERS[offset]) {
+          if (pendingVowel) output += 'a';
+          output += this.MODIFIERS[offset];
+          pendingVowel = false;
+        }
+      }
+
+      // Hindi and Bengali drop the inherent vowel at the end of a word (राम → Ram)
+      if (pendingVowel && !script.schwaDeletion) output += 'a';
+      return output;
+    });
+
+    return words.join('').replace(/(^|\s)(\S)/g, (match, space, letter) => space + letter.toUpperCase());
+  }
+
+  /**
+   * Loose phonetic key so spelling variants of the same name compare equal
+   * (Sharma / Sharmaa, Lakshmi / Laxmi, Vijay / Wijay)
+   */
+  static phoneticKey(text) {
+    return (text || '')
+      .toLowerCase()
+      .replace(/[^a-z]/g, '')
+      .replace(/x/g, 'ksh')
+      .replace(/w/g, 'v')
+      .replace(/ph/g, 'f')
+      .replace(/z/g, 'j')
+      .replace(/([kgcjtdpb])h/g, '$1')
+      .replace(/sh/g, 's')
+      .replace(/ee|ii/g, 'i')
+      .replace(/oo|uu/g, 'u')
+      .replace(/aa/g, 'a')
+      .replace(/y$/g, 'i')
+      .replace(/(.)\1+/g, '$1')
+      .replace(/a$/, '');
+  }
+
+  /**
+   * Similarity (0-1) of two names after romanization, by edit distance on phonetic keys
+   */
+  static compareNames(first, second) {
+    const a = this.phoneticKey(this.toLatin(first));
+    const b = this.phoneticKey(this.toLatin(second));
+    if (!a || !b) return 0;
+
+    const distance = this.levenshtein(a, b);
+    return Math.round((1 - distance / Math.max(a.length, b.length)) * 100) / 100;
+  }
+
+  static levenshtein(a, b) {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      for (let j = 1; j <= b.length; j++) {
+        current[j] = Math.min(
+          previous[j] + 1,
+          current[j - 1] + 1,
+          previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+        );
+      }
+      previous = current;
+    }
+    return previous[b.length];
+  }
+
+  /**
+   * Pair the regional-script name and address with the English fields.
+   * english.nameBoundingBox locates the OCR line the English name came from;
+   * the regional name is printed directly above it on Aadhaar and EPIC cards.
+   */
+  static reconcile(lines, english = {}) {
+    const regionalLines = lines.filter(line => this.detectLanguage(line.text));
+    if (regionalLines.length === 0) return null;
+
+    const language = this.detectLanguage(regionalLines.map(line => line.text).join(' '));
+    const nameCandidates = regionalLines.filter(line => this.isRegionalNameLike(line.text, language));
+
+    // The English name line, by position or (for a separate OCR pass) by text
+    const normalize = text => (text || '').toUpperCase().replace(/[^A-Z]/g, '');
+    let englishIndex = english.nameBoundingBox
+      ? lines.findIndex(line =>
+        line.boundingBox &&
+        line.boundingBox.x === english.nameBoundingBox.x &&
+        line.boundingBox.y === english.nameBoundingBox.y)
+      : -1;
+    if (englishIndex === -1 && english.name) {
+      englishIndex = lines.findIndex(line => normalize(line.text) === normalize(english.name));
+    }
+
+    let nameLine = null;
+    if (englishIndex > 0) {
+      nameLine = lines.slice(Math.max(0, englishIndex - 2), englishIndex).reverse()
+        .find(line => nameCandidates.includes(line)) || null;
+    }
+    if (!nameLine && english.name) {
+      nameLine = nameCandidates
+        .map(line => ({ line, similarity: this.compareNames(line.text, english.name) }))
+        .sort((a, b) => b.similarity - a.similarity)[0]?.line || null;
+    }
+    if (!nameLine) nameLine = nameCandidates[0] || null;
+
+    let name = null;
+    if (nameLine) {
+      const regional = this.cleanRegionalText(nameLine.text);
+      const transliterated = this.toLatin(regional, language);
+      const similarity = english.name ? this.compareNames(transliterated, english.name) : null;
+
+      name = {
+        regional,
+        transliterated,
+        confidence: nameLine.confidence,
+        boundingBox: nameLine.boundingBox,
+        similarity,
+        matches: similarity === null ? null : similarity >= this.MATCH_THRESHOLD
+      };
+    }
+
+    return {
+      language,
+      name,
+      address: this.collectRegionalAddress(lines, language)
+    };
+  }
+
+  /**
+   * Regional address block: from the script's address label up to the PIN code line
+   */
+  static collectRegionalAddress(lines, language) {
+    const label = this.ADDRESS_LABELS[language];
+    const index = lines.findIndex(line => label.test(line.text));
+    if (index === -1) return null;
+
+    const addressLines = [];
+    const firstLine = lines[index].text.replace(new RegExp(`^.*?${label.source}\\s*[:\\-]?\\s*`), '').trim();
+    if (firstLine) addressLines.push({ ...lines[index], text: firstLine });
+
+    for (const line of lines.slice(index + 1, index + 6)) {
+      if (!this.detectLanguage(line.text) && !/\b[1-9]\d{5}\b/.test(line.text)) break;
+      addressLines.push(line);
+      if (/\b[1-9]\d{5}\b/.test(line.text)) break;
+    }
+
+    if (addressLines.length === 0) return null;
+
+    return {
+      regional: addressLines.map(line => line.text.replace(/,\s*$/, '')).join(', '),
+      confidence: addressLines.reduce((sum, line) => sum + line.confidence, 0) / addressLines.length
+    };
+  }
+
+  static isRegionalNameLike(text, language) {
+    const cleaned = this.cleanRegionalText(text);
+    const words = cleaned.split(/\s+/).filter(Boolean);
+    return words.length >= 1 && words.length <= 5 &&
+      this.countScriptCharacters(cleaned, language) >= cleaned.replace(/\s/g, '').length * 0.8 &&
+      !this.ADDRESS_LABELS[language].test(cleaned) &&
+      !/सरकार|জন্ম|பிறந்த|जन्म|पुरुष|महिला|পুরুষ|মহিলা|ஆண்|பெண்/.test(cleaned);
+  }
+
+  static cleanRegionalText(text) {
+    return text.replace(/[|:;,_"'`~!@#$%^&*()[\]{}<>\/\\]/g, ' ').replace(/\s+/g, ' ').trim();
+  }
+}
+
+export default TransliterationService;
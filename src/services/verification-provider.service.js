@@ -0,0 +1,157 @@
+import { VerificationProviderError } from './providers/errors.js';
+import { StubVerificationProvider } from './providers/stub.provider.js';
+import { NameMatchingService } from './name-matching.service.js';
+
+export { VerificationProviderError };
+
+/**
+ * Verification Provider Service for SAHAJ KYC
+ * Routes government database checks (UIDAI, Income Tax, Passport Seva, RTO, ECI)
+ * to the provider selected by VERIFICATION_PROVIDER, with timeouts and retries.
+ * Providers implement { name, supportedDocuments, verify(request, { signal }) }.
+ */
+export class VerificationProviderService {
+  static DEFAULT_PROVIDER = 'stub';
+  static TIMEOUT_MS = Number(process.env.VERIFICATION_TIMEOUT_MS) || 10000;
+  static MAX_RETRIES = Number(process.env.VERIFICATION_MAX_RETRIES ?? 2);
+  static RETRY_DELAY_MS = 500;
+
+  static providers = {
+    stub: StubVerificationProvider
+  };
+
+  // Format checks run before any provider is called
+  static NUMBER_FORMATS = {
+    aadhaar: { pattern: /^\d{12}$/, normalize: value => value.replace(/[\s-]/g, ''), error: 'Invalid Aadhaar number format' },
+    pan: { pattern: /^[A-Z]{5}\d{4}[A-Z]$/, normalize: value => value.trim().toUpperCase(), error: 'Invalid PAN number format' },
+    passport: { pattern: /^[A-Z]\d{7}$/, normalize: value => value.trim().toUpperCase(), error: 'Invalid passport number format' },
+    license: { pattern: /^[A-Z]{2}-\d{13}$/, normalize: value => value.trim().toUpperCase(), error: 'Invalid driving license number format' },
+    voter_id: { pattern: /^[A-Z]{3}\d{7}$/, normalize: value => value.replace(/\s/g, '').toUpperCase(), error: 'Invalid EPIC number format' }
+  };
+
+  static register(name, provider) {
+    this.providers[name] = provider;
+  }
+
+  /**
+   * The provider named by VERIFICATION_PROVIDER. The stub is the default for
+   * development and sandbox use only; production must configure a real one.
+   */
+  static getProvider(name = process.env.VERIFICATION_PROVIDER || this.DEFAULT_PROVIDER) {
+    const provider = this.providers[name];
+    if (!provider) {
+      throw new VerificationProviderError('PROVIDER_NOT_CONFIGURED', `Unknown verification provider: ${name}`, name);
+    }
+    this.assertUsable(provider, 'VERIFICATION_PROVIDER');
+    return provider;
+  }
+
+  /**
+   * Refuse a stub provider in production, where its made-up answers would pass
+   * as real registry checks. `setting` is the environment variable to fix.
+   */
+  static assertUsable(provider, setting) {
+    if (provider.name === 'stub' && process.env.NODE_ENV === 'production') {
+      throw new VerificationProviderError(
+        'PROVIDER_NOT_CONFIGURED',
+        `${setting} must name a real provider in production; the stub is for development and sandbox use`,
+        provider.name
+      );
+    }
+  }
+
+  /**
+   * Verify a document against its issuing authority's records.
+   * Malformed numbers return an invalid result without calling the provider;
+   * provider failures throw VerificationProviderError once retries are exhausted.
+   * The name on the record is scored against the applicant's (details.nameMatch);
+   * anything short of a match fails the verification, a partial one for review.
+   * options.provider overrides the configured provider.
+   */
+  static async verify(request, options = {}) {
+    const format = this.NUMBER_FORMATS[request.documentType];
+    const provider = this.getProvider(options.provider);
+
+    if (!format || !provider.supportedDocuments.includes(request.documentType)) {
+      throw new VerificationProviderError(
+        'UNSUPPORTED_DOCUMENT',
+        `${provider.name} does not verify ${request.documentType} documents`,
+        provider.name
+      );
+    }
+
+    const documentNumber = format.normalize(request.documentNumber);
+    if (!format.pattern.test(documentNumber)) {
+      return {
+        isValid: false,
+        confidence: 0,
+        verificationSource: provider.name,
+        provider: provider.name,
+        timestamp: new Date().toISOString(),
+        errors: [format.error]
+      };
+    }
+
+    const normalized = { ...request, documentNumber };
+    let attempt = 0;
+    for (;;) {
+      try {
+        return this.matchRecordName(normalized, await this.withTimeout(provider, normalized));
+      } catch (error) {
+        const providerError = error instanceof VerificationProviderError
+          ? error
+          : new VerificationProviderError('UPSTREAM_UNAVAILABLE', error.message, provider.name);
+
+        if (!providerError.retryable || attempt >= this.MAX_RETRIES) throw providerError;
+
+        attempt++;
+        console.warn(`Verification provider ${provider.name} failed (${providerError.code}), retry ${attempt}/${this.MAX_RETRIES}`);
+        await new Promise(resolve => setTimeout(resolve, this.RETRY_DELAY_MS * 2 ** (attempt - 1)));
+      }
+    }
+  }
+
+  static matchRecordName(request, result) {
+    if (!result.isValid || !result.details?.name || !request.name) return result;
+
+    const nameMatch = NameMatchingService.match(request.name, result.details.name);
+    if (nameMatch.status === 'match') {
+      return { ...result, details: { ...result.details, nameMatch } };
+    }
+
+    const partial = nameMatch.status === 'partial';
+    return {
+      ...result,
+      isValid: false,
+      requiresReview: partial,
+      details: { ...result.details, nameMatch },
+      errors: [
+        ...(result.errors || []),
+        partial ? 'Name only partly matches records and needs review' : 'Name does not match records'
+      ]
+    };
+  }
+
+  /**
+   * Run one provider call (verify by default), aborting it after TIMEOUT_MS
+   */
+  static async withTimeout(provider, request, method = 'verify') {
+    const controller = new AbortController();
+    let timer;
+
+    const timeout = new Promise((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new VerificationProviderError('TIMEOUT', `${provider.name} did not respond within ${this.TIMEOUT_MS}ms`, provider.name));
+      }, this.TIMEOUT_MS);
+    });
+
+    try {
+      return await Promise.race([provider[method](request, { signal: controller.signal }), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+export default VerificationProviderService;
@@ -47,11 +47,16 @@ export interface ExtractedDocumentData {
   name?: string;
   fatherName?: string;
   dateOfBirth?: string;
+  gender?: string;
   address?: string;
   idNumber?: string;
   issueDate?: string;
   expiryDate?: string;
   confidence: number; // 0-1
+  isAuthentic?: boolean; // set when read from a signed source (e.g. Aadhaar Secure QR)
+  nameRegional?: string; // name as printed in the card's regional script
+  addressRegional?: string;
+  regionalLanguage?: 'hi' | 'bn' | 'ta';
 }
 
 export interface DocumentValidationResult {
@@ -68,6 +73,79 @@ export interface ValidationIssue {
   message: string;
 }
 
+// Government database verification types
+export type GovernmentDocumentType = 'aadhaar' | 'pan' | 'passport' | 'license' | 'voter_id';
+
+export interface GovernmentVerificationRequest {
+  documentType: GovernmentDocumentType;
+  documentNumber: string;
+  name: string;
+  dateOfBirth?: string;
+  // Father's, husband's or mother's name, as printed on EPIC cards
+  relativeName?: string;
+}
+
+// Score and reasoning from the shared name matcher
+export interface NameMatchResult {
+  score: number; // 0-1
+  status: 'match' | 'partial' | 'mismatch';
+  explanation: string[];
+}
+
+export interface GovernmentVerificationResult {
+  isValid: boolean;
+  confidence: number;
+  verificationSource: string;
+  provider: string;
+  timestamp: string;
+  details?: Record<string, unknown>;
+  errors?: string[];
+}
+
+export type VerificationErrorCode =
+  | 'PROVIDER_NOT_CONFIGURED'
+  | 'UNSUPPORTED_DOCUMENT'
+  | 'TIMEOUT'
+  | 'RATE_LIMITED'
+  | 'UPSTREAM_UNAVAILABLE'
+  | 'AUTHENTICATION_FAILED'
+  | 'INVALID_RESPONSE';
+
+export interface VerificationProvider {
+  name: string;
+  supportedDocuments: GovernmentDocumentType[];
+  verify(
+    request: GovernmentVerificationRequest,
+    options: { signal: AbortSignal }
+  ): Promise<GovernmentVerificationResult>;
+}
+
+// Business KYC (KYB) types
+export type BusinessType = 'private_limited' | 'public_limited' | 'partnership' | 'llp' | 'sole_proprietorship';
+export type BusinessDocumentType = 'gst_certificate' | 'udyam_certificate' | 'incorporation_certificate' | 'partnership_deed';
+
+export interface AuthorizedSignatory {
+  name: string;
+  designation: string;
+  panNumber: string;
+  phone: string;
+  email: string;
+  isDirector: boolean;
+  shareholding?: number;
+  kycApplicationId?: string;
+  kycStatus?: string;
+}
+
+export interface BusinessRegistrationCheck {
+  verified: boolean;
+  registrationStatus?: string;
+  legalName?: string;
+  enterpriseName?: string;
+  nameMatchScore?: number;
+  errors?: string[];
+  verifiedAt?: string;
+}
+
 // Face verification types
 export interface FaceVerificationResult {
   id: string;
@@ -82,6 +160,29 @@ export interface FaceVerificationResult {
   createdAt: Date;
 }
 
+// Where a document portrait was taken from: the Aadhaar Secure QR photo or the printed card
+export type PortraitSource = 'secure_qr' | 'aadhaar' | 'pan' | 'driving_license' | 'passport' | 'voter_id';
+
+export interface DocumentFaceMatch {
+  documentId: string;
+  documentType: DocumentType;
+  source: PortraitSource;
+  distance?: number; // face descriptor distance, absent when no face was found
+  threshold: number;
+  matchScore: number; // 0-1, 0.5 at the threshold
+  isMatch: boolean;
+  error?: string;
+  verificationId?: string; // DOCUMENT_FACE_MATCH FaceVerification
+}
+
+export interface FaceMatchSummary {
+  isMatch: boolean;
+  matchScore: number;
+  matches: DocumentFaceMatch[];
+  reason?: string; // why there is no match to report
+  matchedAt: string;
+}
+
 export interface LivenessCheckResult {
   isLive: boolean;
   confidence: number;
@@ -89,9 +190,18 @@ export interface LivenessCheckResult {
 }
 
 export interface LivenessChallenge {
+  id?: string; // issued by /api/face/challenge
   type: 'blink' | 'smile' | 'turn_head' | 'nod';
+  direction?: 'left' | 'right'; // turn_head only
   completed: boolean;
   confidence: number;
+  durationMs?: number;
+}
+
+// A frame recorded during a liveness challenge, uploaded with the selfie
+export interface LivenessFrameMeta {
+  challengeId: string;
+  timestamp: number; // ms since the epoch, on the device's clock
 }
 
 // DigiLocker types